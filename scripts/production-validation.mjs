@@ -86,6 +86,9 @@ function requireStrictReplayEnv() {
   if (!postgres) {
     missing.push("REPLAY_POSTGRES_URL");
   }
+  if (!String(process.env.STORAGE_POSTGRES_URL || "").trim()) {
+    missing.push("STORAGE_POSTGRES_URL");
+  }
   return {
     ok: missing.length === 0,
     missing,
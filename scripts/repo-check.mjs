@@ -47,6 +47,7 @@ const signatureFiles = [
   "config/policy-catalog.v1.json",
   "config/capability-catalog.v1.json",
   "config/approval-policy-catalog.v1.json",
+  "config/dlp-catalog.v1.json",
 ];
 
 let failures = 0;
@@ -97,6 +98,7 @@ if (!fs.existsSync(gatePath)) {
   const gate = fs.readFileSync(gatePath, "utf8");
   const requiredMarkers = [
     'runtimeEgressGuard.assertAllowed("upstream_base_url")',
+    "egressAllowedPlan(",
     "capabilityPolicy.evaluateToolExecution(",
     "modelRegistry.evaluate(",
     "policyEngine.evaluate(",
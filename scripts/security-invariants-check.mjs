@@ -18,6 +18,7 @@ if (!fs.existsSync(gatePath)) {
   const gate = fs.readFileSync(gatePath, "utf8");
   const requiredMarkers = [
     'runtimeEgressGuard.assertAllowed("upstream_base_url")',
+    "egressAllowedPlan(",
     "capabilityPolicy.evaluateToolExecution(",
     "modelRegistry.evaluate(",
     "policyEngine.evaluate(",
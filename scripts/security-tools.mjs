@@ -234,11 +234,80 @@ function signCapabilityCatalogKeyring(inputPath, keyringPath, outputPath) {
   };
 }
 
-function normalizeApprovalRequirement(input) {
+function normalizeTrimmedList(values) {
+  return (Array.isArray(values) ? values : []).map((v) => String(v).trim()).filter(Boolean);
+}
+
+function canonicalPolicyCatalog(parsed) {
   return {
+    version: parsed.version,
+    high_risk_tools: normalizeTrimmedList(parsed.high_risk_tools),
+    critical_patterns: normalizeTrimmedList(parsed.critical_patterns),
+    high_risk_patterns: normalizeTrimmedList(parsed.high_risk_patterns),
+    ...(parsed.rules !== undefined ? { rules: parsed.rules } : {}),
+  };
+}
+
+function signPolicyCatalog(inputPath, signingKey, outputPath) {
+  const raw = fs.readFileSync(inputPath, "utf8");
+  const canonical = canonicalPolicyCatalog(JSON.parse(raw));
+  const signature = crypto
+    .createHmac("sha256", signingKey)
+    .update(stableStringify(canonical))
+    .digest("hex");
+  const signed = {
+    ...canonical,
+    signature,
+  };
+  writeJson(outputPath || inputPath, signed);
+  return signature;
+}
+
+function signPolicyCatalogKeyring(inputPath, keyringPath, outputPath) {
+  const raw = fs.readFileSync(inputPath, "utf8");
+  const parsed = JSON.parse(raw);
+  const canonical = canonicalPolicyCatalog(parsed);
+  const keyring = loadKeyring(keyringPath);
+  const sig = crypto
+    .createHmac("sha256", String(keyring.keys[keyring.activeKid]))
+    .update(stableStringify(canonical))
+    .digest("hex");
+  const signed = {
+    ...canonical,
+    signature: parsed.signature || "",
+    signature_v2: {
+      kid: keyring.activeKid,
+      sig,
+    },
+  };
+  writeJson(outputPath || inputPath, signed);
+  return {
+    kid: keyring.activeKid,
+    sig,
+  };
+}
+
+function normalizeApprovalRequirement(input) {
+  const requirement = {
     required_approvals: Math.min(5, Math.max(1, Math.floor(Number(input?.required_approvals || 1)))),
     required_roles: normalizeLowerList(input?.required_roles),
   };
+  if (input?.escalation !== undefined) {
+    const escalation = input.escalation || {};
+    const minutes = (value) => (value === undefined || value === null ? null : Number(value));
+    requirement.escalation = {
+      reminder_after_minutes: minutes(escalation.reminder_after_minutes),
+      escalate_after_minutes: minutes(escalation.escalate_after_minutes),
+      escalate_to_roles: normalizeLowerList(escalation.escalate_to_roles),
+      expiry_outcome: String(escalation.expiry_outcome ?? "expire").trim().toLowerCase(),
+    };
+  }
+  if (input?.bind_arguments !== undefined) {
+    requirement.bind_arguments = [
+      ...new Set((input.bind_arguments || []).map((value) => String(value ?? "").trim()).filter(Boolean)),
+    ].sort();
+  }
+  return requirement;
 }
 
 function signApprovalPolicyCatalog(inputPath, signingKey, outputPath) {
@@ -269,6 +338,173 @@ function signApprovalPolicyCatalog(inputPath, signingKey, outputPath) {
   return signature;
 }
 
+const PRICING_ENTRY_FIELDS = [
+  "model",
+  "input_usd_per_1k",
+  "output_usd_per_1k",
+  "cached_input_usd_per_1k",
+  "reasoning_usd_per_1k",
+  "image_usd",
+  "audio_usd_per_second",
+  "effective_from",
+  "effective_to",
+  "tokenizer",
+];
+
+function canonicalPricingCatalog(parsed) {
+  return {
+    version: String(parsed.version || "v1"),
+    models: (Array.isArray(parsed.models) ? parsed.models : []).map((entry) =>
+      Object.fromEntries(
+        PRICING_ENTRY_FIELDS.filter((field) => entry[field] !== undefined).map((field) => [field, entry[field]]),
+      ),
+    ),
+  };
+}
+
+function signPricingCatalog(inputPath, signingKey, outputPath) {
+  const parsed = JSON.parse(fs.readFileSync(inputPath, "utf8"));
+  const canonical = canonicalPricingCatalog(parsed);
+  const signature = crypto
+    .createHmac("sha256", signingKey)
+    .update(stableStringify(canonical))
+    .digest("hex");
+  writeJson(outputPath || inputPath, { ...canonical, signature });
+  return signature;
+}
+
+function signPricingCatalogKeyring(inputPath, keyringPath, outputPath) {
+  const parsed = JSON.parse(fs.readFileSync(inputPath, "utf8"));
+  const canonical = canonicalPricingCatalog(parsed);
+  const keyring = loadKeyring(keyringPath);
+  const sig = crypto
+    .createHmac("sha256", String(keyring.keys[keyring.activeKid]))
+    .update(stableStringify(canonical))
+    .digest("hex");
+  writeJson(outputPath || inputPath, {
+    ...canonical,
+    signature: parsed.signature || "",
+    signature_v2: {
+      kid: keyring.activeKid,
+      sig,
+    },
+  });
+  return {
+    kid: keyring.activeKid,
+    sig,
+  };
+}
+
+function canonicalModelSubstitutionCatalog(parsed) {
+  return {
+    version: String(parsed.version || "v1"),
+    default_threshold_pct: Number(parsed.default_threshold_pct ?? 80),
+    substitutions: (Array.isArray(parsed.substitutions) ? parsed.substitutions : []).map((entry) => {
+      const rule = {
+        from: String(entry?.from || "").trim().toLowerCase(),
+        to: (Array.isArray(entry?.to) ? entry.to : [])
+          .map((model) => String(model || "").trim().toLowerCase())
+          .filter(Boolean),
+      };
+      if (entry?.threshold_pct !== undefined) {
+        rule.threshold_pct = Number(entry.threshold_pct);
+      }
+      return rule;
+    }),
+  };
+}
+
+function signModelSubstitutionCatalog(inputPath, signingKey, outputPath) {
+  const parsed = JSON.parse(fs.readFileSync(inputPath, "utf8"));
+  const canonical = canonicalModelSubstitutionCatalog(parsed);
+  const signature = crypto
+    .createHmac("sha256", signingKey)
+    .update(stableStringify(canonical))
+    .digest("hex");
+  writeJson(outputPath || inputPath, { ...canonical, signature });
+  return signature;
+}
+
+function signModelSubstitutionCatalogKeyring(inputPath, keyringPath, outputPath) {
+  const parsed = JSON.parse(fs.readFileSync(inputPath, "utf8"));
+  const canonical = canonicalModelSubstitutionCatalog(parsed);
+  const keyring = loadKeyring(keyringPath);
+  const sig = crypto
+    .createHmac("sha256", String(keyring.keys[keyring.activeKid]))
+    .update(stableStringify(canonical))
+    .digest("hex");
+  writeJson(outputPath || inputPath, {
+    ...canonical,
+    signature: parsed.signature || "",
+    signature_v2: {
+      kid: keyring.activeKid,
+      sig,
+    },
+  });
+  return {
+    kid: keyring.activeKid,
+    sig,
+  };
+}
+
+function canonicalDlpCatalog(parsed) {
+  return {
+    version: String(parsed.version || "v1"),
+    default_action: String(parsed.default_action || "mask").trim().toLowerCase(),
+    detectors: (Array.isArray(parsed.detectors) ? parsed.detectors : []).map((entry) => {
+      const rule = {
+        id: String(entry?.id || "").trim().toLowerCase(),
+        category: String(entry?.category || "").trim().toLowerCase(),
+        pattern: String(entry?.pattern || ""),
+      };
+      const flags = String(entry?.flags || "").trim();
+      if (flags) {
+        rule.flags = flags;
+      }
+      if (entry?.validator !== undefined) {
+        rule.validator = String(entry.validator).trim().toLowerCase();
+      }
+      if (entry?.action !== undefined) {
+        rule.action = String(entry.action).trim().toLowerCase();
+      }
+      return rule;
+    }),
+  };
+}
+
+function signDlpCatalog(inputPath, signingKey, outputPath) {
+  const parsed = JSON.parse(fs.readFileSync(inputPath, "utf8"));
+  const canonical = canonicalDlpCatalog(parsed);
+  const signature = crypto
+    .createHmac("sha256", signingKey)
+    .update(stableStringify(canonical))
+    .digest("hex");
+  writeJson(outputPath || inputPath, { ...canonical, signature });
+  return signature;
+}
+
+function signDlpCatalogKeyring(inputPath, keyringPath, outputPath) {
+  const parsed = JSON.parse(fs.readFileSync(inputPath, "utf8"));
+  const canonical = canonicalDlpCatalog(parsed);
+  const keyring = loadKeyring(keyringPath);
+  const sig = crypto
+    .createHmac("sha256", String(keyring.keys[keyring.activeKid]))
+    .update(stableStringify(canonical))
+    .digest("hex");
+  writeJson(outputPath || inputPath, {
+    ...canonical,
+    signature: parsed.signature || "",
+    signature_v2: {
+      kid: keyring.activeKid,
+      sig,
+    },
+  });
+  return {
+    kid: keyring.activeKid,
+    sig,
+  };
+}
+
 function signApprovalPolicyCatalogKeyring(inputPath, keyringPath, outputPath) {
   const raw = fs.readFileSync(inputPath, "utf8");
   const parsed = JSON.parse(raw);
@@ -619,10 +855,18 @@ function usage() {
       "  node scripts/security-tools.mjs sign-control-catalog-keyring <inputPath> <keyringPath> [outputPath]",
       "  node scripts/security-tools.mjs sign-connector-catalog <inputPath> <signingKey> [outputPath]",
       "  node scripts/security-tools.mjs sign-destination-policy <inputPath> <signingKey> [outputPath]",
+      "  node scripts/security-tools.mjs sign-policy-catalog <inputPath> <signingKey> [outputPath]",
+      "  node scripts/security-tools.mjs sign-policy-catalog-keyring <inputPath> <keyringPath> [outputPath]",
       "  node scripts/security-tools.mjs sign-capability-catalog <inputPath> <signingKey> [outputPath]",
       "  node scripts/security-tools.mjs sign-capability-catalog-keyring <inputPath> <keyringPath> [outputPath]",
       "  node scripts/security-tools.mjs sign-approval-policy-catalog <inputPath> <signingKey> [outputPath]",
       "  node scripts/security-tools.mjs sign-approval-policy-catalog-keyring <inputPath> <keyringPath> [outputPath]",
+      "  node scripts/security-tools.mjs sign-pricing-catalog <inputPath> <signingKey> [outputPath]",
+      "  node scripts/security-tools.mjs sign-pricing-catalog-keyring <inputPath> <keyringPath> [outputPath]",
+      "  node scripts/security-tools.mjs sign-model-substitution-catalog <inputPath> <signingKey> [outputPath]",
+      "  node scripts/security-tools.mjs sign-model-substitution-catalog-keyring <inputPath> <keyringPath> [outputPath]",
+      "  node scripts/security-tools.mjs sign-dlp-catalog <inputPath> <signingKey> [outputPath]",
+      "  node scripts/security-tools.mjs sign-dlp-catalog-keyring <inputPath> <keyringPath> [outputPath]",
       "  node scripts/security-tools.mjs verify-attestation-snapshot <snapshotPath> [signingKey]",
       "  node scripts/security-tools.mjs verify-attestation-chain <chainPath> [signingKey]",
       "  node scripts/security-tools.mjs verify-attestation-snapshot-keyring <snapshotPath> <keyringPath>",
@@ -701,6 +945,36 @@ function main() {
       console.log(signature);
       break;
     }
+    case "sign-policy-catalog": {
+      if (args.length < 2) {
+        usage();
+        process.exit(1);
+      }
+      const [inputPath, signingKey, outputPath] = args;
+      const signature = signPolicyCatalog(
+        path.resolve(inputPath),
+        signingKey,
+        outputPath ? path.resolve(outputPath) : "",
+      );
+      // eslint-disable-next-line no-console
+      console.log(signature);
+      break;
+    }
+    case "sign-policy-catalog-keyring": {
+      if (args.length < 2) {
+        usage();
+        process.exit(1);
+      }
+      const [inputPath, keyringPath, outputPath] = args;
+      const signed = signPolicyCatalogKeyring(
+        path.resolve(inputPath),
+        path.resolve(keyringPath),
+        outputPath ? path.resolve(outputPath) : "",
+      );
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(signed, null, 2));
+      break;
+    }
     case "sign-capability-catalog": {
       if (args.length < 2) {
         usage();
@@ -761,6 +1035,92 @@ function main() {
       console.log(JSON.stringify(signed, null, 2));
       break;
     }
+    case "sign-pricing-catalog": {
+      if (args.length < 2) {
+        usage();
+        process.exit(1);
+      }
+      const [inputPath, signingKey, outputPath] = args;
+      const signature = signPricingCatalog(
+        path.resolve(inputPath),
+        signingKey,
+        outputPath ? path.resolve(outputPath) : "",
+      );
+      // eslint-disable-next-line no-console
+      console.log(signature);
+      break;
+    }
+    case "sign-pricing-catalog-keyring": {
+      if (args.length < 2) {
+        usage();
+        process.exit(1);
+      }
+      const [inputPath, keyringPath, outputPath] = args;
+      const signed = signPricingCatalogKeyring(
+        path.resolve(inputPath),
+        path.resolve(keyringPath),
+        outputPath ? path.resolve(outputPath) : "",
+      );
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(signed, null, 2));
+      break;
+    }
+    case "sign-model-substitution-catalog": {
+      if (args.length < 2) {
+        usage();
+        process.exit(1);
+      }
+      const [inputPath, signingKey, outputPath] = args;
+      const signature = signModelSubstitutionCatalog(
+        path.resolve(inputPath),
+        signingKey,
+        outputPath ? path.resolve(outputPath) : "",
+      );
+      // eslint-disable-next-line no-console
+      console.log(signature);
+      break;
+    }
+    case "sign-model-substitution-catalog-keyring": {
+      if (args.length < 2) {
+        usage();
+        process.exit(1);
+      }
+      const [inputPath, keyringPath, outputPath] = args;
+      const signed = signModelSubstitutionCatalogKeyring(
+        path.resolve(inputPath),
+        path.resolve(keyringPath),
+        outputPath ? path.resolve(outputPath) : "",
+      );
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(signed, null, 2));
+      break;
+    }
+    case "sign-dlp-catalog": {
+      if (args.length < 2) {
+        usage();
+        process.exit(1);
+      }
+      const [inputPath, signingKey, outputPath] = args;
+      const signature = signDlpCatalog(path.resolve(inputPath), signingKey, outputPath ? path.resolve(outputPath) : "");
+      // eslint-disable-next-line no-console
+      console.log(signature);
+      break;
+    }
+    case "sign-dlp-catalog-keyring": {
+      if (args.length < 2) {
+        usage();
+        process.exit(1);
+      }
+      const [inputPath, keyringPath, outputPath] = args;
+      const signed = signDlpCatalogKeyring(
+        path.resolve(inputPath),
+        path.resolve(keyringPath),
+        outputPath ? path.resolve(outputPath) : "",
+      );
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(signed, null, 2));
+      break;
+    }
     case "verify-attestation-snapshot": {
       if (args.length < 1) {
         usage();
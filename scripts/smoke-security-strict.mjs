@@ -7,6 +7,7 @@ const result = spawnSync(npmCommand, ["run", "smoke:security"], {
   env: {
     ...process.env,
     REPLAY_SMOKE_STRICT: "true",
+    STORAGE_SMOKE_STRICT: "true",
   },
 });
 
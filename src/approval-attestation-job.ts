@@ -60,7 +60,7 @@ export class ApprovalAttestationJobService {
         this.options.snapshotDirectory,
         `approval-attestation-${stamp}.json`,
       );
-      const result = this.attestationService.exportSealedSnapshot({
+      const result = await this.attestationService.exportSealedSnapshot({
         snapshotPath,
         chainPath: this.options.chainPath,
         limit: this.options.maxRecordsPerExport,
@@ -9,7 +9,12 @@ import {
   verifyWithAnyKey,
   verifyWithKeyring,
 } from "./hmac-keyring";
-import type { ApprovalRecord, ApprovalService } from "./approval-service";
+import type {
+  ApprovalDelegationRecord,
+  ApprovalRecord,
+  ApprovalService,
+  StandingApprovalRecord,
+} from "./approval-service";
 import { stableStringify } from "./utils";
 
 const GENESIS_HASH = "0".repeat(64);
@@ -30,16 +35,30 @@ export interface ApprovalAttestationEntry {
   reason: string;
   resolved_by: string | null;
   resolved_at: string | null;
+  approval_delegations?: Record<string, string>;
   metadata: unknown;
   previous_hash: string;
   entry_hash: string;
 }
 
+export interface ApprovalDelegationAttestationEntry extends ApprovalDelegationRecord {
+  previous_hash: string;
+  entry_hash: string;
+}
+
+export interface StandingApprovalAttestationEntry extends Omit<StandingApprovalRecord, "scope"> {
+  scope: unknown;
+  previous_hash: string;
+  entry_hash: string;
+}
+
 export interface ApprovalAttestationPayload {
   generated_at: string;
   since: string | null;
   count: number;
   entries: ApprovalAttestationEntry[];
+  delegations?: ApprovalDelegationAttestationEntry[];
+  standing_approvals?: StandingApprovalAttestationEntry[];
   final_hash: string;
   signature: string | null;
   signature_kid: string | null;
@@ -112,7 +131,7 @@ function parseRequiredRoles(raw: string): string[] {
   }
 }
 
-function parseApprovalActorRoles(raw: string): Record<string, string> {
+function parseApprovalActorRoles(raw: string, lowercaseValues = true): Record<string, string> {
   try {
     const parsed = JSON.parse(raw);
     if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
@@ -121,7 +140,7 @@ function parseApprovalActorRoles(raw: string): Record<string, string> {
     const out: Record<string, string> = {};
     for (const [actor, role] of Object.entries(parsed as Record<string, unknown>)) {
       const actorKey = String(actor || "").trim();
-      const roleValue = String(role || "").trim().toLowerCase();
+      const roleValue = lowercaseValues ? String(role || "").trim().toLowerCase() : String(role || "").trim();
       if (!actorKey || !roleValue) {
         continue;
       }
@@ -157,15 +176,26 @@ function normalizeUseCount(value: number): number {
   return Math.max(0, Math.floor(numeric));
 }
 
+// Escalation bookkeeping is not part of the attested record, and approval_delegations only when non-empty, so
+// snapshots sealed before either existed still verify.
 function entryHash(input: {
   previousHash: string;
-  record: ApprovalRecord;
+  record: Omit<
+    ApprovalRecord,
+    "escalation_policy" | "reminded_at" | "escalated_at" | "expiry_reported_at" | "approval_delegations"
+  >;
+  approvalDelegations?: Record<string, string>;
   metadata: unknown;
 }): string {
+  const delegations =
+    input.approvalDelegations && Object.keys(input.approvalDelegations).length > 0
+      ? { approval_delegations: input.approvalDelegations }
+      : {};
   return crypto
     .createHash("sha256")
     .update(
       stableStringify({
+        ...delegations,
         previous_hash: input.previousHash,
         id: input.record.id,
         created_at: input.record.created_at,
@@ -188,6 +218,38 @@ function entryHash(input: {
     .digest("hex");
 }
 
+// Delegations and standing approvals continue the approval hash chain, so final_hash covers them too.
+function grantEntryHash(
+  kind: "delegation" | "standing_approval",
+  previousHash: string,
+  fields: Record<string, unknown>,
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(stableStringify({ ...fields, kind, previous_hash: previousHash }))
+    .digest("hex");
+}
+
+function parseScope(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return { parse_error: true, raw };
+  }
+}
+
+function signedCanonical(payload: ApprovalAttestationPayload): string {
+  return stableStringify({
+    generated_at: payload.generated_at,
+    since: payload.since,
+    count: payload.count,
+    entries: payload.entries,
+    ...(payload.delegations !== undefined ? { delegations: payload.delegations } : {}),
+    ...(payload.standing_approvals !== undefined ? { standing_approvals: payload.standing_approvals } : {}),
+    final_hash: payload.final_hash,
+  });
+}
+
 function payloadHash(payload: ApprovalAttestationPayload): string {
   return crypto.createHash("sha256").update(stableStringify(payload)).digest("hex");
 }
@@ -276,16 +338,18 @@ export class ApprovalAttestationService {
     };
   }
 
-  generate(limit = 1000, since = ""): ApprovalAttestationPayload {
-    const rows = this.approvalService.listForAttestation(limit, since);
+  async generate(limit = 1000, since = ""): Promise<ApprovalAttestationPayload> {
+    const rows = await this.approvalService.listForAttestation(limit, since);
     let previousHash = GENESIS_HASH;
     const entries: ApprovalAttestationEntry[] = [];
 
     for (const row of rows) {
       const metadata = parseMetadata(row.metadata);
+      const approvalDelegations = parseApprovalActorRoles(row.approval_delegations, false);
       const hash = entryHash({
         previousHash,
         record: row,
+        approvalDelegations,
         metadata,
       });
       const entry: ApprovalAttestationEntry = {
@@ -304,6 +368,7 @@ export class ApprovalAttestationService {
         reason: row.reason,
         resolved_by: row.resolved_by,
         resolved_at: row.resolved_at,
+        ...(Object.keys(approvalDelegations).length > 0 ? { approval_delegations: approvalDelegations } : {}),
         metadata,
         previous_hash: previousHash,
         entry_hash: hash,
@@ -312,23 +377,33 @@ export class ApprovalAttestationService {
       previousHash = hash;
     }
 
+    const delegations: ApprovalDelegationAttestationEntry[] = [];
+    for (const row of await this.approvalService.listDelegationsForAttestation(limit, since)) {
+      const hash = grantEntryHash("delegation", previousHash, { ...row });
+      delegations.push({ ...row, previous_hash: previousHash, entry_hash: hash });
+      previousHash = hash;
+    }
+    const standingApprovals: StandingApprovalAttestationEntry[] = [];
+    for (const row of await this.approvalService.listStandingApprovalsForAttestation(limit, since)) {
+      const fields = { ...row, scope: parseScope(row.scope) };
+      const hash = grantEntryHash("standing_approval", previousHash, fields);
+      standingApprovals.push({ ...fields, previous_hash: previousHash, entry_hash: hash });
+      previousHash = hash;
+    }
+
     const unsigned: ApprovalAttestationPayload = {
       generated_at: new Date().toISOString(),
       since: since.trim() || null,
       count: entries.length,
       entries,
+      delegations,
+      standing_approvals: standingApprovals,
       final_hash: previousHash,
       signature: null,
       signature_kid: null,
     };
 
-    const canonical = stableStringify({
-      generated_at: unsigned.generated_at,
-      since: unsigned.since,
-      count: unsigned.count,
-      entries: unsigned.entries,
-      final_hash: unsigned.final_hash,
-    });
+    const canonical = signedCanonical(unsigned);
 
     if (this.signingKeyring) {
       const v2 = signWithKeyring(canonical, this.signingKeyring);
@@ -348,15 +423,15 @@ export class ApprovalAttestationService {
     return unsigned;
   }
 
-  exportToFile(options?: { path?: string; limit?: number; since?: string }): {
+  async exportToFile(options?: { path?: string; limit?: number; since?: string }): Promise<{
     output_path: string;
     count: number;
     final_hash: string;
     signature: string | null;
     signature_kid: string | null;
-  } {
+  }> {
     const outPath = (options?.path || "").trim() || this.defaultExportPath;
-    const payload = this.generate(options?.limit ?? 1000, options?.since ?? "");
+    const payload = await this.generate(options?.limit ?? 1000, options?.since ?? "");
     fs.mkdirSync(path.dirname(outPath), { recursive: true });
     fs.writeFileSync(outPath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
     return {
@@ -368,12 +443,12 @@ export class ApprovalAttestationService {
     };
   }
 
-  exportSealedSnapshot(options?: {
+  async exportSealedSnapshot(options?: {
     snapshotPath?: string;
     chainPath?: string;
     limit?: number;
     since?: string;
-  }): {
+  }): Promise<{
     snapshot_path: string;
     chain_path: string;
     count: number;
@@ -384,10 +459,10 @@ export class ApprovalAttestationService {
     previous_snapshot_hash: string;
     payload_hash: string;
     generated_at: string;
-  } {
+  }> {
     const snapshotPath = (options?.snapshotPath || "").trim() || this.defaultExportPath;
     const chainPath = (options?.chainPath || "").trim() || `${snapshotPath}.chain.jsonl`;
-    const payload = this.generate(options?.limit ?? 1000, options?.since ?? "");
+    const payload = await this.generate(options?.limit ?? 1000, options?.since ?? "");
 
     fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
     fs.mkdirSync(path.dirname(chainPath), { recursive: true });
@@ -502,6 +577,7 @@ export class ApprovalAttestationService {
           resolved_by: entry.resolved_by,
           resolved_at: entry.resolved_at,
         },
+        approvalDelegations: entry.approval_delegations,
         metadata: entry.metadata,
       });
       if (expected !== entry.entry_hash) {
@@ -512,19 +588,37 @@ export class ApprovalAttestationService {
       previousHash = entry.entry_hash;
     }
 
+    const grants: Array<["delegation" | "standing_approval", Array<{ previous_hash: string; entry_hash: string }>]> = [
+      ["delegation", Array.isArray(payload.delegations) ? [...payload.delegations] : []],
+      ["standing_approval", Array.isArray(payload.standing_approvals) ? [...payload.standing_approvals] : []],
+    ];
+    for (const [kind, grantEntries] of grants) {
+      for (const grant of grantEntries) {
+        if (!valid) {
+          break;
+        }
+        const { previous_hash: grantPreviousHash, entry_hash: grantEntryHashValue, ...fields } = grant;
+        if (grantPreviousHash !== previousHash) {
+          valid = false;
+          reason = `${kind === "delegation" ? "Delegation" : "Standing approval"} previous_hash mismatch.`;
+          break;
+        }
+        if (grantEntryHash(kind, previousHash, fields) !== grantEntryHashValue) {
+          valid = false;
+          reason = `${kind === "delegation" ? "Delegation" : "Standing approval"} hash mismatch.`;
+          break;
+        }
+        previousHash = grantEntryHashValue;
+      }
+    }
+
     if (valid && payload.final_hash !== previousHash) {
       valid = false;
       reason = "Final hash mismatch.";
     }
 
     let signatureValid: boolean | null = null;
-    const canonical = stableStringify({
-      generated_at: payload.generated_at,
-      since: payload.since,
-      count: payload.count,
-      entries: payload.entries,
-      final_hash: payload.final_hash,
-    });
+    const canonical = signedCanonical(payload);
     if (this.signingKeyring) {
       if (payload.signature && payload.signature_kid) {
         signatureValid = verifyWithKeyring(
@@ -0,0 +1,112 @@
+import type { AuditLedger } from "./audit-ledger";
+import {
+  APPROVAL_EXPIRY_ACTOR,
+  type ApprovalEscalationSweep,
+  type ApprovalRecord,
+  ApprovalService,
+} from "./approval-service";
+
+export interface ApprovalEscalationJobOptions {
+  enabled: boolean;
+  intervalSeconds: number;
+}
+
+// Delivery side effects (alerts, chat notifications) belong to the caller; the job owns the audit trail.
+export interface ApprovalEscalationHandlers {
+  onReminder?: (record: ApprovalRecord) => void;
+  onEscalation?: (record: ApprovalRecord, addedRoles: string[]) => void;
+  onExpiry?: (record: ApprovalRecord) => void;
+}
+
+export class ApprovalEscalationJobService {
+  private options: ApprovalEscalationJobOptions;
+  private approvalService: ApprovalService;
+  private ledger: AuditLedger;
+  private handlers: ApprovalEscalationHandlers;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    options: ApprovalEscalationJobOptions,
+    approvalService: ApprovalService,
+    ledger: AuditLedger,
+    handlers: ApprovalEscalationHandlers = {},
+  ) {
+    this.options = options;
+    this.approvalService = approvalService;
+    this.ledger = ledger;
+    this.handlers = handlers;
+  }
+
+  start(): void {
+    if (!this.options.enabled) {
+      return;
+    }
+    const intervalMs = Math.max(5, this.options.intervalSeconds) * 1000;
+    this.timer = setInterval(() => {
+      void this.runNow();
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runNow(now = new Date()): Promise<ApprovalEscalationSweep | null> {
+    let sweep: ApprovalEscalationSweep;
+    try {
+      sweep = await this.approvalService.sweepEscalations(now);
+    } catch (error) {
+      this.ledger.logAndSignAction("SYSTEM_ERROR", {
+        module: "approval-escalation-job",
+        stage: "sweep",
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+
+    for (const record of sweep.reminders) {
+      this.ledger.logAndSignAction("APPROVAL_REMINDER_SENT", {
+        approval_id: record.id,
+        created_at: record.created_at,
+        expires_at: record.expires_at,
+        approvals_received: this.countActors(record),
+        required_approvals: record.required_approvals,
+      });
+      this.handlers.onReminder?.(record);
+    }
+    for (const { record, addedRoles } of sweep.escalations) {
+      this.ledger.logAndSignAction("APPROVAL_ESCALATED", {
+        approval_id: record.id,
+        added_roles: addedRoles,
+        required_roles: record.required_roles,
+        expires_at: record.expires_at,
+      });
+      this.handlers.onEscalation?.(record, addedRoles);
+    }
+    for (const record of sweep.expirations) {
+      const autoDenied = record.status === "denied" && record.resolved_by === APPROVAL_EXPIRY_ACTOR;
+      this.ledger.logAndSignAction(autoDenied ? "APPROVAL_AUTO_DENIED" : "APPROVAL_EXPIRED", {
+        approval_id: record.id,
+        outcome: record.status,
+        expires_at: record.expires_at,
+        approvals_received: this.countActors(record),
+        required_approvals: record.required_approvals,
+      });
+      this.handlers.onExpiry?.(record);
+    }
+    return sweep;
+  }
+
+  private countActors(record: ApprovalRecord): number {
+    try {
+      const actors = JSON.parse(record.approval_actors);
+      return Array.isArray(actors) ? actors.length : 0;
+    } catch {
+      return 0;
+    }
+  }
+}
@@ -9,9 +9,32 @@ import {
 import type { PolicyDecision } from "./policy-engine";
 import { stableStringify } from "./utils";
 
+interface ApprovalEscalationFile {
+  reminder_after_minutes?: number;
+  escalate_after_minutes?: number;
+  escalate_to_roles?: string[];
+  expiry_outcome?: string;
+}
+
 interface ApprovalRequirementFile {
   required_approvals?: number;
   required_roles?: string[];
+  escalation?: ApprovalEscalationFile;
+  bind_arguments?: string[];
+}
+
+interface CanonicalEscalation {
+  reminder_after_minutes: number | null;
+  escalate_after_minutes: number | null;
+  escalate_to_roles: string[];
+  expiry_outcome: ApprovalExpiryOutcome;
+}
+
+interface CanonicalRequirement {
+  required_approvals: number;
+  required_roles: string[];
+  escalation?: CanonicalEscalation;
+  bind_arguments?: string[];
 }
 
 interface ApprovalPolicyCatalogFile {
@@ -27,9 +50,30 @@ interface ApprovalPolicyCatalogFile {
   };
 }
 
+export type ApprovalExpiryOutcome = "expire" | "deny";
+
+// Timers are measured from approval creation. The policy is captured on the approval record when it is created,
+// so a catalog reload only affects approvals created afterwards.
+export interface ApprovalEscalationPolicy {
+  reminderAfterMinutes: number | null;
+  escalateAfterMinutes: number | null;
+  escalateToRoles: string[];
+  expiryOutcome: ApprovalExpiryOutcome;
+}
+
 export interface ApprovalRequirement {
   requiredApprovals: number;
   requiredRoles: string[];
+  escalation?: ApprovalEscalationPolicy;
+  // Tool overrides only: JSON paths into the tool call arguments that an approval is bound to.
+  bindArguments?: string[];
+}
+
+// An approval bound to the security-relevant parts of a request: the tool names it declares or calls and, for
+// each call, only the argument values selected by bind_arguments.
+export interface ApprovalBinding {
+  tools: string[];
+  calls: Array<{ tool: string; arguments: Record<string, unknown> }>;
 }
 
 export interface ApprovalPolicyState {
@@ -74,47 +118,156 @@ function normalizeRoles(values: string[] | undefined): string[] {
   return [...new Set(normalized)].sort();
 }
 
-function normalizeRequirement(fileReq: ApprovalRequirementFile | undefined): ApprovalRequirement {
+function normalizeMinutes(value: number | undefined, field: string): number | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric) || numeric <= 0) {
+    throw new Error(`Approval policy escalation ${field} must be a positive number of minutes.`);
+  }
+  return numeric;
+}
+
+function canonicalEscalation(fileEscalation: ApprovalEscalationFile): CanonicalEscalation {
+  if (!fileEscalation || typeof fileEscalation !== "object" || Array.isArray(fileEscalation)) {
+    throw new Error("Approval policy escalation must be an object.");
+  }
+  const expiryOutcome = String(fileEscalation.expiry_outcome ?? "expire").trim().toLowerCase();
+  if (expiryOutcome !== "expire" && expiryOutcome !== "deny") {
+    throw new Error("Approval policy escalation expiry_outcome must be expire or deny.");
+  }
+  const escalation: CanonicalEscalation = {
+    reminder_after_minutes: normalizeMinutes(fileEscalation.reminder_after_minutes, "reminder_after_minutes"),
+    escalate_after_minutes: normalizeMinutes(fileEscalation.escalate_after_minutes, "escalate_after_minutes"),
+    escalate_to_roles: normalizeRoles(fileEscalation.escalate_to_roles),
+    expiry_outcome: expiryOutcome,
+  };
+  if ((escalation.escalate_after_minutes === null) !== (escalation.escalate_to_roles.length === 0)) {
+    throw new Error("Approval policy escalation needs both escalate_after_minutes and escalate_to_roles.");
+  }
+  return escalation;
+}
+
+const ARGUMENT_PATH_PATTERN = /^\$(?:\.[A-Za-z0-9_-]+|\[\d+\])+$/;
+
+function canonicalBindArguments(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    throw new Error("Approval policy bind_arguments must be an array of JSON paths.");
+  }
+  const paths = [...new Set(value.map((item) => String(item ?? "").trim()).filter(Boolean))].sort();
+  if (paths.length === 0) {
+    throw new Error("Approval policy bind_arguments must list at least one JSON path.");
+  }
+  for (const argumentPath of paths) {
+    if (!ARGUMENT_PATH_PATTERN.test(argumentPath)) {
+      throw new Error(`Approval policy bind_arguments path is invalid: ${argumentPath}`);
+    }
+  }
+  return paths;
+}
+
+function selectArgumentPath(args: unknown, argumentPath: string): { found: boolean; value: unknown } {
+  let current: unknown = args;
+  for (const [, key, index] of argumentPath.slice(1).matchAll(/\.([A-Za-z0-9_-]+)|\[(\d+)\]/g)) {
+    if (index !== undefined) {
+      if (!Array.isArray(current) || Number(index) >= current.length) {
+        return { found: false, value: undefined };
+      }
+      current = current[Number(index)];
+    } else {
+      if (!current || typeof current !== "object" || Array.isArray(current) || !(key in current)) {
+        return { found: false, value: undefined };
+      }
+      current = (current as Record<string, unknown>)[key];
+    }
+  }
+  return { found: current !== undefined, value: current };
+}
+
+// escalation and bind_arguments are only part of the canonical payload when present, so catalogs signed before
+// they existed still verify.
+function canonicalRequirement(
+  fileReq: ApprovalRequirementFile | undefined,
+  allowBindArguments = false,
+): CanonicalRequirement {
+  const requirement: CanonicalRequirement = {
+    required_approvals: normalizeRequiredApprovals(fileReq?.required_approvals),
+    required_roles: normalizeRoles(fileReq?.required_roles),
+  };
+  if (fileReq?.escalation !== undefined) {
+    requirement.escalation = canonicalEscalation(fileReq.escalation);
+  }
+  if (fileReq?.bind_arguments !== undefined) {
+    if (!allowBindArguments) {
+      throw new Error("Approval policy bind_arguments is only supported in tool_overrides.");
+    }
+    requirement.bind_arguments = canonicalBindArguments(fileReq.bind_arguments);
+  }
+  return requirement;
+}
+
+function toRequirement(canonical: CanonicalRequirement): ApprovalRequirement {
+  const requirement: ApprovalRequirement = {
+    requiredApprovals: canonical.required_approvals,
+    requiredRoles: [...canonical.required_roles],
+  };
+  if (canonical.escalation) {
+    requirement.escalation = {
+      reminderAfterMinutes: canonical.escalation.reminder_after_minutes,
+      escalateAfterMinutes: canonical.escalation.escalate_after_minutes,
+      escalateToRoles: [...canonical.escalation.escalate_to_roles],
+      expiryOutcome: canonical.escalation.expiry_outcome,
+    };
+  }
+  if (canonical.bind_arguments) {
+    requirement.bindArguments = [...canonical.bind_arguments];
+  }
+  return requirement;
+}
+
+// The strictest timers win: the earliest reminder and escalation, the union of escalation roles, and deny on
+// expiry when any matching rule asks for it.
+function mergeEscalations(policies: ApprovalEscalationPolicy[]): ApprovalEscalationPolicy {
+  const earliest = (values: Array<number | null>): number | null => {
+    const set = values.filter((value): value is number => value !== null);
+    return set.length > 0 ? Math.min(...set) : null;
+  };
   return {
-    requiredApprovals: normalizeRequiredApprovals(fileReq?.required_approvals),
-    requiredRoles: normalizeRoles(fileReq?.required_roles),
+    reminderAfterMinutes: earliest(policies.map((policy) => policy.reminderAfterMinutes)),
+    escalateAfterMinutes: earliest(policies.map((policy) => policy.escalateAfterMinutes)),
+    escalateToRoles: normalizeRoles(policies.flatMap((policy) => policy.escalateToRoles)),
+    expiryOutcome: policies.some((policy) => policy.expiryOutcome === "deny") ? "deny" : "expire",
   };
 }
 
 function canonicalPayload(parsed: ApprovalPolicyCatalogFile): {
   version: string;
-  defaults: { required_approvals: number; required_roles: string[] };
-  risk_class_overrides: Record<string, { required_approvals: number; required_roles: string[] }>;
-  tool_overrides: Record<string, { required_approvals: number; required_roles: string[] }>;
-  channel_action_overrides: Record<string, { required_approvals: number; required_roles: string[] }>;
+  defaults: CanonicalRequirement;
+  risk_class_overrides: Record<string, CanonicalRequirement>;
+  tool_overrides: Record<string, CanonicalRequirement>;
+  channel_action_overrides: Record<string, CanonicalRequirement>;
 } {
-  const defaults = normalizeRequirement(parsed.defaults);
   const normalizeMap = (
     source: Record<string, ApprovalRequirementFile> | undefined,
-  ): Record<string, { required_approvals: number; required_roles: string[] }> => {
-    const out: Record<string, { required_approvals: number; required_roles: string[] }> = {};
+    allowBindArguments = false,
+  ): Record<string, CanonicalRequirement> => {
+    const out: Record<string, CanonicalRequirement> = {};
     for (const [keyRaw, req] of Object.entries(source || {})) {
       const key = String(keyRaw || "").trim().toLowerCase();
       if (!key) {
         continue;
       }
-      const normalized = normalizeRequirement(req);
-      out[key] = {
-        required_approvals: normalized.requiredApprovals,
-        required_roles: normalized.requiredRoles,
-      };
+      out[key] = canonicalRequirement(req, allowBindArguments);
     }
     return out;
   };
 
   return {
     version: String(parsed.version || "v1"),
-    defaults: {
-      required_approvals: defaults.requiredApprovals,
-      required_roles: defaults.requiredRoles,
-    },
+    defaults: canonicalRequirement(parsed.defaults),
     risk_class_overrides: normalizeMap(parsed.risk_class_overrides),
-    tool_overrides: normalizeMap(parsed.tool_overrides),
+    tool_overrides: normalizeMap(parsed.tool_overrides, true),
     channel_action_overrides: normalizeMap(parsed.channel_action_overrides),
   };
 }
@@ -183,19 +336,29 @@ export function loadSignedApprovalPolicyCatalog(
 ): ApprovalPolicyLoadResult {
   const raw = fs.readFileSync(catalogPath, "utf8");
   const parsed = JSON.parse(raw) as ApprovalPolicyCatalogFile;
+  const keyring = signingKeyringPath.trim() ? loadHmacKeyring(signingKeyringPath.trim()) : null;
+  return buildApprovalPolicyCatalog(parsed, signingKey, keyring);
+}
+
+export function parseApprovalPolicyCatalogCandidate(value: unknown): ApprovalPolicyLoadResult {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Approval policy catalog candidate must be an object.");
+  }
+  return buildApprovalPolicyCatalog(value as ApprovalPolicyCatalogFile, "", null);
+}
+
+function buildApprovalPolicyCatalog(
+  parsed: ApprovalPolicyCatalogFile,
+  signingKey: string,
+  keyring: HmacKeyring | null,
+): ApprovalPolicyLoadResult {
   const canonical = canonicalPayload(parsed);
   const canonicalText = stableStringify(canonical);
-  const keyring = signingKeyringPath.trim() ? loadHmacKeyring(signingKeyringPath.trim()) : null;
   const signatureState = verifySignature(parsed, canonicalText, signingKey, keyring);
-  const toMap = (
-    source: Record<string, { required_approvals: number; required_roles: string[] }>,
-  ): Map<string, ApprovalRequirement> => {
+  const toMap = (source: Record<string, CanonicalRequirement>): Map<string, ApprovalRequirement> => {
     const out = new Map<string, ApprovalRequirement>();
     for (const [key, value] of Object.entries(source)) {
-      out.set(key, {
-        requiredApprovals: normalizeRequiredApprovals(value.required_approvals),
-        requiredRoles: normalizeRoles(value.required_roles),
-      });
+      out.set(key, toRequirement(value));
     }
     return out;
   };
@@ -206,10 +369,7 @@ export function loadSignedApprovalPolicyCatalog(
     signing_mode: signatureState.signing_mode,
     keyring_active_kid: signatureState.keyring_active_kid,
     keyring_key_count: signatureState.keyring_key_count,
-    defaults: {
-      requiredApprovals: canonical.defaults.required_approvals,
-      requiredRoles: canonical.defaults.required_roles,
-    },
+    defaults: toRequirement(canonical.defaults),
     riskClassOverrides: toMap(canonical.risk_class_overrides),
     toolOverrides: toMap(canonical.tool_overrides),
     channelActionOverrides: toMap(canonical.channel_action_overrides),
@@ -256,12 +416,19 @@ export class ApprovalPolicyEngine {
       requiredApprovals: this.defaults.requiredApprovals,
       requiredRoles: [...this.defaults.requiredRoles],
     };
+    const escalations: ApprovalEscalationPolicy[] = [];
+    if (this.defaults.escalation) {
+      escalations.push(this.defaults.escalation);
+    }
     const mergeIn = (req: ApprovalRequirement | undefined) => {
       if (!req) {
         return;
       }
       merged.requiredApprovals = Math.max(merged.requiredApprovals, req.requiredApprovals);
       merged.requiredRoles = [...new Set([...merged.requiredRoles, ...req.requiredRoles])].sort();
+      if (req.escalation) {
+        escalations.push(req.escalation);
+      }
     };
 
     const riskClass = context.policyDecision.riskClass.toLowerCase();
@@ -279,9 +446,53 @@ export class ApprovalPolicyEngine {
       mergeIn(this.channelActionOverrides.get(`${channel}:${action}`));
     }
 
-    return {
+    const result: ApprovalRequirement = {
       requiredApprovals: normalizeRequiredApprovals(merged.requiredApprovals),
       requiredRoles: normalizeRoles(merged.requiredRoles),
     };
+    if (escalations.length > 0) {
+      result.escalation = mergeEscalations(escalations);
+    }
+    return result;
+  }
+
+  // Returns null, meaning the approval binds to the whole request, unless every tool call belongs to a tool with
+  // bind_arguments and carries all of its bound paths. Identical bound calls collapse, so repeating an approved
+  // call earlier in the chat history does not change the binding.
+  bindingFor(
+    toolNames: string[],
+    invocations: Array<{ name: string; arguments: unknown }>,
+  ): ApprovalBinding | null {
+    if (invocations.length === 0) {
+      return null;
+    }
+    const calls = new Map<string, ApprovalBinding["calls"][number]>();
+    for (const invocation of invocations) {
+      const tool = invocation.name.trim().toLowerCase();
+      const paths = this.toolOverrides.get(tool)?.bindArguments;
+      if (!paths) {
+        return null;
+      }
+      const selected: Record<string, unknown> = {};
+      for (const argumentPath of paths) {
+        const { found, value } = selectArgumentPath(invocation.arguments, argumentPath);
+        if (!found) {
+          return null;
+        }
+        selected[argumentPath] = value;
+      }
+      const call = { tool, arguments: selected };
+      calls.set(stableStringify(call), call);
+    }
+    return {
+      tools: [
+        ...new Set(
+          [...toolNames, ...invocations.map((call) => call.name)]
+            .map((tool) => String(tool || "").trim().toLowerCase())
+            .filter(Boolean),
+        ),
+      ].sort(),
+      calls: [...calls.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, call]) => call),
+    };
   }
 }
@@ -1,11 +1,19 @@
 import crypto from "node:crypto";
-import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import Database from "better-sqlite3";
+import type { ApprovalEscalationPolicy } from "./approval-policy";
+import { SqliteSqlStore, sqlJsonText, type SqlExecutor, type SqlMigration, type SqlStore } from "./sql-store";
+import { stableStringify } from "./utils";
 
 export type ApprovalStatus = "pending" | "approved" | "denied" | "expired";
 
+export class ApprovalVoteConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApprovalVoteConflictError";
+  }
+}
+
 export interface ApprovalRecord {
   id: string;
   created_at: string;
@@ -23,6 +31,71 @@ export interface ApprovalRecord {
   metadata: string;
   resolved_by: string | null;
   resolved_at: string | null;
+  escalation_policy: string;
+  reminded_at: string | null;
+  escalated_at: string | null;
+  expiry_reported_at: string | null;
+  approval_delegations: string;
+}
+
+export interface ApprovalDelegationRecord {
+  id: string;
+  delegator: string;
+  delegator_role: string;
+  delegate: string;
+  reason: string;
+  created_at: string;
+  starts_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+  revoked_by: string | null;
+}
+
+export interface ApprovalDelegationInput {
+  delegator: string;
+  delegatorRole: string;
+  delegate: string;
+  reason: string;
+  startsAt?: string;
+  ttlSeconds: number;
+}
+
+// A standing approval pre-authorizes tool calls. Every tool in the request must be listed in tools; agent and
+// path_prefix narrow the match when set. path_prefix applies to the "path" argument of every tool call.
+export interface StandingApprovalScope {
+  tools: string[];
+  agent: string | null;
+  path_prefix: string | null;
+}
+
+export interface StandingApprovalRecord {
+  id: string;
+  created_by: string;
+  created_by_role: string;
+  reason: string;
+  scope: string;
+  created_at: string;
+  expires_at: string;
+  max_uses: number;
+  use_count: number;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+}
+
+export interface StandingApprovalInput {
+  createdBy: string;
+  createdByRole: string;
+  reason: string;
+  scope: StandingApprovalScope;
+  ttlSeconds: number;
+  maxUses: number;
+}
+
+export interface StandingApprovalRequest {
+  tools: string[];
+  agent: string | null;
+  invocations: Array<{ name: string; arguments: unknown }>;
 }
 
 export interface ApprovalCreateInput {
@@ -33,6 +106,46 @@ export interface ApprovalCreateInput {
   requiredApprovals?: number;
   requiredRoles?: string[];
   maxUses?: number;
+  escalation?: ApprovalEscalationPolicy;
+  payload?: ApprovalPayloadInput;
+}
+
+// The request behind an approval, already redacted by the caller. subjectKey groups re-submissions of the same
+// action (e.g. method, path and tool names) so a new request can be diffed against the last approved one.
+export interface ApprovalPayloadInput {
+  body: unknown;
+  toolCalls: Array<{ name: string; arguments: unknown }>;
+  subjectKey: string;
+  risk: Record<string, unknown>;
+}
+
+export interface ApprovalPayloadDiff {
+  previous_approval_id: string;
+  previous_resolved_at: string | null;
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface ApprovalDetail {
+  approval: ApprovalRecord;
+  payload_available: boolean;
+  payload_purged_at: string | null;
+  request_body: unknown;
+  tool_calls: Array<{ name: string; arguments: unknown }>;
+  risk: Record<string, unknown> | null;
+  related_approvals: Array<Pick<ApprovalRecord, "id" | "status" | "created_at" | "resolved_at" | "resolved_by">>;
+  diff: ApprovalPayloadDiff | null;
+}
+
+interface ApprovalPayloadRow {
+  approval_id: string;
+  subject_key: string;
+  created_at: string;
+  ciphertext: string | null;
+  value_digests: string;
+  risk: string;
+  purged_at: string | null;
 }
 
 export interface ApprovalCreateResult {
@@ -40,68 +153,340 @@ export interface ApprovalCreateResult {
   created: boolean;
 }
 
+export interface ApprovalEscalationSweep {
+  reminders: ApprovalRecord[];
+  escalations: Array<{ record: ApprovalRecord; addedRoles: string[] }>;
+  expirations: ApprovalRecord[];
+}
+
+export const APPROVAL_EXPIRY_ACTOR = "system:expiry";
+
+const MAX_STANDING_APPROVAL_USES = 1000;
+
+function normalizeScopePath(value: string): string {
+  const normalized = path.posix.normalize(value.trim().replace(/\\/g, "/"));
+  return normalized.length > 1 ? normalized.replace(/\/+$/, "") : normalized;
+}
+
+export function normalizeStandingApprovalScope(value: unknown): StandingApprovalScope {
+  const raw = value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+  const tools = [
+    ...new Set(
+      (Array.isArray(raw.tools) ? raw.tools : [])
+        .map((tool) => String(tool || "").trim().toLowerCase())
+        .filter(Boolean),
+    ),
+  ].sort();
+  if (tools.length === 0) {
+    throw new Error("Standing approval scope must list at least one tool.");
+  }
+  const agent = typeof raw.agent === "string" && raw.agent.trim() ? raw.agent.trim() : null;
+  const pathPrefix =
+    typeof raw.path_prefix === "string" && raw.path_prefix.trim() ? normalizeScopePath(raw.path_prefix) : null;
+  if (pathPrefix !== null && (pathPrefix === "." || pathPrefix.startsWith(".."))) {
+    throw new Error("Standing approval path_prefix must name a directory or file.");
+  }
+  return { tools, agent, path_prefix: pathPrefix };
+}
+
+export function standingApprovalMatches(scope: StandingApprovalScope, request: StandingApprovalRequest): boolean {
+  const tools = [...new Set(request.tools.map((tool) => tool.trim().toLowerCase()).filter(Boolean))];
+  if (tools.length === 0 || !tools.every((tool) => scope.tools.includes(tool))) {
+    return false;
+  }
+  if (scope.agent !== null && request.agent !== scope.agent) {
+    return false;
+  }
+  if (scope.path_prefix === null) {
+    return true;
+  }
+  const prefix = scope.path_prefix;
+  const directory = prefix.endsWith("/") ? prefix : `${prefix}/`;
+  // Without a tool call there is no path to check, so a path-scoped approval never covers it.
+  return (
+    request.invocations.length > 0 &&
+    request.invocations.every((invocation) => {
+      const args = invocation.arguments;
+      const value =
+        args && typeof args === "object" && !Array.isArray(args) ? (args as Record<string, unknown>).path : undefined;
+      if (typeof value !== "string" || !value.trim()) {
+        return false;
+      }
+      const normalized = normalizeScopePath(value);
+      return normalized === prefix || normalized.startsWith(directory);
+    })
+  );
+}
+
+function flattenJsonPaths(value: unknown, prefix: string, out: Map<string, string>): void {
+  if (value !== null && typeof value === "object") {
+    const entries = Array.isArray(value)
+      ? value.map((item, index) => [`${prefix}[${index}]`, item] as const)
+      : Object.entries(value as Record<string, unknown>).map(([key, item]) => [`${prefix}.${key}`, item] as const);
+    if (entries.length === 0) {
+      out.set(prefix, stableStringify(value));
+    }
+    for (const [childPath, item] of entries) {
+      flattenJsonPaths(item, childPath, out);
+    }
+    return;
+  }
+  out.set(prefix, stableStringify(value ?? null));
+}
+
+const APPROVAL_MIGRATIONS: SqlMigration[] = [
+  {
+    version: 1,
+    name: "approvals-baseline",
+    async up(db) {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS approvals (
+          id TEXT PRIMARY KEY,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          status TEXT NOT NULL,
+          required_approvals INTEGER NOT NULL DEFAULT 1,
+          required_roles TEXT NOT NULL DEFAULT '[]',
+          approval_actors TEXT NOT NULL DEFAULT '[]',
+          approval_actor_roles TEXT NOT NULL DEFAULT '{}',
+          approval_delegations TEXT NOT NULL DEFAULT '{}',
+          max_uses INTEGER NOT NULL DEFAULT 1,
+          use_count INTEGER NOT NULL DEFAULT 0,
+          last_used_at TEXT,
+          request_fingerprint TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          metadata TEXT NOT NULL,
+          resolved_by TEXT,
+          resolved_at TEXT,
+          escalation_policy TEXT NOT NULL DEFAULT '{}',
+          reminded_at TEXT,
+          escalated_at TEXT,
+          expiry_reported_at TEXT
+        );
+        CREATE TABLE IF NOT EXISTS approval_delegations (
+          id TEXT PRIMARY KEY,
+          delegator TEXT NOT NULL,
+          delegator_role TEXT NOT NULL,
+          delegate TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          starts_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          revoked_at TEXT,
+          revoked_by TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_approval_delegations_delegate ON approval_delegations(delegate, expires_at);
+        CREATE TABLE IF NOT EXISTS standing_approvals (
+          id TEXT PRIMARY KEY,
+          created_by TEXT NOT NULL,
+          created_by_role TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          max_uses INTEGER NOT NULL,
+          use_count INTEGER NOT NULL DEFAULT 0,
+          last_used_at TEXT,
+          revoked_at TEXT,
+          revoked_by TEXT
+        );
+        CREATE TABLE IF NOT EXISTS approval_payloads (
+          approval_id TEXT PRIMARY KEY,
+          subject_key TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          ciphertext TEXT,
+          value_digests TEXT NOT NULL,
+          risk TEXT NOT NULL,
+          purged_at TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_approval_payloads_subject ON approval_payloads(subject_key, created_at);
+        CREATE INDEX IF NOT EXISTS idx_approvals_fingerprint ON approvals(request_fingerprint, status);
+      `);
+      if (db.dialect === "sqlite") {
+        await upgradeLegacySqliteApprovals(db);
+      }
+    },
+  },
+];
+
+// Approval databases written before migrations were tracked may predate later approvals columns.
+async function upgradeLegacySqliteApprovals(db: SqlExecutor): Promise<void> {
+  const columns = await db.all<{ name: string }>("PRAGMA table_info(approvals)");
+  const names = new Set(columns.map((column) => String(column.name || "")));
+  const added: Array<[string, string]> = [
+    ["required_approvals", "INTEGER NOT NULL DEFAULT 1"],
+    ["required_roles", "TEXT NOT NULL DEFAULT '[]'"],
+    ["max_uses", "INTEGER NOT NULL DEFAULT 1"],
+    ["use_count", "INTEGER NOT NULL DEFAULT 0"],
+    ["last_used_at", "TEXT"],
+    ["approval_actors", "TEXT NOT NULL DEFAULT '[]'"],
+    ["approval_actor_roles", "TEXT NOT NULL DEFAULT '{}'"],
+    ["escalation_policy", "TEXT NOT NULL DEFAULT '{}'"],
+    ["reminded_at", "TEXT"],
+    ["escalated_at", "TEXT"],
+    ["approval_delegations", "TEXT NOT NULL DEFAULT '{}'"],
+  ];
+  for (const [name, definition] of added) {
+    if (!names.has(name)) {
+      await db.exec(`ALTER TABLE approvals ADD COLUMN ${name} ${definition}`);
+    }
+  }
+  if (!names.has("expiry_reported_at")) {
+    await db.exec("ALTER TABLE approvals ADD COLUMN expiry_reported_at TEXT");
+    // Approvals that expired before expiry reporting existed are not reported retroactively.
+    await db.exec("UPDATE approvals SET expiry_reported_at = expires_at WHERE status = 'expired'");
+  }
+  await db.exec(`
+    UPDATE approvals
+    SET required_approvals = 1
+    WHERE required_approvals IS NULL OR required_approvals < 1;
+    UPDATE approvals
+    SET required_roles = '[]'
+    WHERE required_roles IS NULL OR TRIM(required_roles) = '';
+    UPDATE approvals
+    SET max_uses = 1
+    WHERE max_uses IS NULL OR max_uses < 1;
+    UPDATE approvals
+    SET use_count = 0
+    WHERE use_count IS NULL OR use_count < 0;
+    UPDATE approvals
+    SET approval_actors = '[]'
+    WHERE approval_actors IS NULL OR TRIM(approval_actors) = '';
+    UPDATE approvals
+    SET approval_actor_roles = '{}'
+    WHERE approval_actor_roles IS NULL OR TRIM(approval_actor_roles) = '';
+  `);
+}
+
 export class ApprovalService {
-  private dbPath: string;
-  private db: Database.Database | null = null;
-
-  constructor(dbPath = path.join(os.homedir(), ".openclaw", "enterprise_approvals.db")) {
-    this.dbPath = dbPath;
-  }
-
-  init(): void {
-    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
-    this.db = new Database(this.dbPath);
-    this.db.pragma("journal_mode = WAL");
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS approvals (
-        id TEXT PRIMARY KEY,
-        created_at TEXT NOT NULL,
-        expires_at TEXT NOT NULL,
-        status TEXT NOT NULL,
-        required_approvals INTEGER NOT NULL DEFAULT 1,
-        approval_actors TEXT NOT NULL DEFAULT '[]',
-        max_uses INTEGER NOT NULL DEFAULT 1,
-        use_count INTEGER NOT NULL DEFAULT 0,
-        last_used_at TEXT,
-        request_fingerprint TEXT NOT NULL,
-        reason TEXT NOT NULL,
-        metadata TEXT NOT NULL,
-        resolved_by TEXT,
-        resolved_at TEXT
-      );
-    `);
-    this.ensureColumns();
+  private store: SqlStore;
+  private ownsStore: boolean;
+  private ready = false;
+  private payloadKey: Buffer;
+  private digestKey: Buffer;
+
+  // A path opens a private SQLite store; a shared store (e.g. Postgres) is migrated here but closed by its owner.
+  // Without a payload key a random one is used, so stored payloads and diffs do not survive a restart.
+  constructor(
+    storage: string | SqlStore = path.join(os.homedir(), ".openclaw", "enterprise_approvals.db"),
+    payloadKey = "",
+  ) {
+    this.ownsStore = typeof storage === "string";
+    this.store = typeof storage === "string" ? new SqliteSqlStore(storage) : storage;
+    const secret = payloadKey.trim() || crypto.randomBytes(32).toString("hex");
+    this.payloadKey = crypto.createHash("sha256").update(`approval-payload|${secret}`).digest();
+    this.digestKey = crypto.createHash("sha256").update(`approval-payload-digest|${secret}`).digest();
   }
 
-  close(): void {
-    if (this.db) {
-      this.db.close();
-      this.db = null;
+  async init(): Promise<void> {
+    if (this.ownsStore) {
+      await this.store.init();
     }
+    await this.store.migrate("approvals", APPROVAL_MIGRATIONS);
+    this.ready = true;
   }
 
-  cleanupExpired(nowIso = new Date().toISOString()): number {
-    const db = this.assertDb();
-    const result = db
-      .prepare(
-        `
-          UPDATE approvals
-          SET status = 'expired'
-          WHERE status = 'pending' AND expires_at < ?
-        `,
-      )
-      .run(nowIso);
-    return result.changes;
+  async close(): Promise<void> {
+    this.ready = false;
+    if (this.ownsStore) {
+      await this.store.close();
+    }
   }
 
-  getOrCreatePending(input: ApprovalCreateInput): ApprovalCreateResult {
+  // Approvals whose escalation policy asks for deny on expiry are resolved as denied by APPROVAL_EXPIRY_ACTOR;
+  // everything else becomes expired. Either way sweepEscalations reports the transition once.
+  async cleanupExpired(nowIso = new Date().toISOString()): Promise<number> {
+    return this.expirePending(this.assertDb(), nowIso);
+  }
+
+  async sweepEscalations(now = new Date()): Promise<ApprovalEscalationSweep> {
     const db = this.assertDb();
-    this.cleanupExpired();
+    const nowIso = now.toISOString();
+    await this.expirePending(db, nowIso);
+    const sweep: ApprovalEscalationSweep = { reminders: [], escalations: [], expirations: [] };
+    const pending = await db.all<ApprovalRecord>(
+      `
+        SELECT *
+        FROM approvals
+        WHERE status = 'pending'
+          AND escalation_policy != '{}'
+          AND (reminded_at IS NULL OR escalated_at IS NULL)
+        ORDER BY created_at ASC
+      `,
+    );
+    for (const row of pending) {
+      const policy = this.parseEscalationPolicy(row.escalation_policy);
+      if (!policy) {
+        continue;
+      }
+      const ageMinutes = (now.getTime() - new Date(row.created_at).getTime()) / 60_000;
+      if (!row.reminded_at && policy.reminderAfterMinutes !== null && ageMinutes >= policy.reminderAfterMinutes) {
+        const updated = await db.run(
+          "UPDATE approvals SET reminded_at = ? WHERE id = ? AND status = 'pending' AND reminded_at IS NULL",
+          [nowIso, row.id],
+        );
+        const record = updated > 0 ? await this.selectById(db, row.id) : null;
+        if (record) {
+          sweep.reminders.push(record);
+        }
+      }
+      if (!row.escalated_at && policy.escalateAfterMinutes !== null && ageMinutes >= policy.escalateAfterMinutes) {
+        const currentRoles = this.parseRoleArray(row.required_roles);
+        const mergedRoles = this.mergeRoles(currentRoles, policy.escalateToRoles);
+        const updated = await db.run(
+          `
+            UPDATE approvals
+            SET required_roles = ?,
+                escalated_at = ?
+            WHERE id = ?
+              AND status = 'pending'
+              AND escalated_at IS NULL
+          `,
+          [JSON.stringify(mergedRoles), nowIso, row.id],
+        );
+        const record = updated > 0 ? await this.selectById(db, row.id) : null;
+        if (record) {
+          sweep.escalations.push({
+            record,
+            addedRoles: mergedRoles.filter((role) => !currentRoles.includes(role)),
+          });
+        }
+      }
+    }
+
+    const expired = await db.all<ApprovalRecord>(
+      `
+        SELECT *
+        FROM approvals
+        WHERE expiry_reported_at IS NULL
+          AND (status = 'expired' OR (status = 'denied' AND resolved_by = ?))
+        ORDER BY expires_at ASC
+        LIMIT 500
+      `,
+      [APPROVAL_EXPIRY_ACTOR],
+    );
+    for (const row of expired) {
+      // Another node sweeping the same store may have reported it first.
+      const marked = await db.run(
+        "UPDATE approvals SET expiry_reported_at = ? WHERE id = ? AND expiry_reported_at IS NULL",
+        [nowIso, row.id],
+      );
+      if (marked > 0) {
+        sweep.expirations.push({ ...row, expiry_reported_at: nowIso });
+      }
+    }
+    return sweep;
+  }
+
+  // Serialized per request fingerprint so concurrent requests (on any node) share one pending approval.
+  async getOrCreatePending(input: ApprovalCreateInput): Promise<ApprovalCreateResult> {
+    const store = this.assertDb();
+    await this.expirePending(store, new Date().toISOString());
     const requiredApprovals = this.normalizeRequiredApprovals(input.requiredApprovals);
     const requiredRoles = this.normalizeRoles(input.requiredRoles);
     const maxUses = this.normalizeMaxUses(input.maxUses);
-    const existing = db
-      .prepare(
+    return store.transaction([`approval-request:${input.requestFingerprint}`], async (db) => {
+      const existing = await db.get<ApprovalRecord>(
         `
           SELECT *
           FROM approvals
@@ -110,227 +495,247 @@ export class ApprovalService {
           ORDER BY created_at DESC
           LIMIT 1
         `,
-      )
-      .get(input.requestFingerprint) as ApprovalRecord | undefined;
-
-    if (existing) {
-      const existingRequiredRoles = this.parseRoleArray(existing.required_roles);
-      const mergedRoles = this.mergeRoles(existingRequiredRoles, requiredRoles);
-      if (existing.max_uses < maxUses) {
-        db.prepare(
-          `
-            UPDATE approvals
-            SET max_uses = ?
-            WHERE id = ?
-          `,
-        ).run(maxUses, existing.id);
-      }
-      if (existing.required_approvals < requiredApprovals) {
-        db.prepare(
-          `
-            UPDATE approvals
-            SET required_approvals = ?,
-                required_roles = ?
-            WHERE id = ?
-          `,
-        ).run(requiredApprovals, JSON.stringify(mergedRoles), existing.id);
-        const upgraded = this.getById(existing.id);
-        if (!upgraded) {
-          throw new Error(`Approval not found after quorum upgrade: ${existing.id}`);
+        [input.requestFingerprint],
+      );
+
+      if (existing) {
+        const existingRequiredRoles = this.parseRoleArray(existing.required_roles);
+        const mergedRoles = this.mergeRoles(existingRequiredRoles, requiredRoles);
+        if (existing.max_uses < maxUses) {
+          await db.run(
+            `
+              UPDATE approvals
+              SET max_uses = ?
+              WHERE id = ?
+            `,
+            [maxUses, existing.id],
+          );
         }
-        return {
-          record: upgraded,
-          created: false,
-        };
-      }
-      if (JSON.stringify(existingRequiredRoles) !== JSON.stringify(mergedRoles)) {
-        db.prepare(
-          `
-            UPDATE approvals
-            SET required_roles = ?
-            WHERE id = ?
-          `,
-        ).run(JSON.stringify(mergedRoles), existing.id);
-        const upgraded = this.getById(existing.id);
-        if (!upgraded) {
-          throw new Error(`Approval not found after role upgrade: ${existing.id}`);
+        if (existing.required_approvals < requiredApprovals) {
+          await db.run(
+            `
+              UPDATE approvals
+              SET required_approvals = ?,
+                  required_roles = ?
+              WHERE id = ?
+            `,
+            [requiredApprovals, JSON.stringify(mergedRoles), existing.id],
+          );
+          const upgraded = await this.selectById(db, existing.id);
+          if (!upgraded) {
+            throw new Error(`Approval not found after quorum upgrade: ${existing.id}`);
+          }
+          return {
+            record: upgraded,
+            created: false,
+          };
+        }
+        if (JSON.stringify(existingRequiredRoles) !== JSON.stringify(mergedRoles)) {
+          await db.run(
+            `
+              UPDATE approvals
+              SET required_roles = ?
+              WHERE id = ?
+            `,
+            [JSON.stringify(mergedRoles), existing.id],
+          );
+          const upgraded = await this.selectById(db, existing.id);
+          if (!upgraded) {
+            throw new Error(`Approval not found after role upgrade: ${existing.id}`);
+          }
+          return {
+            record: upgraded,
+            created: false,
+          };
         }
         return {
-          record: upgraded,
+          record: existing,
           created: false,
         };
       }
-      return {
-        record: existing,
-        created: false,
-      };
-    }
 
-    const createdAt = new Date();
-    const expiresAt = new Date(createdAt.getTime() + Math.max(60, input.ttlSeconds) * 1000);
-    const id = crypto.randomUUID();
-    const metadata = JSON.stringify(input.metadata || {});
+      const createdAt = new Date();
+      const expiresAt = new Date(createdAt.getTime() + Math.max(60, input.ttlSeconds) * 1000);
+      const id = crypto.randomUUID();
+      const metadata = JSON.stringify(input.metadata || {});
 
-    db.prepare(
-      `
-        INSERT INTO approvals (
-          id,
-          created_at,
-          expires_at,
-          status,
-          required_approvals,
-          required_roles,
-          approval_actors,
-          approval_actor_roles,
-          max_uses,
-          use_count,
-          last_used_at,
-          request_fingerprint,
-          reason,
-          metadata,
-          resolved_by,
-          resolved_at
-        )
-        VALUES (?, ?, ?, 'pending', ?, ?, '[]', '{}', ?, 0, NULL, ?, ?, ?, NULL, NULL)
-      `,
-    ).run(
-      id,
-      createdAt.toISOString(),
-      expiresAt.toISOString(),
-      requiredApprovals,
-      JSON.stringify(requiredRoles),
-      maxUses,
-      input.requestFingerprint,
-      input.reason,
-      metadata,
-    );
-
-    const createdRecord = db
-      .prepare(
+      await db.run(
         `
-          SELECT *
-          FROM approvals
-          WHERE id = ?
+          INSERT INTO approvals (
+            id,
+            created_at,
+            expires_at,
+            status,
+            required_approvals,
+            required_roles,
+            approval_actors,
+            approval_actor_roles,
+            max_uses,
+            use_count,
+            last_used_at,
+            request_fingerprint,
+            reason,
+            metadata,
+            resolved_by,
+            resolved_at,
+            escalation_policy
+          )
+          VALUES (?, ?, ?, 'pending', ?, ?, '[]', '{}', ?, 0, NULL, ?, ?, ?, NULL, NULL, ?)
         `,
-      )
-      .get(id) as ApprovalRecord;
+        [
+          id,
+          createdAt.toISOString(),
+          expiresAt.toISOString(),
+          requiredApprovals,
+          JSON.stringify(requiredRoles),
+          maxUses,
+          input.requestFingerprint,
+          input.reason,
+          metadata,
+          this.serializeEscalationPolicy(input.escalation),
+        ],
+      );
+      if (input.payload) {
+        await this.storePayload(db, id, createdAt.toISOString(), input.payload);
+      }
 
-    return {
-      record: createdRecord,
-      created: true,
-    };
+      const createdRecord = await this.selectById(db, id);
+      if (!createdRecord) {
+        throw new Error(`Approval not found after create: ${id}`);
+      }
+      return {
+        record: createdRecord,
+        created: true,
+      };
+    });
   }
 
-  approve(id: string, actor: string, actorRole = "unknown"): ApprovalRecord {
-    const db = this.assertDb();
-    this.cleanupExpired();
+  // With a delegate, actor and actorRole are the delegator's: the approval counts once toward quorum under the
+  // delegator's authority and approval_delegations records who exercised it. Each person votes once, whether
+  // directly or for one delegator, so delegation cannot make one approver count twice. Serialized per approval so
+  // quorum votes cast concurrently on different nodes are all counted.
+  async approve(id: string, actor: string, actorRole = "unknown", delegate = ""): Promise<ApprovalRecord> {
+    const store = this.assertDb();
+    await this.expirePending(store, new Date().toISOString());
     const normalizedActor = actor.trim();
     if (!normalizedActor) {
       throw new Error("Approval actor is required.");
     }
-    const row = this.getById(id);
-    if (!row) {
-      throw new Error(`Approval not found: ${id}`);
-    }
-    if (row.status !== "pending") {
-      return row;
-    }
+    return store.transaction([`approval:${id}`], async (db) => {
+      const row = await this.selectById(db, id);
+      if (!row) {
+        throw new Error(`Approval not found: ${id}`);
+      }
+      if (row.status !== "pending") {
+        return row;
+      }
 
-    const actors = new Set<string>(this.parseApprovalActors(row.approval_actors));
-    actors.add(normalizedActor);
-    const actorList = [...actors].sort();
-    const roleMap = this.parseApprovalActorRoles(row.approval_actor_roles);
-    roleMap[normalizedActor] = String(actorRole || "unknown").trim().toLowerCase() || "unknown";
-    const requiredApprovals = this.normalizeRequiredApprovals(row.required_approvals);
-    const requiredRoles = this.parseRoleArray(row.required_roles);
-    const roleCoverage = new Set<string>(Object.values(roleMap));
-    const rolesSatisfied = requiredRoles.every((requiredRole) => roleCoverage.has(requiredRole));
-    const nowIso = new Date().toISOString();
+      const actors = new Set<string>(this.parseApprovalActors(row.approval_actors));
+      const delegations = this.parseApprovalActorRoles(row.approval_delegations, false);
+      const voter = delegate.trim() || normalizedActor;
+      const voters = new Set<string>([...actors].map((existing) => delegations[existing] || existing));
+      if (actors.has(normalizedActor)) {
+        throw new ApprovalVoteConflictError(`${normalizedActor} has already approved ${id}.`);
+      }
+      if (voters.has(voter)) {
+        throw new ApprovalVoteConflictError(`${voter} has already voted on ${id}.`);
+      }
+      actors.add(normalizedActor);
+      const actorList = [...actors].sort();
+      const roleMap = this.parseApprovalActorRoles(row.approval_actor_roles);
+      roleMap[normalizedActor] = String(actorRole || "unknown").trim().toLowerCase() || "unknown";
+      if (delegate.trim()) {
+        delegations[normalizedActor] = delegate.trim();
+      }
+      const requiredApprovals = this.normalizeRequiredApprovals(row.required_approvals);
+      const requiredRoles = this.parseRoleArray(row.required_roles);
+      const roleCoverage = new Set<string>(Object.values(roleMap));
+      const rolesSatisfied = requiredRoles.every((requiredRole) => roleCoverage.has(requiredRole));
+      const nowIso = new Date().toISOString();
 
-    if (actorList.length >= requiredApprovals && rolesSatisfied) {
-      db.prepare(
-        `
-          UPDATE approvals
-          SET status = 'approved',
-              approval_actors = ?,
-              approval_actor_roles = ?,
-              resolved_by = ?,
-              resolved_at = ?
-          WHERE id = ?
-            AND status = 'pending'
-        `,
-      ).run(JSON.stringify(actorList), JSON.stringify(roleMap), normalizedActor, nowIso, id);
-    } else {
-      db.prepare(
-        `
-          UPDATE approvals
-          SET approval_actors = ?,
-              approval_actor_roles = ?
-          WHERE id = ?
-            AND status = 'pending'
-        `,
-      ).run(JSON.stringify(actorList), JSON.stringify(roleMap), id);
-    }
+      if (actorList.length >= requiredApprovals && rolesSatisfied) {
+        await db.run(
+          `
+            UPDATE approvals
+            SET status = 'approved',
+                approval_actors = ?,
+                approval_actor_roles = ?,
+                approval_delegations = ?,
+                resolved_by = ?,
+                resolved_at = ?
+            WHERE id = ?
+              AND status = 'pending'
+          `,
+          [
+            JSON.stringify(actorList),
+            JSON.stringify(roleMap),
+            JSON.stringify(delegations),
+            normalizedActor,
+            nowIso,
+            id,
+          ],
+        );
+      } else {
+        await db.run(
+          `
+            UPDATE approvals
+            SET approval_actors = ?,
+                approval_actor_roles = ?,
+                approval_delegations = ?
+            WHERE id = ?
+              AND status = 'pending'
+          `,
+          [JSON.stringify(actorList), JSON.stringify(roleMap), JSON.stringify(delegations), id],
+        );
+      }
+      await this.purgeResolvedPayloads(db, nowIso);
 
-    const updated = this.getById(id);
-    if (!updated) {
-      throw new Error(`Approval not found: ${id}`);
-    }
-    return updated;
+      const updated = await this.selectById(db, id);
+      if (!updated) {
+        throw new Error(`Approval not found: ${id}`);
+      }
+      return updated;
+    });
   }
 
-  deny(id: string, actor: string): ApprovalRecord {
+  async deny(id: string, actor: string): Promise<ApprovalRecord> {
     return this.resolve(id, "denied", actor);
   }
 
-  getPending(limit = 50): ApprovalRecord[] {
+  async getPending(limit = 50): Promise<ApprovalRecord[]> {
     const db = this.assertDb();
-    this.cleanupExpired();
-    return db
-      .prepare(
-        `
-          SELECT *
-          FROM approvals
-          WHERE status = 'pending'
-          ORDER BY created_at DESC
-          LIMIT ?
-        `,
-      )
-      .all(limit) as ApprovalRecord[];
+    await this.expirePending(db, new Date().toISOString());
+    return db.all<ApprovalRecord>(
+      `
+        SELECT *
+        FROM approvals
+        WHERE status = 'pending'
+        ORDER BY created_at DESC
+        LIMIT ?
+      `,
+      [limit],
+    );
   }
 
-  getById(id: string): ApprovalRecord | null {
-    const db = this.assertDb();
-    const row = db
-      .prepare(
-        `
-          SELECT *
-          FROM approvals
-          WHERE id = ?
-          LIMIT 1
-        `,
-      )
-      .get(id) as ApprovalRecord | undefined;
-    return row || null;
+  async getById(id: string): Promise<ApprovalRecord | null> {
+    return this.selectById(this.assertDb(), id);
   }
 
-  getStats(): {
+  async getStats(): Promise<{
     pending: number;
     approved: number;
     denied: number;
     expired: number;
-  } {
+  }> {
     const db = this.assertDb();
-    this.cleanupExpired();
-    const rows = db
-      .prepare(
-        `
-          SELECT status, COUNT(*) AS count
-          FROM approvals
-          GROUP BY status
-        `,
-      )
-      .all() as Array<{ status: ApprovalStatus; count: number }>;
+    await this.expirePending(db, new Date().toISOString());
+    const rows = await db.all<{ status: ApprovalStatus; count: number | string }>(
+      `
+        SELECT status, COUNT(*) AS count
+        FROM approvals
+        GROUP BY status
+      `,
+    );
 
     const stats = {
       pending: 0,
@@ -340,64 +745,59 @@ export class ApprovalService {
     };
     for (const row of rows) {
       if (row.status in stats) {
-        (stats as Record<string, number>)[row.status] = row.count;
+        (stats as Record<string, number>)[row.status] = Number(row.count);
       }
     }
     return stats;
   }
 
-  listForAttestation(limit = 1000, sinceIso = ""): ApprovalRecord[] {
+  async listForAttestation(limit = 1000, sinceIso = ""): Promise<ApprovalRecord[]> {
     const db = this.assertDb();
-    this.cleanupExpired();
+    await this.expirePending(db, new Date().toISOString());
     const safeLimit = Math.min(Math.max(1, Math.floor(limit)), 10000);
     const since = sinceIso.trim();
     if (since) {
-      return db
-        .prepare(
-          `
-            SELECT *
-            FROM approvals
-            WHERE created_at >= ?
-              AND status != 'pending'
-            ORDER BY created_at ASC, id ASC
-            LIMIT ?
-          `,
-        )
-        .all(since, safeLimit) as ApprovalRecord[];
-    }
-    return db
-      .prepare(
+      return db.all<ApprovalRecord>(
         `
           SELECT *
           FROM approvals
-          WHERE status != 'pending'
+          WHERE created_at >= ?
+            AND status != 'pending'
           ORDER BY created_at ASC, id ASC
           LIMIT ?
         `,
-      )
-      .all(safeLimit) as ApprovalRecord[];
+        [since, safeLimit],
+      );
+    }
+    return db.all<ApprovalRecord>(
+      `
+        SELECT *
+        FROM approvals
+        WHERE status != 'pending'
+        ORDER BY created_at ASC, id ASC
+        LIMIT ?
+      `,
+      [safeLimit],
+    );
   }
 
-  validateApproved(id: string, requestFingerprint: string): boolean {
+  async validateApproved(id: string, requestFingerprint: string): Promise<boolean> {
     const db = this.assertDb();
-    this.cleanupExpired();
-    const row = db
-      .prepare(
-        `
-          SELECT status, request_fingerprint, expires_at, max_uses, use_count
-          FROM approvals
-          WHERE id = ?
-        `,
-      )
-      .get(id) as
-      | {
-          status: ApprovalStatus;
-          request_fingerprint: string;
-          expires_at: string;
-          max_uses: number;
-          use_count: number;
-        }
-      | undefined;
+    await this.expirePending(db, new Date().toISOString());
+    const row = await db.get<{
+      status: ApprovalStatus;
+      request_fingerprint: string;
+      expires_at: string;
+      max_uses: number;
+      use_count: number;
+    }>(
+      `
+        SELECT status, request_fingerprint, expires_at, max_uses, use_count
+        FROM approvals
+        WHERE id = ?
+      `,
+      [id],
+    );
 
     if (!row) {
       return false;
@@ -417,31 +817,387 @@ export class ApprovalService {
     return true;
   }
 
-  consumeApproved(id: string, requestFingerprint: string): boolean {
+  async consumeApproved(id: string, requestFingerprint: string): Promise<boolean> {
     const db = this.assertDb();
-    this.cleanupExpired();
     const nowIso = new Date().toISOString();
-    const result = db
-      .prepare(
+    await this.expirePending(db, nowIso);
+    const changes = await db.run(
+      `
+        UPDATE approvals
+        SET use_count = use_count + 1,
+            last_used_at = ?
+        WHERE id = ?
+          AND status = 'approved'
+          AND request_fingerprint = ?
+          AND expires_at >= ?
+          AND use_count < max_uses
+      `,
+      [nowIso, id, requestFingerprint, nowIso],
+    );
+    return changes > 0;
+  }
+
+  // Related approvals share the request fingerprint. The diff compares value digests against the most recent
+  // approved request with the same subject key, so it names changed paths without keeping the old values.
+  async getDetail(id: string): Promise<ApprovalDetail | null> {
+    const db = this.assertDb();
+    await this.expirePending(db, new Date().toISOString());
+    const approval = await this.selectById(db, id);
+    if (!approval) {
+      return null;
+    }
+    const related = await db.all<ApprovalDetail["related_approvals"][number]>(
+      `
+        SELECT id, status, created_at, resolved_at, resolved_by
+        FROM approvals
+        WHERE request_fingerprint = ?
+          AND id != ?
+        ORDER BY created_at DESC
+        LIMIT 20
+      `,
+      [approval.request_fingerprint, approval.id],
+    );
+    const payload = await db.get<ApprovalPayloadRow>("SELECT * FROM approval_payloads WHERE approval_id = ?", [id]);
+    const decrypted = payload?.ciphertext ? this.decryptPayload(id, payload.ciphertext) : null;
+    let diff: ApprovalPayloadDiff | null = null;
+    if (payload) {
+      const previous = await db.get<{ approval_id: string; value_digests: string; resolved_at: string | null }>(
         `
-          UPDATE approvals
-          SET use_count = use_count + 1,
-              last_used_at = ?
-          WHERE id = ?
-            AND status = 'approved'
-            AND request_fingerprint = ?
-            AND expires_at >= ?
-            AND use_count < max_uses
+          SELECT p.approval_id, p.value_digests, a.resolved_at
+          FROM approval_payloads p
+          JOIN approvals a ON a.id = p.approval_id
+          WHERE p.subject_key = ?
+            AND p.approval_id != ?
+            AND p.created_at <= ?
+            AND a.status = 'approved'
+          ORDER BY p.created_at DESC
+          LIMIT 1
         `,
-      )
-      .run(nowIso, id, requestFingerprint, nowIso);
-    return result.changes > 0;
+        [payload.subject_key, id, payload.created_at],
+      );
+      if (previous) {
+        const current = this.parseDigests(payload.value_digests);
+        const before = this.parseDigests(previous.value_digests);
+        diff = {
+          previous_approval_id: previous.approval_id,
+          previous_resolved_at: previous.resolved_at,
+          added: Object.keys(current).filter((key) => !(key in before)).sort(),
+          removed: Object.keys(before).filter((key) => !(key in current)).sort(),
+          changed: Object.keys(current).filter((key) => key in before && before[key] !== current[key]).sort(),
+        };
+      }
+    }
+    let risk: Record<string, unknown> | null = null;
+    try {
+      risk = payload ? (JSON.parse(payload.risk) as Record<string, unknown>) : null;
+    } catch {
+      risk = null;
+    }
+    return {
+      approval,
+      payload_available: decrypted !== null,
+      payload_purged_at: payload?.purged_at ?? null,
+      request_body: decrypted?.body ?? null,
+      tool_calls: decrypted?.tool_calls ?? [],
+      risk,
+      related_approvals: related,
+      diff,
+    };
   }
 
-  private resolve(id: string, status: "approved" | "denied", actor: string): ApprovalRecord {
+  async createDelegation(input: ApprovalDelegationInput): Promise<ApprovalDelegationRecord> {
     const db = this.assertDb();
-    this.cleanupExpired();
-    db.prepare(
+    const delegator = input.delegator.trim();
+    const delegate = input.delegate.trim();
+    if (!delegator || !delegate) {
+      throw new Error("Delegation requires a delegator and a delegate.");
+    }
+    if (delegator === delegate) {
+      throw new Error("Approvers cannot delegate to themselves.");
+    }
+    const createdAt = new Date();
+    const startsAt = input.startsAt ? new Date(input.startsAt) : createdAt;
+    if (!Number.isFinite(startsAt.getTime())) {
+      throw new Error("Delegation starts_at must be an ISO timestamp.");
+    }
+    const expiresAt = new Date(startsAt.getTime() + Math.max(60, input.ttlSeconds) * 1000);
+    const id = crypto.randomUUID();
+    await db.run(
+      `
+        INSERT INTO approval_delegations (
+          id, delegator, delegator_role, delegate, reason, created_at, starts_at, expires_at, revoked_at, revoked_by
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL, NULL)
+      `,
+      [
+        id,
+        delegator,
+        String(input.delegatorRole || "unknown").trim().toLowerCase() || "unknown",
+        delegate,
+        input.reason,
+        createdAt.toISOString(),
+        startsAt.toISOString(),
+        expiresAt.toISOString(),
+      ],
+    );
+    return (await this.getDelegationById(id)) as ApprovalDelegationRecord;
+  }
+
+  async getDelegationById(id: string): Promise<ApprovalDelegationRecord | null> {
+    const db = this.assertDb();
+    const row = await db.get<ApprovalDelegationRecord>("SELECT * FROM approval_delegations WHERE id = ?", [id]);
+    return row || null;
+  }
+
+  async getActiveDelegation(
+    delegator: string,
+    delegate: string,
+    nowIso = new Date().toISOString(),
+  ): Promise<ApprovalDelegationRecord | null> {
+    const db = this.assertDb();
+    const row = await db.get<ApprovalDelegationRecord>(
+      `
+        SELECT *
+        FROM approval_delegations
+        WHERE delegator = ?
+          AND delegate = ?
+          AND revoked_at IS NULL
+          AND starts_at <= ?
+          AND expires_at > ?
+        ORDER BY expires_at DESC
+        LIMIT 1
+      `,
+      [delegator.trim(), delegate.trim(), nowIso, nowIso],
+    );
+    return row || null;
+  }
+
+  async listDelegations(limit = 100, includeInactive = false): Promise<ApprovalDelegationRecord[]> {
+    const db = this.assertDb();
+    const safeLimit = Math.min(Math.max(1, Math.floor(limit)), 1000);
+    if (includeInactive) {
+      return db.all<ApprovalDelegationRecord>("SELECT * FROM approval_delegations ORDER BY created_at DESC LIMIT ?", [
+        safeLimit,
+      ]);
+    }
+    return db.all<ApprovalDelegationRecord>(
+      `
+        SELECT *
+        FROM approval_delegations
+        WHERE revoked_at IS NULL
+          AND expires_at > ?
+        ORDER BY created_at DESC
+        LIMIT ?
+      `,
+      [new Date().toISOString(), safeLimit],
+    );
+  }
+
+  async revokeDelegation(id: string, actor: string): Promise<ApprovalDelegationRecord> {
+    const db = this.assertDb();
+    await db.run(
+      `
+        UPDATE approval_delegations
+        SET revoked_at = ?,
+            revoked_by = ?
+        WHERE id = ?
+          AND revoked_at IS NULL
+      `,
+      [new Date().toISOString(), actor, id],
+    );
+    const row = await this.getDelegationById(id);
+    if (!row) {
+      throw new Error(`Delegation not found: ${id}`);
+    }
+    return row;
+  }
+
+  async createStandingApproval(input: StandingApprovalInput): Promise<StandingApprovalRecord> {
+    const db = this.assertDb();
+    const scope = normalizeStandingApprovalScope(input.scope);
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + Math.max(60, input.ttlSeconds) * 1000);
+    const maxUses = Math.min(MAX_STANDING_APPROVAL_USES, Math.max(1, Math.floor(Number(input.maxUses) || 1)));
+    const id = crypto.randomUUID();
+    await db.run(
+      `
+        INSERT INTO standing_approvals (
+          id, created_by, created_by_role, reason, scope, created_at, expires_at, max_uses, use_count,
+          last_used_at, revoked_at, revoked_by
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, NULL, NULL, NULL)
+      `,
+      [
+        id,
+        input.createdBy,
+        String(input.createdByRole || "unknown").trim().toLowerCase() || "unknown",
+        input.reason,
+        JSON.stringify(scope),
+        createdAt.toISOString(),
+        expiresAt.toISOString(),
+        maxUses,
+      ],
+    );
+    return (await this.getStandingApprovalById(id)) as StandingApprovalRecord;
+  }
+
+  async getStandingApprovalById(id: string): Promise<StandingApprovalRecord | null> {
+    const db = this.assertDb();
+    const row = await db.get<StandingApprovalRecord>("SELECT * FROM standing_approvals WHERE id = ?", [id]);
+    return row || null;
+  }
+
+  async listStandingApprovals(limit = 100, includeInactive = false): Promise<StandingApprovalRecord[]> {
+    const db = this.assertDb();
+    const safeLimit = Math.min(Math.max(1, Math.floor(limit)), 1000);
+    if (includeInactive) {
+      return db.all<StandingApprovalRecord>("SELECT * FROM standing_approvals ORDER BY created_at DESC LIMIT ?", [
+        safeLimit,
+      ]);
+    }
+    return db.all<StandingApprovalRecord>(
+      `
+        SELECT *
+        FROM standing_approvals
+        WHERE revoked_at IS NULL
+          AND expires_at > ?
+          AND use_count < max_uses
+        ORDER BY created_at DESC
+        LIMIT ?
+      `,
+      [new Date().toISOString(), safeLimit],
+    );
+  }
+
+  async revokeStandingApproval(id: string, actor: string): Promise<StandingApprovalRecord> {
+    const db = this.assertDb();
+    await db.run(
+      `
+        UPDATE standing_approvals
+        SET revoked_at = ?,
+            revoked_by = ?
+        WHERE id = ?
+          AND revoked_at IS NULL
+      `,
+      [new Date().toISOString(), actor, id],
+    );
+    const row = await this.getStandingApprovalById(id);
+    if (!row) {
+      throw new Error(`Standing approval not found: ${id}`);
+    }
+    return row;
+  }
+
+  // The counterpart of validateApproved for requests that carry no approval id. The approval expiring soonest
+  // is used first so short-lived grants are spent before broader ones.
+  async findStandingApproval(
+    request: StandingApprovalRequest,
+    nowIso = new Date().toISOString(),
+  ): Promise<StandingApprovalRecord | null> {
+    const db = this.assertDb();
+    const candidates = await db.all<StandingApprovalRecord>(
+      `
+        SELECT *
+        FROM standing_approvals
+        WHERE revoked_at IS NULL
+          AND expires_at > ?
+          AND use_count < max_uses
+        ORDER BY expires_at ASC, id ASC
+      `,
+      [nowIso],
+    );
+    for (const candidate of candidates) {
+      let scope: StandingApprovalScope;
+      try {
+        scope = normalizeStandingApprovalScope(JSON.parse(candidate.scope));
+      } catch {
+        continue;
+      }
+      if (standingApprovalMatches(scope, request)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  async consumeStandingApproval(id: string): Promise<boolean> {
+    const db = this.assertDb();
+    const nowIso = new Date().toISOString();
+    const changes = await db.run(
+      `
+        UPDATE standing_approvals
+        SET use_count = use_count + 1,
+            last_used_at = ?
+        WHERE id = ?
+          AND revoked_at IS NULL
+          AND expires_at > ?
+          AND use_count < max_uses
+      `,
+      [nowIso, id, nowIso],
+    );
+    return changes > 0;
+  }
+
+  async listDelegationsForAttestation(limit = 1000, sinceIso = ""): Promise<ApprovalDelegationRecord[]> {
+    const db = this.assertDb();
+    const safeLimit = Math.min(Math.max(1, Math.floor(limit)), 10000);
+    return db.all<ApprovalDelegationRecord>(
+      `
+        SELECT *
+        FROM approval_delegations
+        WHERE created_at >= ?
+        ORDER BY created_at ASC, id ASC
+        LIMIT ?
+      `,
+      [sinceIso.trim(), safeLimit],
+    );
+  }
+
+  async listStandingApprovalsForAttestation(limit = 1000, sinceIso = ""): Promise<StandingApprovalRecord[]> {
+    const db = this.assertDb();
+    const safeLimit = Math.min(Math.max(1, Math.floor(limit)), 10000);
+    return db.all<StandingApprovalRecord>(
+      `
+        SELECT *
+        FROM standing_approvals
+        WHERE created_at >= ?
+        ORDER BY created_at ASC, id ASC
+        LIMIT ?
+      `,
+      [sinceIso.trim(), safeLimit],
+    );
+  }
+
+  private async expirePending(db: SqlExecutor, nowIso: string): Promise<number> {
+    const denyOnExpiry = `${sqlJsonText(db.dialect, "escalation_policy", "expiry_outcome")} = 'deny'`;
+    const changes = await db.run(
+      `
+        UPDATE approvals
+        SET status = CASE
+              WHEN ${denyOnExpiry} THEN 'denied'
+              ELSE 'expired'
+            END,
+            resolved_by = CASE
+              WHEN ${denyOnExpiry} THEN ?
+              ELSE resolved_by
+            END,
+            resolved_at = CASE
+              WHEN ${denyOnExpiry} THEN ?
+              ELSE resolved_at
+            END
+        WHERE status = 'pending' AND expires_at < ?
+      `,
+      [APPROVAL_EXPIRY_ACTOR, nowIso, nowIso],
+    );
+    await this.purgeResolvedPayloads(db, nowIso);
+    return changes;
+  }
+
+  private async resolve(id: string, status: "approved" | "denied", actor: string): Promise<ApprovalRecord> {
+    const db = this.assertDb();
+    const nowIso = new Date().toISOString();
+    await this.expirePending(db, nowIso);
+    await db.run(
       `
         UPDATE approvals
         SET status = ?,
@@ -450,29 +1206,111 @@ export class ApprovalService {
         WHERE id = ?
           AND status = 'pending'
       `,
-    ).run(status, actor, new Date().toISOString(), id);
-
-    const row = db
-      .prepare(
-        `
-          SELECT *
-          FROM approvals
-          WHERE id = ?
-        `,
-      )
-      .get(id) as ApprovalRecord | undefined;
+      [status, actor, nowIso, id],
+    );
+    await this.purgeResolvedPayloads(db, nowIso);
 
+    const row = await this.selectById(db, id);
     if (!row) {
       throw new Error(`Approval not found: ${id}`);
     }
     return row;
   }
 
-  private assertDb(): Database.Database {
-    if (!this.db) {
+  private async selectById(db: SqlExecutor, id: string): Promise<ApprovalRecord | null> {
+    const row = await db.get<ApprovalRecord>(
+      `
+        SELECT *
+        FROM approvals
+        WHERE id = ?
+        LIMIT 1
+      `,
+      [id],
+    );
+    return row || null;
+  }
+
+  private async storePayload(
+    db: SqlExecutor,
+    approvalId: string,
+    createdAt: string,
+    payload: ApprovalPayloadInput,
+  ): Promise<void> {
+    const envelope = { body: payload.body ?? null, tool_calls: payload.toolCalls };
+    const paths = new Map<string, string>();
+    flattenJsonPaths(envelope, "$", paths);
+    const digests: Record<string, string> = {};
+    for (const [jsonPath, value] of paths) {
+      digests[jsonPath] = crypto.createHmac("sha256", this.digestKey).update(value).digest("hex");
+    }
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.payloadKey, iv);
+    cipher.setAAD(Buffer.from(approvalId, "utf8"));
+    const encrypted = Buffer.concat([cipher.update(JSON.stringify(envelope), "utf8"), cipher.final()]);
+    const ciphertext = [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".");
+    await db.run(
+      `
+        INSERT INTO approval_payloads (
+          approval_id, subject_key, created_at, ciphertext, value_digests, risk, purged_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, NULL)
+        ON CONFLICT (approval_id) DO UPDATE SET
+          subject_key = excluded.subject_key,
+          created_at = excluded.created_at,
+          ciphertext = excluded.ciphertext,
+          value_digests = excluded.value_digests,
+          risk = excluded.risk,
+          purged_at = NULL
+      `,
+      [approvalId, payload.subjectKey, createdAt, ciphertext, JSON.stringify(digests), JSON.stringify(payload.risk)],
+    );
+  }
+
+  private decryptPayload(
+    approvalId: string,
+    ciphertext: string,
+  ): { body: unknown; tool_calls: ApprovalPayloadInput["toolCalls"] } | null {
+    const [iv, tag, encrypted] = ciphertext.split(".").map((part) => Buffer.from(part, "base64"));
+    try {
+      const decipher = crypto.createDecipheriv("aes-256-gcm", this.payloadKey, iv);
+      decipher.setAAD(Buffer.from(approvalId, "utf8"));
+      decipher.setAuthTag(tag);
+      const plain = Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+      return JSON.parse(plain);
+    } catch {
+      // Written under a different payload key (or tampered with); the detail view reports it as unavailable.
+      return null;
+    }
+  }
+
+  // Resolution ends the approver's need for the request body; only value digests remain for later diffs.
+  private async purgeResolvedPayloads(db: SqlExecutor, nowIso: string): Promise<void> {
+    await db.run(
+      `
+        UPDATE approval_payloads
+        SET ciphertext = NULL,
+            purged_at = ?
+        WHERE ciphertext IS NOT NULL
+          AND approval_id IN (SELECT id FROM approvals WHERE status != 'pending')
+      `,
+      [nowIso],
+    );
+  }
+
+  private parseDigests(raw: string): Record<string, string> {
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, string>) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private assertDb(): SqlStore {
+    if (!this.ready) {
       throw new Error("Approval service is not initialized.");
     }
-    return this.db;
+    return this.store;
   }
 
   private normalizeRequiredApprovals(value: number | undefined): number {
@@ -507,55 +1345,6 @@ export class ApprovalService {
     }
   }
 
-  private ensureColumns(): void {
-    const db = this.assertDb();
-    const columns = db
-      .prepare("PRAGMA table_info(approvals)")
-      .all() as Array<{ name: string }>;
-    const names = new Set(columns.map((column) => String(column.name || "")));
-    if (!names.has("required_approvals")) {
-      db.exec("ALTER TABLE approvals ADD COLUMN required_approvals INTEGER NOT NULL DEFAULT 1");
-    }
-    if (!names.has("required_roles")) {
-      db.exec("ALTER TABLE approvals ADD COLUMN required_roles TEXT NOT NULL DEFAULT '[]'");
-    }
-    if (!names.has("max_uses")) {
-      db.exec("ALTER TABLE approvals ADD COLUMN max_uses INTEGER NOT NULL DEFAULT 1");
-    }
-    if (!names.has("use_count")) {
-      db.exec("ALTER TABLE approvals ADD COLUMN use_count INTEGER NOT NULL DEFAULT 0");
-    }
-    if (!names.has("last_used_at")) {
-      db.exec("ALTER TABLE approvals ADD COLUMN last_used_at TEXT");
-    }
-    if (!names.has("approval_actors")) {
-      db.exec("ALTER TABLE approvals ADD COLUMN approval_actors TEXT NOT NULL DEFAULT '[]'");
-    }
-    if (!names.has("approval_actor_roles")) {
-      db.exec("ALTER TABLE approvals ADD COLUMN approval_actor_roles TEXT NOT NULL DEFAULT '{}'");
-    }
-    db.exec(`
-      UPDATE approvals
-      SET required_approvals = 1
-      WHERE required_approvals IS NULL OR required_approvals < 1;
-      UPDATE approvals
-      SET required_roles = '[]'
-      WHERE required_roles IS NULL OR TRIM(required_roles) = '';
-      UPDATE approvals
-      SET max_uses = 1
-      WHERE max_uses IS NULL OR max_uses < 1;
-      UPDATE approvals
-      SET use_count = 0
-      WHERE use_count IS NULL OR use_count < 0;
-      UPDATE approvals
-      SET approval_actors = '[]'
-      WHERE approval_actors IS NULL OR TRIM(approval_actors) = '';
-      UPDATE approvals
-      SET approval_actor_roles = '{}'
-      WHERE approval_actor_roles IS NULL OR TRIM(approval_actor_roles) = '';
-    `);
-  }
-
   private normalizeRoles(values: string[] | undefined): string[] {
     const normalized = (values || [])
       .map((value) => String(value || "").trim().toLowerCase())
@@ -582,7 +1371,40 @@ export class ApprovalService {
     }
   }
 
-  private parseApprovalActorRoles(raw: string): Record<string, string> {
+  private serializeEscalationPolicy(policy: ApprovalEscalationPolicy | undefined): string {
+    if (!policy) {
+      return "{}";
+    }
+    return JSON.stringify({
+      reminder_after_minutes: policy.reminderAfterMinutes,
+      escalate_after_minutes: policy.escalateAfterMinutes,
+      escalate_to_roles: this.normalizeRoles(policy.escalateToRoles),
+      expiry_outcome: policy.expiryOutcome,
+    });
+  }
+
+  private parseEscalationPolicy(raw: string): ApprovalEscalationPolicy | null {
+    try {
+      const parsed = JSON.parse(raw) as Record<string, unknown>;
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        return null;
+      }
+      const minutes = (value: unknown): number | null =>
+        typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+      return {
+        reminderAfterMinutes: minutes(parsed.reminder_after_minutes),
+        escalateAfterMinutes: minutes(parsed.escalate_after_minutes),
+        escalateToRoles: this.normalizeRoles(
+          Array.isArray(parsed.escalate_to_roles) ? parsed.escalate_to_roles.map(String) : [],
+        ),
+        expiryOutcome: parsed.expiry_outcome === "deny" ? "deny" : "expire",
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private parseApprovalActorRoles(raw: string, lowercaseValues = true): Record<string, string> {
     try {
       const parsed = JSON.parse(raw);
       if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
@@ -591,7 +1413,7 @@ export class ApprovalService {
       const out: Record<string, string> = {};
       for (const [actor, role] of Object.entries(parsed as Record<string, unknown>)) {
         const actorKey = String(actor || "").trim();
-        const roleValue = String(role || "").trim().toLowerCase();
+        const roleValue = lowercaseValues ? String(role || "").trim().toLowerCase() : String(role || "").trim();
         if (!actorKey || !roleValue) {
           continue;
         }
@@ -57,7 +57,7 @@ export class AuditAttestationJobService {
     try {
       const stamp = new Date().toISOString().replace(/[:.]/g, "-");
       const snapshotPath = path.join(this.options.snapshotDirectory, `audit-attestation-${stamp}.json`);
-      const result = this.attestationService.exportSealedSnapshot({
+      const result = await this.attestationService.exportSealedSnapshot({
         snapshotPath,
         chainPath: this.options.chainPath,
         limit: this.options.maxRecordsPerExport,
@@ -188,8 +188,8 @@ export class AuditAttestationService {
     };
   }
 
-  generate(limit = 1000, since = ""): AuditAttestationPayload {
-    const rows = this.auditLedger.listForAttestation(limit, since);
+  async generate(limit = 1000, since = ""): Promise<AuditAttestationPayload> {
+    const rows = await this.auditLedger.listForAttestation(limit, since);
     let previousHash = GENESIS_HASH;
     const entries: AuditAttestationEntry[] = [];
 
@@ -249,15 +249,15 @@ export class AuditAttestationService {
     return unsigned;
   }
 
-  exportToFile(options?: { path?: string; limit?: number; since?: string }): {
+  async exportToFile(options?: { path?: string; limit?: number; since?: string }): Promise<{
     output_path: string;
     count: number;
     final_hash: string;
     signature: string | null;
     signature_kid: string | null;
-  } {
+  }> {
     const outPath = (options?.path || "").trim() || this.defaultExportPath;
-    const payload = this.generate(options?.limit ?? 1000, options?.since ?? "");
+    const payload = await this.generate(options?.limit ?? 1000, options?.since ?? "");
     fs.mkdirSync(path.dirname(outPath), { recursive: true });
     fs.writeFileSync(outPath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
     return {
@@ -269,12 +269,12 @@ export class AuditAttestationService {
     };
   }
 
-  exportSealedSnapshot(options?: {
+  async exportSealedSnapshot(options?: {
     snapshotPath?: string;
     chainPath?: string;
     limit?: number;
     since?: string;
-  }): {
+  }): Promise<{
     snapshot_path: string;
     chain_path: string;
     count: number;
@@ -285,10 +285,10 @@ export class AuditAttestationService {
     previous_snapshot_hash: string;
     payload_hash: string;
     generated_at: string;
-  } {
+  }> {
     const snapshotPath = (options?.snapshotPath || "").trim() || this.defaultExportPath;
     const chainPath = (options?.chainPath || "").trim() || `${snapshotPath}.chain.jsonl`;
-    const payload = this.generate(options?.limit ?? 1000, options?.since ?? "");
+    const payload = await this.generate(options?.limit ?? 1000, options?.since ?? "");
 
     fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
     fs.mkdirSync(path.dirname(chainPath), { recursive: true });
@@ -3,6 +3,7 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import Database from "better-sqlite3";
+import { sqlColumnTypes, type Awaitable, type SqlMigration, type SqlStore } from "./sql-store";
 import { redactSensitive, stableStringify } from "./utils";
 
 export type AuditActionType =
@@ -14,10 +15,16 @@ export type AuditActionType =
   | "TOKEN_BUDGET_BLOCKED"
   | "BUDGET_SUSPENDED"
   | "BUDGET_RESUMED"
+  | "BUDGET_WARNING"
+  | "STREAM_BUDGET_CUTOFF"
+  | "RESPONSE_GUARD_BLOCKED"
+  | "RESPONSE_GUARD_REDACTED"
+  | "RESPONSE_GUARD_APPROVAL_REQUIRED"
   | "CONTROL_ACCESS_DENIED"
   | "CONTROL_SCOPE_DENIED"
   | "RATE_LIMIT_BLOCKED"
   | "POLICY_BLOCKED_ACTION"
+  | "POLICY_SIMULATED"
   | "APPROVAL_REQUIRED"
   | "APPROVAL_CREATED"
   | "APPROVAL_GRANTED"
@@ -67,9 +74,35 @@ export type AuditActionType =
   | "CAPABILITY_BLOCKED_ACTION"
   | "TRANSPORT_SECURITY_READY"
   | "TRANSPORT_SECURITY_VIOLATION"
+  | "UPSTREAM_FAILOVER"
+  | "UPSTREAM_HEALTH_CHANGED"
   | "POLICY_CATALOG_LOADED"
   | "POLICY_CATALOG_RELOADED"
   | "MODEL_REGISTRY_RELOADED"
+  | "MODEL_SUBSTITUTED"
+  | "RESPONSE_CACHE_HIT"
+  | "RISK_EVALUATOR_CIRCUIT_CHANGED"
+  | "PROMPT_INJECTION_DETECTED"
+  | "DLP_CATALOG_LOADED"
+  | "DLP_CATALOG_RELOADED"
+  | "DLP_REQUEST_BLOCKED"
+  | "DLP_REQUEST_REDACTED"
+  | "APPROVAL_CHAT_NOTIFICATION_QUEUED"
+  | "APPROVAL_CHAT_IDENTITY_DENIED"
+  | "APPROVAL_REMINDER_SENT"
+  | "APPROVAL_ESCALATED"
+  | "APPROVAL_EXPIRED"
+  | "APPROVAL_AUTO_DENIED"
+  | "APPROVAL_DELEGATION_CREATED"
+  | "APPROVAL_DELEGATION_REVOKED"
+  | "APPROVAL_DELEGATION_DENIED"
+  | "APPROVAL_DUPLICATE_VOTE_DENIED"
+  | "STANDING_APPROVAL_CREATED"
+  | "STANDING_APPROVAL_REVOKED"
+  | "APPROVAL_DETAIL_VIEWED"
+  | "MODEL_SUBSTITUTION_CATALOG_LOADED"
+  | "MODEL_SUBSTITUTION_CATALOG_RELOADED"
+  | "PRICING_CATALOG_RELOADED"
   | "CONTROL_TOKEN_CATALOG_LOADED"
   | "CONTROL_TOKEN_CATALOG_RELOADED"
   | "AIRGAP_ATTESTED"
@@ -130,18 +163,81 @@ export interface AuditIntegrityReport {
   chain_tip: string;
 }
 
+// Readers must await results: the SQLite ledger answers synchronously, the Postgres ledger does not. Writes may be
+// fired and forgotten; the Postgres ledger appends them in call order and reports failures through getState.
 export interface AuditLedger {
-  init(): void;
-  logAndSignAction(actionType: AuditActionType, payload: unknown): AuditRow;
-  getRecent(limit?: number): AuditRow[];
-  listForAttestation(limit?: number, since?: string): AuditRow[];
-  getCount(): number;
-  verifyIntegrity(): AuditIntegrityReport;
-  close(): void;
+  init(): Awaitable<void>;
+  logAndSignAction(actionType: AuditActionType, payload: unknown): Awaitable<AuditRow>;
+  // With action types, the limit applies after filtering.
+  getRecent(limit?: number, actionTypes?: AuditActionType[]): Awaitable<AuditRow[]>;
+  listForAttestation(limit?: number, since?: string): Awaitable<AuditRow[]>;
+  getCount(): Awaitable<number>;
+  verifyIntegrity(): Awaitable<AuditIntegrityReport>;
+  close(): Awaitable<void>;
 }
 
 const GENESIS_HASH = "0".repeat(64);
 
+function actionTypeFilter(actionTypes: AuditActionType[]): string {
+  return actionTypes.length > 0 ? `WHERE action_type IN (${actionTypes.map(() => "?").join(", ")})` : "";
+}
+
+function computeAuditHash(
+  timestamp: string,
+  actionType: string,
+  serializedPayload: string,
+  previousHash: string,
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${timestamp}|${actionType}|${serializedPayload}|${previousHash}`)
+    .digest("hex");
+}
+
+function verifyAuditChain(rows: AuditRow[]): AuditIntegrityReport {
+  let expectedPreviousHash = GENESIS_HASH;
+  for (let i = 0; i < rows.length; i += 1) {
+    const row = rows[i];
+    if (row.previous_hash !== expectedPreviousHash) {
+      return {
+        valid: false,
+        total_rows: rows.length,
+        checked_rows: i,
+        first_invalid_id: row.id,
+        reason: "previous_hash mismatch",
+        expected_hash: expectedPreviousHash,
+        actual_hash: row.previous_hash,
+        chain_tip: expectedPreviousHash,
+      };
+    }
+    const expectedCurrentHash = computeAuditHash(row.timestamp, row.action_type, row.payload, expectedPreviousHash);
+    if (row.current_hash !== expectedCurrentHash) {
+      return {
+        valid: false,
+        total_rows: rows.length,
+        checked_rows: i,
+        first_invalid_id: row.id,
+        reason: "current_hash mismatch",
+        expected_hash: expectedCurrentHash,
+        actual_hash: row.current_hash,
+        chain_tip: expectedPreviousHash,
+      };
+    }
+    expectedPreviousHash = row.current_hash;
+  }
+
+  return {
+    valid: true,
+    total_rows: rows.length,
+    checked_rows: rows.length,
+    first_invalid_id: null,
+    reason: null,
+    expected_hash: null,
+    actual_hash: null,
+    chain_tip: expectedPreviousHash,
+  };
+}
+
 export class SqliteAuditLedger implements AuditLedger {
   private dbPath: string;
   private db: Database.Database | null = null;
@@ -171,12 +267,7 @@ export class SqliteAuditLedger implements AuditLedger {
     const timestamp = new Date().toISOString();
     const serializedPayload = stableStringify(redactSensitive(payload));
     const previousHash = this.latestHash(db);
-    const currentHash = this.computeCurrentHash(
-      timestamp,
-      actionType,
-      serializedPayload,
-      previousHash,
-    );
+    const currentHash = computeAuditHash(timestamp, actionType, serializedPayload, previousHash);
 
     const result = db
       .prepare(
@@ -200,7 +291,7 @@ export class SqliteAuditLedger implements AuditLedger {
     return inserted;
   }
 
-  getRecent(limit = 100): AuditRow[] {
+  getRecent(limit = 100, actionTypes: AuditActionType[] = []): AuditRow[] {
     const db = this.assertDb();
     const safeLimit = Math.min(Math.max(1, Math.floor(limit)), 1000);
     return db
@@ -208,11 +299,12 @@ export class SqliteAuditLedger implements AuditLedger {
         `
           SELECT id, timestamp, action_type, payload, previous_hash, current_hash
           FROM audit_logs
+          ${actionTypeFilter(actionTypes)}
           ORDER BY id DESC
           LIMIT ?
         `,
       )
-      .all(safeLimit) as AuditRow[];
+      .all(...actionTypes, safeLimit) as AuditRow[];
   }
 
   listForAttestation(limit = 1000, since = ""): AuditRow[] {
@@ -269,52 +361,7 @@ export class SqliteAuditLedger implements AuditLedger {
       )
       .all() as AuditRow[];
 
-    let expectedPreviousHash = GENESIS_HASH;
-    for (let i = 0; i < rows.length; i += 1) {
-      const row = rows[i];
-      if (row.previous_hash !== expectedPreviousHash) {
-        return {
-          valid: false,
-          total_rows: rows.length,
-          checked_rows: i,
-          first_invalid_id: row.id,
-          reason: "previous_hash mismatch",
-          expected_hash: expectedPreviousHash,
-          actual_hash: row.previous_hash,
-          chain_tip: expectedPreviousHash,
-        };
-      }
-      const expectedCurrentHash = this.computeCurrentHash(
-        row.timestamp,
-        row.action_type,
-        row.payload,
-        expectedPreviousHash,
-      );
-      if (row.current_hash !== expectedCurrentHash) {
-        return {
-          valid: false,
-          total_rows: rows.length,
-          checked_rows: i,
-          first_invalid_id: row.id,
-          reason: "current_hash mismatch",
-          expected_hash: expectedCurrentHash,
-          actual_hash: row.current_hash,
-          chain_tip: expectedPreviousHash,
-        };
-      }
-      expectedPreviousHash = row.current_hash;
-    }
-
-    return {
-      valid: true,
-      total_rows: rows.length,
-      checked_rows: rows.length,
-      first_invalid_id: null,
-      reason: null,
-      expected_hash: null,
-      actual_hash: null,
-      chain_tip: expectedPreviousHash,
-    };
+    return verifyAuditChain(rows);
   }
 
   close(): void {
@@ -338,16 +385,140 @@ export class SqliteAuditLedger implements AuditLedger {
         | undefined)?.current_hash ?? GENESIS_HASH
     );
   }
+}
+
+const AUDIT_MIGRATIONS: SqlMigration[] = [
+  {
+    version: 1,
+    name: "audit-baseline",
+    async up(db) {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS audit_logs (
+          id ${sqlColumnTypes(db.dialect).serial},
+          timestamp TEXT NOT NULL,
+          action_type TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          previous_hash TEXT NOT NULL,
+          current_hash TEXT NOT NULL
+        );
+      `);
+    },
+  },
+];
+
+const AUDIT_CHAIN_LOCK_KEY = "audit-chain";
+
+// One hash chain shared by every node writing to the store: appends take a cluster-wide lock, read the chain tip
+// and insert, so ids and chain order agree. Rows are hashed with the timestamp taken when the action was logged.
+export class PostgresAuditLedger implements AuditLedger {
+  private store: SqlStore;
+  private tail: Promise<unknown> = Promise.resolve();
+  private lastError: string | null = null;
+  private failedWrites = 0;
+
+  constructor(store: SqlStore) {
+    this.store = store;
+  }
+
+  async init(): Promise<void> {
+    await this.store.migrate("audit", AUDIT_MIGRATIONS);
+  }
+
+  logAndSignAction(actionType: AuditActionType, payload: unknown): Promise<AuditRow> {
+    const timestamp = new Date().toISOString();
+    const serializedPayload = stableStringify(redactSensitive(payload));
+    const appended = this.tail.then(() => this.append(timestamp, actionType, serializedPayload));
+    this.tail = appended.then(
+      () => undefined,
+      (error: unknown) => {
+        this.failedWrites += 1;
+        this.lastError = error instanceof Error ? error.message : String(error);
+      },
+    );
+    return appended;
+  }
+
+  async getRecent(limit = 100, actionTypes: AuditActionType[] = []): Promise<AuditRow[]> {
+    const safeLimit = Math.min(Math.max(1, Math.floor(limit)), 1000);
+    return (
+      await this.store.all<AuditRow>(
+        `
+          SELECT id, timestamp, action_type, payload, previous_hash, current_hash
+          FROM audit_logs
+          ${actionTypeFilter(actionTypes)}
+          ORDER BY id DESC
+          LIMIT ?
+        `,
+        [...actionTypes, safeLimit],
+      )
+    ).map(normalizeAuditRow);
+  }
+
+  async listForAttestation(limit = 1000, since = ""): Promise<AuditRow[]> {
+    const safeLimit = Math.min(Math.max(1, Math.floor(limit)), 20000);
+    const sinceValue = since.trim();
+    const rows = await this.store.all<AuditRow>(
+      `
+        SELECT id, timestamp, action_type, payload, previous_hash, current_hash
+        FROM audit_logs
+        WHERE timestamp > ?
+        ORDER BY id ASC
+        LIMIT ?
+      `,
+      [sinceValue, safeLimit],
+    );
+    return rows.map(normalizeAuditRow);
+  }
+
+  async getCount(): Promise<number> {
+    const row = await this.store.get<{ count: number | string }>("SELECT COUNT(*) AS count FROM audit_logs");
+    return Number(row?.count || 0);
+  }
+
+  async verifyIntegrity(): Promise<AuditIntegrityReport> {
+    const rows = await this.store.all<AuditRow>(
+      `
+        SELECT id, timestamp, action_type, payload, previous_hash, current_hash
+        FROM audit_logs
+        ORDER BY id ASC
+      `,
+    );
+    return verifyAuditChain(rows.map(normalizeAuditRow));
+  }
+
+  getState(): Record<string, unknown> {
+    return { store: this.store.getState(), failed_writes: this.failedWrites, last_error: this.lastError };
+  }
+
+  // Waits for queued appends; the store itself is closed by its owner.
+  async close(): Promise<void> {
+    await this.tail;
+  }
 
-  private computeCurrentHash(
-    timestamp: string,
-    actionType: string,
-    serializedPayload: string,
-    previousHash: string,
-  ): string {
-    return crypto
-      .createHash("sha256")
-      .update(`${timestamp}|${actionType}|${serializedPayload}|${previousHash}`)
-      .digest("hex");
+  private append(timestamp: string, actionType: AuditActionType, serializedPayload: string): Promise<AuditRow> {
+    return this.store.transaction([AUDIT_CHAIN_LOCK_KEY], async (db) => {
+      const latest = await db.get<{ current_hash: string }>(
+        "SELECT current_hash FROM audit_logs ORDER BY id DESC LIMIT 1",
+      );
+      const previousHash = latest?.current_hash ?? GENESIS_HASH;
+      const currentHash = computeAuditHash(timestamp, actionType, serializedPayload, previousHash);
+      const inserted = await db.get<AuditRow>(
+        `
+          INSERT INTO audit_logs (timestamp, action_type, payload, previous_hash, current_hash)
+          VALUES (?, ?, ?, ?, ?)
+          RETURNING id, timestamp, action_type, payload, previous_hash, current_hash
+        `,
+        [timestamp, actionType, serializedPayload, previousHash, currentHash],
+      );
+      if (!inserted) {
+        throw new Error("Audit ledger insert returned no row.");
+      }
+      return normalizeAuditRow(inserted);
+    });
   }
 }
+
+// Postgres returns BIGSERIAL ids as strings.
+function normalizeAuditRow(row: AuditRow): AuditRow {
+  return { ...row, id: Number(row.id) };
+}
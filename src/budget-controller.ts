@@ -1,24 +1,74 @@
+import crypto from "node:crypto";
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import Database from "better-sqlite3";
+import {
+  BUDGET_PERIODS,
+  DEFAULT_BUDGET_CALENDAR,
+  budgetPeriodWindow,
+  type BudgetCalendar,
+  type BudgetPeriod,
+  type BudgetPeriodWindow,
+} from "./budget-periods";
+import {
+  loadSignedPricingCatalog,
+  resolvePricingEntry,
+  type PricingCatalogLoadResult,
+  type UsageBreakdown,
+} from "./pricing-catalog";
+import {
+  SqliteSqlStore,
+  sqlColumnTypes,
+  type SqlExecutor,
+  type SqlMigration,
+  type SqlStore,
+} from "./sql-store";
+
+export type { PricingEntry } from "./pricing-catalog";
 
 export type BudgetDecision = "allow" | "suspend";
 
+export type BudgetScopeKind = "tenant" | "agent" | "principal" | "initiative" | "model";
+
+export type BudgetAttribution = Partial<Record<Exclude<BudgetScopeKind, "model">, string>>;
+
+export interface BudgetCaps {
+  hourlyUsdCap: number | null;
+  dailyUsdCap: number | null;
+  weeklyUsdCap?: number | null;
+  monthlyUsdCap?: number | null;
+  customUsdCap?: number | null;
+}
+
+export interface BudgetScopeCatalog {
+  defaults: Partial<Record<BudgetScopeKind, BudgetCaps>>;
+  scopes: Record<string, BudgetCaps>;
+}
+
 export interface BudgetPolicy {
   hourlyUsdCap: number;
   dailyUsdCap: number;
+  weeklyUsdCap?: number;
+  monthlyUsdCap?: number;
+  customUsdCap?: number;
+  calendar?: BudgetCalendar;
+  warningThresholds?: number[];
+  scopes?: BudgetScopeCatalog;
 }
 
-export interface PricingEntry {
-  model: string;
-  input_usd_per_1k: number;
-  output_usd_per_1k: number;
+export interface PricingSigningOptions {
+  signingKey?: string;
+  signingKeyringPath?: string;
 }
 
-interface PricingCatalogFile {
+export interface PricingCatalogState {
+  path: string;
   version: string;
-  models: PricingEntry[];
+  fingerprint: string;
+  signing_mode: PricingCatalogLoadResult["signing_mode"];
+  keyring_active_kid: string | null;
+  keyring_key_count: number;
+  entry_count: number;
 }
 
 export interface CostEstimate {
@@ -26,260 +76,1057 @@ export interface CostEstimate {
   inputTokens: number;
   outputTokens: number;
   estimatedUsd: number;
+  cachedInputTokens?: number;
+  reasoningTokens?: number;
+  images?: number;
+  audioSeconds?: number;
 }
 
 export interface CostRecord extends CostEstimate {
   requestPath: string;
   timestamp?: string;
+  attribution?: BudgetAttribution;
+  reservationId?: string;
+}
+
+export interface BudgetEvaluationOptions {
+  reserve?: boolean;
+  reservationId?: string;
+}
+
+export interface BudgetEvaluation {
+  decision: BudgetDecision;
+  reason: string | null;
+  scope: string | null;
+  reservationId?: string;
+}
+
+export interface BudgetPressure {
+  scope: string;
+  period: BudgetPeriod;
+  projectedUsd: number;
+  capUsd: number;
+  utilization: number;
 }
 
 export interface BudgetStatus {
+  scope: string;
   suspended: boolean;
   reason: string | null;
   triggeredAt: string | null;
   hourlyUsd: number;
   dailyUsd: number;
-  hourlyUsdCap: number;
-  dailyUsdCap: number;
+  hourlyUsdCap: number | null;
+  dailyUsdCap: number | null;
+  periods: BudgetPeriodStatus[];
+}
+
+export interface BudgetPeriodStatus {
+  period: BudgetPeriod;
+  start: string;
+  end: string;
+  usd: number;
+  capUsd: number | null;
+  utilization: number | null;
+  burnRateUsdPerHour: number;
+  projectedUsd: number | null;
+  projectedExhaustionAt: string | null;
 }
 
+export interface BudgetWarning {
+  scope: string;
+  period: BudgetPeriod;
+  thresholdPct: number;
+  usd: number;
+  capUsd: number;
+  utilization: number;
+  periodStart: string;
+  periodEnd: string;
+  projectedUsd: number | null;
+}
+
+export type CostReportBucket = "hour" | "day" | "month";
+
+export type CostReportGroupBy = "model" | "path" | "tenant" | "agent" | "principal" | "initiative";
+
+export interface CostReportQuery {
+  from: string;
+  to: string;
+  bucket: CostReportBucket;
+  groupBy: CostReportGroupBy[];
+}
+
+export interface CostReportTotals {
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  usd_cost: number;
+}
+
+export interface CostReportRow extends CostReportTotals {
+  bucket_start: string;
+  group: Partial<Record<CostReportGroupBy, string | null>>;
+}
+
+export interface CostReport {
+  from: string;
+  to: string;
+  bucket: CostReportBucket;
+  group_by: CostReportGroupBy[];
+  rows: CostReportRow[];
+  totals: CostReportTotals;
+}
+
+export interface SuspendedBudgetScope {
+  scope: string;
+  reason: string | null;
+  triggeredAt: string | null;
+}
+
+export const GLOBAL_BUDGET_SCOPE = "global";
+const ATTRIBUTED_SCOPE_KINDS: Array<Exclude<BudgetScopeKind, "model">> = ["tenant", "agent", "principal", "initiative"];
+const SCOPE_KINDS: BudgetScopeKind[] = [...ATTRIBUTED_SCOPE_KINDS, "model"];
+const MAX_SCOPE_ID_LENGTH = 128;
+const HOUR_MS = 60 * 60 * 1000;
+const FORECAST_LOOKBACK_MS = 24 * HOUR_MS;
+const DEFAULT_WARNING_THRESHOLDS = [50, 80, 95];
+// Long enough for a streamed response between running checks, which extend it.
+const BUDGET_RESERVATION_TTL_MS = 15 * 60 * 1000;
+const CAP_FIELDS: Record<BudgetPeriod, keyof BudgetCaps> = {
+  hourly: "hourlyUsdCap",
+  daily: "dailyUsdCap",
+  weekly: "weeklyUsdCap",
+  monthly: "monthlyUsdCap",
+  custom: "customUsdCap",
+};
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  hourly: "Hourly",
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  custom: "Custom-period",
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+export function parseBudgetScope(value: unknown): string {
+  if (value === undefined || value === null || value === "") {
+    return GLOBAL_BUDGET_SCOPE;
+  }
+  const raw = typeof value === "string" ? value.trim() : "";
+  if (raw === GLOBAL_BUDGET_SCOPE) {
+    return raw;
+  }
+  const separator = raw.indexOf(":");
+  const kind = raw.slice(0, separator) as BudgetScopeKind;
+  const id = raw.slice(separator + 1).trim();
+  if (separator < 1 || !SCOPE_KINDS.includes(kind) || !id || id.length > MAX_SCOPE_ID_LENGTH) {
+    throw new Error(`Budget scope must be "global" or "<kind>:<id>" with kind one of: ${SCOPE_KINDS.join(", ")}.`);
+  }
+  return `${kind}:${id}`;
+}
+
+function parseCap(value: unknown, label: string): number | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new Error(`${label} must be a non-negative number or null.`);
+  }
+  return value;
+}
+
+function parseCaps(value: unknown, label: string): BudgetCaps {
+  const record = asRecord(value);
+  if (!record) {
+    throw new Error(`${label} must be an object.`);
+  }
+  return {
+    hourlyUsdCap: parseCap(record.hourly_usd_cap, `${label}.hourly_usd_cap`),
+    dailyUsdCap: parseCap(record.daily_usd_cap, `${label}.daily_usd_cap`),
+    weeklyUsdCap: parseCap(record.weekly_usd_cap, `${label}.weekly_usd_cap`),
+    monthlyUsdCap: parseCap(record.monthly_usd_cap, `${label}.monthly_usd_cap`),
+    customUsdCap: parseCap(record.custom_usd_cap, `${label}.custom_usd_cap`),
+  };
+}
+
+export function parseBudgetScopeCatalog(value: unknown): BudgetScopeCatalog {
+  const record = asRecord(value);
+  if (!record) {
+    throw new Error("Budget scope catalog must be an object.");
+  }
+  const catalog: BudgetScopeCatalog = { defaults: {}, scopes: {} };
+  const defaults = record.defaults === undefined ? {} : asRecord(record.defaults);
+  if (!defaults) {
+    throw new Error("Budget scope catalog defaults must be an object.");
+  }
+  for (const [kind, caps] of Object.entries(defaults)) {
+    if (!SCOPE_KINDS.includes(kind as BudgetScopeKind)) {
+      throw new Error(`Budget scope catalog default "${kind}" is not one of: ${SCOPE_KINDS.join(", ")}.`);
+    }
+    catalog.defaults[kind as BudgetScopeKind] = parseCaps(caps, `Budget scope default ${kind}`);
+  }
+  if (record.scopes !== undefined && !Array.isArray(record.scopes)) {
+    throw new Error("Budget scope catalog scopes must be an array.");
+  }
+  for (const [index, entry] of ((record.scopes as unknown[] | undefined) || []).entries()) {
+    const scopeValue = asRecord(entry)?.scope;
+    const scope = parseBudgetScope(scopeValue);
+    if (!scopeValue || scope === GLOBAL_BUDGET_SCOPE) {
+      throw new Error(`Budget scope #${index} must name a tenant, agent, principal, initiative or model scope.`);
+    }
+    if (catalog.scopes[scope]) {
+      throw new Error(`Budget scope ${scope} is defined more than once.`);
+    }
+    catalog.scopes[scope] = parseCaps(entry, `Budget scope ${scope}`);
+  }
+  return catalog;
+}
+
+export function loadBudgetScopeCatalog(filePath: string): BudgetScopeCatalog {
+  if (!filePath) {
+    return { defaults: {}, scopes: {} };
+  }
+  return parseBudgetScopeCatalog(JSON.parse(fs.readFileSync(filePath, "utf8")) as unknown);
+}
+
+function scopeFilter(scope: string): { clause: string; params: string[] } {
+  if (scope === GLOBAL_BUDGET_SCOPE) {
+    return { clause: "", params: [] };
+  }
+  const separator = scope.indexOf(":");
+  const kind = scope.slice(0, separator) as BudgetScopeKind;
+  if (!SCOPE_KINDS.includes(kind)) {
+    throw new Error(`Unknown budget scope kind "${kind}".`);
+  }
+  return { clause: ` AND ${kind} = ?`, params: [scope.slice(separator + 1)] };
+}
+
+// Every check includes the global scope, so budget transactions serialize across nodes sharing a store.
+function budgetLockKeys(scopes: string[]): string[] {
+  return scopes.map((scope) => `budget:${scope}`);
+}
+
+function scopeLabel(scope: string): string {
+  return scope === GLOBAL_BUDGET_SCOPE ? "" : ` for ${scope}`;
+}
+
+function capFor(caps: BudgetCaps, period: BudgetPeriod): number | null {
+  return caps[CAP_FIELDS[period]] ?? null;
+}
+
+function optionalGlobalCap(value: number | undefined): number | null {
+  return value !== undefined && value > 0 ? value : null;
+}
+
+export const COST_REPORT_BUCKETS: CostReportBucket[] = ["hour", "day", "month"];
+export const COST_REPORT_GROUP_BY: CostReportGroupBy[] = ["model", "path", "tenant", "agent", "principal", "initiative"];
+
+const BUCKET_EXPRESSIONS: Record<CostReportBucket, string> = {
+  hour: "substr(timestamp, 1, 13) || ':00:00.000Z'",
+  day: "substr(timestamp, 1, 10) || 'T00:00:00.000Z'",
+  month: "substr(timestamp, 1, 7) || '-01T00:00:00.000Z'",
+};
+
+const GROUP_COLUMNS: Record<CostReportGroupBy, string> = {
+  model: "model",
+  path: "request_path",
+  tenant: "tenant",
+  agent: "agent",
+  principal: "principal",
+  initiative: "initiative",
+};
+
+function csvCell(value: string | number | null | undefined): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  // Neutralize spreadsheet formulas; group values come from caller-supplied headers and paths.
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function parseCostReportQuery(input: Record<string, unknown>, now: Date = new Date()): CostReportQuery {
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  const from = text(input.from) ? Date.parse(text(input.from)) : now.getTime() - 30 * 24 * HOUR_MS;
+  const to = text(input.to) ? Date.parse(text(input.to)) : now.getTime();
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    throw new Error("Cost report from and to must be ISO-8601 timestamps.");
+  }
+  if (from >= to) {
+    throw new Error("Cost report from must be earlier than to.");
+  }
+  const bucket = (text(input.bucket) || "day") as CostReportBucket;
+  if (!COST_REPORT_BUCKETS.includes(bucket)) {
+    throw new Error(`Cost report bucket must be one of: ${COST_REPORT_BUCKETS.join(", ")}.`);
+  }
+  const groupBy = [...new Set(text(input.group_by).split(",").map((part) => part.trim()).filter(Boolean))];
+  for (const field of groupBy) {
+    if (!COST_REPORT_GROUP_BY.includes(field as CostReportGroupBy)) {
+      throw new Error(`Cost report group_by must be drawn from: ${COST_REPORT_GROUP_BY.join(", ")}.`);
+    }
+  }
+  return {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    bucket,
+    groupBy: groupBy as CostReportGroupBy[],
+  };
+}
+
+export function costReportToCsv(report: CostReport): string {
+  const header = ["bucket_start", ...report.group_by, "requests", "input_tokens", "output_tokens", "usd_cost"];
+  const lines = report.rows.map((row) =>
+    [
+      row.bucket_start,
+      ...report.group_by.map((field) => row.group[field]),
+      row.requests,
+      row.input_tokens,
+      row.output_tokens,
+      row.usd_cost.toFixed(6),
+    ]
+      .map(csvCell)
+      .join(","),
+  );
+  return `${[header.join(","), ...lines].join("\r\n")}\r\n`;
+}
+
+const BUDGET_MIGRATIONS: SqlMigration[] = [
+  {
+    version: 1,
+    name: "budget-baseline",
+    async up(db) {
+      const types = sqlColumnTypes(db.dialect);
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS cost_events (
+          id ${types.serial},
+          timestamp TEXT NOT NULL,
+          model TEXT NOT NULL,
+          input_tokens INTEGER NOT NULL,
+          output_tokens INTEGER NOT NULL,
+          usd_cost ${types.real} NOT NULL,
+          request_path TEXT NOT NULL,
+          tenant TEXT,
+          agent TEXT,
+          principal TEXT,
+          initiative TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS budget_state (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          suspended INTEGER NOT NULL,
+          reason TEXT,
+          triggered_at TEXT,
+          resumed_at TEXT,
+          resumed_by TEXT,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS budget_warnings (
+          scope TEXT NOT NULL,
+          period TEXT NOT NULL,
+          period_start TEXT NOT NULL,
+          threshold_pct ${types.real} NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (scope, period, period_start, threshold_pct)
+        );
+
+        CREATE TABLE IF NOT EXISTS budget_scope_state (
+          scope TEXT PRIMARY KEY,
+          suspended INTEGER NOT NULL,
+          reason TEXT,
+          triggered_at TEXT,
+          resumed_at TEXT,
+          resumed_by TEXT,
+          updated_at TEXT NOT NULL
+        );
+      `);
+      if (db.dialect === "sqlite") {
+        // Budget databases written before attribution existed lack the scope columns.
+        const columns = await db.all<{ name: string }>("PRAGMA table_info(cost_events)");
+        const names = new Set(columns.map((column) => String(column.name || "")));
+        for (const kind of ATTRIBUTED_SCOPE_KINDS) {
+          if (!names.has(kind)) {
+            await db.exec(`ALTER TABLE cost_events ADD COLUMN ${kind} TEXT`);
+          }
+        }
+      }
+      await db.exec("CREATE INDEX IF NOT EXISTS idx_cost_events_timestamp ON cost_events(timestamp)");
+      await db.run(
+        `
+          INSERT INTO budget_state (id, suspended, reason, triggered_at, resumed_at, resumed_by, updated_at)
+          VALUES (1, 0, NULL, NULL, NULL, NULL, ?)
+          ON CONFLICT (id) DO NOTHING
+        `,
+        [new Date().toISOString()],
+      );
+    },
+  },
+  {
+    version: 2,
+    name: "budget-reservations",
+    async up(db) {
+      const types = sqlColumnTypes(db.dialect);
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS budget_reservations (
+          id TEXT PRIMARY KEY,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          model TEXT NOT NULL,
+          usd_cost ${types.real} NOT NULL,
+          tenant TEXT,
+          agent TEXT,
+          principal TEXT,
+          initiative TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_budget_reservations_expires ON budget_reservations(expires_at);
+      `);
+    },
+  },
+];
+
 export class BudgetController {
-  private dbPath: string;
-  private pricingByModel = new Map<string, PricingEntry>();
+  private store: SqlStore;
+  private ownsStore: boolean;
+  private ready = false;
+  private pricingCatalogPath: string;
+  private pricingSigning: PricingSigningOptions;
+  private pricing: PricingCatalogLoadResult;
   private policy: BudgetPolicy;
-  private db: Database.Database | null = null;
 
-  constructor(policy: BudgetPolicy, pricingCatalogPath: string, dbPath?: string) {
+  // A path opens a private SQLite store; a shared store (e.g. Postgres) is migrated here but closed by its owner.
+  constructor(
+    policy: BudgetPolicy,
+    pricingCatalogPath: string,
+    storage?: string | SqlStore,
+    pricingSigning: PricingSigningOptions = {},
+  ) {
     this.policy = policy;
-    this.dbPath = dbPath || path.join(os.homedir(), ".openclaw", "enterprise_budget.db");
-    this.loadPricingCatalog(pricingCatalogPath);
-  }
-
-  init(): void {
-    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
-    this.db = new Database(this.dbPath);
-    this.db.pragma("journal_mode = WAL");
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS cost_events (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp TEXT NOT NULL,
-        model TEXT NOT NULL,
-        input_tokens INTEGER NOT NULL,
-        output_tokens INTEGER NOT NULL,
-        usd_cost REAL NOT NULL,
-        request_path TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS budget_state (
-        id INTEGER PRIMARY KEY CHECK (id = 1),
-        suspended INTEGER NOT NULL,
-        reason TEXT,
-        triggered_at TEXT,
-        resumed_at TEXT,
-        resumed_by TEXT,
-        updated_at TEXT NOT NULL
-      );
+    this.ownsStore = typeof storage !== "object";
+    this.store =
+      typeof storage === "object"
+        ? storage
+        : new SqliteSqlStore(storage || path.join(os.homedir(), ".openclaw", "enterprise_budget.db"));
+    this.pricingCatalogPath = pricingCatalogPath;
+    this.pricingSigning = pricingSigning;
+    this.pricing = this.loadPricingCatalog();
+  }
 
-      INSERT OR IGNORE INTO budget_state (id, suspended, reason, triggered_at, resumed_at, resumed_by, updated_at)
-      VALUES (1, 0, NULL, NULL, NULL, NULL, datetime('now'));
-    `);
+  async init(): Promise<void> {
+    if (this.ownsStore) {
+      await this.store.init();
+    }
+    await this.store.migrate("budget", BUDGET_MIGRATIONS);
+    this.ready = true;
   }
 
-  close(): void {
-    if (this.db) {
-      this.db.close();
-      this.db = null;
+  async close(): Promise<void> {
+    this.ready = false;
+    if (this.ownsStore) {
+      await this.store.close();
     }
   }
 
   estimateCost(model: string, inputTokens: number, outputTokens: number): CostEstimate {
-    const pricing = this.pricingByModel.get(model) || this.pricingByModel.get("*");
+    return this.estimateUsageCost(model, { inputTokens, outputTokens });
+  }
+
+  estimateUsageCost(
+    model: string,
+    usage: Pick<UsageBreakdown, "inputTokens" | "outputTokens"> & Partial<UsageBreakdown>,
+    at: Date = new Date(),
+  ): CostEstimate {
+    const pricing = resolvePricingEntry(this.pricing.entries, model, at);
     if (!pricing) {
       throw new Error(`No pricing entry found for model "${model}" and no "*" fallback.`);
     }
+    const cachedInputTokens = Math.min(usage.cachedInputTokens ?? 0, usage.inputTokens);
+    const reasoningTokens = Math.min(usage.reasoningTokens ?? 0, usage.outputTokens);
+    const images = usage.images ?? 0;
+    const audioSeconds = usage.audioSeconds ?? 0;
     const estimatedUsd =
-      (inputTokens / 1000) * pricing.input_usd_per_1k +
-      (outputTokens / 1000) * pricing.output_usd_per_1k;
+      ((usage.inputTokens - cachedInputTokens) / 1000) * pricing.input_usd_per_1k +
+      (cachedInputTokens / 1000) * (pricing.cached_input_usd_per_1k ?? pricing.input_usd_per_1k) +
+      ((usage.outputTokens - reasoningTokens) / 1000) * pricing.output_usd_per_1k +
+      (reasoningTokens / 1000) * (pricing.reasoning_usd_per_1k ?? pricing.output_usd_per_1k) +
+      images * (pricing.image_usd ?? 0) +
+      audioSeconds * (pricing.audio_usd_per_second ?? 0);
 
     return {
       model,
-      inputTokens,
-      outputTokens,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
       estimatedUsd,
+      ...(cachedInputTokens > 0 ? { cachedInputTokens } : {}),
+      ...(reasoningTokens > 0 ? { reasoningTokens } : {}),
+      ...(images > 0 ? { images } : {}),
+      ...(audioSeconds > 0 ? { audioSeconds } : {}),
     };
   }
 
-  evaluateProjected(estimate: CostEstimate): { decision: BudgetDecision; reason: string | null } {
-    const db = this.assertDb();
-    const state = this.readState();
-    if (state.suspended) {
-      return {
-        decision: "suspend",
-        reason: state.reason || "Budget controller is currently suspended.",
-      };
-    }
+  getTokenizerEncoding(model: string): string | null {
+    return resolvePricingEntry(this.pricing.entries, model)?.tokenizer?.trim() || null;
+  }
 
-    const usage = this.readUsage();
-    const projectedHourly = usage.hourlyUsd + estimate.estimatedUsd;
-    const projectedDaily = usage.dailyUsd + estimate.estimatedUsd;
+  reloadPricingCatalog(): PricingCatalogState {
+    this.pricing = this.loadPricingCatalog();
+    return this.getPricingState();
+  }
 
-    if (projectedHourly > this.policy.hourlyUsdCap) {
-      const reason = `Hourly compute budget exceeded (${projectedHourly.toFixed(4)} > ${this.policy.hourlyUsdCap.toFixed(4)} USD).`;
-      this.suspend(reason);
-      return { decision: "suspend", reason };
-    }
+  getPricingState(): PricingCatalogState {
+    return {
+      path: this.pricingCatalogPath,
+      version: this.pricing.version,
+      fingerprint: this.pricing.fingerprint,
+      signing_mode: this.pricing.signing_mode,
+      keyring_active_kid: this.pricing.keyring_active_kid,
+      keyring_key_count: this.pricing.keyring_key_count,
+      entry_count: this.pricing.entries.length,
+    };
+  }
 
-    if (projectedDaily > this.policy.dailyUsdCap) {
-      const reason = `Daily compute budget exceeded (${projectedDaily.toFixed(4)} > ${this.policy.dailyUsdCap.toFixed(4)} USD).`;
-      this.suspend(reason);
-      return { decision: "suspend", reason };
-    }
+  // Runs under the advisory locks of every scope it touches, so concurrent checks and accounting on other nodes
+  // see each other's writes. A reservation holds the estimate against those scopes until recordActual settles it
+  // or it expires; passing an existing reservationId resizes that hold instead of adding another.
+  async evaluateProjected(
+    estimate: CostEstimate,
+    attribution: BudgetAttribution = {},
+    options: BudgetEvaluationOptions = {},
+  ): Promise<BudgetEvaluation> {
+    const scopes = this.scopesFor(estimate.model, attribution);
+    return this.assertDb().transaction(budgetLockKeys(scopes), async (db) => {
+      for (const scope of scopes) {
+        const state = await this.readState(db, scope);
+        if (state.suspended) {
+          return {
+            decision: "suspend",
+            reason:
+              state.reason ||
+              (scope === GLOBAL_BUDGET_SCOPE
+                ? "Budget controller is currently suspended."
+                : `Budget scope ${scope} is currently suspended.`),
+            scope,
+          };
+        }
+      }
+
+      const now = new Date();
+      const windows = this.periodWindows(now);
+      const reserved = { now, excludeReservationId: options.reservationId ?? null };
+      for (const scope of scopes) {
+        const caps = this.resolveCaps(scope);
+        for (const window of windows) {
+          const cap = capFor(caps, window.period);
+          if (cap === null) {
+            continue;
+          }
+          const projected = (await this.readUsageSince(db, scope, window.start, reserved)) + estimate.estimatedUsd;
+          if (projected > cap) {
+            const reason = `${PERIOD_LABELS[window.period]} compute budget${scopeLabel(scope)} exceeded (${projected.toFixed(4)} > ${cap.toFixed(4)} USD).`;
+            await this.writeSuspension(db, reason, scope);
+            return { decision: "suspend", reason, scope };
+          }
+        }
+      }
 
-    void db; // reserved for future deterministic transaction wrapping.
-    return { decision: "allow", reason: null };
+      if (!options.reserve && !options.reservationId) {
+        return { decision: "allow", reason: null, scope: null };
+      }
+      const reservationId = await this.writeReservation(db, estimate, attribution, now, options.reservationId);
+      return { decision: "allow", reason: null, scope: null, reservationId };
+    });
   }
 
-  recordActual(cost: CostRecord): void {
+  async getBudgetPressure(estimate: CostEstimate, attribution: BudgetAttribution = {}): Promise<BudgetPressure | null> {
     const db = this.assertDb();
-    const timestamp = cost.timestamp || new Date().toISOString();
-    db.prepare(
-      `
-        INSERT INTO cost_events (timestamp, model, input_tokens, output_tokens, usd_cost, request_path)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `,
-    ).run(
-      timestamp,
-      cost.model,
-      cost.inputTokens,
-      cost.outputTokens,
-      cost.estimatedUsd,
-      cost.requestPath,
-    );
+    let highest: BudgetPressure | null = null;
+    const now = new Date();
+    const windows = this.periodWindows(now);
+    for (const scope of this.scopesFor(estimate.model, attribution)) {
+      const caps = this.resolveCaps(scope);
+      for (const window of windows) {
+        const cap = capFor(caps, window.period);
+        if (cap === null) {
+          continue;
+        }
+        const projectedUsd =
+          (await this.readUsageSince(db, scope, window.start, { now, excludeReservationId: null })) +
+          estimate.estimatedUsd;
+        const utilization = cap > 0 ? projectedUsd / cap : Number.POSITIVE_INFINITY;
+        if (!highest || utilization > highest.utilization) {
+          highest = { scope, period: window.period, projectedUsd, capUsd: cap, utilization };
+        }
+      }
+    }
+    return highest;
+  }
 
-    const usage = this.readUsage();
-    if (usage.hourlyUsd > this.policy.hourlyUsdCap) {
-      this.suspend(
-        `Hourly compute budget exceeded after actual accounting (${usage.hourlyUsd.toFixed(4)} > ${this.policy.hourlyUsdCap.toFixed(4)} USD).`,
-      );
-    } else if (usage.dailyUsd > this.policy.dailyUsdCap) {
-      this.suspend(
-        `Daily compute budget exceeded after actual accounting (${usage.dailyUsd.toFixed(4)} > ${this.policy.dailyUsdCap.toFixed(4)} USD).`,
+  async recordActual(cost: CostRecord): Promise<BudgetWarning[]> {
+    const timestamp = cost.timestamp || new Date().toISOString();
+    const attribution = this.normalizeAttribution(cost.attribution);
+    const scopes = this.scopesFor(cost.model, attribution);
+    return this.assertDb().transaction(budgetLockKeys(scopes), async (db) => {
+      await db.run(
+        `
+          INSERT INTO cost_events (
+            timestamp, model, input_tokens, output_tokens, usd_cost, request_path, tenant, agent, principal, initiative
+          )
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+        [
+          timestamp,
+          cost.model,
+          cost.inputTokens,
+          cost.outputTokens,
+          cost.estimatedUsd,
+          cost.requestPath,
+          attribution.tenant ?? null,
+          attribution.agent ?? null,
+          attribution.principal ?? null,
+          attribution.initiative ?? null,
+        ],
       );
-    }
+      if (cost.reservationId) {
+        await db.run("DELETE FROM budget_reservations WHERE id = ?", [cost.reservationId]);
+      }
+
+      const now = new Date();
+      const windows = this.periodWindows(now);
+      const warnings: BudgetWarning[] = [];
+      for (const scope of scopes) {
+        const caps = this.resolveCaps(scope);
+        let exceeded: string | null = null;
+        for (const window of windows) {
+          const cap = capFor(caps, window.period);
+          if (cap === null) {
+            continue;
+          }
+          const usd = await this.readUsageSince(db, scope, window.start);
+          if (!exceeded && usd > cap) {
+            exceeded = `${PERIOD_LABELS[window.period]} compute budget${scopeLabel(scope)} exceeded after actual accounting (${usd.toFixed(4)} > ${cap.toFixed(4)} USD).`;
+          }
+          warnings.push(...(await this.crossedWarnings(db, scope, window, usd, cap, now)));
+        }
+        if (exceeded) {
+          await this.writeSuspension(db, exceeded, scope);
+        }
+      }
+      return warnings;
+    });
   }
 
-  suspend(reason: string): void {
-    const db = this.assertDb();
-    db.prepare(
-      `
-        UPDATE budget_state
-        SET suspended = 1,
-            reason = ?,
-            triggered_at = ?,
-            updated_at = ?
-        WHERE id = 1
-      `,
-    ).run(reason, new Date().toISOString(), new Date().toISOString());
+  // For requests that reserved budget but never reached recordActual (blocked later, upstream failure).
+  async releaseReservation(reservationId: string): Promise<void> {
+    await this.assertDb().run("DELETE FROM budget_reservations WHERE id = ?", [reservationId]);
+  }
+
+  async suspend(reason: string, scope: string = GLOBAL_BUDGET_SCOPE): Promise<void> {
+    await this.writeSuspension(this.assertDb(), reason, scope);
   }
 
-  resume(resumedBy: string): void {
+  async resume(resumedBy: string, scope: string = GLOBAL_BUDGET_SCOPE): Promise<void> {
     const db = this.assertDb();
-    db.prepare(
+    const now = new Date().toISOString();
+    if (scope === GLOBAL_BUDGET_SCOPE) {
+      await db.run(
+        `
+          UPDATE budget_state
+          SET suspended = 0,
+              reason = NULL,
+              resumed_at = ?,
+              resumed_by = ?,
+              updated_at = ?
+          WHERE id = 1
+        `,
+        [now, resumedBy, now],
+      );
+      return;
+    }
+    await db.run(
       `
-        UPDATE budget_state
+        UPDATE budget_scope_state
         SET suspended = 0,
             reason = NULL,
             resumed_at = ?,
             resumed_by = ?,
             updated_at = ?
-        WHERE id = 1
+        WHERE scope = ?
       `,
-    ).run(new Date().toISOString(), resumedBy, new Date().toISOString());
+      [now, resumedBy, now, scope],
+    );
   }
 
-  getStatus(): BudgetStatus {
-    const state = this.readState();
-    const usage = this.readUsage();
+  async getStatus(scope: string = GLOBAL_BUDGET_SCOPE): Promise<BudgetStatus> {
+    const db = this.assertDb();
+    const state = await this.readState(db, scope);
+    const caps = this.resolveCaps(scope);
+    const now = new Date();
+    const periods: BudgetPeriodStatus[] = [];
+    for (const window of this.periodWindows(now)) {
+      periods.push(await this.periodStatus(db, scope, window, capFor(caps, window.period), now));
+    }
+    const usdFor = (period: BudgetPeriod) => periods.find((entry) => entry.period === period)?.usd ?? 0;
     return {
+      scope,
       suspended: state.suspended,
       reason: state.reason,
       triggeredAt: state.triggeredAt,
-      hourlyUsd: usage.hourlyUsd,
-      dailyUsd: usage.dailyUsd,
-      hourlyUsdCap: this.policy.hourlyUsdCap,
-      dailyUsdCap: this.policy.dailyUsdCap,
+      hourlyUsd: usdFor("hourly"),
+      dailyUsd: usdFor("daily"),
+      hourlyUsdCap: caps.hourlyUsdCap,
+      dailyUsdCap: caps.dailyUsdCap,
+      periods,
     };
   }
 
-  private readState(): { suspended: boolean; reason: string | null; triggeredAt: string | null } {
+  async getCostReport(query: CostReportQuery): Promise<CostReport> {
     const db = this.assertDb();
-    const row = db
-      .prepare(
-        `
-          SELECT suspended, reason, triggered_at
-          FROM budget_state
-          WHERE id = 1
-        `,
-      )
-      .get() as { suspended: number; reason: string | null; triggered_at: string | null };
+    const selected = [
+      `${BUCKET_EXPRESSIONS[query.bucket]} AS bucket_start`,
+      ...query.groupBy.map((field) => `${GROUP_COLUMNS[field]} AS ${field}`),
+    ];
+    const rows = await db.all<Record<string, string | number | null>>(
+      `
+        SELECT ${selected.join(", ")},
+               COUNT(*) AS requests,
+               COALESCE(SUM(input_tokens), 0) AS input_tokens,
+               COALESCE(SUM(output_tokens), 0) AS output_tokens,
+               COALESCE(SUM(usd_cost), 0) AS usd_cost
+        FROM cost_events
+        WHERE timestamp >= ? AND timestamp < ?
+        GROUP BY ${["bucket_start", ...query.groupBy].join(", ")}
+        ORDER BY ${["bucket_start", ...query.groupBy].join(", ")}
+      `,
+      [query.from, query.to],
+    );
+
+    const totals: CostReportTotals = { requests: 0, input_tokens: 0, output_tokens: 0, usd_cost: 0 };
+    const reportRows = rows.map((row) => {
+      const entry: CostReportRow = {
+        bucket_start: String(row.bucket_start),
+        group: Object.fromEntries(
+          query.groupBy.map((field) => [field, row[field] === null ? null : String(row[field])]),
+        ),
+        requests: Number(row.requests),
+        input_tokens: Number(row.input_tokens),
+        output_tokens: Number(row.output_tokens),
+        usd_cost: Number(row.usd_cost),
+      };
+      totals.requests += entry.requests;
+      totals.input_tokens += entry.input_tokens;
+      totals.output_tokens += entry.output_tokens;
+      totals.usd_cost += entry.usd_cost;
+      return entry;
+    });
 
     return {
-      suspended: row.suspended === 1,
-      reason: row.reason,
-      triggeredAt: row.triggered_at,
+      from: query.from,
+      to: query.to,
+      bucket: query.bucket,
+      group_by: query.groupBy,
+      rows: reportRows,
+      totals,
     };
   }
 
-  private readUsage(): { hourlyUsd: number; dailyUsd: number } {
+  async getSuspendedScopes(): Promise<SuspendedBudgetScope[]> {
     const db = this.assertDb();
-    const hourly = db
-      .prepare(
+    const rows = await db.all<{ scope: string; reason: string | null; triggered_at: string | null }>(
+      `
+        SELECT scope, reason, triggered_at
+        FROM budget_scope_state
+        WHERE suspended = 1
+        ORDER BY triggered_at ASC
+      `,
+    );
+    const global = await this.readState(db, GLOBAL_BUDGET_SCOPE);
+    return [
+      ...(global.suspended
+        ? [{ scope: GLOBAL_BUDGET_SCOPE, reason: global.reason, triggeredAt: global.triggeredAt }]
+        : []),
+      ...rows.map((row) => ({ scope: row.scope, reason: row.reason, triggeredAt: row.triggered_at })),
+    ];
+  }
+
+  private periodWindows(now: Date): BudgetPeriodWindow[] {
+    const calendar = this.policy.calendar ?? DEFAULT_BUDGET_CALENDAR;
+    return BUDGET_PERIODS.map((period) => budgetPeriodWindow(period, now, calendar)).filter(
+      (window): window is BudgetPeriodWindow => window !== null,
+    );
+  }
+
+  private async periodStatus(
+    db: SqlExecutor,
+    scope: string,
+    window: BudgetPeriodWindow,
+    cap: number | null,
+    now: Date,
+  ): Promise<BudgetPeriodStatus> {
+    const usd = await this.readUsageSince(db, scope, window.start);
+    const lookbackStart = new Date(Math.max(window.start.getTime(), now.getTime() - FORECAST_LOOKBACK_MS));
+    const lookbackHours = Math.max((now.getTime() - lookbackStart.getTime()) / HOUR_MS, 1 / 60);
+    const recentUsd = window.rolling ? usd : await this.readUsageSince(db, scope, lookbackStart);
+    const burnRateUsdPerHour = window.rolling ? usd : recentUsd / lookbackHours;
+    const remainingHours = Math.max(0, (window.end.getTime() - now.getTime()) / HOUR_MS);
+    const projectedUsd = window.rolling ? null : usd + burnRateUsdPerHour * remainingHours;
+    let projectedExhaustionAt: string | null = null;
+    if (!window.rolling && cap !== null && burnRateUsdPerHour > 0 && usd < cap) {
+      const exhaustion = now.getTime() + ((cap - usd) / burnRateUsdPerHour) * HOUR_MS;
+      projectedExhaustionAt = exhaustion < window.end.getTime() ? new Date(exhaustion).toISOString() : null;
+    }
+    return {
+      period: window.period,
+      start: window.start.toISOString(),
+      end: window.end.toISOString(),
+      usd,
+      capUsd: cap,
+      utilization: cap !== null && cap > 0 ? usd / cap : null,
+      burnRateUsdPerHour,
+      projectedUsd,
+      projectedExhaustionAt,
+    };
+  }
+
+  private async crossedWarnings(
+    db: SqlExecutor,
+    scope: string,
+    window: BudgetPeriodWindow,
+    usd: number,
+    cap: number,
+    now: Date,
+  ): Promise<BudgetWarning[]> {
+    if (cap <= 0) {
+      return [];
+    }
+    const utilization = usd / cap;
+    // Rolling windows have no fixed start; warn at most once per clock hour.
+    const periodStart = window.rolling
+      ? new Date(Math.floor(now.getTime() / HOUR_MS) * HOUR_MS).toISOString()
+      : window.start.toISOString();
+    const warnings: BudgetWarning[] = [];
+    for (const thresholdPct of this.policy.warningThresholds ?? DEFAULT_WARNING_THRESHOLDS) {
+      if (utilization * 100 < thresholdPct) {
+        continue;
+      }
+      const inserted = await db.run(
         `
-          SELECT COALESCE(SUM(usd_cost), 0) AS total
-          FROM cost_events
-          WHERE timestamp >= ?
+          INSERT INTO budget_warnings (scope, period, period_start, threshold_pct, created_at)
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT DO NOTHING
         `,
-      )
-      .get(new Date(Date.now() - 60 * 60 * 1000).toISOString()) as { total: number };
+        [scope, window.period, periodStart, thresholdPct, now.toISOString()],
+      );
+      if (inserted === 0) {
+        continue;
+      }
+      warnings.push({
+        scope,
+        period: window.period,
+        thresholdPct,
+        usd,
+        capUsd: cap,
+        utilization,
+        periodStart: window.start.toISOString(),
+        periodEnd: window.end.toISOString(),
+        projectedUsd: (await this.periodStatus(db, scope, window, cap, now)).projectedUsd,
+      });
+    }
+    return warnings;
+  }
 
-    const dayStart = new Date();
-    dayStart.setUTCHours(0, 0, 0, 0);
-    const daily = db
-      .prepare(
+  private async writeSuspension(db: SqlExecutor, reason: string, scope: string): Promise<void> {
+    const now = new Date().toISOString();
+    if (scope === GLOBAL_BUDGET_SCOPE) {
+      await db.run(
         `
-          SELECT COALESCE(SUM(usd_cost), 0) AS total
-          FROM cost_events
-          WHERE timestamp >= ?
+          UPDATE budget_state
+          SET suspended = 1,
+              reason = ?,
+              triggered_at = ?,
+              updated_at = ?
+          WHERE id = 1
         `,
-      )
-      .get(dayStart.toISOString()) as { total: number };
-
-    return {
-      hourlyUsd: Number(hourly.total || 0),
-      dailyUsd: Number(daily.total || 0),
-    };
+        [reason, now, now],
+      );
+      return;
+    }
+    await db.run(
+      `
+        INSERT INTO budget_scope_state (scope, suspended, reason, triggered_at, resumed_at, resumed_by, updated_at)
+        VALUES (?, 1, ?, ?, NULL, NULL, ?)
+        ON CONFLICT(scope) DO UPDATE SET
+          suspended = 1,
+          reason = excluded.reason,
+          triggered_at = excluded.triggered_at,
+          updated_at = excluded.updated_at
+      `,
+      [scope, reason, now, now],
+    );
   }
 
-  private loadPricingCatalog(filePath: string): void {
-    const raw = fs.readFileSync(filePath, "utf8");
-    const parsed = JSON.parse(raw) as PricingCatalogFile;
+  private async writeReservation(
+    db: SqlExecutor,
+    estimate: CostEstimate,
+    attribution: BudgetAttribution,
+    now: Date,
+    reservationId: string | undefined,
+  ): Promise<string> {
+    const expiresAt = new Date(now.getTime() + BUDGET_RESERVATION_TTL_MS).toISOString();
+    if (reservationId) {
+      const resized = await db.run("UPDATE budget_reservations SET usd_cost = ?, expires_at = ? WHERE id = ?", [
+        estimate.estimatedUsd,
+        expiresAt,
+        reservationId,
+      ]);
+      if (resized > 0) {
+        return reservationId;
+      }
+    }
+    await db.run("DELETE FROM budget_reservations WHERE expires_at <= ?", [now.toISOString()]);
+    const normalized = this.normalizeAttribution(attribution);
+    const id = reservationId || crypto.randomUUID();
+    await db.run(
+      `
+        INSERT INTO budget_reservations (
+          id, created_at, expires_at, model, usd_cost, tenant, agent, principal, initiative
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      [
+        id,
+        now.toISOString(),
+        expiresAt,
+        estimate.model,
+        estimate.estimatedUsd,
+        normalized.tenant ?? null,
+        normalized.agent ?? null,
+        normalized.principal ?? null,
+        normalized.initiative ?? null,
+      ],
+    );
+    return id;
+  }
 
-    if (!parsed.models || !Array.isArray(parsed.models) || parsed.models.length === 0) {
-      throw new Error("Pricing catalog has no model entries.");
+  private scopesFor(model: string, attribution: BudgetAttribution = {}): string[] {
+    const normalized = this.normalizeAttribution(attribution);
+    const scopes = [GLOBAL_BUDGET_SCOPE];
+    for (const kind of ATTRIBUTED_SCOPE_KINDS) {
+      if (normalized[kind]) {
+        scopes.push(`${kind}:${normalized[kind]}`);
+      }
     }
+    scopes.push(`model:${model}`);
+    return scopes;
+  }
 
-    for (const entry of parsed.models) {
-      if (!entry.model) {
-        throw new Error("Pricing catalog entry missing model.");
+  private normalizeAttribution(attribution: BudgetAttribution = {}): BudgetAttribution {
+    const normalized: BudgetAttribution = {};
+    for (const kind of ATTRIBUTED_SCOPE_KINDS) {
+      const value = attribution[kind]?.trim();
+      if (value && value.length <= MAX_SCOPE_ID_LENGTH) {
+        normalized[kind] = value;
       }
-      this.pricingByModel.set(entry.model, entry);
     }
+    return normalized;
+  }
+
+  private resolveCaps(scope: string): BudgetCaps {
+    if (scope === GLOBAL_BUDGET_SCOPE) {
+      return {
+        hourlyUsdCap: this.policy.hourlyUsdCap,
+        dailyUsdCap: this.policy.dailyUsdCap,
+        weeklyUsdCap: optionalGlobalCap(this.policy.weeklyUsdCap),
+        monthlyUsdCap: optionalGlobalCap(this.policy.monthlyUsdCap),
+        customUsdCap: optionalGlobalCap(this.policy.customUsdCap),
+      };
+    }
+    const catalog = this.policy.scopes;
+    const kind = scope.slice(0, scope.indexOf(":")) as BudgetScopeKind;
+    return catalog?.scopes[scope] ?? catalog?.defaults[kind] ?? { hourlyUsdCap: null, dailyUsdCap: null };
+  }
+
+  private async readState(
+    db: SqlExecutor,
+    scope: string,
+  ): Promise<{ suspended: boolean; reason: string | null; triggeredAt: string | null }> {
+    if (scope !== GLOBAL_BUDGET_SCOPE) {
+      const scoped = await db.get<{ suspended: number; reason: string | null; triggered_at: string | null }>(
+        `
+          SELECT suspended, reason, triggered_at
+          FROM budget_scope_state
+          WHERE scope = ?
+        `,
+        [scope],
+      );
+      return {
+        suspended: Number(scoped?.suspended) === 1,
+        reason: scoped?.reason ?? null,
+        triggeredAt: scoped?.triggered_at ?? null,
+      };
+    }
+    const row = await db.get<{ suspended: number; reason: string | null; triggered_at: string | null }>(
+      `
+        SELECT suspended, reason, triggered_at
+        FROM budget_state
+        WHERE id = 1
+      `,
+    );
+
+    return {
+      suspended: Number(row?.suspended) === 1,
+      reason: row?.reason ?? null,
+      triggeredAt: row?.triggered_at ?? null,
+    };
+  }
+
+  // With reserved set, unexpired reservations (other than the excluded one) count as spent.
+  private async readUsageSince(
+    db: SqlExecutor,
+    scope: string,
+    since: Date,
+    reserved?: { now: Date; excludeReservationId: string | null },
+  ): Promise<number> {
+    const filter = scopeFilter(scope);
+    const row = await db.get<{ total: number | string }>(
+      `
+        SELECT COALESCE(SUM(usd_cost), 0) AS total
+        FROM cost_events
+        WHERE timestamp >= ?${filter.clause}
+      `,
+      [since.toISOString(), ...filter.params],
+    );
+    let total = Number(row?.total || 0);
+    if (reserved) {
+      const held = await db.get<{ total: number | string }>(
+        `
+          SELECT COALESCE(SUM(usd_cost), 0) AS total
+          FROM budget_reservations
+          WHERE expires_at > ? AND id != ?${filter.clause}
+        `,
+        [reserved.now.toISOString(), reserved.excludeReservationId ?? "", ...filter.params],
+      );
+      total += Number(held?.total || 0);
+    }
+    return total;
+  }
+
+  private loadPricingCatalog(): PricingCatalogLoadResult {
+    return loadSignedPricingCatalog(
+      this.pricingCatalogPath,
+      this.pricingSigning.signingKey ?? "",
+      this.pricingSigning.signingKeyringPath ?? "",
+    );
   }
 
-  private assertDb(): Database.Database {
-    if (!this.db) {
+  private assertDb(): SqlStore {
+    if (!this.ready) {
       throw new Error("Budget controller is not initialized.");
     }
-    return this.db;
+    return this.store;
   }
 }
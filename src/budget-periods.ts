@@ -0,0 +1,156 @@
+export type BudgetPeriod = "hourly" | "daily" | "weekly" | "monthly" | "custom";
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ["hourly", "daily", "weekly", "monthly", "custom"];
+
+export interface BudgetCalendar {
+  timeZone: string;
+  billingDay: number;
+  weekStartDay: number;
+  customPeriodStart: string | null;
+  customPeriodDays: number;
+}
+
+export interface BudgetPeriodWindow {
+  period: BudgetPeriod;
+  start: Date;
+  end: Date;
+  rolling: boolean;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+export const DEFAULT_BUDGET_CALENDAR: BudgetCalendar = {
+  timeZone: "UTC",
+  billingDay: 1,
+  weekStartDay: 1,
+  customPeriodStart: null,
+  customPeriodDays: 0,
+};
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(String(parts.weekday).slice(0, 3).toLowerCase()),
+  };
+}
+
+function zonedOffsetMs(instant: number, timeZone: string): number {
+  const parts = zonedParts(new Date(instant), timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Local midnight of the given calendar date in `timeZone`; month/day overflow is normalized by Date.UTC.
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day);
+  let instant = guess - zonedOffsetMs(guess, timeZone);
+  instant = guess - zonedOffsetMs(instant, timeZone);
+  return new Date(instant);
+}
+
+export function assertValidTimeZone(timeZone: string): void {
+  try {
+    formatterFor(timeZone);
+  } catch {
+    throw new Error(`Invalid budget time zone: ${timeZone}`);
+  }
+}
+
+export function parseBudgetCalendar(input: Partial<BudgetCalendar>): BudgetCalendar {
+  const calendar: BudgetCalendar = { ...DEFAULT_BUDGET_CALENDAR, ...input };
+  assertValidTimeZone(calendar.timeZone);
+  if (!Number.isInteger(calendar.billingDay) || calendar.billingDay < 1 || calendar.billingDay > 28) {
+    throw new Error("Budget billing day must be an integer between 1 and 28.");
+  }
+  if (!Number.isInteger(calendar.weekStartDay) || calendar.weekStartDay < 0 || calendar.weekStartDay > 6) {
+    throw new Error("Budget week start day must be an integer between 0 (Sunday) and 6 (Saturday).");
+  }
+  if (calendar.customPeriodDays < 0 || !Number.isFinite(calendar.customPeriodDays)) {
+    throw new Error("Budget custom period days must be a non-negative number.");
+  }
+  if (calendar.customPeriodStart && Number.isNaN(Date.parse(calendar.customPeriodStart))) {
+    throw new Error(`Invalid budget custom period start: ${calendar.customPeriodStart}`);
+  }
+  return calendar;
+}
+
+export function budgetPeriodWindow(period: BudgetPeriod, now: Date, calendar: BudgetCalendar): BudgetPeriodWindow | null {
+  if (period === "hourly") {
+    return { period, start: new Date(now.getTime() - HOUR_MS), end: now, rolling: true };
+  }
+  const local = zonedParts(now, calendar.timeZone);
+  if (period === "daily") {
+    return {
+      period,
+      start: zonedMidnight(local.year, local.month, local.day, calendar.timeZone),
+      end: zonedMidnight(local.year, local.month, local.day + 1, calendar.timeZone),
+      rolling: false,
+    };
+  }
+  if (period === "weekly") {
+    const back = (local.weekday - calendar.weekStartDay + 7) % 7;
+    return {
+      period,
+      start: zonedMidnight(local.year, local.month, local.day - back, calendar.timeZone),
+      end: zonedMidnight(local.year, local.month, local.day - back + 7, calendar.timeZone),
+      rolling: false,
+    };
+  }
+  if (period === "monthly") {
+    const month = local.day >= calendar.billingDay ? local.month : local.month - 1;
+    return {
+      period,
+      start: zonedMidnight(local.year, month, calendar.billingDay, calendar.timeZone),
+      end: zonedMidnight(local.year, month + 1, calendar.billingDay, calendar.timeZone),
+      rolling: false,
+    };
+  }
+  if (!calendar.customPeriodStart || calendar.customPeriodDays <= 0) {
+    return null;
+  }
+  const anchor = Date.parse(calendar.customPeriodStart);
+  const length = calendar.customPeriodDays * DAY_MS;
+  const start = anchor + Math.floor((now.getTime() - anchor) / length) * length;
+  return { period, start: new Date(start), end: new Date(start + length), rolling: false };
+}
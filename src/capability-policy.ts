@@ -216,9 +216,24 @@ export function loadSignedCapabilityCatalog(
 ): CapabilityCatalogLoadResult {
   const raw = fs.readFileSync(catalogPath, "utf8");
   const parsed = JSON.parse(raw) as CapabilityCatalogFile;
+  const keyring = signingKeyringPath.trim() ? loadHmacKeyring(signingKeyringPath.trim()) : null;
+  return buildCapabilityCatalog(parsed, signingKey, keyring);
+}
+
+export function parseCapabilityCatalogCandidate(value: unknown): CapabilityCatalogLoadResult {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Capability catalog candidate must be an object.");
+  }
+  return buildCapabilityCatalog(value as CapabilityCatalogFile, "", null);
+}
+
+function buildCapabilityCatalog(
+  parsed: CapabilityCatalogFile,
+  signingKey: string,
+  keyring: HmacKeyring | null,
+): CapabilityCatalogLoadResult {
   const canonical = canonicalPayload(parsed);
   const canonicalText = stableStringify(canonical);
-  const keyring = signingKeyringPath.trim() ? loadHmacKeyring(signingKeyringPath.trim()) : null;
   const signatureState = verifyCatalogSignature(canonicalText, parsed, signingKey, keyring);
 
   const defaults = normalizeRules(parsed.defaults);
@@ -7,9 +7,14 @@ dotenv.config();
 export type EnforcementMode = "warn" | "block";
 export type OutboundInternetPolicy = "deny" | "allow";
 export type RiskEvaluatorFailMode = "allow" | "block";
+export type RiskEvaluatorName = "heuristic" | "llm";
+export type RiskEnsembleStrategy = "min" | "mean" | "quorum";
 export type ReplayStoreMode = "sqlite" | "redis" | "postgres";
+export type StorageMode = "sqlite" | "postgres";
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
 export type AuditStartupVerifyMode = "off" | "warn" | "block";
 export type SecurityInvariantsEnforcement = "warn" | "block";
+export type ResponseGuardMode = "off" | "block" | "redact" | "approval";
 
 export interface AppConfig {
   port: number;
@@ -19,6 +24,17 @@ export interface AppConfig {
   warnThreshold: number;
   evaluatorModel: string;
   riskEvaluatorFailMode: RiskEvaluatorFailMode;
+  riskEvaluatorChain: RiskEvaluatorName[];
+  riskEvaluatorStrategy: RiskEnsembleStrategy;
+  riskEvaluatorQuorum: number;
+  riskEvaluatorWeights: Record<string, number>;
+  riskEvaluatorTimeoutsMs: Record<string, number>;
+  riskEvaluatorOptional: string[];
+  riskEvaluatorCacheTtlSeconds: number;
+  riskEvaluatorCacheMaxEntries: number;
+  riskEvaluatorBreakerFailureThreshold: number;
+  riskEvaluatorBreakerLatencyMs: number;
+  riskEvaluatorBreakerCooldownSeconds: number;
   enforcementMode: EnforcementMode;
   controlApiToken: string;
   controlTokensPath: string;
@@ -32,6 +48,7 @@ export interface AppConfig {
   controlRateLimitMaxRequests: number;
   channelIngressRateLimitWindowSeconds: number;
   channelIngressRateLimitMaxRequests: number;
+  rateLimitAlgorithm: RateLimitAlgorithm;
   replayStoreMode: ReplayStoreMode;
   replayRedisUrl: string;
   replayRedisPrefix: string;
@@ -40,6 +57,11 @@ export interface AppConfig {
   replayPostgresTablePrefix: string;
   replayPostgresConnectTimeoutMs: number;
   replayPostgresSslMode: "disable" | "require" | "verify-full";
+  storageMode: StorageMode;
+  storagePostgresUrl: string;
+  storagePostgresSchema: string;
+  storagePostgresConnectTimeoutMs: number;
+  storagePostgresSslMode: "disable" | "require" | "verify-full";
   auditStartupVerifyMode: AuditStartupVerifyMode;
   modalityTextMaxPayloadBytes: number;
   modalityVisionMaxPayloadBytes: number;
@@ -48,10 +70,60 @@ export interface AppConfig {
   modalityTextMaxChars: number;
   channelIngressMaxTextChars: number;
   pricingCatalogPath: string;
+  pricingCatalogSigningKey: string;
+  pricingCatalogSigningKeyringPath: string;
+  modelSubstitutionCatalogPath: string;
+  modelSubstitutionCatalogSigningKey: string;
+  modelSubstitutionCatalogSigningKeyringPath: string;
+  tokenizerDataDirectory: string;
+  responseCacheEnabled: boolean;
+  responseCacheTtlSeconds: number;
+  responseCacheModelTtls: Record<string, number>;
+  responseCacheMaxEntries: number;
+  responseCacheEmbeddingModel: string;
+  responseCacheSimilarityThreshold: number;
+  sessionRiskEnabled: boolean;
+  sessionIdHeader: string;
+  sessionRiskWindowSeconds: number;
+  sessionRiskMaxEvents: number;
+  sessionRiskMaxSessions: number;
+  sessionRiskThreshold: number;
+  sessionRiskReadTools: string[];
+  sessionRiskEgressTools: string[];
+  promptInjectionDetectionEnabled: boolean;
+  promptInjectionClassifierModel: string;
+  promptInjectionClassifierThreshold: number;
+  promptInjectionClassifierTimeoutMs: number;
+  promptInjectionMaxScanChars: number;
+  dlpCatalogPath: string;
+  dlpCatalogSigningKey: string;
+  dlpCatalogSigningKeyringPath: string;
+  dlpTokenizationKey: string;
+  approvalChatChannel: string;
+  approvalChatDestination: string;
+  approvalEscalationIntervalSeconds: number;
+  approvalNearExpirySeconds: number;
+  approvalDelegationMaxSeconds: number;
+  standingApprovalMaxSeconds: number;
+  approvalPayloadEncryptionKey: string;
+  budgetScopesPath: string;
+  weeklyUsdCap: number;
+  monthlyUsdCap: number;
+  customPeriodUsdCap: number;
+  budgetTimeZone: string;
+  budgetBillingDay: number;
+  budgetWeekStartDay: number;
+  budgetCustomPeriodStart: string;
+  budgetCustomPeriodDays: number;
+  budgetWarningThresholds: number[];
   hourlyUsdCap: number;
   dailyUsdCap: number;
   maxRequestInputTokens: number;
   maxRequestOutputTokens: number;
+  streamMaxRequestUsd: number;
+  streamBudgetCheckIntervalTokens: number;
+  policySimulationCaptureBodies: boolean;
+  responseGuardMode: ResponseGuardMode;
   approvalTtlSeconds: number;
   approvalRequiredCount: number;
   approvalMaxUses: number;
@@ -82,6 +154,7 @@ export interface AppConfig {
   upstreamCaCertPath: string;
   upstreamClientCertPath: string;
   upstreamClientKeyPath: string;
+  upstreamRoutesPath: string;
   inferenceEnforceTls: boolean;
   inferenceTlsPinSha256: string;
   inferenceCaCertPath: string;
@@ -199,6 +272,45 @@ function enumEnv<T extends string>(name: string, fallback: T, values: readonly T
   return normalized;
 }
 
+function percentListEnv(name: string, fallback: number[]): number[] {
+  const raw = process.env[name];
+  if (raw === undefined) {
+    return fallback;
+  }
+  const values = stringListEnv(name).map(Number);
+  if (values.some((value) => Number.isNaN(value) || value <= 0 || value >= 100)) {
+    throw new Error(`Invalid value for ${name}: ${raw}`);
+  }
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+function numberMapEnv(name: string): Record<string, number> {
+  const map: Record<string, number> = {};
+  for (const entry of stringListEnv(name)) {
+    const separator = entry.lastIndexOf("=");
+    const key = separator > 0 ? entry.slice(0, separator).trim() : "";
+    const value = separator > 0 ? Number(entry.slice(separator + 1)) : Number.NaN;
+    if (!key || Number.isNaN(value) || value < 0) {
+      throw new Error(`Invalid value for ${name}: ${entry}`);
+    }
+    map[key] = value;
+  }
+  return map;
+}
+
+function riskEvaluatorChainEnv(name: string): RiskEvaluatorName[] {
+  const values = stringListEnv(name);
+  if (values.length === 0) {
+    return ["llm"];
+  }
+  for (const value of values) {
+    if (value !== "heuristic" && value !== "llm") {
+      throw new Error(`Invalid value for ${name}: ${value}`);
+    }
+  }
+  return [...new Set(values)] as RiskEvaluatorName[];
+}
+
 function stringListEnv(name: string): string[] {
   const raw = process.env[name];
   if (!raw || !raw.trim()) {
@@ -285,6 +397,17 @@ export function loadConfig(): AppConfig {
       "allow",
       "block",
     ]),
+    riskEvaluatorChain: riskEvaluatorChainEnv("RISK_EVALUATOR_CHAIN"),
+    riskEvaluatorStrategy: enumEnv<RiskEnsembleStrategy>("RISK_EVALUATOR_STRATEGY", "min", ["min", "mean", "quorum"]),
+    riskEvaluatorQuorum: numberEnv("RISK_EVALUATOR_QUORUM", 0),
+    riskEvaluatorWeights: numberMapEnv("RISK_EVALUATOR_WEIGHTS"),
+    riskEvaluatorTimeoutsMs: numberMapEnv("RISK_EVALUATOR_TIMEOUTS_MS"),
+    riskEvaluatorOptional: stringListEnv("RISK_EVALUATOR_OPTIONAL"),
+    riskEvaluatorCacheTtlSeconds: numberEnv("RISK_EVALUATOR_CACHE_TTL_SECONDS", 0),
+    riskEvaluatorCacheMaxEntries: numberEnv("RISK_EVALUATOR_CACHE_MAX_ENTRIES", 1000),
+    riskEvaluatorBreakerFailureThreshold: numberEnv("RISK_EVALUATOR_BREAKER_FAILURE_THRESHOLD", 5),
+    riskEvaluatorBreakerLatencyMs: numberEnv("RISK_EVALUATOR_BREAKER_LATENCY_MS", 10000),
+    riskEvaluatorBreakerCooldownSeconds: numberEnv("RISK_EVALUATOR_BREAKER_COOLDOWN_SECONDS", 30),
     enforcementMode: enumEnv<EnforcementMode>("ENFORCEMENT_MODE", "block", ["warn", "block"]),
     controlApiToken: requiredEnv("CONTROL_API_TOKEN"),
     controlTokensPath: process.env.CONTROL_TOKENS_PATH?.trim() || "",
@@ -299,6 +422,10 @@ export function loadConfig(): AppConfig {
     controlRateLimitMaxRequests: numberEnv("CONTROL_RATE_LIMIT_MAX_REQUESTS", 300),
     channelIngressRateLimitWindowSeconds: numberEnv("CHANNEL_INGRESS_RATE_LIMIT_WINDOW_SECONDS", 60),
     channelIngressRateLimitMaxRequests: numberEnv("CHANNEL_INGRESS_RATE_LIMIT_MAX_REQUESTS", 300),
+    rateLimitAlgorithm: enumEnv<RateLimitAlgorithm>("RATE_LIMIT_ALGORITHM", "sliding-window", [
+      "sliding-window",
+      "token-bucket",
+    ]),
     replayStoreMode: enumEnv<ReplayStoreMode>("REPLAY_STORE_MODE", "sqlite", [
       "sqlite",
       "redis",
@@ -315,6 +442,15 @@ export function loadConfig(): AppConfig {
       "disable",
       ["disable", "require", "verify-full"],
     ),
+    storageMode: enumEnv<StorageMode>("STORAGE_MODE", "sqlite", ["sqlite", "postgres"]),
+    storagePostgresUrl: process.env.STORAGE_POSTGRES_URL?.trim() || "",
+    storagePostgresSchema: process.env.STORAGE_POSTGRES_SCHEMA?.trim() || "clawee",
+    storagePostgresConnectTimeoutMs: numberEnv("STORAGE_POSTGRES_CONNECT_TIMEOUT_MS", 10000),
+    storagePostgresSslMode: enumEnv<"disable" | "require" | "verify-full">(
+      "STORAGE_POSTGRES_SSL_MODE",
+      "disable",
+      ["disable", "require", "verify-full"],
+    ),
     auditStartupVerifyMode: enumEnv<AuditStartupVerifyMode>(
       "AUDIT_STARTUP_VERIFY_MODE",
       "block",
@@ -327,10 +463,67 @@ export function loadConfig(): AppConfig {
     modalityTextMaxChars: numberEnv("MODALITY_TEXT_MAX_CHARS", 16000),
     channelIngressMaxTextChars: numberEnv("CHANNEL_INGRESS_MAX_TEXT_CHARS", 8000),
     pricingCatalogPath,
+    pricingCatalogSigningKey: process.env.PRICING_CATALOG_SIGNING_KEY?.trim() || "",
+    pricingCatalogSigningKeyringPath: process.env.PRICING_CATALOG_SIGNING_KEYRING_PATH?.trim() || "",
+    modelSubstitutionCatalogPath: process.env.MODEL_SUBSTITUTION_CATALOG_PATH?.trim() || "",
+    modelSubstitutionCatalogSigningKey: process.env.MODEL_SUBSTITUTION_CATALOG_SIGNING_KEY?.trim() || "",
+    modelSubstitutionCatalogSigningKeyringPath:
+      process.env.MODEL_SUBSTITUTION_CATALOG_SIGNING_KEYRING_PATH?.trim() || "",
+    responseCacheEnabled: booleanEnv("RESPONSE_CACHE_ENABLED", false),
+    responseCacheTtlSeconds: numberEnv("RESPONSE_CACHE_TTL_SECONDS", 300),
+    responseCacheModelTtls: numberMapEnv("RESPONSE_CACHE_MODEL_TTLS"),
+    responseCacheMaxEntries: numberEnv("RESPONSE_CACHE_MAX_ENTRIES", 5000),
+    responseCacheEmbeddingModel: process.env.RESPONSE_CACHE_EMBEDDING_MODEL?.trim() || "",
+    responseCacheSimilarityThreshold: numberEnv("RESPONSE_CACHE_SIMILARITY_THRESHOLD", 0.97),
+    sessionRiskEnabled: booleanEnv("SESSION_RISK_ENABLED", false),
+    sessionIdHeader: process.env.SESSION_ID_HEADER?.trim().toLowerCase() || "x-clawee-session-id",
+    sessionRiskWindowSeconds: numberEnv("SESSION_RISK_WINDOW_SECONDS", 900),
+    sessionRiskMaxEvents: numberEnv("SESSION_RISK_MAX_EVENTS", 50),
+    sessionRiskMaxSessions: numberEnv("SESSION_RISK_MAX_SESSIONS", 10000),
+    sessionRiskThreshold: numberEnv("SESSION_RISK_THRESHOLD", 1.5),
+    sessionRiskReadTools: stringListEnv("SESSION_RISK_READ_TOOLS"),
+    sessionRiskEgressTools: stringListEnv("SESSION_RISK_EGRESS_TOOLS"),
+    promptInjectionDetectionEnabled: booleanEnv("PROMPT_INJECTION_DETECTION_ENABLED", true),
+    promptInjectionClassifierModel: process.env.PROMPT_INJECTION_CLASSIFIER_MODEL?.trim() || "",
+    promptInjectionClassifierThreshold: numberEnv("PROMPT_INJECTION_CLASSIFIER_THRESHOLD", 0.8),
+    promptInjectionClassifierTimeoutMs: numberEnv("PROMPT_INJECTION_CLASSIFIER_TIMEOUT_MS", 5000),
+    promptInjectionMaxScanChars: numberEnv("PROMPT_INJECTION_MAX_SCAN_CHARS", 20000),
+    dlpCatalogPath: process.env.DLP_CATALOG_PATH?.trim() || "",
+    dlpCatalogSigningKey: process.env.DLP_CATALOG_SIGNING_KEY?.trim() || "",
+    dlpCatalogSigningKeyringPath: process.env.DLP_CATALOG_SIGNING_KEYRING_PATH?.trim() || "",
+    dlpTokenizationKey: process.env.DLP_TOKENIZATION_KEY?.trim() || "",
+    approvalChatChannel: process.env.APPROVAL_CHAT_CHANNEL?.trim().toLowerCase() || "",
+    approvalChatDestination: process.env.APPROVAL_CHAT_DESTINATION?.trim() || "",
+    approvalEscalationIntervalSeconds: numberEnv("APPROVAL_ESCALATION_INTERVAL_SECONDS", 30),
+    approvalNearExpirySeconds: numberEnv("APPROVAL_NEAR_EXPIRY_SECONDS", 300),
+    approvalDelegationMaxSeconds: numberEnv("APPROVAL_DELEGATION_MAX_SECONDS", 2592000),
+    standingApprovalMaxSeconds: numberEnv("STANDING_APPROVAL_MAX_SECONDS", 86400),
+    approvalPayloadEncryptionKey: process.env.APPROVAL_PAYLOAD_ENCRYPTION_KEY?.trim() || "",
+    tokenizerDataDirectory: process.env.TOKENIZER_DATA_DIR?.trim() || "",
+    budgetScopesPath:
+      process.env.BUDGET_SCOPES_PATH?.trim() || path.join(process.cwd(), "config", "budget-scopes.v1.json"),
     hourlyUsdCap: numberEnv("HOURLY_USD_CAP", 15),
     dailyUsdCap: numberEnv("DAILY_USD_CAP", 150),
+    weeklyUsdCap: numberEnv("WEEKLY_USD_CAP", 0),
+    monthlyUsdCap: numberEnv("MONTHLY_USD_CAP", 0),
+    customPeriodUsdCap: numberEnv("CUSTOM_PERIOD_USD_CAP", 0),
+    budgetTimeZone: process.env.BUDGET_TIMEZONE?.trim() || "UTC",
+    budgetBillingDay: numberEnv("BUDGET_BILLING_DAY", 1),
+    budgetWeekStartDay: numberEnv("BUDGET_WEEK_START_DAY", 1),
+    budgetCustomPeriodStart: process.env.BUDGET_CUSTOM_PERIOD_START?.trim() || "",
+    budgetCustomPeriodDays: numberEnv("BUDGET_CUSTOM_PERIOD_DAYS", 0),
+    budgetWarningThresholds: percentListEnv("BUDGET_WARNING_THRESHOLDS", [50, 80, 95]),
     maxRequestInputTokens: numberEnv("MAX_REQUEST_INPUT_TOKENS", 200000),
     maxRequestOutputTokens: numberEnv("MAX_REQUEST_OUTPUT_TOKENS", 32000),
+    streamMaxRequestUsd: numberEnv("STREAM_MAX_REQUEST_USD", 0),
+    streamBudgetCheckIntervalTokens: numberEnv("STREAM_BUDGET_CHECK_INTERVAL_TOKENS", 256),
+    policySimulationCaptureBodies: booleanEnv("POLICY_SIMULATION_CAPTURE_BODIES", false),
+    responseGuardMode: enumEnv<ResponseGuardMode>("RESPONSE_GUARD_MODE", "off", [
+      "off",
+      "block",
+      "redact",
+      "approval",
+    ]),
     approvalTtlSeconds: numberEnv("APPROVAL_TTL_SECONDS", 3600),
     approvalRequiredCount: numberEnv("APPROVAL_REQUIRED_COUNT", 2),
     approvalMaxUses: numberEnv("APPROVAL_MAX_USES", 1),
@@ -375,6 +568,8 @@ export function loadConfig(): AppConfig {
     upstreamCaCertPath: process.env.UPSTREAM_CA_CERT_PATH?.trim() || "",
     upstreamClientCertPath: process.env.UPSTREAM_CLIENT_CERT_PATH?.trim() || "",
     upstreamClientKeyPath: process.env.UPSTREAM_CLIENT_KEY_PATH?.trim() || "",
+    upstreamRoutesPath:
+      process.env.UPSTREAM_ROUTES_PATH?.trim() || path.join(process.cwd(), "config", "upstream-routes.v1.json"),
     inferenceEnforceTls: booleanEnv("INFERENCE_ENFORCE_TLS", false),
     inferenceTlsPinSha256: process.env.INFERENCE_TLS_PIN_SHA256?.trim() || "",
     inferenceCaCertPath: process.env.INFERENCE_CA_CERT_PATH?.trim() || "",
@@ -13,8 +13,10 @@ export type ControlPermission =
   | "*"
   | "system.read"
   | "budget.control"
+  | "budget.read"
   | "approvals.read"
   | "approvals.write"
+  | "approvals.standing"
   | "audit.read"
   | "channel.read"
   | "channel.send"
@@ -26,6 +28,7 @@ export type ControlPermission =
   | "initiative.read"
   | "initiative.write"
   | "policy.reload"
+  | "policy.simulate"
   | "model.reload"
   | "authz.reload"
   | "approvals.export"
@@ -43,6 +46,7 @@ interface ControlTokenEntry {
   tokenHash: string;
   permissions: Set<ControlPermission>;
   active: boolean;
+  chatIdentities: string[];
 }
 
 interface ControlTokenCatalog {
@@ -53,6 +57,7 @@ interface ControlTokenCatalog {
     token_hash: string;
     permissions?: ControlPermission[];
     active?: boolean;
+    chat_identities?: Array<{ channel: string; user: string }>;
   }>;
   signature?: string;
   signature_v2?: {
@@ -108,11 +113,23 @@ function parseCatalog(
     }
   }
 
+  const seenChatIdentities = new Set<string>();
   return parsed.tokens.map((item, index) => {
     const tokenHash = String(item.token_hash || "").trim().toLowerCase();
     if (!/^[a-f0-9]{64}$/.test(tokenHash)) {
       throw new Error(`Invalid token hash in control token catalog at index ${index}.`);
     }
+    const chatIdentities = (Array.isArray(item.chat_identities) ? item.chat_identities : []).map((identity) => {
+      const key = chatIdentityKey(String(identity?.channel || ""), String(identity?.user || ""));
+      if (!key) {
+        throw new Error(`Invalid chat identity in control token catalog at index ${index}.`);
+      }
+      if (seenChatIdentities.has(key)) {
+        throw new Error(`Chat identity ${key} is mapped to more than one control principal.`);
+      }
+      seenChatIdentities.add(key);
+      return key;
+    });
     const permissions = new Set<ControlPermission>(
       Array.isArray(item.permissions) && item.permissions.length > 0
         ? item.permissions
@@ -124,10 +141,17 @@ function parseCatalog(
       tokenHash,
       permissions,
       active: item.active !== false,
+      chatIdentities,
     };
   });
 }
 
+function chatIdentityKey(channel: string, user: string): string {
+  const normalizedChannel = channel.trim().toLowerCase();
+  const normalizedUser = user.trim().toLowerCase();
+  return normalizedChannel && normalizedUser ? `${normalizedChannel}:${normalizedUser}` : "";
+}
+
 function tokenHash(token: string): string {
   return crypto.createHash("sha256").update(token).digest("hex");
 }
@@ -169,6 +193,7 @@ export class ControlAuthz {
       tokenHash: legacyHash,
       permissions: new Set<ControlPermission>(["*"]),
       active: true,
+      chatIdentities: [],
     };
     this.catalogPath = catalogPath?.trim() || "";
     this.catalogSigningKey = catalogSigningKey?.trim() || "";
@@ -198,6 +223,38 @@ export class ControlAuthz {
     return null;
   }
 
+  // Maps a chat user (for example a Slack member id) to the catalog principal that lists it under
+  // chat_identities. The token itself is never involved, so a chat user only gets what its principal has.
+  resolveChatIdentity(channel: string, user: string): ControlIdentity | null {
+    const key = chatIdentityKey(channel, user);
+    if (!key) {
+      return null;
+    }
+    const entry = this.entries.find((candidate) => candidate.active && candidate.chatIdentities.includes(key));
+    if (!entry) {
+      return null;
+    }
+    return {
+      principal: entry.principal,
+      role: entry.role,
+      permissions: new Set(entry.permissions),
+    };
+  }
+
+  // Looks up an active principal by name, for checks on principals other than the caller (approval delegates).
+  resolvePrincipal(principal: string): ControlIdentity | null {
+    const name = principal.trim();
+    const entry = name ? this.entries.find((candidate) => candidate.active && candidate.principal === name) : undefined;
+    if (!entry) {
+      return null;
+    }
+    return {
+      principal: entry.principal,
+      role: entry.role,
+      permissions: new Set(entry.permissions),
+    };
+  }
+
   can(identity: ControlIdentity, permission: ControlPermission): boolean {
     return identity.permissions.has("*") || identity.permissions.has(permission);
   }
@@ -0,0 +1,439 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import {
+  loadHmacKeyring,
+  type HmacKeyring,
+  verifyWithAnyKey,
+  verifyWithKeyring,
+} from "./hmac-keyring";
+import { stableStringify } from "./utils";
+
+export type DlpAction = "block" | "mask" | "tokenize";
+export type DlpCategory = "secret" | "pii";
+export type DlpValidator = "luhn" | "us-ssn";
+
+export interface DlpDetectorRule {
+  id: string;
+  category: DlpCategory;
+  pattern: string;
+  flags?: string;
+  validator?: DlpValidator;
+  action?: DlpAction;
+}
+
+interface DlpCatalogFile {
+  version: string;
+  default_action?: DlpAction;
+  detectors: DlpDetectorRule[];
+  signature?: string;
+  signature_v2?: {
+    kid: string;
+    sig: string;
+  };
+}
+
+export interface DlpLoadResult {
+  version: string;
+  fingerprint: string;
+  signing_mode: "static" | "keyring";
+  keyring_active_kid: string | null;
+  keyring_key_count: number;
+  defaultAction: DlpAction;
+  detectors: DlpDetectorRule[];
+}
+
+export interface DlpState {
+  enabled: boolean;
+  version: string;
+  fingerprint: string;
+  signing_mode: "none" | "static" | "keyring";
+  keyring_active_kid: string | null;
+  keyring_key_count: number;
+  default_action: DlpAction;
+  detectors: string[];
+  scans_total: number;
+  blocked_total: number;
+  masked_total: number;
+  tokenized_total: number;
+}
+
+export interface DlpFinding {
+  detector: string;
+  category: DlpCategory;
+  action: DlpAction;
+  count: number;
+}
+
+// `tokens` maps each token placed in the forwarded body back to the original value for the response path.
+export interface DlpResult {
+  action: "pass" | "block" | "transform";
+  body: unknown;
+  findings: DlpFinding[];
+  tokens: Map<string, string>;
+}
+
+interface CompiledDetector {
+  rule: DlpDetectorRule;
+  action: DlpAction;
+  regex: RegExp;
+  tokenPrefix: string;
+}
+
+interface DlpMatch {
+  start: number;
+  end: number;
+  order: number;
+}
+
+const ACTIONS: DlpAction[] = ["block", "mask", "tokenize"];
+const CATEGORIES: DlpCategory[] = ["secret", "pii"];
+const VALIDATORS: DlpValidator[] = ["luhn", "us-ssn"];
+const TOKEN_PATTERN = /DLP_[A-Z0-9_]+_[a-f0-9]{12}/g;
+const COMPLETE_TOKEN = /^DLP_[A-Z0-9_]+_[a-f0-9]{12}$/;
+const PARTIAL_TOKEN = /^DLP_[A-Z0-9_]*(?:_[a-f0-9]{0,11})?$/;
+const PARTIAL_TOKEN_WINDOW = 128;
+
+// Length of a trailing token prefix that a later stream delta may still complete, so callers can hold it back
+// instead of emitting half a token that detokenize can never match.
+export function partialTokenLength(text: string): number {
+  const windowStart = Math.max(0, text.length - PARTIAL_TOKEN_WINDOW);
+  for (let index = text.indexOf("DLP_", windowStart); index >= 0; index = text.indexOf("DLP_", index + 1)) {
+    const tail = text.slice(index);
+    if (PARTIAL_TOKEN.test(tail) && !COMPLETE_TOKEN.test(tail)) {
+      return tail.length;
+    }
+  }
+  for (const prefix of ["DLP", "DL", "D"]) {
+    if (text.endsWith(prefix)) {
+      return prefix.length;
+    }
+  }
+  return 0;
+}
+
+export function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// SSA never issues area 000, 666 or 9xx, group 00 or serial 0000.
+function usSsnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length !== 9) {
+    return false;
+  }
+  const area = digits.slice(0, 3);
+  return area !== "000" && area !== "666" && !area.startsWith("9") && digits.slice(3, 5) !== "00" && digits.slice(5) !== "0000";
+}
+
+function validatorPasses(validator: DlpValidator | undefined, value: string): boolean {
+  if (validator === "luhn") {
+    return luhnValid(value);
+  }
+  if (validator === "us-ssn") {
+    return usSsnValid(value);
+  }
+  return true;
+}
+
+function canonicalDetector(entry: DlpDetectorRule): DlpDetectorRule {
+  const rule: DlpDetectorRule = {
+    id: String(entry?.id || "").trim().toLowerCase(),
+    category: String(entry?.category || "").trim().toLowerCase() as DlpCategory,
+    pattern: String(entry?.pattern || ""),
+  };
+  const flags = String(entry?.flags || "").trim();
+  if (flags) {
+    rule.flags = flags;
+  }
+  if (entry?.validator !== undefined) {
+    rule.validator = String(entry.validator).trim().toLowerCase() as DlpValidator;
+  }
+  if (entry?.action !== undefined) {
+    rule.action = String(entry.action).trim().toLowerCase() as DlpAction;
+  }
+  return rule;
+}
+
+function canonicalDlpPayload(parsed: DlpCatalogFile): {
+  version: string;
+  default_action: DlpAction;
+  detectors: DlpDetectorRule[];
+} {
+  return {
+    version: String(parsed.version || "v1"),
+    default_action: String(parsed.default_action || "mask").trim().toLowerCase() as DlpAction,
+    detectors: (Array.isArray(parsed.detectors) ? parsed.detectors : []).map(canonicalDetector),
+  };
+}
+
+function validateDetectors(defaultAction: DlpAction, detectors: DlpDetectorRule[]): void {
+  if (!ACTIONS.includes(defaultAction)) {
+    throw new Error(`DLP catalog default_action must be one of ${ACTIONS.join(", ")}.`);
+  }
+  const seen = new Set<string>();
+  for (const detector of detectors) {
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(detector.id)) {
+      throw new Error("DLP detector id must be lowercase letters, digits and dashes.");
+    }
+    if (seen.has(detector.id)) {
+      throw new Error(`DLP detector ${detector.id} is defined more than once.`);
+    }
+    seen.add(detector.id);
+    if (!CATEGORIES.includes(detector.category)) {
+      throw new Error(`DLP detector ${detector.id} category must be one of ${CATEGORIES.join(", ")}.`);
+    }
+    if (detector.action !== undefined && !ACTIONS.includes(detector.action)) {
+      throw new Error(`DLP detector ${detector.id} action must be one of ${ACTIONS.join(", ")}.`);
+    }
+    if (detector.validator !== undefined && !VALIDATORS.includes(detector.validator)) {
+      throw new Error(`DLP detector ${detector.id} validator must be one of ${VALIDATORS.join(", ")}.`);
+    }
+    if (detector.flags !== undefined && !/^[imsu]*$/.test(detector.flags)) {
+      throw new Error(`DLP detector ${detector.id} flags may only contain i, m, s and u.`);
+    }
+    let regex: RegExp;
+    try {
+      regex = new RegExp(detector.pattern, detector.flags ?? "");
+    } catch (error) {
+      throw new Error(
+        `DLP detector ${detector.id} pattern is invalid: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    if (!detector.pattern || regex.test("")) {
+      throw new Error(`DLP detector ${detector.id} pattern must not match an empty string.`);
+    }
+  }
+}
+
+function verifySignature(
+  parsed: DlpCatalogFile,
+  canonicalText: string,
+  signingKey: string,
+  keyring: HmacKeyring | null,
+): Pick<DlpLoadResult, "signing_mode" | "keyring_active_kid" | "keyring_key_count"> {
+  if (keyring) {
+    if (parsed.signature_v2 && typeof parsed.signature_v2 === "object") {
+      if (!verifyWithKeyring(canonicalText, parsed.signature_v2, keyring)) {
+        throw new Error("DLP catalog signature_v2 mismatch.");
+      }
+    } else {
+      const signature = String(parsed.signature || "").trim().toLowerCase();
+      if (!signature) {
+        throw new Error("DLP catalog signature missing for keyring verification.");
+      }
+      if (!verifyWithAnyKey(canonicalText, signature, keyring).valid) {
+        throw new Error("DLP catalog legacy signature mismatch under keyring.");
+      }
+    }
+    return {
+      signing_mode: "keyring",
+      keyring_active_kid: keyring.activeKid,
+      keyring_key_count: Object.keys(keyring.keys).length,
+    };
+  }
+  if (!signingKey.trim()) {
+    throw new Error("DLP catalog requires a signing key or keyring.");
+  }
+  const signature = String(parsed.signature || "").trim().toLowerCase();
+  if (!/^[a-f0-9]{64}$/.test(signature)) {
+    throw new Error("DLP catalog signature missing or invalid format.");
+  }
+  const expected = crypto.createHmac("sha256", signingKey.trim()).update(canonicalText).digest("hex");
+  if (signature !== expected) {
+    throw new Error("DLP catalog signature mismatch.");
+  }
+  return { signing_mode: "static", keyring_active_kid: null, keyring_key_count: 0 };
+}
+
+export function loadSignedDlpCatalog(catalogPath: string, signingKey: string, signingKeyringPath = ""): DlpLoadResult {
+  const parsed = JSON.parse(fs.readFileSync(catalogPath, "utf8")) as DlpCatalogFile;
+  const canonical = canonicalDlpPayload(parsed);
+  validateDetectors(canonical.default_action, canonical.detectors);
+  const canonicalText = stableStringify(canonical);
+  const keyring = signingKeyringPath.trim() ? loadHmacKeyring(signingKeyringPath.trim()) : null;
+  return {
+    version: canonical.version,
+    fingerprint: crypto.createHash("sha256").update(canonicalText).digest("hex"),
+    ...verifySignature(parsed, canonicalText, signingKey, keyring),
+    defaultAction: canonical.default_action,
+    detectors: canonical.detectors,
+  };
+}
+
+// Detectors run against every string in the request body. Matches are resolved left to right; when two
+// detectors overlap, the earlier match wins and catalog order breaks ties. Tokens are keyed HMACs of the
+// value, so the same value maps to the same token across requests until the tokenization key changes.
+export class DlpEngine {
+  private state: DlpState = {
+    enabled: false,
+    version: "v1",
+    fingerprint: "",
+    signing_mode: "none",
+    keyring_active_kid: null,
+    keyring_key_count: 0,
+    default_action: "mask",
+    detectors: [],
+    scans_total: 0,
+    blocked_total: 0,
+    masked_total: 0,
+    tokenized_total: 0,
+  };
+  private detectors: CompiledDetector[] = [];
+  private readonly tokenKey: string;
+
+  constructor(tokenizationKey = "") {
+    this.tokenKey = tokenizationKey.trim() || crypto.randomBytes(32).toString("hex");
+  }
+
+  updateRules(loaded: DlpLoadResult): void {
+    this.state = {
+      ...this.state,
+      enabled: true,
+      version: loaded.version,
+      fingerprint: loaded.fingerprint,
+      signing_mode: loaded.signing_mode,
+      keyring_active_kid: loaded.keyring_active_kid,
+      keyring_key_count: loaded.keyring_key_count,
+      default_action: loaded.defaultAction,
+      detectors: loaded.detectors.map((rule) => rule.id),
+    };
+    this.detectors = loaded.detectors.map((rule) => ({
+      rule: { ...rule },
+      action: rule.action ?? loaded.defaultAction,
+      regex: new RegExp(rule.pattern, `${rule.flags ?? ""}g`),
+      tokenPrefix: `DLP_${rule.id.toUpperCase().replace(/-/g, "_")}_`,
+    }));
+  }
+
+  isEnabled(): boolean {
+    return this.state.enabled && this.detectors.length > 0;
+  }
+
+  getState(): DlpState {
+    return { ...this.state, detectors: [...this.state.detectors] };
+  }
+
+  apply(body: unknown): DlpResult {
+    const result: DlpResult = { action: "pass", body, findings: [], tokens: new Map() };
+    if (!this.isEnabled()) {
+      return result;
+    }
+    this.state.scans_total += 1;
+    const counts = new Map<number, number>();
+    const transformed = this.walk(body, counts, result.tokens);
+    for (const [order, count] of [...counts.entries()].sort((a, b) => a[0] - b[0])) {
+      const detector = this.detectors[order];
+      result.findings.push({
+        detector: detector.rule.id,
+        category: detector.rule.category,
+        action: detector.action,
+        count,
+      });
+    }
+    if (result.findings.some((finding) => finding.action === "block")) {
+      this.state.blocked_total += 1;
+      result.action = "block";
+      result.tokens.clear();
+      return result;
+    }
+    for (const finding of result.findings) {
+      if (finding.action === "mask") {
+        this.state.masked_total += finding.count;
+      } else {
+        this.state.tokenized_total += finding.count;
+      }
+    }
+    if (result.findings.length > 0) {
+      result.action = "transform";
+      result.body = transformed;
+    }
+    return result;
+  }
+
+  // Restores tokenized values in response text. Set jsonEscaped when the text is serialized JSON so restored
+  // values cannot break out of the surrounding string.
+  detokenize(text: string, tokens: Map<string, string>, jsonEscaped: boolean): string {
+    if (tokens.size === 0) {
+      return text;
+    }
+    return text.replace(TOKEN_PATTERN, (token) => {
+      const original = tokens.get(token);
+      if (original === undefined) {
+        return token;
+      }
+      return jsonEscaped ? JSON.stringify(original).slice(1, -1) : original;
+    });
+  }
+
+  private walk(value: unknown, counts: Map<number, number>, tokens: Map<string, string>): unknown {
+    if (typeof value === "string") {
+      return this.scanText(value, counts, tokens);
+    }
+    if (Array.isArray(value)) {
+      return value.map((entry) => this.walk(entry, counts, tokens));
+    }
+    if (value && typeof value === "object") {
+      const output: Record<string, unknown> = {};
+      for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+        output[key] = this.walk(entry, counts, tokens);
+      }
+      return output;
+    }
+    return value;
+  }
+
+  private scanText(text: string, counts: Map<number, number>, tokens: Map<string, string>): string {
+    const matches: DlpMatch[] = [];
+    this.detectors.forEach((detector, order) => {
+      detector.regex.lastIndex = 0;
+      for (const match of text.matchAll(detector.regex)) {
+        if (match[0] && validatorPasses(detector.rule.validator, match[0])) {
+          matches.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, order });
+        }
+      }
+    });
+    if (matches.length === 0) {
+      return text;
+    }
+    matches.sort((a, b) => a.start - b.start || a.order - b.order);
+    let output = "";
+    let cursor = 0;
+    for (const match of matches) {
+      if (match.start < cursor) {
+        continue;
+      }
+      const detector = this.detectors[match.order];
+      const value = text.slice(match.start, match.end);
+      counts.set(match.order, (counts.get(match.order) ?? 0) + 1);
+      output += text.slice(cursor, match.start);
+      if (detector.action === "tokenize") {
+        const token = `${detector.tokenPrefix}${crypto
+          .createHmac("sha256", this.tokenKey)
+          .update(`${detector.rule.id}\u0000${value}`)
+          .digest("hex")
+          .slice(0, 12)}`;
+        tokens.set(token, value);
+        output += token;
+      } else {
+        output += `[REDACTED:${detector.rule.id}]`;
+      }
+      cursor = match.end;
+    }
+    return output + text.slice(cursor);
+  }
+}
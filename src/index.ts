@@ -8,11 +8,12 @@ import {
   ApprovalPolicyEngine,
   loadSignedApprovalPolicyCatalog,
 } from "./approval-policy";
-import { SqliteAuditLedger } from "./audit-ledger";
+import { type AuditLedger, PostgresAuditLedger, SqliteAuditLedger } from "./audit-ledger";
 import { AffectiveMemoryService } from "./affective-memory";
 import { AirgapPolicyError, enforceAndAttestAirgapPolicy } from "./airgap-policy";
 import { AlertNotifier } from "./alert-notifier";
-import { BudgetController } from "./budget-controller";
+import { BudgetController, loadBudgetScopeCatalog } from "./budget-controller";
+import { parseBudgetCalendar } from "./budget-periods";
 import {
   CapabilityPolicyEngine,
   loadSignedCapabilityCatalog,
@@ -22,22 +23,36 @@ import { ChannelDeliveryService } from "./channel-delivery-service";
 import { ChannelDestinationPolicy } from "./channel-destination-policy";
 import { loadConfig } from "./config";
 import { ControlAuthz } from "./control-authz";
+import { DlpEngine, loadSignedDlpCatalog } from "./dlp";
 import { HeartbeatService } from "./heartbeat-service";
-import { InternalGatewayRiskEvaluator } from "./inference-provider";
+import {
+  InternalGatewayEmbeddingProvider,
+  InternalGatewayInjectionClassifier,
+  InternalGatewayRiskEvaluator,
+  type InjectionClassification,
+} from "./inference-provider";
 import { InitiativeEngine } from "./initiative-engine";
 import { InitiativeStore } from "./initiative-store";
+import { PromptInjectionDetector } from "./injection-detector";
 import { InteractionStore } from "./interaction-store";
 import { ModelRegistry } from "./model-registry";
 import { ModalityHub } from "./modality-hub";
+import { loadSignedModelSubstitutionCatalog, ModelSubstitutionPolicy } from "./model-substitution";
 import { loadSignedPolicyCatalog } from "./policy-catalog";
 import { PolicyEngine } from "./policy-engine";
-import { createReplayStore } from "./replay-store";
+import { createRateLimiter } from "./rate-limiter";
+import { createReplayStore, ReplayStoreConfig } from "./replay-store";
+import { createSharedSqlStore } from "./sql-store";
+import { HeuristicRiskEvaluator, RiskEvaluatorChain } from "./risk-evaluators";
+import { ResponseCache, type EmbeddingFunction } from "./response-cache";
 import { RuntimeEgressGuard } from "./runtime-egress-guard";
 import { SecurityConformanceService } from "./security-conformance";
 import { SecurityConformanceJobService } from "./security-conformance-job";
 import { SecurityInvariantRegistry } from "./security-invariants";
+import { SessionRiskTracker } from "./session-risk";
 import { buildTransportAgents } from "./transport-security";
 import { startUncertaintyGate } from "./uncertainty-gate";
+import { loadUpstreamRouteCatalog, upstreamEgressTarget } from "./upstream-router";
 import { sha256Hex, stableStringify } from "./utils";
 import { VdiService } from "./vdi-service";
 
@@ -62,13 +77,24 @@ function printBanner(port: number, upstreamBaseUrl: string): void {
 
 async function main(): Promise<void> {
   const config = loadConfig();
-  const ledger = new SqliteAuditLedger(path.join(config.openclawHome, "enterprise_audit.db"));
-  ledger.init();
-  const startupAuditIntegrity = ledger.verifyIntegrity();
+  const sharedStore = createSharedSqlStore({
+    mode: config.storageMode,
+    postgresUrl: config.storagePostgresUrl,
+    postgresSchema: config.storagePostgresSchema,
+    postgresConnectTimeoutMs: config.storagePostgresConnectTimeoutMs,
+    postgresSslMode: config.storagePostgresSslMode,
+  });
+  await sharedStore?.init();
+  const ledger: AuditLedger = sharedStore
+    ? new PostgresAuditLedger(sharedStore)
+    : new SqliteAuditLedger(path.join(config.openclawHome, "enterprise_audit.db"));
+  await ledger.init();
+  const startupAuditIntegrity = await ledger.verifyIntegrity();
   if (!startupAuditIntegrity.valid) {
     const message = `Audit ledger integrity check failed at startup: ${startupAuditIntegrity.reason || "unknown"}`;
     if (config.auditStartupVerifyMode === "block") {
-      ledger.close();
+      await ledger.close();
+      await sharedStore?.close();
       throw new Error(message);
     }
     if (config.auditStartupVerifyMode === "warn") {
@@ -110,7 +136,8 @@ async function main(): Promise<void> {
         message: error instanceof Error ? error.message : String(error),
       });
     }
-    ledger.close();
+    await ledger.close();
+    await sharedStore?.close();
     throw error;
   }
 
@@ -118,13 +145,32 @@ async function main(): Promise<void> {
     {
       hourlyUsdCap: config.hourlyUsdCap,
       dailyUsdCap: config.dailyUsdCap,
+      weeklyUsdCap: config.weeklyUsdCap,
+      monthlyUsdCap: config.monthlyUsdCap,
+      customUsdCap: config.customPeriodUsdCap,
+      calendar: parseBudgetCalendar({
+        timeZone: config.budgetTimeZone,
+        billingDay: config.budgetBillingDay,
+        weekStartDay: config.budgetWeekStartDay,
+        customPeriodStart: config.budgetCustomPeriodStart || null,
+        customPeriodDays: config.budgetCustomPeriodDays,
+      }),
+      warningThresholds: config.budgetWarningThresholds,
+      scopes: loadBudgetScopeCatalog(config.budgetScopesPath),
     },
     config.pricingCatalogPath,
-    path.join(config.openclawHome, "enterprise_budget.db"),
+    sharedStore ?? path.join(config.openclawHome, "enterprise_budget.db"),
+    {
+      signingKey: config.pricingCatalogSigningKey,
+      signingKeyringPath: config.pricingCatalogSigningKeyringPath,
+    },
+  );
+  await budgetController.init();
+  const approvalService = new ApprovalService(
+    sharedStore ?? path.join(config.openclawHome, "enterprise_approvals.db"),
+    config.approvalPayloadEncryptionKey,
   );
-  budgetController.init();
-  const approvalService = new ApprovalService(path.join(config.openclawHome, "enterprise_approvals.db"));
-  approvalService.init();
+  await approvalService.init();
   const approvalAttestationService = new ApprovalAttestationService(
     approvalService,
     config.approvalAttestationDefaultPath,
@@ -172,6 +218,7 @@ async function main(): Promise<void> {
   ledger.logAndSignAction("POLICY_CATALOG_LOADED", {
     policy_catalog_path: config.policyCatalogPath,
     fingerprint: policyCatalog.fingerprint,
+    rule_count: policyCatalog.ruleCount,
   });
   const policyEngine = new PolicyEngine(policyCatalog.policyOptions);
   const approvalPolicy = new ApprovalPolicyEngine();
@@ -216,6 +263,30 @@ async function main(): Promise<void> {
     capability_catalog_path: config.capabilityCatalogPath,
     ...capabilityPolicy.getState(),
   });
+  const modelSubstitution = new ModelSubstitutionPolicy();
+  if (config.modelSubstitutionCatalogPath) {
+    modelSubstitution.updateRules(
+      loadSignedModelSubstitutionCatalog(
+        config.modelSubstitutionCatalogPath,
+        config.modelSubstitutionCatalogSigningKey,
+        config.modelSubstitutionCatalogSigningKeyringPath,
+      ),
+    );
+    ledger.logAndSignAction("MODEL_SUBSTITUTION_CATALOG_LOADED", {
+      model_substitution_catalog_path: config.modelSubstitutionCatalogPath,
+      ...modelSubstitution.getState(),
+    });
+  }
+  const dlp = new DlpEngine(config.dlpTokenizationKey);
+  if (config.dlpCatalogPath) {
+    dlp.updateRules(
+      loadSignedDlpCatalog(config.dlpCatalogPath, config.dlpCatalogSigningKey, config.dlpCatalogSigningKeyringPath),
+    );
+    ledger.logAndSignAction("DLP_CATALOG_LOADED", {
+      dlp_catalog_path: config.dlpCatalogPath,
+      ...dlp.getState(),
+    });
+  }
   const controlAuthz = new ControlAuthz(
     config.controlApiToken,
     config.controlTokensPath,
@@ -259,21 +330,21 @@ async function main(): Promise<void> {
     );
     await initiativeEngine.start();
   }
-  const replayStore = createReplayStore(
-    {
-      mode: config.replayStoreMode,
-      redisUrl: config.replayRedisUrl,
-      redisPrefix: config.replayRedisPrefix,
-      postgresUrl: config.replayPostgresUrl,
-      postgresSchema: config.replayPostgresSchema,
-      postgresTablePrefix: config.replayPostgresTablePrefix,
-      postgresConnectTimeoutMs: config.replayPostgresConnectTimeoutMs,
-      postgresSslMode: config.replayPostgresSslMode,
-    },
-    interactionStore,
-  );
+  const replayStoreConfig: ReplayStoreConfig = {
+    mode: config.replayStoreMode,
+    redisUrl: config.replayRedisUrl,
+    redisPrefix: config.replayRedisPrefix,
+    postgresUrl: config.replayPostgresUrl,
+    postgresSchema: config.replayPostgresSchema,
+    postgresTablePrefix: config.replayPostgresTablePrefix,
+    postgresConnectTimeoutMs: config.replayPostgresConnectTimeoutMs,
+    postgresSslMode: config.replayPostgresSslMode,
+  };
+  const replayStore = createReplayStore(replayStoreConfig, interactionStore);
   await replayStore.warmup();
   ledger.logAndSignAction("REPLAY_STORE_READY", replayStore.getState());
+  const rateLimiter = createRateLimiter(replayStoreConfig, config.rateLimitAlgorithm);
+  await rateLimiter.warmup();
   if (config.clusterId !== "local" && config.replayStoreMode === "sqlite") {
     ledger.logAndSignAction("CLUSTER_CONFIG_WARNING", {
       node_id: config.nodeId,
@@ -282,6 +353,14 @@ async function main(): Promise<void> {
       recommendation: "use REPLAY_STORE_MODE=redis or postgres",
     });
   }
+  if (config.clusterId !== "local" && config.storageMode === "sqlite") {
+    ledger.logAndSignAction("CLUSTER_CONFIG_WARNING", {
+      node_id: config.nodeId,
+      cluster_id: config.clusterId,
+      reason: "sqlite storage mode keeps approvals, budgets and the audit ledger node-local",
+      recommendation: "use STORAGE_MODE=postgres",
+    });
+  }
   const alertNotifier = new AlertNotifier({
     webhookUrl: config.alertWebhookUrl,
     minIntervalMs: config.alertMinIntervalMs,
@@ -301,6 +380,7 @@ async function main(): Promise<void> {
   });
   const invariantRegistry = new SecurityInvariantRegistry();
 
+  const upstreamRoutes = loadUpstreamRouteCatalog(config.upstreamRoutesPath);
   let transportAgents;
   try {
     transportAgents = buildTransportAgents(
@@ -322,6 +402,15 @@ async function main(): Promise<void> {
         clientCertPath: config.inferenceClientCertPath,
         clientKeyPath: config.inferenceClientKeyPath,
       },
+      upstreamRoutes.upstreams.map((upstream) => ({
+        targetName: upstreamEgressTarget(upstream.name),
+        targetUrl: upstream.url,
+        enforceTls: upstream.enforce_tls,
+        tlsPinsSha256: upstream.tls_pin_sha256,
+        caCertPath: upstream.ca_cert_path,
+        clientCertPath: upstream.client_cert_path,
+        clientKeyPath: upstream.client_key_path,
+      })),
     );
     ledger.logAndSignAction("TRANSPORT_SECURITY_READY", {
       summary: transportAgents.summary,
@@ -343,7 +432,7 @@ async function main(): Promise<void> {
     ],
   });
 
-  const riskEvaluator = new InternalGatewayRiskEvaluator(
+  const llmRiskEvaluator = new InternalGatewayRiskEvaluator(
     config.internalInferenceBaseUrl,
     config.internalInferenceApiKey,
     async () => {
@@ -351,6 +440,84 @@ async function main(): Promise<void> {
     },
     transportAgents.inferenceAgent,
   );
+  const defaultRiskEvaluatorTimeoutsMs = { heuristic: 250, llm: 15000 };
+  const riskEvaluator = new RiskEvaluatorChain(
+    config.riskEvaluatorChain.map((name) => ({
+      name,
+      evaluator: name === "heuristic" ? new HeuristicRiskEvaluator() : llmRiskEvaluator,
+      weight: config.riskEvaluatorWeights[name] ?? 1,
+      timeoutMs: config.riskEvaluatorTimeoutsMs[name] ?? defaultRiskEvaluatorTimeoutsMs[name],
+      optional: config.riskEvaluatorOptional.includes(name),
+    })),
+    {
+      strategy: config.riskEvaluatorStrategy,
+      quorum: config.riskEvaluatorQuorum || undefined,
+      warnThreshold: config.warnThreshold,
+    },
+  );
+
+  let responseCache: ResponseCache | null = null;
+  if (config.responseCacheEnabled) {
+    let embed: EmbeddingFunction | undefined;
+    if (config.responseCacheEmbeddingModel) {
+      modelRegistry.assertAllowed(config.responseCacheEmbeddingModel, "embedding");
+      const embeddingProvider = new InternalGatewayEmbeddingProvider(
+        config.internalInferenceBaseUrl,
+        config.internalInferenceApiKey,
+        async () => {
+          await runtimeEgressGuard.assertAllowed("internal_inference_base_url");
+        },
+        transportAgents.inferenceAgent,
+      );
+      embed = (input) => embeddingProvider.embed(config.responseCacheEmbeddingModel, input);
+    }
+    responseCache = new ResponseCache(
+      {
+        defaultTtlSeconds: config.responseCacheTtlSeconds,
+        modelTtlSeconds: config.responseCacheModelTtls,
+        maxEntries: config.responseCacheMaxEntries,
+        similarityThreshold: config.responseCacheSimilarityThreshold,
+        embed,
+      },
+      path.join(config.openclawHome, "enterprise_response_cache.db"),
+    );
+    responseCache.init();
+  }
+
+  const sessionRisk = config.sessionRiskEnabled
+    ? new SessionRiskTracker({
+        windowSeconds: config.sessionRiskWindowSeconds,
+        maxEventsPerSession: config.sessionRiskMaxEvents,
+        maxSessions: config.sessionRiskMaxSessions,
+        escalationThreshold: config.sessionRiskThreshold,
+        readToolPatterns: config.sessionRiskReadTools,
+        egressToolPatterns: config.sessionRiskEgressTools,
+      })
+    : undefined;
+
+  let injectionDetector: PromptInjectionDetector | undefined;
+  if (config.promptInjectionDetectionEnabled) {
+    let classify: ((text: string) => Promise<InjectionClassification>) | undefined;
+    if (config.promptInjectionClassifierModel) {
+      modelRegistry.assertAllowed(config.promptInjectionClassifierModel, "text");
+      const injectionClassifier = new InternalGatewayInjectionClassifier(
+        config.internalInferenceBaseUrl,
+        config.internalInferenceApiKey,
+        async () => {
+          await runtimeEgressGuard.assertAllowed("internal_inference_base_url");
+        },
+        transportAgents.inferenceAgent,
+      );
+      classify = (text) => injectionClassifier.classify(config.promptInjectionClassifierModel, text);
+    }
+    injectionDetector = new PromptInjectionDetector({
+      classify,
+      classifierModel: config.promptInjectionClassifierModel || undefined,
+      classifierThreshold: config.promptInjectionClassifierThreshold,
+      classifierTimeoutMs: config.promptInjectionClassifierTimeoutMs,
+      maxScanChars: config.promptInjectionMaxScanChars,
+    });
+  }
 
   const affective = new AffectiveMemoryService(
     {
@@ -402,11 +569,17 @@ async function main(): Promise<void> {
     approval_policy: approvalPolicy.getState().fingerprint,
     channel_destination_policy: destinationPolicyState.fingerprint,
     channel_connector_catalog: channelDelivery.getConnectorState().fingerprint,
+    pricing_catalog: budgetController.getPricingState().fingerprint,
+    upstream_routes: sha256Hex(stableStringify(upstreamRoutes)),
+    model_substitution: modelSubstitution.getState().fingerprint,
+    dlp_catalog: dlp.getState().fingerprint,
   };
   const codeFingerprint = sha256Hex(
     stableStringify({
       ...configFingerprints,
       replay_store_mode: config.replayStoreMode,
+      rate_limit_algorithm: config.rateLimitAlgorithm,
+      storage_mode: config.storageMode,
       security_invariants_enforcement: config.securityInvariantsEnforcement,
       initiative_engine_enabled: config.initiativeEngineEnabled,
       initiative_poll_seconds: config.initiativePollSeconds,
@@ -429,10 +602,14 @@ async function main(): Promise<void> {
       cluster_id: config.clusterId,
       enforcement_mode: config.enforcementMode,
       risk_evaluator_fail_mode: config.riskEvaluatorFailMode,
+      risk_evaluator_chain: riskEvaluator.getState(),
       security_invariants_enforcement: config.securityInvariantsEnforcement,
       model_registry_fingerprint: modelRegistry.getFingerprint(),
       replay_store_mode: config.replayStoreMode,
       replay_store_state: replayStore.getState(),
+      rate_limiter_state: rateLimiter.getState(),
+      storage_mode: config.storageMode,
+      storage_state: sharedStore?.getState() ?? null,
       initiative_engine_enabled: config.initiativeEngineEnabled,
       initiative_poll_seconds: config.initiativePollSeconds,
       initiative_max_task_retries: config.initiativeMaxTaskRetries,
@@ -477,6 +654,11 @@ async function main(): Promise<void> {
       warnThreshold: config.warnThreshold,
       evaluatorModel: config.evaluatorModel,
       riskEvaluatorFailMode: config.riskEvaluatorFailMode,
+      riskEvaluatorCacheTtlSeconds: config.riskEvaluatorCacheTtlSeconds,
+      riskEvaluatorCacheMaxEntries: config.riskEvaluatorCacheMaxEntries,
+      riskEvaluatorBreakerFailureThreshold: config.riskEvaluatorBreakerFailureThreshold,
+      riskEvaluatorBreakerLatencyMs: config.riskEvaluatorBreakerLatencyMs,
+      riskEvaluatorBreakerCooldownSeconds: config.riskEvaluatorBreakerCooldownSeconds,
       auditStartupVerifyMode: config.auditStartupVerifyMode,
       securityInvariantsEnforcement: config.securityInvariantsEnforcement,
       nodeId: config.nodeId,
@@ -509,13 +691,33 @@ async function main(): Promise<void> {
       controlRateLimitMaxRequests: config.controlRateLimitMaxRequests,
       channelIngressRateLimitWindowSeconds: config.channelIngressRateLimitWindowSeconds,
       channelIngressRateLimitMaxRequests: config.channelIngressRateLimitMaxRequests,
+      rateLimiter,
       channelMaxOutboundChars: config.channelMaxOutboundChars,
       maxRequestInputTokens: config.maxRequestInputTokens,
       maxRequestOutputTokens: config.maxRequestOutputTokens,
+      streamMaxRequestUsd: config.streamMaxRequestUsd,
+      streamBudgetCheckIntervalTokens: config.streamBudgetCheckIntervalTokens,
+      policySimulationCaptureBodies: config.policySimulationCaptureBodies,
+      responseGuardMode: config.responseGuardMode,
+      tokenizerDataDirectory: config.tokenizerDataDirectory,
       approvalTtlSeconds: config.approvalTtlSeconds,
       approvalRequiredCount: config.approvalRequiredCount,
       approvalMaxUses: config.approvalMaxUses,
       upstreamAgent: transportAgents.upstreamAgent,
+      upstreamAgents: transportAgents.upstreamAgents,
+      upstreamRoutes,
+      modelSubstitution,
+      responseCache: responseCache || undefined,
+      sessionRisk,
+      sessionIdHeader: config.sessionIdHeader,
+      injectionDetector,
+      dlp,
+      approvalChatChannel: config.approvalChatChannel,
+      approvalChatDestination: config.approvalChatDestination,
+      approvalEscalationIntervalSeconds: config.approvalEscalationIntervalSeconds,
+      approvalNearExpirySeconds: config.approvalNearExpirySeconds,
+      approvalDelegationMaxSeconds: config.approvalDelegationMaxSeconds,
+      standingApprovalMaxSeconds: config.standingApprovalMaxSeconds,
     },
     ledger,
     riskEvaluator,
@@ -570,6 +772,30 @@ async function main(): Promise<void> {
         capabilityPolicy.updateRules(reloaded);
         return { fingerprint: reloaded.fingerprint };
       },
+      reloadModelSubstitutionCatalog: () => {
+        if (!config.modelSubstitutionCatalogPath) {
+          throw new Error("MODEL_SUBSTITUTION_CATALOG_PATH is not configured.");
+        }
+        const reloaded = loadSignedModelSubstitutionCatalog(
+          config.modelSubstitutionCatalogPath,
+          config.modelSubstitutionCatalogSigningKey,
+          config.modelSubstitutionCatalogSigningKeyringPath,
+        );
+        modelSubstitution.updateRules(reloaded);
+        return { fingerprint: reloaded.fingerprint };
+      },
+      reloadDlpCatalog: () => {
+        if (!config.dlpCatalogPath) {
+          throw new Error("DLP_CATALOG_PATH is not configured.");
+        }
+        const reloaded = loadSignedDlpCatalog(
+          config.dlpCatalogPath,
+          config.dlpCatalogSigningKey,
+          config.dlpCatalogSigningKeyringPath,
+        );
+        dlp.updateRules(reloaded);
+        return { fingerprint: reloaded.fingerprint };
+      },
     },
     initiativeEngine || undefined,
     vdiService,
@@ -602,12 +828,15 @@ async function main(): Promise<void> {
       securityConformanceJob.stop();
       await gate.close();
       await replayStore.close();
+      await rateLimiter.close();
       channelDelivery.stop();
       initiativeStore?.close();
       interactionStore.close();
-      approvalService.close();
-      budgetController.close();
-      ledger.close();
+      responseCache?.close();
+      await approvalService.close();
+      await budgetController.close();
+      await ledger.close();
+      await sharedStore?.close();
       // eslint-disable-next-line no-console
       console.log("Shutdown complete.");
       process.exit(0);
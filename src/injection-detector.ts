@@ -0,0 +1,145 @@
+import type { InjectionClassification } from "./inference-provider";
+
+export interface InjectionSegment {
+  source: string;
+  text: string;
+}
+
+export interface InjectionFinding {
+  source: string;
+  signal: string;
+}
+
+export interface InjectionScanResult {
+  signals: string[];
+  findings: InjectionFinding[];
+  classifier: { model: string; injection_score: number; reason: string } | null;
+  classifier_error: string | null;
+}
+
+export interface PromptInjectionDetectorOptions {
+  classify?: (text: string) => Promise<InjectionClassification>;
+  classifierModel?: string;
+  classifierThreshold?: number;
+  classifierTimeoutMs?: number;
+  maxScanChars?: number;
+}
+
+export interface PromptInjectionDetectorState {
+  enabled: boolean;
+  patterns: string[];
+  classifier_model: string | null;
+  classifier_threshold: number | null;
+  scans_total: number;
+  detections_total: number;
+  classifier_errors_total: number;
+}
+
+const INJECTION_PATTERNS: Array<[string, RegExp]> = [
+  [
+    "ignore-instructions",
+    /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(previous|prior|above|earlier|all|your|system)\b[^.\n]{0,20}\b(instructions?|prompts?|rules|directions|guidelines)\b/i,
+  ],
+  [
+    "role-override",
+    /\b(you are now|from now on,? you (are|will)|act as (an? )?(unrestricted|jailbroken)|developer mode (enabled|on)|new (system )?instructions?:)/i,
+  ],
+  ["role-tag-spoofing", /(<\|im_start\|>\s*system|<\/?system>|\[\/?(system|inst)\]|^#{2,}\s*system\b)/im],
+  [
+    "prompt-exfiltration",
+    /\b(reveal|print|repeat|show|output|leak)\b[^.\n]{0,30}\b(system prompt|hidden instructions|initial instructions|your instructions)\b/i,
+  ],
+  [
+    "credential-exfiltration",
+    /\b(send|forward|post|upload|email)\b[^.\n]{0,40}\b(credentials?|secrets?|api[_ -]?keys?|tokens?|passwords?)\b[^.\n]{0,40}\b(to|at)\b/i,
+  ],
+  [
+    "tool-coercion",
+    /\b(call|invoke|use|run|execute)\s+(the\s+)?[\w.-]+\s+(tool|function)\b[^.\n]{0,60}\b(immediately|without (asking|confirmation|approval)|silently)\b/i,
+  ],
+  ["hidden-unicode", /[\u202A-\u202E\u2066-\u2069]|[\u{E0000}-\u{E007F}]/u],
+];
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  if (!(timeoutMs > 0)) {
+    return promise;
+  }
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Injection classifier timed out after ${timeoutMs}ms.`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Local patterns always run. The classifier is advisory: when it fails, the pattern findings still stand and
+// the error is reported instead of blocking the request.
+export class PromptInjectionDetector {
+  private readonly maxScanChars: number;
+  private readonly classifierThreshold: number;
+  private scansTotal = 0;
+  private detectionsTotal = 0;
+  private classifierErrorsTotal = 0;
+
+  constructor(private readonly options: PromptInjectionDetectorOptions = {}) {
+    this.maxScanChars = Math.max(256, Math.floor(options.maxScanChars ?? 20_000));
+    this.classifierThreshold = options.classifierThreshold ?? 0.8;
+  }
+
+  async scan(segments: InjectionSegment[]): Promise<InjectionScanResult> {
+    const result: InjectionScanResult = { signals: [], findings: [], classifier: null, classifier_error: null };
+    const scanned = segments
+      .map((segment) => ({ source: segment.source, text: segment.text.slice(0, this.maxScanChars) }))
+      .filter((segment) => segment.text.trim());
+    if (scanned.length === 0) {
+      return result;
+    }
+    this.scansTotal += 1;
+
+    for (const segment of scanned) {
+      for (const [name, pattern] of INJECTION_PATTERNS) {
+        if (pattern.test(segment.text)) {
+          result.findings.push({ source: segment.source, signal: `injection:${name}` });
+        }
+      }
+    }
+
+    if (this.options.classify) {
+      const text = scanned
+        .map((segment) => segment.text)
+        .join("\n\n")
+        .slice(0, this.maxScanChars);
+      try {
+        const classification = await withTimeout(this.options.classify(text), this.options.classifierTimeoutMs ?? 5000);
+        result.classifier = {
+          model: this.options.classifierModel || "unknown",
+          injection_score: classification.injection_score,
+          reason: classification.reason,
+        };
+        if (classification.injection_score >= this.classifierThreshold) {
+          result.findings.push({ source: scanned.map((segment) => segment.source).join(","), signal: "injection:classifier" });
+        }
+      } catch (error) {
+        this.classifierErrorsTotal += 1;
+        result.classifier_error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    result.signals = [...new Set(result.findings.map((finding) => finding.signal))];
+    if (result.signals.length > 0) {
+      this.detectionsTotal += 1;
+    }
+    return result;
+  }
+
+  getState(): PromptInjectionDetectorState {
+    return {
+      enabled: true,
+      patterns: INJECTION_PATTERNS.map(([name]) => name),
+      classifier_model: this.options.classify ? this.options.classifierModel || "unknown" : null,
+      classifier_threshold: this.options.classify ? this.classifierThreshold : null,
+      scans_total: this.scansTotal,
+      detections_total: this.detectionsTotal,
+      classifier_errors_total: this.classifierErrorsTotal,
+    };
+  }
+}
@@ -0,0 +1,216 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import {
+  loadHmacKeyring,
+  type HmacKeyring,
+  verifyWithAnyKey,
+  verifyWithKeyring,
+} from "./hmac-keyring";
+import { stableStringify } from "./utils";
+
+export interface ModelSubstitutionRule {
+  from: string;
+  to: string[];
+  threshold_pct?: number;
+}
+
+interface ModelSubstitutionCatalogFile {
+  version: string;
+  default_threshold_pct?: number;
+  substitutions: ModelSubstitutionRule[];
+  signature?: string;
+  signature_v2?: {
+    kid: string;
+    sig: string;
+  };
+}
+
+export interface ModelSubstitutionLoadResult {
+  version: string;
+  fingerprint: string;
+  signing_mode: "static" | "keyring";
+  keyring_active_kid: string | null;
+  keyring_key_count: number;
+  defaultThresholdPct: number;
+  rules: ModelSubstitutionRule[];
+}
+
+export interface ModelSubstitutionState {
+  enabled: boolean;
+  version: string;
+  fingerprint: string;
+  signing_mode: "none" | "static" | "keyring";
+  keyring_active_kid: string | null;
+  keyring_key_count: number;
+  default_threshold_pct: number;
+  rule_count: number;
+}
+
+export interface ModelSubstitutionMatch {
+  from: string;
+  to: string[];
+  thresholdPct: number;
+}
+
+function canonicalRule(entry: ModelSubstitutionRule): ModelSubstitutionRule {
+  const rule: ModelSubstitutionRule = {
+    from: String(entry?.from || "").trim().toLowerCase(),
+    to: (Array.isArray(entry?.to) ? entry.to : [])
+      .map((model) => String(model || "").trim().toLowerCase())
+      .filter(Boolean),
+  };
+  if (entry?.threshold_pct !== undefined) {
+    rule.threshold_pct = Number(entry.threshold_pct);
+  }
+  return rule;
+}
+
+function canonicalSubstitutionPayload(parsed: ModelSubstitutionCatalogFile): {
+  version: string;
+  default_threshold_pct: number;
+  substitutions: ModelSubstitutionRule[];
+} {
+  return {
+    version: String(parsed.version || "v1"),
+    default_threshold_pct: Number(parsed.default_threshold_pct ?? 80),
+    substitutions: (Array.isArray(parsed.substitutions) ? parsed.substitutions : []).map(canonicalRule),
+  };
+}
+
+function validThreshold(value: number): boolean {
+  return Number.isFinite(value) && value > 0 && value <= 100;
+}
+
+function validateRules(defaultThresholdPct: number, rules: ModelSubstitutionRule[]): void {
+  if (!validThreshold(defaultThresholdPct)) {
+    throw new Error("Model substitution catalog default_threshold_pct must be between 0 and 100.");
+  }
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (!rule.from) {
+      throw new Error("Model substitution rule missing from.");
+    }
+    if (seen.has(rule.from)) {
+      throw new Error(`Model substitution rule for ${rule.from} is defined more than once.`);
+    }
+    seen.add(rule.from);
+    if (rule.to.length === 0) {
+      throw new Error(`Model substitution rule for ${rule.from} must list at least one substitute.`);
+    }
+    if (rule.to.includes(rule.from)) {
+      throw new Error(`Model substitution rule for ${rule.from} cannot substitute a model with itself.`);
+    }
+    if (rule.threshold_pct !== undefined && !validThreshold(rule.threshold_pct)) {
+      throw new Error(`Model substitution rule for ${rule.from} threshold_pct must be between 0 and 100.`);
+    }
+  }
+}
+
+function verifySignature(
+  parsed: ModelSubstitutionCatalogFile,
+  canonicalText: string,
+  signingKey: string,
+  keyring: HmacKeyring | null,
+): Pick<ModelSubstitutionLoadResult, "signing_mode" | "keyring_active_kid" | "keyring_key_count"> {
+  if (keyring) {
+    if (parsed.signature_v2 && typeof parsed.signature_v2 === "object") {
+      if (!verifyWithKeyring(canonicalText, parsed.signature_v2, keyring)) {
+        throw new Error("Model substitution catalog signature_v2 mismatch.");
+      }
+    } else {
+      const signature = String(parsed.signature || "").trim().toLowerCase();
+      if (!signature) {
+        throw new Error("Model substitution catalog signature missing for keyring verification.");
+      }
+      if (!verifyWithAnyKey(canonicalText, signature, keyring).valid) {
+        throw new Error("Model substitution catalog legacy signature mismatch under keyring.");
+      }
+    }
+    return {
+      signing_mode: "keyring",
+      keyring_active_kid: keyring.activeKid,
+      keyring_key_count: Object.keys(keyring.keys).length,
+    };
+  }
+  if (!signingKey.trim()) {
+    throw new Error("Model substitution catalog requires a signing key or keyring.");
+  }
+  const signature = String(parsed.signature || "").trim().toLowerCase();
+  if (!/^[a-f0-9]{64}$/.test(signature)) {
+    throw new Error("Model substitution catalog signature missing or invalid format.");
+  }
+  const expected = crypto.createHmac("sha256", signingKey.trim()).update(canonicalText).digest("hex");
+  if (signature !== expected) {
+    throw new Error("Model substitution catalog signature mismatch.");
+  }
+  return { signing_mode: "static", keyring_active_kid: null, keyring_key_count: 0 };
+}
+
+export function loadSignedModelSubstitutionCatalog(
+  catalogPath: string,
+  signingKey: string,
+  signingKeyringPath = "",
+): ModelSubstitutionLoadResult {
+  const parsed = JSON.parse(fs.readFileSync(catalogPath, "utf8")) as ModelSubstitutionCatalogFile;
+  const canonical = canonicalSubstitutionPayload(parsed);
+  validateRules(canonical.default_threshold_pct, canonical.substitutions);
+  const canonicalText = stableStringify(canonical);
+  const keyring = signingKeyringPath.trim() ? loadHmacKeyring(signingKeyringPath.trim()) : null;
+  return {
+    version: canonical.version,
+    fingerprint: crypto.createHash("sha256").update(canonicalText).digest("hex"),
+    ...verifySignature(parsed, canonicalText, signingKey, keyring),
+    defaultThresholdPct: canonical.default_threshold_pct,
+    rules: canonical.substitutions,
+  };
+}
+
+export class ModelSubstitutionPolicy {
+  private state: ModelSubstitutionState = {
+    enabled: false,
+    version: "v1",
+    fingerprint: "",
+    signing_mode: "none",
+    keyring_active_kid: null,
+    keyring_key_count: 0,
+    default_threshold_pct: 80,
+    rule_count: 0,
+  };
+  private rules: ModelSubstitutionRule[] = [];
+
+  updateRules(loaded: ModelSubstitutionLoadResult): void {
+    this.state = {
+      enabled: true,
+      version: loaded.version,
+      fingerprint: loaded.fingerprint,
+      signing_mode: loaded.signing_mode,
+      keyring_active_kid: loaded.keyring_active_kid,
+      keyring_key_count: loaded.keyring_key_count,
+      default_threshold_pct: loaded.defaultThresholdPct,
+      rule_count: loaded.rules.length,
+    };
+    this.rules = loaded.rules.map((rule) => ({ ...rule, to: [...rule.to] }));
+  }
+
+  getState(): ModelSubstitutionState {
+    return { ...this.state };
+  }
+
+  // Exact rules win over prefix rules ("gpt-4.1*"); longer prefixes win over shorter ones.
+  match(model: string): ModelSubstitutionMatch | null {
+    const key = model.trim().toLowerCase();
+    const rule =
+      this.rules.find((entry) => entry.from === key) ??
+      this.rules
+        .filter((entry) => entry.from.endsWith("*") && key.startsWith(entry.from.slice(0, -1)))
+        .sort((a, b) => b.from.length - a.from.length)[0];
+    if (!rule) {
+      return null;
+    }
+    return {
+      from: rule.from,
+      to: rule.to.filter((candidate) => candidate !== key),
+      thresholdPct: rule.threshold_pct ?? this.state.default_threshold_pct,
+    };
+  }
+}
@@ -7,6 +7,7 @@ import {
   verifyWithKeyring,
 } from "./hmac-keyring";
 import type { PolicyEngineOptions } from "./policy-engine";
+import { parsePolicyRules } from "./policy-rules";
 import { stableStringify } from "./utils";
 
 interface PolicyCatalogFile {
@@ -14,6 +15,7 @@ interface PolicyCatalogFile {
   high_risk_tools: string[];
   critical_patterns: string[];
   high_risk_patterns: string[];
+  rules?: unknown[];
   signature?: string;
   signature_v2?: {
     kid: string;
@@ -28,6 +30,7 @@ function normalize(values: string[]): string[] {
 export interface PolicyCatalogLoadResult {
   policyOptions: PolicyEngineOptions;
   fingerprint: string;
+  ruleCount: number;
 }
 
 export function loadSignedPolicyCatalog(
@@ -37,13 +40,7 @@ export function loadSignedPolicyCatalog(
 ): PolicyCatalogLoadResult {
   const raw = fs.readFileSync(pathValue, "utf8");
   const parsed = JSON.parse(raw) as PolicyCatalogFile;
-
-  const canonicalPayload = {
-    version: parsed.version,
-    high_risk_tools: normalize(parsed.high_risk_tools || []),
-    critical_patterns: normalize(parsed.critical_patterns || []),
-    high_risk_patterns: normalize(parsed.high_risk_patterns || []),
-  };
+  const canonicalPayload = canonicalPolicyPayload(parsed);
   const canonicalText = stableStringify(canonicalPayload);
 
   let keyring: HmacKeyring | null = null;
@@ -79,6 +76,39 @@ export function loadSignedPolicyCatalog(
     }
   }
 
+  return buildPolicyCatalog(canonicalPayload, canonicalText);
+}
+
+export function parsePolicyCatalogCandidate(value: unknown): PolicyCatalogLoadResult {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Policy catalog candidate must be an object.");
+  }
+  const canonicalPayload = canonicalPolicyPayload(value as PolicyCatalogFile);
+  return buildPolicyCatalog(canonicalPayload, stableStringify(canonicalPayload));
+}
+
+function canonicalPolicyPayload(parsed: PolicyCatalogFile): {
+  version: string;
+  high_risk_tools: string[];
+  critical_patterns: string[];
+  high_risk_patterns: string[];
+  rules?: unknown[];
+} {
+  return {
+    version: parsed.version,
+    high_risk_tools: normalize(parsed.high_risk_tools || []),
+    critical_patterns: normalize(parsed.critical_patterns || []),
+    high_risk_patterns: normalize(parsed.high_risk_patterns || []),
+    ...(parsed.rules !== undefined ? { rules: parsed.rules } : {}),
+  };
+}
+
+function buildPolicyCatalog(
+  canonicalPayload: ReturnType<typeof canonicalPolicyPayload>,
+  canonicalText: string,
+): PolicyCatalogLoadResult {
+  const rules = parsePolicyRules(canonicalPayload.rules);
+
   const fingerprint = crypto
     .createHash("sha256")
     .update(canonicalText)
@@ -89,7 +119,9 @@ export function loadSignedPolicyCatalog(
       highRiskTools: canonicalPayload.high_risk_tools,
       criticalPatterns: canonicalPayload.critical_patterns,
       highRiskPatterns: canonicalPayload.high_risk_patterns,
+      rules,
     },
     fingerprint,
+    ruleCount: rules.length,
   };
 }
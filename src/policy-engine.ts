@@ -1,8 +1,19 @@
 import type { ModelModality } from "./model-registry";
 import type { ToolIntent } from "./inference-provider";
+import type { SessionRiskContext } from "./session-risk";
+import { extractToolInvocations } from "./tool-invocations";
+import {
+  compilePolicyRules,
+  matchPolicyRule,
+  type CompiledPolicyRule,
+  type PolicyRiskClass,
+  type PolicyRule,
+} from "./policy-rules";
 
 export type PolicyDecisionType = "allow" | "require_approval" | "block";
 
+const DECISION_SEVERITY: Record<PolicyDecisionType, number> = { allow: 0, require_approval: 1, block: 2 };
+
 export interface PolicyInput {
   path: string;
   method: string;
@@ -10,12 +21,16 @@ export interface PolicyInput {
   model: string;
   modality: ModelModality;
   intent: ToolIntent;
+  channel?: string;
+  session?: SessionRiskContext;
+  // Signals raised by detectors outside the engine, e.g. `injection:*` from the prompt-injection detector.
+  signals?: string[];
 }
 
 export interface PolicyDecision {
   decision: PolicyDecisionType;
   reason: string;
-  riskClass: "low" | "medium" | "high" | "critical";
+  riskClass: PolicyRiskClass;
   matchedSignals: string[];
 }
 
@@ -23,6 +38,7 @@ export interface PolicyEngineOptions {
   highRiskTools: string[];
   criticalPatterns: string[];
   highRiskPatterns: string[];
+  rules: PolicyRule[];
 }
 
 const DEFAULT_HIGH_RISK_TOOLS = [
@@ -73,11 +89,13 @@ export class PolicyEngine {
   private highRiskTools: Set<string>;
   private criticalPatterns: Set<string>;
   private highRiskPatterns: Set<string>;
+  private rules: CompiledPolicyRule[];
 
   constructor(options?: Partial<PolicyEngineOptions>) {
     this.highRiskTools = new Set<string>();
     this.criticalPatterns = new Set<string>();
     this.highRiskPatterns = new Set<string>();
+    this.rules = [];
     this.updateRules(options);
   }
 
@@ -85,9 +103,47 @@ export class PolicyEngine {
     this.highRiskTools = normalize(options?.highRiskTools || DEFAULT_HIGH_RISK_TOOLS);
     this.criticalPatterns = normalize(options?.criticalPatterns || DEFAULT_CRITICAL_PATTERNS);
     this.highRiskPatterns = normalize(options?.highRiskPatterns || DEFAULT_HIGH_RISK_PATTERNS);
+    this.rules = compilePolicyRules(options?.rules || []);
   }
 
   evaluate(input: PolicyInput): PolicyDecision {
+    const decision = this.combine(this.evaluateRules(input), this.evaluateSignals(input));
+    return this.applySessionContext(decision, input.session);
+  }
+
+  // A matching rule never discards signals (injection, path, modality, high-risk tools): the stricter of the two
+  // decisions wins, a rule on ties, and the signals are kept either way.
+  private combine(ruleDecision: PolicyDecision | null, signalDecision: PolicyDecision): PolicyDecision {
+    if (!ruleDecision) {
+      return signalDecision;
+    }
+    const matchedSignals = [...ruleDecision.matchedSignals, ...signalDecision.matchedSignals];
+    if (DECISION_SEVERITY[signalDecision.decision] > DECISION_SEVERITY[ruleDecision.decision]) {
+      return { ...signalDecision, matchedSignals };
+    }
+    return { ...ruleDecision, matchedSignals };
+  }
+
+  // Session signals never relax a decision: they are appended, and an allow is escalated to approval.
+  private applySessionContext(decision: PolicyDecision, session?: SessionRiskContext): PolicyDecision {
+    if (!session || session.signals.length === 0) {
+      return decision;
+    }
+    const matchedSignals = [...decision.matchedSignals, ...session.signals];
+    if (decision.decision !== "allow") {
+      return { ...decision, matchedSignals };
+    }
+    return {
+      decision: "require_approval",
+      reason: session.signals.includes("sequence:read-then-egress")
+        ? "Session read data and now attempts egress; approval required."
+        : `Session cumulative risk ${session.cumulativeRisk} reached threshold ${session.threshold}; approval required.`,
+      riskClass: "high",
+      matchedSignals,
+    };
+  }
+
+  private evaluateSignals(input: PolicyInput): PolicyDecision {
     const signals: string[] = [];
     const bodyText = toText(input.body);
     const lowerPath = input.path.toLowerCase();
@@ -120,8 +176,11 @@ export class PolicyEngine {
       signals.push(`modality:${input.modality}`);
     }
 
+    signals.push(...(input.signals ?? []));
+
     const hasCritical = signals.some((signal) => signal.startsWith("critical-pattern"));
     const hasHighRisk = signals.some((signal) => signal.startsWith("high-risk"));
+    const hasInjection = signals.some((signal) => signal.startsWith("injection:"));
 
     if (hasCritical) {
       return {
@@ -132,6 +191,15 @@ export class PolicyEngine {
       };
     }
 
+    if (hasInjection) {
+      return {
+        decision: "require_approval",
+        reason: "Prompt injection indicators detected.",
+        riskClass: "high",
+        matchedSignals: signals,
+      };
+    }
+
     if (hasHighRisk) {
       return {
         decision: "require_approval",
@@ -148,4 +216,37 @@ export class PolicyEngine {
       matchedSignals: signals,
     };
   }
+
+  private evaluateRules(input: PolicyInput): PolicyDecision | null {
+    if (this.rules.length === 0) {
+      return null;
+    }
+    let bodyText = "";
+    try {
+      bodyText = JSON.stringify(input.body) ?? "";
+    } catch {
+      bodyText = "";
+    }
+    const context = {
+      path: input.path.split("?")[0],
+      method: input.method,
+      model: input.model,
+      modality: input.modality,
+      channel: input.channel || "",
+      bodyText,
+      // Only calls present in the payload: a declared tool the model may never call is not a tool call.
+      toolCalls: input.intent.invocations ?? extractToolInvocations(input.body),
+      signals: input.signals ?? [],
+    };
+    const matched = this.rules.find((compiled) => matchPolicyRule(compiled, context));
+    if (!matched) {
+      return null;
+    }
+    return {
+      decision: matched.rule.decision,
+      reason: matched.rule.reason || `Matched policy rule ${matched.rule.id}.`,
+      riskClass: matched.rule.risk_class,
+      matchedSignals: [`policy-rule:${matched.rule.id}`],
+    };
+  }
 }
@@ -0,0 +1,373 @@
+import type { PolicyDecisionType } from "./policy-engine";
+
+export type PolicyRiskClass = "low" | "medium" | "high" | "critical";
+
+export interface PolicyRuleMatcher {
+  equals?: string;
+  in?: string[];
+  contains?: string;
+  word?: string;
+  regex?: string;
+  case_sensitive?: boolean;
+  negate?: boolean;
+}
+
+export interface PolicyRuleArgumentCondition extends PolicyRuleMatcher {
+  path: string;
+}
+
+export interface PolicyRuleConditions {
+  tool?: PolicyRuleMatcher;
+  tool_args?: PolicyRuleArgumentCondition[];
+  model?: PolicyRuleMatcher;
+  modality?: PolicyRuleMatcher;
+  path?: PolicyRuleMatcher;
+  method?: PolicyRuleMatcher;
+  channel?: PolicyRuleMatcher;
+  body?: PolicyRuleMatcher;
+  signal?: PolicyRuleMatcher;
+}
+
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  decision: PolicyDecisionType;
+  risk_class: PolicyRiskClass;
+  reason?: string;
+  when: PolicyRuleConditions;
+}
+
+export interface PolicyToolCall {
+  name: string;
+  arguments?: unknown;
+}
+
+export interface PolicyRuleContext {
+  path: string;
+  method: string;
+  model: string;
+  modality: string;
+  channel: string;
+  bodyText: string;
+  toolCalls: PolicyToolCall[];
+  signals: string[];
+}
+
+type JsonPathSegment = string | number | "*";
+
+interface CompiledMatcher {
+  test(value: string): boolean;
+  negate: boolean;
+}
+
+interface CompiledArgumentCondition {
+  segments: JsonPathSegment[];
+  matcher: CompiledMatcher;
+}
+
+export interface CompiledPolicyRule {
+  rule: PolicyRule;
+  tool: CompiledMatcher | null;
+  toolArgs: CompiledArgumentCondition[];
+  signal: CompiledMatcher | null;
+  fields: Array<{ field: "model" | "modality" | "path" | "method" | "channel" | "bodyText"; matcher: CompiledMatcher }>;
+}
+
+const DECISIONS: PolicyDecisionType[] = ["allow", "require_approval", "block"];
+const RISK_CLASSES: PolicyRiskClass[] = ["low", "medium", "high", "critical"];
+const MATCHER_OPERATORS = ["equals", "in", "contains", "word", "regex"] as const;
+const FIELD_CONDITIONS = ["model", "modality", "path", "method", "channel", "body"] as const;
+const JSON_PATH_TOKEN = /\.([A-Za-z0-9_$-]+)|\.\*|\[(\d+)\]|\[\*\]|\['([^']*)'\]|\["([^"]*)"\]/y;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function parseJsonPath(pathValue: string): JsonPathSegment[] {
+  const trimmed = pathValue.trim();
+  if (!trimmed.startsWith("$")) {
+    throw new Error(`Invalid JSON path "${pathValue}": must start with "$".`);
+  }
+  const segments: JsonPathSegment[] = [];
+  let offset = 1;
+  while (offset < trimmed.length) {
+    JSON_PATH_TOKEN.lastIndex = offset;
+    const match = JSON_PATH_TOKEN.exec(trimmed);
+    if (!match) {
+      throw new Error(`Invalid JSON path "${pathValue}" at offset ${offset}.`);
+    }
+    if (match[1] !== undefined) {
+      segments.push(match[1]);
+    } else if (match[2] !== undefined) {
+      segments.push(Number(match[2]));
+    } else if (match[3] !== undefined) {
+      segments.push(match[3]);
+    } else if (match[4] !== undefined) {
+      segments.push(match[4]);
+    } else {
+      segments.push("*");
+    }
+    offset = JSON_PATH_TOKEN.lastIndex;
+  }
+  return segments;
+}
+
+export function resolveJsonPath(value: unknown, segments: JsonPathSegment[]): unknown[] {
+  let current: unknown[] = [value];
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const item of current) {
+      if (segment === "*") {
+        if (Array.isArray(item)) {
+          next.push(...item);
+        } else if (asRecord(item)) {
+          next.push(...Object.values(item as Record<string, unknown>));
+        }
+        continue;
+      }
+      if (typeof segment === "number") {
+        if (Array.isArray(item) && segment < item.length) {
+          next.push(item[segment]);
+        }
+        continue;
+      }
+      const record = asRecord(item);
+      if (record && Object.prototype.hasOwnProperty.call(record, segment)) {
+        next.push(record[segment]);
+      }
+    }
+    current = next;
+  }
+  return current.filter((item) => item !== undefined);
+}
+
+function valueToText(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  try {
+    return JSON.stringify(value) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+function parseMatcher(value: unknown, label: string): PolicyRuleMatcher {
+  if (typeof value === "string") {
+    return { equals: value };
+  }
+  const record = asRecord(value);
+  if (!record) {
+    throw new Error(`${label} must be a string or matcher object.`);
+  }
+  const matcher: PolicyRuleMatcher = {};
+  for (const operator of MATCHER_OPERATORS) {
+    const operand = record[operator];
+    if (operand === undefined) {
+      continue;
+    }
+    if (operator === "in") {
+      if (!Array.isArray(operand) || operand.some((item) => typeof item !== "string")) {
+        throw new Error(`${label}.in must be an array of strings.`);
+      }
+      matcher.in = operand as string[];
+      continue;
+    }
+    if (typeof operand !== "string" || !operand) {
+      throw new Error(`${label}.${operator} must be a non-empty string.`);
+    }
+    matcher[operator] = operand;
+  }
+  if (MATCHER_OPERATORS.every((operator) => matcher[operator] === undefined)) {
+    throw new Error(`${label} must define one of: ${MATCHER_OPERATORS.join(", ")}.`);
+  }
+  if (matcher.regex !== undefined) {
+    try {
+      new RegExp(matcher.regex);
+    } catch (error) {
+      throw new Error(`${label}.regex is invalid: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (record.case_sensitive !== undefined) {
+    matcher.case_sensitive = record.case_sensitive === true;
+  }
+  if (record.negate !== undefined) {
+    matcher.negate = record.negate === true;
+  }
+  return matcher;
+}
+
+export function parsePolicyRules(value: unknown): PolicyRule[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error("Policy catalog rules must be an array.");
+  }
+  const seen = new Set<string>();
+  return value.map((entry, index) => {
+    const record = asRecord(entry);
+    if (!record) {
+      throw new Error(`Policy rule #${index} must be an object.`);
+    }
+    const id = typeof record.id === "string" ? record.id.trim() : "";
+    if (!id) {
+      throw new Error(`Policy rule #${index} id is required.`);
+    }
+    if (seen.has(id)) {
+      throw new Error(`Policy rule ${id} is defined more than once.`);
+    }
+    seen.add(id);
+    const decision = record.decision as PolicyDecisionType;
+    if (!DECISIONS.includes(decision)) {
+      throw new Error(`Policy rule ${id} decision must be one of: ${DECISIONS.join(", ")}.`);
+    }
+    const riskClass = record.risk_class as PolicyRiskClass;
+    if (!RISK_CLASSES.includes(riskClass)) {
+      throw new Error(`Policy rule ${id} risk_class must be one of: ${RISK_CLASSES.join(", ")}.`);
+    }
+    const when = asRecord(record.when);
+    if (!when) {
+      throw new Error(`Policy rule ${id} when must be an object.`);
+    }
+
+    const conditions: PolicyRuleConditions = {};
+    if (when.tool !== undefined) {
+      conditions.tool = parseMatcher(when.tool, `Policy rule ${id} when.tool`);
+    }
+    if (when.tool_args !== undefined) {
+      if (!Array.isArray(when.tool_args)) {
+        throw new Error(`Policy rule ${id} when.tool_args must be an array.`);
+      }
+      conditions.tool_args = when.tool_args.map((condition, argIndex) => {
+        const label = `Policy rule ${id} when.tool_args[${argIndex}]`;
+        const conditionRecord = asRecord(condition);
+        if (!conditionRecord || typeof conditionRecord.path !== "string") {
+          throw new Error(`${label}.path is required.`);
+        }
+        parseJsonPath(conditionRecord.path);
+        return {
+          path: conditionRecord.path.trim(),
+          ...parseMatcher(conditionRecord, label),
+        };
+      });
+    }
+    if (when.signal !== undefined) {
+      conditions.signal = parseMatcher(when.signal, `Policy rule ${id} when.signal`);
+    }
+    for (const field of FIELD_CONDITIONS) {
+      if (when[field] !== undefined) {
+        conditions[field] = parseMatcher(when[field], `Policy rule ${id} when.${field}`);
+      }
+    }
+    if (Object.keys(conditions).length === 0) {
+      throw new Error(`Policy rule ${id} must define at least one condition.`);
+    }
+
+    return {
+      id,
+      description: typeof record.description === "string" ? record.description : undefined,
+      decision,
+      risk_class: riskClass,
+      reason: typeof record.reason === "string" && record.reason.trim() ? record.reason.trim() : undefined,
+      when: conditions,
+    };
+  });
+}
+
+function compileMatcher(matcher: PolicyRuleMatcher): CompiledMatcher {
+  const caseSensitive = matcher.case_sensitive === true;
+  const fold = (value: string) => (caseSensitive ? value : value.toLowerCase());
+  const tests: Array<(value: string) => boolean> = [];
+  if (matcher.equals !== undefined) {
+    const expected = fold(matcher.equals);
+    tests.push((value) => fold(value) === expected);
+  }
+  if (matcher.in !== undefined) {
+    const expected = new Set(matcher.in.map(fold));
+    tests.push((value) => expected.has(fold(value)));
+  }
+  if (matcher.contains !== undefined) {
+    const expected = fold(matcher.contains);
+    tests.push((value) => fold(value).includes(expected));
+  }
+  if (matcher.word !== undefined) {
+    const pattern = new RegExp(
+      `(?<![A-Za-z0-9_])${escapeRegExp(matcher.word)}(?![A-Za-z0-9_])`,
+      caseSensitive ? "" : "i",
+    );
+    tests.push((value) => pattern.test(value));
+  }
+  if (matcher.regex !== undefined) {
+    const pattern = new RegExp(matcher.regex, caseSensitive ? "" : "i");
+    tests.push((value) => pattern.test(value));
+  }
+  return {
+    test: (value) => tests.every((test) => test(value)),
+    negate: matcher.negate === true,
+  };
+}
+
+function matchValues(matcher: CompiledMatcher, values: string[]): boolean {
+  const matched = values.some((value) => matcher.test(value));
+  return matcher.negate ? !matched : matched;
+}
+
+export function compilePolicyRules(rules: PolicyRule[]): CompiledPolicyRule[] {
+  return rules.map((rule) => ({
+    rule,
+    tool: rule.when.tool ? compileMatcher(rule.when.tool) : null,
+    toolArgs: (rule.when.tool_args || []).map((condition) => ({
+      segments: parseJsonPath(condition.path),
+      matcher: compileMatcher(condition),
+    })),
+    signal: rule.when.signal ? compileMatcher(rule.when.signal) : null,
+    fields: FIELD_CONDITIONS.filter((field) => rule.when[field] !== undefined).map((field) => ({
+      field: field === "body" ? "bodyText" : field,
+      matcher: compileMatcher(rule.when[field] as PolicyRuleMatcher),
+    })),
+  }));
+}
+
+function matchToolCall(compiled: CompiledPolicyRule, call: PolicyToolCall): boolean {
+  if (compiled.tool && !matchValues(compiled.tool, [call.name])) {
+    return false;
+  }
+  if (compiled.toolArgs.length === 0) {
+    return true;
+  }
+  if (call.arguments === undefined) {
+    return false;
+  }
+  return compiled.toolArgs.every((condition) =>
+    matchValues(
+      condition.matcher,
+      resolveJsonPath(call.arguments, condition.segments).map(valueToText),
+    ),
+  );
+}
+
+export function matchPolicyRule(compiled: CompiledPolicyRule, context: PolicyRuleContext): boolean {
+  for (const { field, matcher } of compiled.fields) {
+    if (!matchValues(matcher, [context[field]])) {
+      return false;
+    }
+  }
+  if (compiled.signal && !matchValues(compiled.signal, context.signals)) {
+    return false;
+  }
+  if (compiled.tool || compiled.toolArgs.length > 0) {
+    return context.toolCalls.some((call) => matchToolCall(compiled, call));
+  }
+  return true;
+}
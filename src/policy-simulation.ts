@@ -0,0 +1,251 @@
+import type { ApprovalPolicyEngine } from "./approval-policy";
+import type { AuditActionType, AuditRow } from "./audit-ledger";
+import type { CapabilityPolicyEngine } from "./capability-policy";
+import type { ModelModality } from "./model-registry";
+import type { PolicyDecisionType, PolicyEngine } from "./policy-engine";
+
+const MODALITIES: ModelModality[] = ["text", "vision", "audio", "safety", "embedding"];
+const DECISIONS: PolicyDecisionType[] = ["allow", "require_approval", "block"];
+
+// Audit entries that carry the evaluated request as `policy_input`, one per policy decision.
+export const POLICY_REPLAY_ACTIONS: AuditActionType[] = ["ACTION_FORWARDED", "POLICY_BLOCKED_ACTION", "APPROVAL_REQUIRED"];
+
+export interface PolicyReplayInput {
+  path: string;
+  method: string;
+  model: string;
+  modality: ModelModality;
+  channel: string;
+  tool_names: string[];
+  body?: unknown;
+  recorded_decision?: PolicyDecisionType;
+}
+
+export interface PolicySimulationEngines {
+  policyEngine: PolicyEngine;
+  capabilityPolicy: CapabilityPolicyEngine;
+  approvalPolicy: ApprovalPolicyEngine;
+}
+
+export interface SimulatedDecision {
+  decision: PolicyDecisionType;
+  stage: "capability" | "policy";
+  reason: string;
+  risk_class: string | null;
+  matched_signals: string[];
+  required_approvals: number;
+  required_roles: string[];
+}
+
+export type PolicySimulationChange =
+  | "unchanged"
+  | "newly_blocked"
+  | "newly_requires_approval"
+  | "newly_allowed"
+  | "approval_requirements_changed";
+
+export interface PolicySimulationCase {
+  source: "supplied" | "audit";
+  ref: string;
+  input: PolicyReplayInput;
+}
+
+export interface PolicySimulationResult {
+  source: "supplied" | "audit";
+  ref: string;
+  path: string;
+  method: string;
+  model: string;
+  tool_names: string[];
+  body_available: boolean;
+  // What the gateway decided at the time, with the session and injection signals the replay cannot see.
+  recorded_decision: PolicyDecisionType | null;
+  baseline: SimulatedDecision;
+  candidate: SimulatedDecision;
+  change: PolicySimulationChange;
+}
+
+export interface PolicySimulationReport {
+  summary: Record<PolicySimulationChange, number> & { total: number };
+  results: PolicySimulationResult[];
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function parsePolicyReplayInput(value: unknown): PolicyReplayInput {
+  const record = asRecord(value);
+  if (!record) {
+    throw new Error("Replay request must be an object.");
+  }
+  const pathValue = typeof record.path === "string" ? record.path.trim() : "";
+  if (!pathValue.startsWith("/")) {
+    throw new Error("Replay request path must start with '/'.");
+  }
+  const modality =
+    typeof record.modality === "string" ? (record.modality.trim().toLowerCase() as ModelModality) : "text";
+  if (!MODALITIES.includes(modality)) {
+    throw new Error(`Replay request modality must be one of: ${MODALITIES.join(", ")}.`);
+  }
+  const recordedDecision =
+    typeof record.recorded_decision === "string" ? (record.recorded_decision as PolicyDecisionType) : undefined;
+  if (recordedDecision !== undefined && !DECISIONS.includes(recordedDecision)) {
+    throw new Error(`Replay request recorded_decision must be one of: ${DECISIONS.join(", ")}.`);
+  }
+  const body = record.body;
+  const bodyRecord = asRecord(body);
+  return {
+    path: pathValue,
+    method: typeof record.method === "string" && record.method.trim() ? record.method.trim().toUpperCase() : "POST",
+    model:
+      typeof record.model === "string" && record.model.trim()
+        ? record.model.trim()
+        : typeof bodyRecord?.model === "string"
+          ? bodyRecord.model
+          : "unknown-model",
+    modality,
+    channel: typeof record.channel === "string" ? record.channel.trim().toLowerCase() : "",
+    tool_names: stringList(record.tool_names),
+    body,
+    recorded_decision: recordedDecision,
+  };
+}
+
+export function policyReplayCasesFromAudit(rows: AuditRow[]): PolicySimulationCase[] {
+  const cases: PolicySimulationCase[] = [];
+  for (const row of rows) {
+    if (!POLICY_REPLAY_ACTIONS.includes(row.action_type)) {
+      continue;
+    }
+    let payload: Record<string, unknown> | null = null;
+    try {
+      payload = asRecord(JSON.parse(row.payload));
+    } catch {
+      payload = null;
+    }
+    const snapshot = asRecord(payload?.policy_input);
+    if (!snapshot) {
+      continue;
+    }
+    try {
+      cases.push({
+        source: "audit",
+        ref: `audit:${row.id}`,
+        input: parsePolicyReplayInput(snapshot),
+      });
+    } catch {
+      continue;
+    }
+  }
+  return cases;
+}
+
+export function simulatePolicyDecision(engines: PolicySimulationEngines, input: PolicyReplayInput): SimulatedDecision {
+  const capabilityDecision = engines.capabilityPolicy.evaluateToolExecution(input.tool_names, input.channel);
+  if (!capabilityDecision.allowed) {
+    return {
+      decision: "block",
+      stage: "capability",
+      reason: capabilityDecision.reason,
+      risk_class: null,
+      matched_signals: capabilityDecision.matchedSignals,
+      required_approvals: 0,
+      required_roles: [],
+    };
+  }
+  const policyDecision = engines.policyEngine.evaluate({
+    path: input.path,
+    method: input.method,
+    body: input.body ?? {},
+    model: input.model,
+    modality: input.modality,
+    intent: { hasToolIntent: input.tool_names.length > 0, toolNames: input.tool_names },
+    channel: input.channel,
+  });
+  const requirements =
+    policyDecision.decision === "require_approval"
+      ? engines.approvalPolicy.evaluate({
+          policyDecision,
+          channel: input.channel,
+          action: "tool.execute",
+          toolNames: input.tool_names,
+        })
+      : { requiredApprovals: 0, requiredRoles: [] };
+  return {
+    decision: policyDecision.decision,
+    stage: "policy",
+    reason: policyDecision.reason,
+    risk_class: policyDecision.riskClass,
+    matched_signals: policyDecision.matchedSignals,
+    required_approvals: requirements.requiredApprovals,
+    required_roles: requirements.requiredRoles,
+  };
+}
+
+function classifyChange(baseline: SimulatedDecision, candidate: SimulatedDecision): PolicySimulationChange {
+  if (baseline.decision !== candidate.decision) {
+    if (candidate.decision === "block") {
+      return "newly_blocked";
+    }
+    return candidate.decision === "require_approval" ? "newly_requires_approval" : "newly_allowed";
+  }
+  if (
+    candidate.decision === "require_approval" &&
+    (baseline.required_approvals !== candidate.required_approvals ||
+      baseline.required_roles.join(",") !== candidate.required_roles.join(","))
+  ) {
+    return "approval_requirements_changed";
+  }
+  return "unchanged";
+}
+
+export function simulatePolicyChanges(
+  baselineEngines: PolicySimulationEngines,
+  candidateEngines: PolicySimulationEngines,
+  cases: PolicySimulationCase[],
+): PolicySimulationReport {
+  const summary: PolicySimulationReport["summary"] = {
+    total: 0,
+    unchanged: 0,
+    newly_blocked: 0,
+    newly_requires_approval: 0,
+    newly_allowed: 0,
+    approval_requirements_changed: 0,
+  };
+  const results = cases.map((item): PolicySimulationResult => {
+    // Both sides see the same reconstructed input, so only the catalog difference can change a decision.
+    const baseline = simulatePolicyDecision(baselineEngines, item.input);
+    const candidate = simulatePolicyDecision(candidateEngines, item.input);
+    const change = classifyChange(baseline, candidate);
+    summary.total += 1;
+    summary[change] += 1;
+    return {
+      source: item.source,
+      ref: item.ref,
+      path: item.input.path,
+      method: item.input.method,
+      model: item.input.model,
+      tool_names: item.input.tool_names,
+      body_available: item.input.body !== undefined,
+      recorded_decision: item.input.recorded_decision ?? null,
+      baseline,
+      candidate,
+      change,
+    };
+  });
+  return { summary, results };
+}
@@ -0,0 +1,216 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import {
+  loadHmacKeyring,
+  type HmacKeyring,
+  verifyWithAnyKey,
+  verifyWithKeyring,
+} from "./hmac-keyring";
+import { stableStringify } from "./utils";
+
+export interface PricingEntry {
+  model: string;
+  input_usd_per_1k: number;
+  output_usd_per_1k: number;
+  cached_input_usd_per_1k?: number;
+  reasoning_usd_per_1k?: number;
+  image_usd?: number;
+  audio_usd_per_second?: number;
+  effective_from?: string;
+  effective_to?: string;
+  tokenizer?: string;
+}
+
+interface PricingCatalogFile {
+  version: string;
+  models: PricingEntry[];
+  signature?: string;
+  signature_v2?: {
+    kid: string;
+    sig: string;
+  };
+}
+
+export interface PricingCatalogLoadResult {
+  version: string;
+  entries: PricingEntry[];
+  fingerprint: string;
+  signing_mode: "none" | "static" | "keyring";
+  keyring_active_kid: string | null;
+  keyring_key_count: number;
+}
+
+export interface UsageBreakdown {
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  reasoningTokens: number;
+  images: number;
+  audioSeconds: number;
+}
+
+const PRICE_FIELDS = [
+  "input_usd_per_1k",
+  "output_usd_per_1k",
+  "cached_input_usd_per_1k",
+  "reasoning_usd_per_1k",
+  "image_usd",
+  "audio_usd_per_second",
+] as const;
+const ENTRY_FIELDS = [...PRICE_FIELDS, "model", "effective_from", "effective_to", "tokenizer"] as const;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function positive(record: Record<string, unknown> | null, ...keys: string[]): number {
+  for (const key of keys) {
+    const value = record?.[key];
+    if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+      return value;
+    }
+  }
+  return 0;
+}
+
+export function extractUsageBreakdown(usage: unknown): UsageBreakdown {
+  const record = asRecord(usage);
+  const promptDetails = asRecord(record?.prompt_tokens_details) ?? asRecord(record?.input_tokens_details);
+  const completionDetails = asRecord(record?.completion_tokens_details) ?? asRecord(record?.output_tokens_details);
+  // Anthropic reports cache reads and writes outside input_tokens; OpenAI includes cached tokens in the input count.
+  const cacheRead = positive(record, "cache_read_input_tokens");
+  const cacheWrite = positive(record, "cache_creation_input_tokens");
+  const inputTokens = positive(record, "input_tokens", "prompt_tokens") + cacheRead + cacheWrite;
+  const outputTokens = positive(record, "output_tokens", "completion_tokens");
+  return {
+    inputTokens: Math.floor(inputTokens),
+    outputTokens: Math.floor(outputTokens),
+    cachedInputTokens: Math.floor(Math.min(inputTokens, cacheRead || positive(promptDetails, "cached_tokens"))),
+    reasoningTokens: Math.floor(Math.min(outputTokens, positive(completionDetails, "reasoning_tokens"))),
+    images: Math.floor(positive(record, "images", "image_count")),
+    audioSeconds: positive(record, "seconds", "audio_seconds"),
+  };
+}
+
+function canonicalEntry(entry: PricingEntry): PricingEntry {
+  const out: Record<string, unknown> = {};
+  for (const field of ENTRY_FIELDS) {
+    if (entry[field] !== undefined) {
+      out[field] = entry[field];
+    }
+  }
+  return out as unknown as PricingEntry;
+}
+
+function canonicalPricingPayload(parsed: PricingCatalogFile): { version: string; models: PricingEntry[] } {
+  return {
+    version: String(parsed.version || "v1"),
+    models: (Array.isArray(parsed.models) ? parsed.models : []).map(canonicalEntry),
+  };
+}
+
+function validateEntries(entries: PricingEntry[]): void {
+  if (entries.length === 0) {
+    throw new Error("Pricing catalog has no model entries.");
+  }
+  for (const entry of entries) {
+    if (typeof entry.model !== "string" || !entry.model.trim()) {
+      throw new Error("Pricing catalog entry missing model.");
+    }
+    for (const field of PRICE_FIELDS) {
+      const value = entry[field];
+      const required = field === "input_usd_per_1k" || field === "output_usd_per_1k";
+      if (value === undefined && !required) {
+        continue;
+      }
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        throw new Error(`Pricing catalog entry ${entry.model} ${field} must be a non-negative number.`);
+      }
+    }
+    const from = entry.effective_from ? Date.parse(entry.effective_from) : null;
+    const to = entry.effective_to ? Date.parse(entry.effective_to) : null;
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      throw new Error(`Pricing catalog entry ${entry.model} has an invalid effective date.`);
+    }
+    if (from !== null && to !== null && from >= to) {
+      throw new Error(`Pricing catalog entry ${entry.model} effective_from must be before effective_to.`);
+    }
+  }
+}
+
+function verifySignature(
+  parsed: PricingCatalogFile,
+  canonicalText: string,
+  signingKey: string,
+  keyring: HmacKeyring | null,
+): Pick<PricingCatalogLoadResult, "signing_mode" | "keyring_active_kid" | "keyring_key_count"> {
+  if (keyring) {
+    if (parsed.signature_v2 && typeof parsed.signature_v2 === "object") {
+      if (!verifyWithKeyring(canonicalText, parsed.signature_v2, keyring)) {
+        throw new Error("Pricing catalog signature_v2 mismatch.");
+      }
+    } else {
+      const signature = String(parsed.signature || "").trim().toLowerCase();
+      if (!signature) {
+        throw new Error("Pricing catalog signature missing for keyring verification.");
+      }
+      if (!verifyWithAnyKey(canonicalText, signature, keyring).valid) {
+        throw new Error("Pricing catalog legacy signature mismatch under keyring.");
+      }
+    }
+    return {
+      signing_mode: "keyring",
+      keyring_active_kid: keyring.activeKid,
+      keyring_key_count: Object.keys(keyring.keys).length,
+    };
+  }
+  if (!signingKey.trim()) {
+    return { signing_mode: "none", keyring_active_kid: null, keyring_key_count: 0 };
+  }
+  const signature = String(parsed.signature || "").trim().toLowerCase();
+  if (!/^[a-f0-9]{64}$/.test(signature)) {
+    throw new Error("Pricing catalog signature missing or invalid format.");
+  }
+  const expected = crypto.createHmac("sha256", signingKey.trim()).update(canonicalText).digest("hex");
+  if (signature !== expected) {
+    throw new Error("Pricing catalog signature mismatch.");
+  }
+  return { signing_mode: "static", keyring_active_kid: null, keyring_key_count: 0 };
+}
+
+export function loadSignedPricingCatalog(
+  catalogPath: string,
+  signingKey = "",
+  signingKeyringPath = "",
+): PricingCatalogLoadResult {
+  const parsed = JSON.parse(fs.readFileSync(catalogPath, "utf8")) as PricingCatalogFile;
+  const canonical = canonicalPricingPayload(parsed);
+  validateEntries(canonical.models);
+  const canonicalText = stableStringify(canonical);
+  const keyring = signingKeyringPath.trim() ? loadHmacKeyring(signingKeyringPath.trim()) : null;
+  return {
+    version: canonical.version,
+    entries: canonical.models,
+    fingerprint: crypto.createHash("sha256").update(canonicalText).digest("hex"),
+    ...verifySignature(parsed, canonicalText, signingKey, keyring),
+  };
+}
+
+export function resolvePricingEntry(entries: PricingEntry[], model: string, at: Date = new Date()): PricingEntry | null {
+  const instant = at.getTime();
+  const effective = (entry: PricingEntry) =>
+    (!entry.effective_from || Date.parse(entry.effective_from) <= instant) &&
+    (!entry.effective_to || instant < Date.parse(entry.effective_to));
+  const newest = (candidates: PricingEntry[]) =>
+    candidates
+      .filter(effective)
+      .sort((a, b) => Date.parse(b.effective_from || "1970-01-01") - Date.parse(a.effective_from || "1970-01-01"))[0] ??
+    null;
+  return (
+    newest(entries.filter((entry) => entry.model === model)) ??
+    newest(entries.filter((entry) => entry.model === "*"))
+  );
+}
@@ -1,6 +1,11 @@
-interface Bucket {
-  windowStartMs: number;
-  count: number;
+import type { ReplayStoreConfig, ReplayStoreMode } from "./replay-store";
+import { sha256Hex } from "./utils";
+
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
+
+export interface RateLimitPolicy {
+  windowSeconds: number;
+  maxRequests: number;
 }
 
 export interface RateLimitDecision {
@@ -9,58 +14,512 @@ export interface RateLimitDecision {
   retryAfterSeconds: number;
 }
 
-export class FixedWindowRateLimiter {
-  private windowMs: number;
-  private maxRequests: number;
-  private buckets = new Map<string, Bucket>();
+export interface RateLimiter {
+  mode(): ReplayStoreMode;
+  warmup(): Promise<void>;
+  check(key: string, policy: RateLimitPolicy): Promise<RateLimitDecision>;
+  getState(): Record<string, unknown>;
+  close(): Promise<void>;
+}
 
-  constructor(windowSeconds: number, maxRequests: number) {
-    this.windowMs = Math.max(1, Math.floor(windowSeconds)) * 1000;
-    this.maxRequests = Math.max(1, Math.floor(maxRequests));
+// Sliding window keeps the current and previous fixed-window counts and weights the previous one by how much of
+// it still overlaps the trailing window. Token bucket refills maxRequests tokens per window, one per request.
+interface SlidingWindowState {
+  windowStartMs: number;
+  count: number;
+  previousCount: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAtMs: number;
+}
+
+type RateLimitState = SlidingWindowState | TokenBucketState;
+
+function normalizePolicy(policy: RateLimitPolicy): { windowMs: number; maxRequests: number } {
+  return {
+    windowMs: Math.max(1, Math.floor(policy.windowSeconds)) * 1000,
+    maxRequests: Math.max(1, Math.floor(policy.maxRequests)),
+  };
+}
+
+function retryAfterSeconds(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
+
+function applySlidingWindow(
+  state: SlidingWindowState | null,
+  policy: RateLimitPolicy,
+  nowMs: number,
+): { state: SlidingWindowState; decision: RateLimitDecision } {
+  const { windowMs, maxRequests } = normalizePolicy(policy);
+  const windowStartMs = nowMs - (nowMs % windowMs);
+  let count = 0;
+  let previousCount = 0;
+  if (state?.windowStartMs === windowStartMs) {
+    count = state.count;
+    previousCount = state.previousCount;
+  } else if (state?.windowStartMs === windowStartMs - windowMs) {
+    previousCount = state.count;
+  }
+  const elapsed = (nowMs - windowStartMs) / windowMs;
+  const weighted = previousCount * (1 - elapsed) + count;
+  if (weighted + 1 <= maxRequests) {
+    return {
+      state: { windowStartMs, count: count + 1, previousCount },
+      decision: { allowed: true, remaining: Math.max(0, Math.floor(maxRequests - weighted - 1)), retryAfterSeconds: 0 },
+    };
+  }
+  // Either this window alone is full (wait for the next one and for enough of it to decay), or the previous
+  // window's share has to decay first.
+  const waitMs =
+    count + 1 > maxRequests
+      ? windowStartMs + windowMs - nowMs + windowMs * (1 - (maxRequests - 1) / Math.max(1, count))
+      : windowStartMs + windowMs * (1 - (maxRequests - count - 1) / Math.max(1, previousCount)) - nowMs;
+  return {
+    state: { windowStartMs, count, previousCount },
+    decision: { allowed: false, remaining: 0, retryAfterSeconds: retryAfterSeconds(waitMs) },
+  };
+}
+
+function applyTokenBucket(
+  state: TokenBucketState | null,
+  policy: RateLimitPolicy,
+  nowMs: number,
+): { state: TokenBucketState; decision: RateLimitDecision } {
+  const { windowMs, maxRequests } = normalizePolicy(policy);
+  const refillPerMs = maxRequests / windowMs;
+  const tokens = state
+    ? Math.min(maxRequests, state.tokens + Math.max(0, nowMs - state.updatedAtMs) * refillPerMs)
+    : maxRequests;
+  if (tokens >= 1) {
+    return {
+      state: { tokens: tokens - 1, updatedAtMs: nowMs },
+      decision: { allowed: true, remaining: Math.floor(tokens - 1), retryAfterSeconds: 0 },
+    };
   }
+  return {
+    state: { tokens, updatedAtMs: nowMs },
+    decision: { allowed: false, remaining: 0, retryAfterSeconds: retryAfterSeconds((1 - tokens) / refillPerMs) },
+  };
+}
 
-  check(key: string): RateLimitDecision {
-    const now = Date.now();
-    this.cleanup(now);
+export function applyRateLimit(
+  algorithm: RateLimitAlgorithm,
+  state: RateLimitState | null,
+  policy: RateLimitPolicy,
+  nowMs: number,
+): { state: RateLimitState; decision: RateLimitDecision } {
+  return algorithm === "token-bucket"
+    ? applyTokenBucket(state && "tokens" in state ? state : null, policy, nowMs)
+    : applySlidingWindow(state && "windowStartMs" in state ? state : null, policy, nowMs);
+}
 
-    const existing = this.buckets.get(key);
-    if (!existing || now - existing.windowStartMs >= this.windowMs) {
-      this.buckets.set(key, {
-        windowStartMs: now,
-        count: 1,
-      });
+// Node-local limiter used with the sqlite replay store, and by the shared limiters while their backend is down.
+export class MemoryRateLimiter implements RateLimiter {
+  private algorithm: RateLimitAlgorithm;
+  private buckets = new Map<string, { state: RateLimitState; expiresAtMs: number }>();
+  private checks = 0;
+
+  constructor(algorithm: RateLimitAlgorithm = "sliding-window") {
+    this.algorithm = algorithm;
+  }
+
+  mode(): ReplayStoreMode {
+    return "sqlite";
+  }
+
+  async warmup(): Promise<void> {
+    return;
+  }
+
+  async check(key: string, policy: RateLimitPolicy): Promise<RateLimitDecision> {
+    return this.checkNow(key, policy, Date.now());
+  }
+
+  checkNow(key: string, policy: RateLimitPolicy, nowMs: number): RateLimitDecision {
+    this.cleanup(nowMs);
+    const result = applyRateLimit(this.algorithm, this.buckets.get(key)?.state ?? null, policy, nowMs);
+    this.buckets.set(key, { state: result.state, expiresAtMs: nowMs + normalizePolicy(policy).windowMs * 2 });
+    return result.decision;
+  }
+
+  getState(): Record<string, unknown> {
+    return { mode: "memory", algorithm: this.algorithm, keys: this.buckets.size };
+  }
+
+  async close(): Promise<void> {
+    this.buckets.clear();
+  }
+
+  private cleanup(nowMs: number): void {
+    this.checks += 1;
+    if (this.checks % 100 !== 0) {
+      return;
+    }
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.expiresAtMs <= nowMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+// Both algorithms in one script so a check is a single atomic round trip timed by the Redis clock.
+const REDIS_RATE_LIMIT_SCRIPT = `
+local now = redis.call('TIME')
+local nowMs = tonumber(now[1]) * 1000 + math.floor(tonumber(now[2]) / 1000)
+local algorithm = ARGV[1]
+local windowMs = tonumber(ARGV[2])
+local maxRequests = tonumber(ARGV[3])
+if algorithm == 'token-bucket' then
+  local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at_ms')
+  local refillPerMs = maxRequests / windowMs
+  local tokens = maxRequests
+  if state[1] then
+    tokens = math.min(maxRequests, tonumber(state[1]) + math.max(0, nowMs - tonumber(state[2])) * refillPerMs)
+  end
+  local allowed = 0
+  local retryMs = 0
+  if tokens >= 1 then
+    tokens = tokens - 1
+    allowed = 1
+  else
+    retryMs = math.ceil((1 - tokens) / refillPerMs)
+  end
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated_at_ms', tostring(nowMs))
+  redis.call('PEXPIRE', KEYS[1], windowMs * 2)
+  return { allowed, math.floor(tokens), retryMs }
+end
+local windowStart = nowMs - (nowMs % windowMs)
+local state = redis.call('HMGET', KEYS[1], 'window_start_ms', 'count', 'previous_count')
+local storedStart = tonumber(state[1])
+local count = 0
+local previousCount = 0
+if storedStart == windowStart then
+  count = tonumber(state[2])
+  previousCount = tonumber(state[3])
+elseif storedStart == windowStart - windowMs then
+  previousCount = tonumber(state[2])
+end
+local weighted = previousCount * (1 - (nowMs - windowStart) / windowMs) + count
+if weighted + 1 <= maxRequests then
+  redis.call('HSET', KEYS[1], 'window_start_ms', windowStart, 'count', count + 1, 'previous_count', previousCount)
+  redis.call('PEXPIRE', KEYS[1], windowMs * 2)
+  return { 1, math.floor(maxRequests - weighted - 1), 0 }
+end
+local retryMs
+if count + 1 > maxRequests then
+  retryMs = windowStart + windowMs - nowMs + windowMs * (1 - (maxRequests - 1) / math.max(1, count))
+else
+  retryMs = windowStart + windowMs * (1 - (maxRequests - count - 1) / math.max(1, previousCount)) - nowMs
+end
+return { 0, 0, math.ceil(retryMs) }
+`;
+
+class RedisRateLimiter implements RateLimiter {
+  private redisUrl: string;
+  private redisPrefix: string;
+  private algorithm: RateLimitAlgorithm;
+  private client: any | null = null;
+  private fallback: MemoryRateLimiter;
+  private fallbackChecks = 0;
+  private lastError: string | null = null;
+
+  constructor(redisUrl: string, redisPrefix: string, algorithm: RateLimitAlgorithm) {
+    this.redisUrl = redisUrl.trim();
+    this.redisPrefix = redisPrefix.trim() || "clawee";
+    this.algorithm = algorithm;
+    this.fallback = new MemoryRateLimiter(algorithm);
+  }
+
+  mode(): ReplayStoreMode {
+    return "redis";
+  }
+
+  async warmup(): Promise<void> {
+    await this.connect();
+    await this.client.ping();
+  }
+
+  async check(key: string, policy: RateLimitPolicy): Promise<RateLimitDecision> {
+    const { windowMs, maxRequests } = normalizePolicy(policy);
+    try {
+      await this.connect();
+      const result = (await this.client.eval(REDIS_RATE_LIMIT_SCRIPT, {
+        keys: [`${this.redisPrefix}:ratelimit:${this.algorithm}:${sha256Hex(key)}`],
+        arguments: [this.algorithm, String(windowMs), String(maxRequests)],
+      })) as number[];
+      this.lastError = null;
+      const allowed = Number(result[0]) === 1;
       return {
-        allowed: true,
-        remaining: this.maxRequests - 1,
-        retryAfterSeconds: 0,
+        allowed,
+        remaining: Math.max(0, Number(result[1])),
+        retryAfterSeconds: allowed ? 0 : retryAfterSeconds(Number(result[2])),
       };
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      this.fallbackChecks += 1;
+      return this.fallback.check(key, policy);
+    }
+  }
+
+  getState(): Record<string, unknown> {
+    return {
+      mode: "redis",
+      algorithm: this.algorithm,
+      redis_prefix: this.redisPrefix,
+      redis_url_configured: this.redisUrl.length > 0,
+      fallback_checks: this.fallbackChecks,
+      last_error: this.lastError,
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.client) {
+      await this.client.quit();
+      this.client = null;
     }
+  }
+
+  private async connect(): Promise<void> {
+    if (this.client) {
+      return;
+    }
+    let redisModule: any;
+    try {
+      redisModule = await import("redis");
+    } catch {
+      throw new Error("Rate limiter uses redis, but package 'redis' is not installed. Run npm install redis.");
+    }
+    const client = redisModule.createClient({
+      url: this.redisUrl,
+    });
+    client.on("error", () => {
+      // Errors are surfaced by command failures and reported through getState.
+    });
+    await client.connect();
+    this.client = client;
+  }
+}
+
+class PostgresRateLimiter implements RateLimiter {
+  private postgresUrl: string;
+  private postgresSchema: string;
+  private postgresTablePrefix: string;
+  private connectTimeoutMs: number;
+  private sslMode: "disable" | "require" | "verify-full";
+  private algorithm: RateLimitAlgorithm;
+  private pool: any | null = null;
+  private ready = false;
+  private fallback: MemoryRateLimiter;
+  private fallbackChecks = 0;
+  private lastError: string | null = null;
+  private cleanupCounter = 0;
+
+  constructor(
+    config: {
+      postgresUrl: string;
+      postgresSchema: string;
+      postgresTablePrefix: string;
+      postgresConnectTimeoutMs: number;
+      postgresSslMode: "disable" | "require" | "verify-full";
+    },
+    algorithm: RateLimitAlgorithm,
+  ) {
+    this.postgresUrl = config.postgresUrl.trim();
+    this.postgresSchema = normalizeIdentifier(config.postgresSchema || "clawee", "schema");
+    this.postgresTablePrefix = normalizeIdentifier(config.postgresTablePrefix || "replay_", "table prefix");
+    this.connectTimeoutMs = Math.max(1000, Math.floor(config.postgresConnectTimeoutMs));
+    this.sslMode = config.postgresSslMode;
+    this.algorithm = algorithm;
+    this.fallback = new MemoryRateLimiter(algorithm);
+  }
+
+  mode(): ReplayStoreMode {
+    return "postgres";
+  }
+
+  async warmup(): Promise<void> {
+    await this.connect();
+  }
 
-    if (existing.count >= this.maxRequests) {
-      const retryAfterSeconds = Math.max(
-        1,
-        Math.ceil((existing.windowStartMs + this.windowMs - now) / 1000),
+  // The row lock serializes checks for one key across nodes; the database clock keeps their windows aligned.
+  async check(key: string, policy: RateLimitPolicy): Promise<RateLimitDecision> {
+    let client: any | null = null;
+    try {
+      const pool = await this.connect();
+      await this.maybeCleanup(pool);
+      const table = this.qualifiedTable();
+      const limitKey = `${this.algorithm}:${sha256Hex(key)}`;
+      client = await pool.connect();
+      await client.query("BEGIN");
+      await client.query(
+        `INSERT INTO ${table} (limit_key, state, expires_at) VALUES ($1, '', NOW()) ON CONFLICT (limit_key) DO NOTHING`,
+        [limitKey],
       );
-      return {
-        allowed: false,
-        remaining: 0,
-        retryAfterSeconds,
-      };
+      const row = (
+        await client.query(
+          `
+            SELECT state, (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::float8 AS now_ms
+            FROM ${table}
+            WHERE limit_key = $1
+            FOR UPDATE
+          `,
+          [limitKey],
+        )
+      ).rows[0] as { state: string; now_ms: number };
+      const nowMs = Math.floor(Number(row.now_ms));
+      const result = applyRateLimit(this.algorithm, parseState(row.state), policy, nowMs);
+      await client.query(
+        `UPDATE ${table} SET state = $2, expires_at = to_timestamp($3::float8 / 1000) WHERE limit_key = $1`,
+        [limitKey, JSON.stringify(result.state), nowMs + normalizePolicy(policy).windowMs * 2],
+      );
+      await client.query("COMMIT");
+      this.lastError = null;
+      return result.decision;
+    } catch (error) {
+      if (client) {
+        await client.query("ROLLBACK").catch(() => undefined);
+      }
+      this.lastError = error instanceof Error ? error.message : String(error);
+      this.fallbackChecks += 1;
+      return this.fallback.check(key, policy);
+    } finally {
+      client?.release();
     }
+  }
 
-    existing.count += 1;
+  getState(): Record<string, unknown> {
     return {
-      allowed: true,
-      remaining: Math.max(0, this.maxRequests - existing.count),
-      retryAfterSeconds: 0,
+      mode: "postgres",
+      algorithm: this.algorithm,
+      postgres_url_configured: this.postgresUrl.length > 0,
+      postgres_schema: this.postgresSchema,
+      postgres_table_prefix: this.postgresTablePrefix,
+      postgres_ssl_mode: this.sslMode,
+      postgres_connected: this.pool !== null,
+      fallback_checks: this.fallbackChecks,
+      last_error: this.lastError,
     };
   }
 
-  private cleanup(nowMs: number): void {
-    for (const [key, bucket] of this.buckets) {
-      if (nowMs - bucket.windowStartMs >= this.windowMs * 2) {
-        this.buckets.delete(key);
+  async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+      this.ready = false;
+    }
+  }
+
+  private async connect(): Promise<any> {
+    if (this.pool && this.ready) {
+      return this.pool;
+    }
+    if (!this.pool) {
+      let pgModule: any;
+      try {
+        pgModule = await import("pg");
+      } catch {
+        throw new Error("Rate limiter uses postgres, but package 'pg' is not installed.");
       }
+      const ssl =
+        this.sslMode === "disable"
+          ? false
+          : this.sslMode === "require"
+            ? { rejectUnauthorized: false }
+            : { rejectUnauthorized: true };
+      const pool = new pgModule.Pool({
+        connectionString: this.postgresUrl,
+        connectionTimeoutMillis: this.connectTimeoutMs,
+        ssl,
+        max: 5,
+      });
+      pool.on("error", (error: unknown) => {
+        this.lastError = error instanceof Error ? error.message : String(error);
+      });
+      this.pool = pool;
+    }
+    const schema = quotedIdentifier(this.postgresSchema);
+    await this.pool.query(`CREATE SCHEMA IF NOT EXISTS ${schema}`);
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS ${this.qualifiedTable()} (
+        limit_key TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL
+      )
+    `);
+    await this.pool.query(`
+      CREATE INDEX IF NOT EXISTS ${quotedIdentifier(`${this.postgresTablePrefix}rate_limits_expires_idx`)}
+      ON ${this.qualifiedTable()} (expires_at)
+    `);
+    this.ready = true;
+    return this.pool;
+  }
+
+  private qualifiedTable(): string {
+    return `${quotedIdentifier(this.postgresSchema)}.${quotedIdentifier(`${this.postgresTablePrefix}rate_limits`)}`;
+  }
+
+  private async maybeCleanup(pool: any): Promise<void> {
+    this.cleanupCounter += 1;
+    if (this.cleanupCounter % 100 !== 0) {
+      return;
+    }
+    await pool.query(`DELETE FROM ${this.qualifiedTable()} WHERE expires_at < NOW()`);
+  }
+}
+
+function parseState(raw: string): RateLimitState | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as RateLimitState;
+  } catch {
+    return null;
+  }
+}
+
+function quotedIdentifier(value: string): string {
+  return `"${value.replace(/"/g, "\"\"")}"`;
+}
+
+function normalizeIdentifier(raw: string, label: string): string {
+  const normalized = String(raw || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_]/g, "_");
+  if (!normalized || !/^[a-z_][a-z0-9_]*$/.test(normalized)) {
+    throw new Error(`Invalid Postgres ${label}: ${raw}`);
+  }
+  return normalized;
+}
+
+// Shares the replay store's backend and connection settings, so a cluster that dedupes replays across nodes
+// also shares rate limit quotas. The sqlite replay mode keeps limits in process.
+export function createRateLimiter(config: ReplayStoreConfig, algorithm: RateLimitAlgorithm): RateLimiter {
+  if (config.mode === "redis") {
+    if (!config.redisUrl.trim()) {
+      throw new Error("Replay store mode is redis but REPLAY_REDIS_URL is not configured.");
+    }
+    return new RedisRateLimiter(config.redisUrl, config.redisPrefix, algorithm);
+  }
+  if (config.mode === "postgres") {
+    if (!config.postgresUrl.trim()) {
+      throw new Error("Replay store mode is postgres but REPLAY_POSTGRES_URL is not configured.");
     }
+    return new PostgresRateLimiter(
+      {
+        postgresUrl: config.postgresUrl,
+        postgresSchema: config.postgresSchema,
+        postgresTablePrefix: config.postgresTablePrefix,
+        postgresConnectTimeoutMs: config.postgresConnectTimeoutMs,
+        postgresSslMode: config.postgresSslMode,
+      },
+      algorithm,
+    );
   }
+  return new MemoryRateLimiter(algorithm);
 }
@@ -0,0 +1,252 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+export type EmbeddingFunction = (input: string) => Promise<number[]>;
+
+export interface ResponseCacheOptions {
+  defaultTtlSeconds: number;
+  modelTtlSeconds?: Record<string, number>;
+  maxEntries: number;
+  similarityThreshold?: number;
+  embed?: EmbeddingFunction;
+}
+
+export interface ResponseCacheRequest {
+  key: string;
+  partition: string;
+  model: string;
+  text: string;
+  embedding?: number[] | null;
+}
+
+export interface CachedResponse {
+  key: string;
+  statusCode: number;
+  contentType: string;
+  body: Buffer;
+  createdAt: string;
+  similarity: number | null;
+}
+
+export interface ResponseCacheStats {
+  enabled: boolean;
+  entries: number;
+  hits: number;
+  exact_hits: number;
+  similar_hits: number;
+  misses: number;
+  bypasses: number;
+  stores: number;
+  hit_ratio: number;
+  similarity_threshold: number | null;
+}
+
+interface CacheRow {
+  key: string;
+  status_code: number;
+  content_type: string;
+  body: Buffer;
+  created_at: string;
+}
+
+const SIMILARITY_SCAN_LIMIT = 200;
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export class ResponseCache {
+  private dbPath: string;
+  private db: Database.Database | null = null;
+  private counters = { hits: 0, exact_hits: 0, similar_hits: 0, misses: 0, bypasses: 0, stores: 0 };
+
+  constructor(
+    private readonly options: ResponseCacheOptions,
+    dbPath = path.join(os.homedir(), ".openclaw", "enterprise_response_cache.db"),
+  ) {
+    this.dbPath = dbPath;
+  }
+
+  init(): void {
+    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+    this.db = new Database(this.dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS response_cache (
+        key TEXT PRIMARY KEY,
+        partition TEXT NOT NULL,
+        model TEXT NOT NULL,
+        status_code INTEGER NOT NULL,
+        content_type TEXT NOT NULL,
+        body BLOB NOT NULL,
+        embedding TEXT,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_response_cache_partition ON response_cache(partition, expires_at);
+    `);
+  }
+
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  similarityEnabled(): boolean {
+    return Boolean(this.options.embed && this.options.similarityThreshold);
+  }
+
+  // Exact model ids win over "prefix*" entries; a TTL of 0 disables caching for the model.
+  ttlFor(model: string): number {
+    const key = model.trim().toLowerCase();
+    const ttls = this.options.modelTtlSeconds ?? {};
+    if (ttls[key] !== undefined) {
+      return ttls[key];
+    }
+    const prefix = Object.keys(ttls)
+      .filter((entry) => entry.endsWith("*") && key.startsWith(entry.slice(0, -1)))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? ttls[prefix] : this.options.defaultTtlSeconds;
+  }
+
+  recordBypass(): void {
+    this.counters.bypasses += 1;
+  }
+
+  async lookup(request: ResponseCacheRequest, now = new Date()): Promise<CachedResponse | null> {
+    const db = this.assertDb();
+    const nowIso = now.toISOString();
+    const exact = db
+      .prepare(
+        `
+          SELECT key, status_code, content_type, body, created_at
+          FROM response_cache
+          WHERE key = ? AND expires_at > ?
+        `,
+      )
+      .get(request.key, nowIso) as CacheRow | undefined;
+    if (exact) {
+      this.counters.hits += 1;
+      this.counters.exact_hits += 1;
+      return this.toCachedResponse(exact, null);
+    }
+
+    if (this.similarityEnabled() && request.text) {
+      request.embedding = await (this.options.embed as EmbeddingFunction)(request.text);
+      const candidates = db
+        .prepare(
+          `
+            SELECT key, status_code, content_type, body, created_at, embedding
+            FROM response_cache
+            WHERE partition = ? AND expires_at > ? AND embedding IS NOT NULL
+            ORDER BY created_at DESC
+            LIMIT ?
+          `,
+        )
+        .all(request.partition, nowIso, SIMILARITY_SCAN_LIMIT) as Array<CacheRow & { embedding: string }>;
+      let best: { row: CacheRow; similarity: number } | null = null;
+      for (const row of candidates) {
+        const similarity = cosineSimilarity(request.embedding, JSON.parse(row.embedding) as number[]);
+        if (!best || similarity > best.similarity) {
+          best = { row, similarity };
+        }
+      }
+      if (best && best.similarity >= (this.options.similarityThreshold as number)) {
+        this.counters.hits += 1;
+        this.counters.similar_hits += 1;
+        return this.toCachedResponse(best.row, best.similarity);
+      }
+    }
+
+    this.counters.misses += 1;
+    return null;
+  }
+
+  store(
+    request: ResponseCacheRequest,
+    response: { statusCode: number; contentType: string; body: Buffer },
+    now = new Date(),
+  ): boolean {
+    const ttlSeconds = this.ttlFor(request.model);
+    if (ttlSeconds <= 0) {
+      return false;
+    }
+    const db = this.assertDb();
+    const nowIso = now.toISOString();
+    db.prepare(
+      `
+        INSERT OR REPLACE INTO response_cache (
+          key, partition, model, status_code, content_type, body, embedding, created_at, expires_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+    ).run(
+      request.key,
+      request.partition,
+      request.model,
+      response.statusCode,
+      response.contentType,
+      response.body,
+      request.embedding ? JSON.stringify(request.embedding) : null,
+      nowIso,
+      new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+    );
+    db.prepare("DELETE FROM response_cache WHERE expires_at <= ?").run(nowIso);
+    db.prepare(
+      `
+        DELETE FROM response_cache
+        WHERE key NOT IN (SELECT key FROM response_cache ORDER BY created_at DESC LIMIT ?)
+      `,
+    ).run(Math.max(1, Math.floor(this.options.maxEntries)));
+    this.counters.stores += 1;
+    return true;
+  }
+
+  getStats(): ResponseCacheStats {
+    const entries = (
+      this.assertDb().prepare("SELECT COUNT(*) AS count FROM response_cache").get() as { count: number }
+    ).count;
+    const lookups = this.counters.hits + this.counters.misses;
+    return {
+      enabled: true,
+      entries,
+      ...this.counters,
+      hit_ratio: lookups > 0 ? this.counters.hits / lookups : 0,
+      similarity_threshold: this.similarityEnabled() ? (this.options.similarityThreshold as number) : null,
+    };
+  }
+
+  private toCachedResponse(row: CacheRow, similarity: number | null): CachedResponse {
+    return {
+      key: row.key,
+      statusCode: row.status_code,
+      contentType: row.content_type,
+      body: row.body,
+      createdAt: row.created_at,
+      similarity,
+    };
+  }
+
+  private assertDb(): Database.Database {
+    if (!this.db) {
+      throw new Error("Response cache is not initialized.");
+    }
+    return this.db;
+  }
+}
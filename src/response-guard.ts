@@ -0,0 +1,293 @@
+import type { CapabilityPolicyEngine } from "./capability-policy";
+import type { ResponseGuardMode } from "./config";
+import type { PolicyDecisionType, PolicyEngine } from "./policy-engine";
+import type { PolicyRiskClass } from "./policy-rules";
+import { extractToolInvocations, type ToolInvocation } from "./tool-invocations";
+
+export const RESPONSE_GUARD_REDACTION = "[redacted by Claw-EE response guard]";
+
+export interface ResponseGuardContext {
+  path: string;
+  method: string;
+  model: string;
+  channel: string;
+  // Set when the request carried an approval. Says whether that approval covers a response tool call; covered
+  // calls and response text only face hard blocks.
+  approval: ((call: ToolInvocation) => boolean) | null;
+}
+
+export interface ResponseGuardFinding {
+  kind: "tool_call" | "text";
+  tool: string | null;
+  tool_call_id: string | null;
+  decision: Exclude<PolicyDecisionType, "allow">;
+  stage: "capability" | "policy";
+  reason: string;
+  risk_class: PolicyRiskClass | null;
+  matched_signals: string[];
+}
+
+export interface ResponseInspection {
+  decision: PolicyDecisionType;
+  reason: string;
+  findings: ResponseGuardFinding[];
+  invocations: ToolInvocation[];
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function contentText(content: unknown, out: string[]): void {
+  if (typeof content === "string") {
+    out.push(content);
+    return;
+  }
+  if (!Array.isArray(content)) {
+    return;
+  }
+  for (const part of content) {
+    const record = asRecord(part);
+    if (record && typeof record.text === "string" && record.type !== "tool_use") {
+      out.push(record.text);
+    }
+  }
+}
+
+export function extractResponseText(payload: unknown): string[] {
+  const record = asRecord(payload);
+  if (!record) {
+    return [];
+  }
+  const out: string[] = [];
+  if (Array.isArray(record.choices)) {
+    for (const choice of record.choices) {
+      const choiceRecord = asRecord(choice);
+      contentText(asRecord(choiceRecord?.message)?.content, out);
+      if (typeof choiceRecord?.text === "string") {
+        out.push(choiceRecord.text);
+      }
+    }
+  }
+  if (typeof record.output_text === "string") {
+    out.push(record.output_text);
+  }
+  if (Array.isArray(record.output)) {
+    for (const item of record.output) {
+      const itemRecord = asRecord(item);
+      if (itemRecord?.type === "message") {
+        contentText(itemRecord.content, out);
+      }
+    }
+  }
+  contentText(record.content, out);
+  return out.filter((text) => text.trim().length > 0);
+}
+
+function isFlaggedCall(findings: ResponseGuardFinding[], id: unknown, name: unknown): boolean {
+  return findings.some(
+    (finding) =>
+      finding.kind === "tool_call" &&
+      (finding.tool_call_id && typeof id === "string" ? finding.tool_call_id === id : finding.tool === name),
+  );
+}
+
+function redactContent(content: unknown): unknown {
+  if (typeof content === "string") {
+    return RESPONSE_GUARD_REDACTION;
+  }
+  if (!Array.isArray(content)) {
+    return content;
+  }
+  return content.map((part) => {
+    const record = asRecord(part);
+    return record && typeof record.text === "string" && record.type !== "tool_use"
+      ? { ...record, text: RESPONSE_GUARD_REDACTION }
+      : part;
+  });
+}
+
+export function redactResponsePayload(payload: unknown, findings: ResponseGuardFinding[]): unknown {
+  const record = asRecord(payload);
+  if (!record) {
+    return payload;
+  }
+  const redactText = findings.some((finding) => finding.kind === "text");
+  const result: Record<string, unknown> = JSON.parse(JSON.stringify(record)) as Record<string, unknown>;
+
+  if (Array.isArray(result.choices)) {
+    for (const choice of result.choices) {
+      const choiceRecord = asRecord(choice);
+      const message = asRecord(choiceRecord?.message);
+      if (!choiceRecord || !message) {
+        continue;
+      }
+      if (Array.isArray(message.tool_calls)) {
+        const kept = message.tool_calls.filter((call) => {
+          const callRecord = asRecord(call);
+          return !isFlaggedCall(findings, callRecord?.id, asRecord(callRecord?.function)?.name);
+        });
+        if (kept.length === 0) {
+          delete message.tool_calls;
+          if (choiceRecord.finish_reason === "tool_calls") {
+            choiceRecord.finish_reason = "stop";
+          }
+          if (message.content === null || message.content === undefined) {
+            message.content = RESPONSE_GUARD_REDACTION;
+          }
+        } else {
+          message.tool_calls = kept;
+        }
+      }
+      if (redactText && message.content !== null && message.content !== undefined) {
+        message.content = redactContent(message.content);
+      }
+    }
+  }
+
+  if (redactText && typeof result.output_text === "string") {
+    result.output_text = RESPONSE_GUARD_REDACTION;
+  }
+  if (Array.isArray(result.output)) {
+    result.output = result.output
+      .filter((item) => {
+        const itemRecord = asRecord(item);
+        return !(
+          itemRecord?.type === "function_call" &&
+          isFlaggedCall(findings, itemRecord.call_id ?? itemRecord.id, itemRecord.name)
+        );
+      })
+      .map((item) => {
+        const itemRecord = asRecord(item);
+        return redactText && itemRecord?.type === "message"
+          ? { ...itemRecord, content: redactContent(itemRecord.content) }
+          : item;
+      });
+  }
+
+  if (Array.isArray(result.content)) {
+    const hadToolUse = result.content.some((block) => asRecord(block)?.type === "tool_use");
+    const kept = result.content.filter((block) => {
+      const blockRecord = asRecord(block);
+      return !(blockRecord?.type === "tool_use" && isFlaggedCall(findings, blockRecord.id, blockRecord.name));
+    });
+    result.content = redactText ? redactContent(kept) : kept;
+    const stillHasToolUse = kept.some((block) => asRecord(block)?.type === "tool_use");
+    if (hadToolUse && !stillHasToolUse && result.stop_reason === "tool_use") {
+      result.stop_reason = "end_turn";
+    }
+    if (kept.length === 0) {
+      result.content = [{ type: "text", text: RESPONSE_GUARD_REDACTION }];
+    }
+  }
+
+  return result;
+}
+
+export class ResponseGuard {
+  constructor(
+    private readonly policyEngine: PolicyEngine,
+    private readonly capabilityPolicy: CapabilityPolicyEngine,
+    private readonly mode: ResponseGuardMode,
+  ) {}
+
+  getMode(): ResponseGuardMode {
+    return this.mode;
+  }
+
+  isEnabled(): boolean {
+    return this.mode !== "off";
+  }
+
+  inspectPayload(payload: unknown, context: ResponseGuardContext): ResponseInspection {
+    return this.inspect(extractResponseText(payload).join("\n"), extractToolInvocations(payload), context);
+  }
+
+  inspect(text: string, invocations: ToolInvocation[], context: ResponseGuardContext): ResponseInspection {
+    const findings: ResponseGuardFinding[] = [];
+    const waived = new Set<ResponseGuardFinding>();
+    for (const call of invocations) {
+      const capability = this.capabilityPolicy.evaluateToolExecution([call.name], context.channel);
+      if (!capability.allowed) {
+        findings.push({
+          kind: "tool_call",
+          tool: call.name,
+          tool_call_id: call.id,
+          decision: "block",
+          stage: "capability",
+          reason: capability.reason,
+          risk_class: null,
+          matched_signals: capability.matchedSignals,
+        });
+        continue;
+      }
+      const decision = this.policyEngine.evaluate({
+        path: context.path,
+        method: context.method,
+        body: { tool: call.name, arguments: call.arguments },
+        model: context.model,
+        modality: "text",
+        intent: { hasToolIntent: true, toolNames: [call.name], invocations: [call] },
+        channel: context.channel,
+      });
+      if (decision.decision !== "allow") {
+        const finding: ResponseGuardFinding = {
+          kind: "tool_call",
+          tool: call.name,
+          tool_call_id: call.id,
+          decision: decision.decision,
+          stage: "policy",
+          reason: decision.reason,
+          risk_class: decision.riskClass,
+          matched_signals: decision.matchedSignals,
+        };
+        findings.push(finding);
+        if (context.approval?.(call)) {
+          waived.add(finding);
+        }
+      }
+    }
+
+    if (text.trim()) {
+      const decision = this.policyEngine.evaluate({
+        path: context.path,
+        method: context.method,
+        body: { output_text: text },
+        model: context.model,
+        modality: "text",
+        intent: { hasToolIntent: false, toolNames: [], invocations: [] },
+        channel: context.channel,
+      });
+      if (decision.decision !== "allow") {
+        const finding: ResponseGuardFinding = {
+          kind: "text",
+          tool: null,
+          tool_call_id: null,
+          decision: decision.decision,
+          stage: "policy",
+          reason: decision.reason,
+          risk_class: decision.riskClass,
+          matched_signals: decision.matchedSignals,
+        };
+        findings.push(finding);
+        if (context.approval) {
+          waived.add(finding);
+        }
+      }
+    }
+
+    // Findings the request's approval already covers only keep hard blocks.
+    const enforced = findings.filter((finding) => finding.decision === "block" || !waived.has(finding));
+    const blocking = enforced.find((finding) => finding.decision === "block");
+    const first = blocking ?? enforced[0];
+    return {
+      decision: first ? first.decision : "allow",
+      reason: first ? first.reason : "No response policy signals detected.",
+      findings: enforced,
+      invocations,
+    };
+  }
+}
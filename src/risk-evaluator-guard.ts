@@ -0,0 +1,227 @@
+import type { RiskEvaluation, RiskEvaluator, ToolIntent } from "./inference-provider";
+import { extractToolInvocations } from "./tool-invocations";
+import { sha256Hex, stableStringify } from "./utils";
+
+export type RiskCircuitState = "closed" | "open" | "half_open";
+
+export interface RiskEvaluatorGuardOptions {
+  cacheTtlSeconds: number;
+  cacheMaxEntries: number;
+  failureThreshold: number;
+  latencyThresholdMs: number;
+  cooldownSeconds: number;
+}
+
+export interface RiskCircuitChange {
+  from: RiskCircuitState;
+  to: RiskCircuitState;
+  reason: string;
+  consecutive_failures: number;
+}
+
+export interface RiskEvaluatorGuardState {
+  circuit: {
+    enabled: boolean;
+    state: RiskCircuitState;
+    consecutive_failures: number;
+    failure_threshold: number;
+    latency_threshold_ms: number;
+    cooldown_seconds: number;
+    opened_at: string | null;
+    last_failure: string | null;
+    trips_total: number;
+    short_circuited_total: number;
+  };
+  cache: {
+    enabled: boolean;
+    ttl_seconds: number;
+    entries: number;
+    hits: number;
+    misses: number;
+  };
+}
+
+export class RiskEvaluatorCircuitOpenError extends Error {
+  constructor() {
+    super("Risk evaluator circuit breaker is open.");
+    this.name = "RiskEvaluatorCircuitOpenError";
+  }
+}
+
+// Identical tool invocations (same tools, same arguments) share one evaluation; unrelated payload text does not
+// break the match.
+function invocationKey(
+  model: string,
+  requestPath: string,
+  method: string,
+  payload: unknown,
+  intent: ToolIntent,
+): string | null {
+  const invocations = (intent.invocations ?? extractToolInvocations(payload))
+    .map((invocation) => ({ name: invocation.name.toLowerCase(), arguments: invocation.arguments ?? {} }))
+    .sort((a, b) => stableStringify(a).localeCompare(stableStringify(b)));
+  if (invocations.length === 0) {
+    return null;
+  }
+  return sha256Hex(
+    stableStringify({
+      model,
+      path: requestPath.split("?")[0],
+      method: method.toUpperCase(),
+      tools: [...intent.toolNames].map((name) => name.toLowerCase()).sort(),
+      invocations,
+    }),
+  );
+}
+
+export class RiskEvaluatorGuard implements RiskEvaluator {
+  private state: RiskCircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private lastFailure: string | null = null;
+  private probeInFlight = false;
+  private tripsTotal = 0;
+  private shortCircuitedTotal = 0;
+  private cache = new Map<string, { risk: RiskEvaluation; expiresAt: number }>();
+  private cacheHits = 0;
+  private cacheMisses = 0;
+
+  constructor(
+    private readonly evaluator: RiskEvaluator,
+    private readonly options: RiskEvaluatorGuardOptions,
+    private readonly hooks: {
+      onCircuitChange?: (change: RiskCircuitChange) => void;
+      now?: () => number;
+    } = {},
+  ) {}
+
+  async evaluateRisk(
+    model: string,
+    requestPath: string,
+    method: string,
+    payload: unknown,
+    intent: ToolIntent,
+  ): Promise<RiskEvaluation> {
+    const now = this.now();
+    const key = this.options.cacheTtlSeconds > 0 ? invocationKey(model, requestPath, method, payload, intent) : null;
+    if (key) {
+      const cached = this.cache.get(key);
+      if (cached && cached.expiresAt > now) {
+        this.cacheHits += 1;
+        return { ...cached.risk, cached: true };
+      }
+      this.cache.delete(key);
+      this.cacheMisses += 1;
+    }
+
+    const probe = this.admit(now);
+    const startedAt = this.now();
+    let risk: RiskEvaluation;
+    try {
+      risk = await this.evaluator.evaluateRisk(model, requestPath, method, payload, intent);
+    } catch (error) {
+      this.recordFailure(error instanceof Error ? error.message : String(error), probe);
+      throw error;
+    }
+    const latencyMs = this.now() - startedAt;
+    if (this.options.latencyThresholdMs > 0 && latencyMs > this.options.latencyThresholdMs) {
+      this.recordFailure(`latency ${latencyMs}ms exceeded ${this.options.latencyThresholdMs}ms`, probe);
+    } else {
+      this.recordSuccess(probe);
+    }
+
+    if (key) {
+      this.cache.set(key, { risk, expiresAt: this.now() + this.options.cacheTtlSeconds * 1000 });
+      while (this.cache.size > Math.max(1, this.options.cacheMaxEntries)) {
+        this.cache.delete(this.cache.keys().next().value as string);
+      }
+    }
+    return risk;
+  }
+
+  getState(): RiskEvaluatorGuardState {
+    return {
+      circuit: {
+        enabled: this.options.failureThreshold > 0,
+        state: this.state,
+        consecutive_failures: this.consecutiveFailures,
+        failure_threshold: this.options.failureThreshold,
+        latency_threshold_ms: this.options.latencyThresholdMs,
+        cooldown_seconds: this.options.cooldownSeconds,
+        opened_at: this.openedAt === null ? null : new Date(this.openedAt).toISOString(),
+        last_failure: this.lastFailure,
+        trips_total: this.tripsTotal,
+        short_circuited_total: this.shortCircuitedTotal,
+      },
+      cache: {
+        enabled: this.options.cacheTtlSeconds > 0,
+        ttl_seconds: this.options.cacheTtlSeconds,
+        entries: this.cache.size,
+        hits: this.cacheHits,
+        misses: this.cacheMisses,
+      },
+    };
+  }
+
+  // Returns true when this call is the single half-open probe.
+  private admit(now: number): boolean {
+    if (this.state === "closed") {
+      return false;
+    }
+    if (
+      this.state === "open" &&
+      this.openedAt !== null &&
+      now - this.openedAt >= this.options.cooldownSeconds * 1000
+    ) {
+      this.transition("half_open", "cooldown elapsed");
+    }
+    if (this.state === "half_open" && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+    this.shortCircuitedTotal += 1;
+    throw new RiskEvaluatorCircuitOpenError();
+  }
+
+  private recordSuccess(probe: boolean): void {
+    this.consecutiveFailures = 0;
+    if (probe) {
+      this.probeInFlight = false;
+      this.openedAt = null;
+      this.transition("closed", "probe succeeded");
+    }
+  }
+
+  private recordFailure(reason: string, probe: boolean): void {
+    this.consecutiveFailures += 1;
+    this.lastFailure = reason;
+    if (probe) {
+      this.probeInFlight = false;
+      this.openedAt = this.now();
+      this.transition("open", `probe failed: ${reason}`);
+      return;
+    }
+    if (
+      this.state === "closed" &&
+      this.options.failureThreshold > 0 &&
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.openedAt = this.now();
+      this.tripsTotal += 1;
+      this.transition("open", reason);
+    }
+  }
+
+  private transition(to: RiskCircuitState, reason: string): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+    this.state = to;
+    this.hooks.onCircuitChange?.({ from, to, reason, consecutive_failures: this.consecutiveFailures });
+  }
+
+  private now(): number {
+    return (this.hooks.now ?? Date.now)();
+  }
+}
@@ -0,0 +1,300 @@
+import type { RiskEnsembleStrategy } from "./config";
+import type { RiskEvaluation, RiskEvaluator, RiskEvaluatorScore, ToolIntent } from "./inference-provider";
+import { extractToolInvocations } from "./tool-invocations";
+
+export interface RiskEvaluatorChainMember {
+  name: string;
+  evaluator: RiskEvaluator;
+  weight: number;
+  timeoutMs: number;
+  optional?: boolean;
+}
+
+export interface RiskEvaluatorChainOptions {
+  strategy: RiskEnsembleStrategy;
+  quorum?: number;
+  warnThreshold?: number;
+}
+
+export interface HeuristicRiskEvaluatorOptions {
+  highRiskTools?: string[];
+  historyWindowMs?: number;
+  burstLimit?: number;
+  now?: () => number;
+}
+
+const HIGH_RISK_TOOLS = [
+  "execute_bash",
+  "shell",
+  "terminal",
+  "write_file",
+  "delete_file",
+  "execute_sql",
+  "run_sql",
+  "database_query",
+  "browser_control",
+];
+
+const CRITICAL_ARGUMENT_PATTERNS: Array<[string, RegExp]> = [
+  ["recursive-delete", /\brm\s+-[a-z]*r[a-z]*f|\brm\s+-[a-z]*f[a-z]*r/i],
+  ["drop-or-truncate", /\b(drop|truncate)\s+(table|database|schema)\b/i],
+  ["unbounded-delete", /\bdelete\s+from\s+[\w."]+\s*(;|$)/i],
+  ["disk-format", /\b(mkfs(\.\w+)?|format\s+[a-z]:)/i],
+  ["pipe-to-shell", /\b(curl|wget)\b[^|]*\|\s*(ba|z)?sh\b/i],
+  ["encoded-powershell", /powershell(\.exe)?\s+-enc(odedcommand)?\b/i],
+  ["world-writable", /\bchmod\s+(-R\s+)?777\b/i],
+];
+
+const SENSITIVE_ARGUMENT_PATTERNS: Array<[string, RegExp]> = [
+  ["credential", /\b(password|passwd|secret|api[_ -]?key|private[_ -]?key|token)\b/i],
+  ["production", /\bprod(uction)?\b/i],
+  ["bulk-export", /\b(exfiltrate|export\s+(all|data)|dump)\b/i],
+];
+
+function argumentText(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  try {
+    return JSON.stringify(value) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+function roundScore(value: number): number {
+  return Math.round(Math.min(1, Math.max(0, value)) * 1000) / 1000;
+}
+
+// Deterministic scorer: no network, so it can run first and still answer when the LLM evaluator is down.
+export class HeuristicRiskEvaluator implements RiskEvaluator {
+  private readonly highRiskTools: Set<string>;
+  private readonly historyWindowMs: number;
+  private readonly burstLimit: number;
+  private readonly now: () => number;
+  private history: Array<{ tool: string; at: number }> = [];
+
+  constructor(options: HeuristicRiskEvaluatorOptions = {}) {
+    this.highRiskTools = new Set((options.highRiskTools ?? HIGH_RISK_TOOLS).map((tool) => tool.toLowerCase()));
+    this.historyWindowMs = options.historyWindowMs ?? 60_000;
+    this.burstLimit = options.burstLimit ?? 5;
+    this.now = options.now ?? Date.now;
+  }
+
+  async evaluateRisk(
+    _model: string,
+    _requestPath: string,
+    _method: string,
+    payload: unknown,
+    intent: ToolIntent,
+  ): Promise<RiskEvaluation> {
+    const invocations = intent.invocations ?? extractToolInvocations(payload);
+    const tools = [
+      ...new Set(
+        [...intent.toolNames, ...invocations.map((invocation) => invocation.name)].map((name) => name.toLowerCase()),
+      ),
+    ];
+    const signals: string[] = [];
+    let penalty = 0;
+
+    for (const tool of tools) {
+      if (this.highRiskTools.has(tool)) {
+        signals.push(`high-risk-tool:${tool}`);
+        penalty += 0.25;
+      }
+    }
+
+    const argumentsText = invocations.map((invocation) => argumentText(invocation.arguments)).join("\n");
+    for (const [name, pattern] of CRITICAL_ARGUMENT_PATTERNS) {
+      if (pattern.test(argumentsText)) {
+        signals.push(`critical-argument:${name}`);
+        penalty += 0.5;
+      }
+    }
+    for (const [name, pattern] of SENSITIVE_ARGUMENT_PATTERNS) {
+      if (pattern.test(argumentsText)) {
+        signals.push(`sensitive-argument:${name}`);
+        penalty += 0.15;
+      }
+    }
+
+    const now = this.now();
+    this.history = this.history.filter((entry) => now - entry.at < this.historyWindowMs);
+    for (const tool of tools) {
+      const recent = this.history.filter((entry) => entry.tool === tool).length;
+      if (recent >= this.burstLimit) {
+        signals.push(`history-burst:${tool}`);
+        penalty += 0.2;
+      }
+      this.history.push({ tool, at: now });
+    }
+
+    const score = roundScore(1 - penalty);
+    return {
+      confidence_score: score,
+      reason: signals.length > 0 ? `Heuristic risk signals: ${signals.join(", ")}.` : "No heuristic risk signals detected.",
+      recommended_action: score < 0.7 ? "warn" : "allow",
+    };
+  }
+}
+
+export class RiskEvaluatorChainError extends Error {
+  constructor(
+    message: string,
+    public readonly evaluators: RiskEvaluatorScore[],
+  ) {
+    super(message);
+    this.name = "RiskEvaluatorChainError";
+  }
+}
+
+interface MemberOutcome {
+  member: RiskEvaluatorChainMember;
+  score: RiskEvaluatorScore;
+  result?: RiskEvaluation;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, name: string): Promise<T> {
+  if (!(timeoutMs > 0)) {
+    return promise;
+  }
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Risk evaluator ${name} timed out after ${timeoutMs}ms.`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export class RiskEvaluatorChain implements RiskEvaluator {
+  private readonly members: RiskEvaluatorChainMember[];
+  private readonly strategy: RiskEnsembleStrategy;
+  private readonly quorum: number;
+  private readonly warnThreshold: number;
+
+  constructor(members: RiskEvaluatorChainMember[], options: RiskEvaluatorChainOptions) {
+    if (members.length === 0) {
+      throw new Error("Risk evaluator chain requires at least one evaluator.");
+    }
+    const names = new Set<string>();
+    for (const member of members) {
+      if (names.has(member.name)) {
+        throw new Error(`Risk evaluator ${member.name} is configured more than once.`);
+      }
+      names.add(member.name);
+      if (!(member.weight > 0)) {
+        throw new Error(`Risk evaluator ${member.name} weight must be greater than 0.`);
+      }
+    }
+    this.members = members;
+    this.strategy = options.strategy;
+    this.quorum = Math.max(1, Math.floor(options.quorum ?? Math.ceil(members.length / 2)));
+    this.warnThreshold = options.warnThreshold ?? 0.85;
+    if (this.strategy === "quorum" && this.quorum > members.length) {
+      throw new Error("Risk evaluator quorum cannot exceed the number of evaluators.");
+    }
+  }
+
+  getState(): {
+    strategy: RiskEnsembleStrategy;
+    quorum: number | null;
+    evaluators: Array<{ name: string; weight: number; timeout_ms: number; optional: boolean }>;
+  } {
+    return {
+      strategy: this.strategy,
+      quorum: this.strategy === "quorum" ? this.quorum : null,
+      evaluators: this.members.map((member) => ({
+        name: member.name,
+        weight: member.weight,
+        timeout_ms: member.timeoutMs,
+        optional: Boolean(member.optional),
+      })),
+    };
+  }
+
+  async evaluateRisk(
+    model: string,
+    requestPath: string,
+    method: string,
+    payload: unknown,
+    intent: ToolIntent,
+  ): Promise<RiskEvaluation> {
+    const settled = await Promise.all(
+      this.members.map(async (member): Promise<MemberOutcome> => {
+        const startedAt = Date.now();
+        try {
+          const result = await withTimeout(
+            member.evaluator.evaluateRisk(model, requestPath, method, payload, intent),
+            member.timeoutMs,
+            member.name,
+          );
+          return {
+            member,
+            result,
+            score: {
+              name: member.name,
+              confidence_score: result.confidence_score,
+              reason: result.reason,
+              weight: member.weight,
+              latency_ms: Date.now() - startedAt,
+            },
+          };
+        } catch (error) {
+          return {
+            member,
+            score: {
+              name: member.name,
+              confidence_score: null,
+              reason: null,
+              weight: member.weight,
+              latency_ms: Date.now() - startedAt,
+              error: error instanceof Error ? error.message : String(error),
+            },
+          };
+        }
+      }),
+    );
+    const evaluators = settled.map((entry) => entry.score);
+    const failedRequired = settled.find((entry) => !entry.result && !entry.member.optional);
+    if (failedRequired) {
+      throw new RiskEvaluatorChainError(
+        failedRequired.score.error ?? `Risk evaluator ${failedRequired.member.name} failed.`,
+        evaluators,
+      );
+    }
+    const succeeded = settled.filter(
+      (entry): entry is MemberOutcome & { result: RiskEvaluation } => entry.result !== undefined,
+    );
+    if (succeeded.length === 0) {
+      throw new RiskEvaluatorChainError("All risk evaluators failed.", evaluators);
+    }
+
+    let confidence: number;
+    if (this.strategy === "mean") {
+      const totalWeight = succeeded.reduce((sum, entry) => sum + entry.member.weight, 0);
+      confidence =
+        succeeded.reduce((sum, entry) => sum + entry.result.confidence_score * entry.member.weight, 0) / totalWeight;
+    } else if (this.strategy === "quorum") {
+      if (succeeded.length < this.quorum) {
+        throw new RiskEvaluatorChainError(
+          `Risk evaluator quorum not reached: ${succeeded.length} of ${this.quorum} evaluators answered.`,
+          evaluators,
+        );
+      }
+      // The highest score that at least `quorum` evaluators agree with: the quorum-th best score.
+      confidence = succeeded.map((entry) => entry.result.confidence_score).sort((a, b) => b - a)[this.quorum - 1];
+    } else {
+      confidence = Math.min(...succeeded.map((entry) => entry.result.confidence_score));
+    }
+
+    const lowest = succeeded.reduce((min, entry) =>
+      entry.result.confidence_score < min.result.confidence_score ? entry : min,
+    );
+    return {
+      confidence_score: roundScore(confidence),
+      reason: succeeded.length === 1 ? lowest.result.reason : `${lowest.member.name}: ${lowest.result.reason}`,
+      recommended_action: confidence < this.warnThreshold ? "warn" : "allow",
+      strategy: this.strategy,
+      evaluators,
+    };
+  }
+}
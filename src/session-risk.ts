@@ -0,0 +1,176 @@
+import type { ToolIntent } from "./inference-provider";
+import { extractToolInvocations } from "./tool-invocations";
+
+export interface SessionRiskOptions {
+  windowSeconds: number;
+  maxEventsPerSession: number;
+  maxSessions: number;
+  escalationThreshold: number;
+  readToolPatterns?: string[];
+  egressToolPatterns?: string[];
+  now?: () => number;
+}
+
+export interface SessionRiskEvent {
+  id: number;
+  at: number;
+  tools: string[];
+  signals: string[];
+  confidenceScore: number | null;
+}
+
+// Cumulative risk of the session before the current request, plus the sequence signals the current request
+// completes. Passed to PolicyEngine as PolicyInput.session.
+export interface SessionRiskContext {
+  key: string;
+  events: number;
+  cumulativeRisk: number;
+  threshold: number;
+  signals: string[];
+}
+
+export interface SessionRiskState {
+  enabled: boolean;
+  sessions: number;
+  window_seconds: number;
+  max_events_per_session: number;
+  escalation_threshold: number;
+  escalations_total: number;
+}
+
+const DEFAULT_READ_TOOL_PATTERNS = ["read", "get_", "list", "query", "search", "select", "secret", "credential", "vault"];
+
+const DEFAULT_EGRESS_TOOL_PATTERNS = [
+  "http",
+  "webhook",
+  "fetch",
+  "upload",
+  "send",
+  "email",
+  "post_",
+  "publish",
+  "slack",
+  "curl",
+  "wget",
+];
+
+// Policy signals that count toward cumulative risk when an event was never scored by the risk evaluator.
+const SIGNAL_RISK = 0.2;
+
+function normalizePatterns(values: string[] | undefined, fallback: string[]): string[] {
+  const normalized = (values && values.length > 0 ? values : fallback)
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(normalized)];
+}
+
+function roundRisk(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export function sessionToolNames(payload: unknown, intent: ToolIntent): string[] {
+  const invocations = intent.invocations ?? extractToolInvocations(payload);
+  return [
+    ...new Set(
+      [...intent.toolNames, ...invocations.map((invocation) => invocation.name)].map((name) => name.toLowerCase()),
+    ),
+  ];
+}
+
+export class SessionRiskTracker {
+  private readonly readPatterns: string[];
+  private readonly egressPatterns: string[];
+  private readonly now: () => number;
+  private sessions = new Map<string, SessionRiskEvent[]>();
+  private nextEventId = 1;
+  private escalationsTotal = 0;
+
+  constructor(private readonly options: SessionRiskOptions) {
+    this.readPatterns = normalizePatterns(options.readToolPatterns, DEFAULT_READ_TOOL_PATTERNS);
+    this.egressPatterns = normalizePatterns(options.egressToolPatterns, DEFAULT_EGRESS_TOOL_PATTERNS);
+    this.now = options.now ?? Date.now;
+  }
+
+  context(key: string, tools: string[]): SessionRiskContext {
+    const events = this.window(key);
+    const signals: string[] = [];
+    const priorRead = events.some((event) => event.tools.some((tool) => this.matches(tool, this.readPatterns)));
+    if (priorRead && tools.some((tool) => this.matches(tool, this.egressPatterns))) {
+      signals.push("sequence:read-then-egress");
+    }
+    const cumulativeRisk = roundRisk(events.reduce((sum, event) => sum + this.eventRisk(event), 0));
+    if (this.options.escalationThreshold > 0 && cumulativeRisk >= this.options.escalationThreshold) {
+      signals.push("session:cumulative-risk");
+    }
+    if (signals.length > 0) {
+      this.escalationsTotal += 1;
+    }
+    return {
+      key,
+      events: events.length,
+      cumulativeRisk,
+      threshold: this.options.escalationThreshold,
+      signals,
+    };
+  }
+
+  record(key: string, tools: string[], signals: string[]): number {
+    const events = this.window(key);
+    const id = this.nextEventId;
+    this.nextEventId += 1;
+    events.push({ id, at: this.now(), tools: [...tools], signals: [...signals], confidenceScore: null });
+    while (events.length > Math.max(1, Math.floor(this.options.maxEventsPerSession))) {
+      events.shift();
+    }
+    // Re-insert so the Map stays ordered by last activity and the least recently active session is evicted.
+    this.sessions.delete(key);
+    this.sessions.set(key, events);
+    while (this.sessions.size > Math.max(1, Math.floor(this.options.maxSessions))) {
+      this.sessions.delete(this.sessions.keys().next().value as string);
+    }
+    return id;
+  }
+
+  recordRisk(key: string, eventId: number, confidenceScore: number): void {
+    const event = this.sessions.get(key)?.find((entry) => entry.id === eventId);
+    if (event) {
+      event.confidenceScore = confidenceScore;
+    }
+  }
+
+  getState(): SessionRiskState {
+    return {
+      enabled: true,
+      sessions: this.sessions.size,
+      window_seconds: this.options.windowSeconds,
+      max_events_per_session: this.options.maxEventsPerSession,
+      escalation_threshold: this.options.escalationThreshold,
+      escalations_total: this.escalationsTotal,
+    };
+  }
+
+  private window(key: string): SessionRiskEvent[] {
+    const cutoff = this.now() - this.options.windowSeconds * 1000;
+    const events = (this.sessions.get(key) ?? []).filter((event) => event.at > cutoff);
+    if (events.length === 0) {
+      this.sessions.delete(key);
+    } else {
+      this.sessions.set(key, events);
+    }
+    return events;
+  }
+
+  private eventRisk(event: SessionRiskEvent): number {
+    if (event.confidenceScore !== null) {
+      return Math.max(0, 1 - event.confidenceScore);
+    }
+    const risky = event.signals.filter(
+      (signal) => signal.startsWith("high-risk") || signal.startsWith("critical") || signal.startsWith("sequence:"),
+    );
+    return Math.min(1, risky.length * SIGNAL_RISK);
+  }
+
+  private matches(tool: string, patterns: string[]): boolean {
+    return patterns.some((pattern) => tool.includes(pattern));
+  }
+}
@@ -0,0 +1,363 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+export type SqlStoreMode = "sqlite" | "postgres";
+
+export type SqlValue = string | number | null;
+
+export type Awaitable<T> = T | Promise<T>;
+
+// Statements use "?" placeholders and portable SQL; the Postgres store rewrites placeholders to $1..$n, so "?" must
+// not appear anywhere else in a statement. Components branch on dialect only for DDL and JSON access.
+export interface SqlExecutor {
+  readonly dialect: SqlStoreMode;
+  all<T>(sql: string, params?: SqlValue[]): Promise<T[]>;
+  get<T>(sql: string, params?: SqlValue[]): Promise<T | undefined>;
+  run(sql: string, params?: SqlValue[]): Promise<number>;
+  exec(sql: string): Promise<void>;
+}
+
+export interface SqlMigration {
+  version: number;
+  name: string;
+  up(db: SqlExecutor): Promise<void>;
+}
+
+export interface SqlStore extends SqlExecutor {
+  init(): Promise<void>;
+  // Applies the component's migrations that are not yet recorded in schema_migrations, in version order.
+  migrate(component: string, migrations: SqlMigration[]): Promise<number>;
+  // Runs work in one transaction. Lock keys serialize transactions that name the same key, across every process
+  // sharing the database; keys are taken in sorted order so overlapping sets cannot deadlock.
+  transaction<T>(lockKeys: string[], work: (db: SqlExecutor) => Promise<T>): Promise<T>;
+  getState(): Record<string, unknown>;
+  close(): Promise<void>;
+}
+
+export interface SqlStoreConfig {
+  mode: SqlStoreMode;
+  postgresUrl: string;
+  postgresSchema: string;
+  postgresConnectTimeoutMs: number;
+  postgresSslMode: "disable" | "require" | "verify-full";
+}
+
+const MIGRATIONS_LOCK_KEY = "schema_migrations";
+
+export function sqlColumnTypes(dialect: SqlStoreMode): { serial: string; real: string } {
+  return dialect === "postgres"
+    ? { serial: "BIGSERIAL PRIMARY KEY", real: "DOUBLE PRECISION" }
+    : { serial: "INTEGER PRIMARY KEY AUTOINCREMENT", real: "REAL" };
+}
+
+export function sqlJsonText(dialect: SqlStoreMode, column: string, field: string): string {
+  return dialect === "postgres" ? `(${column}::jsonb ->> '${field}')` : `json_extract(${column}, '$.${field}')`;
+}
+
+async function applyMigrations(store: SqlStore, component: string, migrations: SqlMigration[]): Promise<number> {
+  const ordered = [...migrations].sort((a, b) => a.version - b.version);
+  return store.transaction([MIGRATIONS_LOCK_KEY], async (db) => {
+    if (db.dialect === "postgres") {
+      const schema = String(store.getState().postgres_schema);
+      await db.exec(`CREATE SCHEMA IF NOT EXISTS ${quotedIdentifier(schema)}`);
+    }
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        component TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL,
+        PRIMARY KEY (component, version)
+      )
+    `);
+    const applied = new Set(
+      (await db.all<{ version: number }>("SELECT version FROM schema_migrations WHERE component = ?", [component])).map(
+        (row) => Number(row.version),
+      ),
+    );
+    let count = 0;
+    for (const migration of ordered) {
+      if (applied.has(migration.version)) {
+        continue;
+      }
+      await migration.up(db);
+      await db.run("INSERT INTO schema_migrations (component, version, name, applied_at) VALUES (?, ?, ?, ?)", [
+        component,
+        migration.version,
+        migration.name,
+        new Date().toISOString(),
+      ]);
+      count += 1;
+    }
+    return count;
+  });
+}
+
+export class SqliteSqlStore implements SqlStore {
+  readonly dialect = "sqlite" as const;
+  private dbPath: string;
+  private db: Database.Database | null = null;
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  async init(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+    this.db = new Database(this.dbPath);
+    this.db.pragma("journal_mode = WAL");
+  }
+
+  all<T>(sql: string, params: SqlValue[] = []): Promise<T[]> {
+    return this.enqueue(() => this.assertDb().prepare(sql).all(...params) as T[]);
+  }
+
+  get<T>(sql: string, params: SqlValue[] = []): Promise<T | undefined> {
+    return this.enqueue(() => this.assertDb().prepare(sql).get(...params) as T | undefined);
+  }
+
+  run(sql: string, params: SqlValue[] = []): Promise<number> {
+    return this.enqueue(() => this.assertDb().prepare(sql).run(...params).changes);
+  }
+
+  exec(sql: string): Promise<void> {
+    return this.enqueue(() => {
+      this.assertDb().exec(sql);
+    });
+  }
+
+  migrate(component: string, migrations: SqlMigration[]): Promise<number> {
+    return applyMigrations(this, component, migrations);
+  }
+
+  // One connection serves the whole process, so transactions and standalone statements share one queue: a
+  // statement issued while a transaction is open runs after it instead of joining it. Lock keys need no further
+  // handling here.
+  transaction<T>(_lockKeys: string[], work: (db: SqlExecutor) => Promise<T>): Promise<T> {
+    return this.enqueue(() => this.runTransaction(work));
+  }
+
+  getState(): Record<string, unknown> {
+    return { mode: "sqlite", path: this.dbPath };
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  private async runTransaction<T>(work: (db: SqlExecutor) => Promise<T>): Promise<T> {
+    const db = this.assertDb();
+    const executor: SqlExecutor = {
+      dialect: "sqlite",
+      all: async <R>(sql: string, params: SqlValue[] = []) => db.prepare(sql).all(...params) as R[],
+      get: async <R>(sql: string, params: SqlValue[] = []) => db.prepare(sql).get(...params) as R | undefined,
+      run: async (sql: string, params: SqlValue[] = []) => db.prepare(sql).run(...params).changes,
+      exec: async (sql: string) => {
+        db.exec(sql);
+      },
+    };
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = await work(executor);
+      db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      if (db.inTransaction) {
+        db.exec("ROLLBACK");
+      }
+      throw error;
+    }
+  }
+
+  private enqueue<T>(task: () => T | Promise<T>): Promise<T> {
+    const running = this.tail.then(task);
+    this.tail = running.catch(() => undefined);
+    return running;
+  }
+
+  private assertDb(): Database.Database {
+    if (!this.db) {
+      throw new Error("SQLite store is not initialized.");
+    }
+    return this.db;
+  }
+}
+
+export class PostgresSqlStore implements SqlStore {
+  readonly dialect = "postgres" as const;
+  private postgresUrl: string;
+  private postgresSchema: string;
+  private connectTimeoutMs: number;
+  private sslMode: "disable" | "require" | "verify-full";
+  private pool: any | null = null;
+  private lastError: string | null = null;
+
+  constructor(config: Omit<SqlStoreConfig, "mode">) {
+    this.postgresUrl = config.postgresUrl.trim();
+    this.postgresSchema = normalizeIdentifier(config.postgresSchema || "clawee", "schema");
+    this.connectTimeoutMs = Math.max(1000, Math.floor(config.postgresConnectTimeoutMs));
+    this.sslMode = config.postgresSslMode;
+  }
+
+  async init(): Promise<void> {
+    await this.connect();
+  }
+
+  async all<T>(sql: string, params: SqlValue[] = []): Promise<T[]> {
+    const pool = await this.connect();
+    return (await pool.query(toPostgresPlaceholders(sql), params)).rows as T[];
+  }
+
+  async get<T>(sql: string, params: SqlValue[] = []): Promise<T | undefined> {
+    return (await this.all<T>(sql, params))[0];
+  }
+
+  async run(sql: string, params: SqlValue[] = []): Promise<number> {
+    const pool = await this.connect();
+    return Number((await pool.query(toPostgresPlaceholders(sql), params)).rowCount || 0);
+  }
+
+  async exec(sql: string): Promise<void> {
+    const pool = await this.connect();
+    await pool.query(sql);
+  }
+
+  migrate(component: string, migrations: SqlMigration[]): Promise<number> {
+    return applyMigrations(this, component, migrations);
+  }
+
+  async transaction<T>(lockKeys: string[], work: (db: SqlExecutor) => Promise<T>): Promise<T> {
+    const pool = await this.connect();
+    const client = await pool.connect();
+    const executor: SqlExecutor = {
+      dialect: "postgres",
+      all: async <R>(sql: string, params: SqlValue[] = []) =>
+        (await client.query(toPostgresPlaceholders(sql), params)).rows as R[],
+      get: async <R>(sql: string, params: SqlValue[] = []) =>
+        (await client.query(toPostgresPlaceholders(sql), params)).rows[0] as R | undefined,
+      run: async (sql: string, params: SqlValue[] = []) =>
+        Number((await client.query(toPostgresPlaceholders(sql), params)).rowCount || 0),
+      exec: async (sql: string) => {
+        await client.query(sql);
+      },
+    };
+    try {
+      await client.query("BEGIN");
+      for (const key of [...new Set(lockKeys)].sort()) {
+        await client.query("SELECT pg_advisory_xact_lock(hashtextextended($1, 0))", [key]);
+      }
+      const result = await work(executor);
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  getState(): Record<string, unknown> {
+    return {
+      mode: "postgres",
+      postgres_url_configured: this.postgresUrl.length > 0,
+      postgres_schema: this.postgresSchema,
+      postgres_ssl_mode: this.sslMode,
+      postgres_connected: this.pool !== null,
+      last_error: this.lastError,
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+    }
+  }
+
+  private async connect(): Promise<any> {
+    if (this.pool) {
+      return this.pool;
+    }
+    let pgModule: any;
+    try {
+      pgModule = await import("pg");
+    } catch {
+      throw new Error("Storage mode is postgres, but package 'pg' is not installed.");
+    }
+    const ssl =
+      this.sslMode === "disable"
+        ? false
+        : this.sslMode === "require"
+          ? { rejectUnauthorized: false }
+          : { rejectUnauthorized: true };
+    const pool = new pgModule.Pool({
+      connectionString: this.postgresUrl,
+      connectionTimeoutMillis: this.connectTimeoutMs,
+      ssl,
+      max: 10,
+    });
+    pool.on("error", (error: unknown) => {
+      this.lastError = error instanceof Error ? error.message : String(error);
+    });
+    // Every pooled connection resolves unqualified table names in the configured schema.
+    pool.on("connect", (client: any) => {
+      client.query(`SET search_path TO ${quotedIdentifier(this.postgresSchema)}`).catch((error: unknown) => {
+        this.lastError = error instanceof Error ? error.message : String(error);
+      });
+    });
+    try {
+      await pool.query("SELECT 1");
+      if (this.pool) {
+        await pool.end();
+        return this.pool;
+      }
+      this.pool = pool;
+      this.lastError = null;
+      return pool;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      await pool.end();
+      throw new Error(`Failed to connect to Postgres storage: ${this.lastError}`);
+    }
+  }
+}
+
+function toPostgresPlaceholders(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
+
+function quotedIdentifier(value: string): string {
+  return `"${value.replace(/"/g, "\"\"")}"`;
+}
+
+function normalizeIdentifier(raw: string, label: string): string {
+  const normalized = String(raw || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_]/g, "_");
+  if (!normalized || !/^[a-z_][a-z0-9_]*$/.test(normalized)) {
+    throw new Error(`Invalid Postgres ${label}: ${raw}`);
+  }
+  return normalized;
+}
+
+// SQLite keeps one database file per component, so only Postgres mode yields a store shared by all of them.
+export function createSharedSqlStore(config: SqlStoreConfig): SqlStore | null {
+  if (config.mode !== "postgres") {
+    return null;
+  }
+  if (!config.postgresUrl.trim()) {
+    throw new Error("Storage mode is postgres but STORAGE_POSTGRES_URL is not configured.");
+  }
+  return new PostgresSqlStore(config);
+}
@@ -0,0 +1,484 @@
+import { StringDecoder } from "node:string_decoder";
+import { partialTokenLength } from "./dlp";
+import { extractUsageBreakdown } from "./pricing-catalog";
+import { createToolInvocation, type ToolInvocation, type ToolInvocationFormat } from "./tool-invocations";
+
+export interface StreamUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  reasoningTokens: number;
+  model: string;
+}
+
+const EVENT_BOUNDARY = /\r?\n\r?\n/;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function numberField(record: Record<string, unknown>, ...keys: string[]): number {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+      return Math.floor(value);
+    }
+  }
+  return 0;
+}
+
+export function isEventStreamContentType(contentType: string): boolean {
+  return contentType.toLowerCase().includes("text/event-stream");
+}
+
+function eventData(raw: string): string | null {
+  const dataLines: string[] = [];
+  for (const line of raw.split(/\r?\n/)) {
+    if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+  return dataLines.length === 0 ? null : dataLines.join("\n").trim();
+}
+
+function eventPayload(data: string | null): Record<string, unknown> | null {
+  if (!data || data === "[DONE]") {
+    return null;
+  }
+  try {
+    return asRecord(JSON.parse(data));
+  } catch {
+    return null;
+  }
+}
+
+export class SseUsageMeter {
+  private decoder = new StringDecoder("utf8");
+  private pending = "";
+  private outputChars = 0;
+  private reportedInputTokens = 0;
+  private reportedOutputTokens = 0;
+  private reportedCachedInputTokens = 0;
+  private reportedReasoningTokens = 0;
+  private model = "";
+  private eventCount = 0;
+
+  push(chunk: Buffer | string): string[] {
+    this.pending += typeof chunk === "string" ? chunk : this.decoder.write(chunk);
+    const events: string[] = [];
+    for (;;) {
+      const match = EVENT_BOUNDARY.exec(this.pending);
+      if (!match) {
+        break;
+      }
+      const end = match.index + match[0].length;
+      const raw = this.pending.slice(0, end);
+      this.pending = this.pending.slice(end);
+      events.push(raw);
+    }
+    return events;
+  }
+
+  flush(): string {
+    const rest = this.pending + this.decoder.end();
+    this.pending = "";
+    return rest;
+  }
+
+  getEventCount(): number {
+    return this.eventCount;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  getEstimatedOutputTokens(): number {
+    return Math.ceil(this.outputChars / 4);
+  }
+
+  getOutputTokens(): number {
+    return Math.max(this.reportedOutputTokens, this.getEstimatedOutputTokens());
+  }
+
+  getUsage(): StreamUsage | null {
+    if (this.reportedInputTokens <= 0 && this.reportedOutputTokens <= 0) {
+      return null;
+    }
+    return {
+      inputTokens: this.reportedInputTokens,
+      outputTokens: this.reportedOutputTokens,
+      cachedInputTokens: this.reportedCachedInputTokens,
+      reasoningTokens: this.reportedReasoningTokens,
+      model: this.model || "unknown-model",
+    };
+  }
+
+  observe(raw: string): void {
+    const data = eventData(raw);
+    if (data === null) {
+      return;
+    }
+    this.eventCount += 1;
+    const record = eventPayload(data);
+    if (record) {
+      this.consumePayload(record);
+    }
+  }
+
+  private consumePayload(record: Record<string, unknown>): void {
+    if (typeof record.model === "string" && record.model.trim()) {
+      this.model = record.model.trim();
+    }
+
+    if (Array.isArray(record.choices)) {
+      for (const choice of record.choices) {
+        const delta = asRecord(asRecord(choice)?.delta);
+        if (!delta) {
+          continue;
+        }
+        this.countText(delta.content);
+        if (Array.isArray(delta.tool_calls)) {
+          for (const call of delta.tool_calls) {
+            this.countText(asRecord(asRecord(call)?.function)?.arguments);
+          }
+        }
+      }
+    }
+    const topLevelUsage = asRecord(record.usage);
+    if (topLevelUsage) {
+      this.recordUsage(topLevelUsage);
+    }
+
+    const type = typeof record.type === "string" ? record.type : "";
+    if (!type) {
+      return;
+    }
+
+    if (type.startsWith("response.") && type.endsWith(".delta")) {
+      this.countText(record.delta);
+      return;
+    }
+    if (type === "response.completed" || type === "response.incomplete") {
+      const response = asRecord(record.response);
+      if (response) {
+        if (typeof response.model === "string" && response.model.trim()) {
+          this.model = response.model.trim();
+        }
+        const usage = asRecord(response.usage);
+        if (usage) {
+          this.recordUsage(usage);
+        }
+      }
+      return;
+    }
+
+    if (type === "message_start") {
+      const message = asRecord(record.message);
+      if (message) {
+        if (typeof message.model === "string" && message.model.trim()) {
+          this.model = message.model.trim();
+        }
+        const usage = asRecord(message.usage);
+        if (usage) {
+          this.recordUsage(usage);
+        }
+      }
+      return;
+    }
+    if (type === "content_block_delta") {
+      const delta = asRecord(record.delta);
+      if (delta) {
+        this.countText(delta.text);
+        this.countText(delta.partial_json);
+        this.countText(delta.thinking);
+      }
+    }
+  }
+
+  private countText(value: unknown): void {
+    if (typeof value === "string") {
+      this.outputChars += value.length;
+    }
+  }
+
+  private recordUsage(usage: Record<string, unknown>): void {
+    const breakdown = extractUsageBreakdown(usage);
+    // Anthropic reports cumulative output counts across message_delta events.
+    this.reportedInputTokens = Math.max(this.reportedInputTokens, breakdown.inputTokens);
+    this.reportedOutputTokens = Math.max(this.reportedOutputTokens, breakdown.outputTokens);
+    this.reportedCachedInputTokens = Math.max(this.reportedCachedInputTokens, breakdown.cachedInputTokens);
+    this.reportedReasoningTokens = Math.max(this.reportedReasoningTokens, breakdown.reasoningTokens);
+  }
+}
+
+interface PendingToolCall {
+  format: ToolInvocationFormat;
+  id: string;
+  name: string;
+  arguments: string;
+  input: unknown;
+}
+
+export class SseToolCallCollector {
+  private calls = new Map<string, PendingToolCall>();
+
+  observe(raw: string): boolean {
+    const record = eventPayload(eventData(raw));
+    if (!record) {
+      return false;
+    }
+    let touched = false;
+
+    if (Array.isArray(record.choices)) {
+      for (const choice of record.choices) {
+        const choiceRecord = asRecord(choice);
+        const delta = asRecord(choiceRecord?.delta);
+        if (!delta || !Array.isArray(delta.tool_calls)) {
+          continue;
+        }
+        for (const call of delta.tool_calls) {
+          const callRecord = asRecord(call);
+          if (!callRecord) {
+            continue;
+          }
+          const key = `chat:${String(choiceRecord?.index ?? 0)}:${String(callRecord.index ?? 0)}`;
+          const pending = this.pending(key, "openai-chat");
+          const fn = asRecord(callRecord.function);
+          this.assign(pending, callRecord.id, fn?.name);
+          if (typeof fn?.arguments === "string") {
+            pending.arguments += fn.arguments;
+          }
+          touched = true;
+        }
+      }
+    }
+
+    const type = typeof record.type === "string" ? record.type : "";
+    if (type === "response.output_item.added" || type === "response.output_item.done") {
+      const item = asRecord(record.item);
+      if (item?.type === "function_call") {
+        const pending = this.pending(`responses:${String(record.output_index ?? 0)}`, "openai-responses");
+        this.assign(pending, item.call_id ?? item.id, item.name);
+        if (typeof item.arguments === "string" && item.arguments) {
+          pending.arguments = item.arguments;
+        }
+        touched = true;
+      }
+    } else if (type === "response.function_call_arguments.delta" || type === "response.function_call_arguments.done") {
+      const pending = this.pending(`responses:${String(record.output_index ?? 0)}`, "openai-responses");
+      if (type.endsWith(".done") && typeof record.arguments === "string") {
+        pending.arguments = record.arguments;
+      } else if (typeof record.delta === "string") {
+        pending.arguments += record.delta;
+      }
+      touched = true;
+    } else if (type === "content_block_start") {
+      const block = asRecord(record.content_block);
+      if (block?.type === "tool_use") {
+        const pending = this.pending(`anthropic:${String(record.index ?? 0)}`, "anthropic-messages");
+        this.assign(pending, block.id, block.name);
+        pending.input = block.input;
+        touched = true;
+      }
+    } else if (type === "content_block_delta") {
+      const delta = asRecord(record.delta);
+      const key = `anthropic:${String(record.index ?? 0)}`;
+      if (delta?.type === "input_json_delta" && this.calls.has(key)) {
+        const pending = this.pending(key, "anthropic-messages");
+        if (typeof delta.partial_json === "string") {
+          pending.arguments += delta.partial_json;
+        }
+        touched = true;
+      }
+    } else if (type === "content_block_stop" && this.calls.has(`anthropic:${String(record.index ?? 0)}`)) {
+      touched = true;
+    }
+
+    return touched;
+  }
+
+  getInvocations(): ToolInvocation[] {
+    const invocations: ToolInvocation[] = [];
+    for (const pending of this.calls.values()) {
+      const args = pending.arguments || (pending.input === undefined ? "" : pending.input);
+      const invocation = createToolInvocation(pending.format, pending.name, args, pending.id);
+      if (invocation) {
+        invocations.push(invocation);
+      }
+    }
+    return invocations;
+  }
+
+  private pending(key: string, format: ToolInvocationFormat): PendingToolCall {
+    let pending = this.calls.get(key);
+    if (!pending) {
+      pending = { format, id: "", name: "", arguments: "", input: undefined };
+      this.calls.set(key, pending);
+    }
+    return pending;
+  }
+
+  private assign(pending: PendingToolCall, id: unknown, name: unknown): void {
+    if (typeof id === "string" && id) {
+      pending.id = id;
+    }
+    if (typeof name === "string" && name) {
+      pending.name = name;
+    }
+  }
+}
+
+export class SseTextCollector {
+  private text = "";
+
+  observe(raw: string): boolean {
+    const record = eventPayload(eventData(raw));
+    if (!record) {
+      return false;
+    }
+    const before = this.text.length;
+
+    if (Array.isArray(record.choices)) {
+      for (const choice of record.choices) {
+        const delta = asRecord(asRecord(choice)?.delta);
+        if (typeof delta?.content === "string") {
+          this.text += delta.content;
+        }
+      }
+    }
+
+    const type = typeof record.type === "string" ? record.type : "";
+    if (type === "response.output_text.delta" && typeof record.delta === "string") {
+      this.text += record.delta;
+    } else if (type === "content_block_delta") {
+      const delta = asRecord(record.delta);
+      if (delta?.type === "text_delta" && typeof delta.text === "string") {
+        this.text += delta.text;
+      }
+    }
+
+    return this.text.length > before;
+  }
+
+  getText(): string {
+    return this.text;
+  }
+}
+
+interface DeltaField {
+  key: string;
+  container: Record<string, unknown>;
+  field: string;
+  // The field carries serialized JSON (tool arguments), so restored values must be escaped for it.
+  jsonText: boolean;
+  final: boolean;
+}
+
+interface HeldDelta {
+  text: string;
+  raw: string;
+  record: Record<string, unknown>;
+}
+
+function deltaFields(record: Record<string, unknown>): DeltaField[] {
+  const fields: DeltaField[] = [];
+  const add = (key: string, container: Record<string, unknown> | null, field: string, jsonText: boolean, final = false) => {
+    if (container && typeof container[field] === "string") {
+      fields.push({ key, container, field, jsonText, final });
+    }
+  };
+
+  if (Array.isArray(record.choices)) {
+    record.choices.forEach((choice, position) => {
+      const choiceRecord = asRecord(choice);
+      if (!choiceRecord) {
+        return;
+      }
+      const prefix = `chat:${String(choiceRecord.index ?? position)}`;
+      const final = choiceRecord.finish_reason !== undefined && choiceRecord.finish_reason !== null;
+      add(`${prefix}:text`, choiceRecord, "text", false, final);
+      const delta = asRecord(choiceRecord.delta);
+      add(`${prefix}:content`, delta, "content", false, final);
+      if (Array.isArray(delta?.tool_calls)) {
+        delta.tool_calls.forEach((call, callPosition) => {
+          const callRecord = asRecord(call);
+          const key = `${prefix}:tool:${String(callRecord?.index ?? callPosition)}`;
+          add(key, asRecord(callRecord?.function), "arguments", true, final);
+        });
+      }
+    });
+  }
+
+  const type = typeof record.type === "string" ? record.type : "";
+  if (type.startsWith("response.") && type.endsWith(".delta")) {
+    const key = `${type}:${String(record.output_index ?? 0)}:${String(record.content_index ?? 0)}`;
+    add(key, record, "delta", type === "response.function_call_arguments.delta");
+  } else if (type === "content_block_delta") {
+    const delta = asRecord(record.delta);
+    const prefix = `anthropic:${String(record.index ?? 0)}`;
+    add(`${prefix}:text`, delta, "text", false);
+    add(`${prefix}:thinking`, delta, "thinking", false);
+    add(`${prefix}:json`, delta, "partial_json", true);
+  }
+  return fields;
+}
+
+function rebuildEvent(raw: string, record: Record<string, unknown>): string {
+  const lines: string[] = [];
+  let written = false;
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line.startsWith("data:")) {
+      lines.push(line);
+    } else if (!written) {
+      lines.push(`data: ${JSON.stringify(record)}`);
+      written = true;
+    }
+  }
+  return lines.join("\n");
+}
+
+// Restores DLP tokens in streamed responses. Tokens are matched over each content channel's accumulated deltas,
+// and a trailing partial token is held until the next delta on that channel (or the next non-delta event, or
+// the end of the stream) completes or rules it out.
+export class SseDetokenizer {
+  private held = new Map<string, HeldDelta>();
+
+  constructor(private readonly detokenize: (text: string, jsonText: boolean) => string) {}
+
+  push(raw: string): string {
+    const record = eventPayload(eventData(raw));
+    const fields = record ? deltaFields(record) : [];
+    if (!record || fields.length === 0) {
+      return this.flush() + this.detokenize(raw, true);
+    }
+    for (const field of fields) {
+      const text = (this.held.get(field.key)?.text ?? "") + String(field.container[field.field]);
+      this.held.delete(field.key);
+      const hold = field.final ? 0 : partialTokenLength(text);
+      field.container[field.field] = this.detokenize(text.slice(0, text.length - hold), field.jsonText);
+      if (hold > 0) {
+        this.held.set(field.key, { text: text.slice(text.length - hold), raw, record });
+      }
+    }
+    return rebuildEvent(raw, record);
+  }
+
+  // Emits held text as synthetic deltas shaped like the event that produced it.
+  flush(): string {
+    let output = "";
+    for (const [key, held] of this.held) {
+      const record = JSON.parse(JSON.stringify(held.record)) as Record<string, unknown>;
+      delete record.usage;
+      for (const field of deltaFields(record)) {
+        field.container[field.field] = field.key === key ? this.detokenize(held.text, field.jsonText) : "";
+      }
+      output += rebuildEvent(held.raw, record);
+    }
+    this.held.clear();
+    return output;
+  }
+}
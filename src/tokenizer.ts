@@ -0,0 +1,331 @@
+import fs from "node:fs";
+import path from "node:path";
+import { Tiktoken, type TiktokenBPE } from "js-tiktoken/lite";
+
+export interface Tokenizer {
+  readonly name: string;
+  count(text: string): number;
+}
+
+export interface TokenCount {
+  tokens: number;
+  tokenizer: string;
+}
+
+export interface TokenizerAccuracyStats {
+  samples: number;
+  estimated_tokens: number;
+  actual_tokens: number;
+  mean_abs_error_pct: number;
+  last_error_pct: number | null;
+}
+
+export interface TokenizerRegistryOptions {
+  // Optional `<encoding>.tiktoken` overrides; encodings without a file fall back to the tables shipped in js-tiktoken.
+  dataDirectory: string;
+  encodingForModel?: (model: string) => string | null;
+}
+
+const MODEL_FAMILY_ENCODINGS: Array<{ prefix: string; encoding: string }> = [
+  { prefix: "gpt-4o", encoding: "o200k_base" },
+  { prefix: "gpt-4.1", encoding: "o200k_base" },
+  { prefix: "gpt-4.5", encoding: "o200k_base" },
+  { prefix: "gpt-5", encoding: "o200k_base" },
+  { prefix: "o1", encoding: "o200k_base" },
+  { prefix: "o3", encoding: "o200k_base" },
+  { prefix: "o4", encoding: "o200k_base" },
+  { prefix: "gpt-4", encoding: "cl100k_base" },
+  { prefix: "gpt-3.5", encoding: "cl100k_base" },
+  { prefix: "text-embedding-3", encoding: "cl100k_base" },
+  { prefix: "text-embedding-ada", encoding: "cl100k_base" },
+];
+
+const BUNDLED_ENCODINGS = new Set(["cl100k_base", "o200k_base"]);
+
+// Per-message framing overhead used by OpenAI chat formats.
+const MESSAGE_OVERHEAD_TOKENS = 3;
+const REPLY_PRIMING_TOKENS = 3;
+const WIDE_CHARACTER = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/u;
+
+export class HeuristicTokenizer implements Tokenizer {
+  readonly name = "heuristic";
+
+  count(text: string): number {
+    let wide = 0;
+    let narrow = 0;
+    for (const char of text) {
+      if (WIDE_CHARACTER.test(char)) {
+        wide += 1;
+      } else {
+        narrow += 1;
+      }
+    }
+    return wide + Math.ceil(narrow / 4);
+  }
+}
+
+// Converts a `<base64 token> <rank>` .tiktoken file into the packed `<prefix> <first rank> <base64 token>...` form
+// js-tiktoken loads, one token per line.
+export function parseTiktokenRanks(raw: string): string {
+  const lines: string[] = [];
+  for (const line of raw.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+    const [token, rankText] = trimmed.split(/\s+/);
+    const rank = Number(rankText);
+    if (!token || !Number.isInteger(rank)) {
+      throw new Error(`Invalid BPE rank line: ${trimmed.slice(0, 40)}`);
+    }
+    lines.push(`! ${rank} ${token}`);
+  }
+  if (lines.length === 0) {
+    throw new Error("BPE rank table is empty.");
+  }
+  return lines.join("\n");
+}
+
+function bundledRanks(encoding: string): TiktokenBPE {
+  return require(`js-tiktoken/ranks/${encoding}`) as TiktokenBPE;
+}
+
+// A data-directory table replaces the ranks only; the split pattern and special tokens stay those of the encoding
+// (cl100k_base for encodings js-tiktoken is not used for).
+function loadRanks(dataDirectory: string, encoding: string): TiktokenBPE {
+  const filePath = dataDirectory ? path.join(dataDirectory, `${encoding}.tiktoken`) : "";
+  if (filePath && fs.existsSync(filePath)) {
+    const base = bundledRanks(BUNDLED_ENCODINGS.has(encoding) ? encoding : "cl100k_base");
+    return { ...base, bpe_ranks: parseTiktokenRanks(fs.readFileSync(filePath, "utf8")) };
+  }
+  if (!BUNDLED_ENCODINGS.has(encoding)) {
+    throw new Error(`No BPE rank table for ${encoding}${filePath ? ` at ${filePath}` : ""}.`);
+  }
+  return bundledRanks(encoding);
+}
+
+export class TiktokenTokenizer implements Tokenizer {
+  private readonly encoder: Tiktoken;
+
+  constructor(
+    readonly name: string,
+    ranks: TiktokenBPE,
+  ) {
+    this.encoder = new Tiktoken(ranks);
+  }
+
+  count(text: string): number {
+    // Special-token text in a prompt is counted as ordinary text rather than rejected.
+    return this.encoder.encode(text, [], []).length;
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function pushText(value: unknown, out: string[]): void {
+  if (typeof value === "string") {
+    if (value) {
+      out.push(value);
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      pushContent(item, out);
+    }
+  }
+}
+
+function pushJson(value: unknown, out: string[]): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+  out.push(typeof value === "string" ? value : JSON.stringify(value));
+}
+
+function pushContent(value: unknown, out: string[]): void {
+  if (typeof value === "string") {
+    pushText(value, out);
+    return;
+  }
+  const record = asRecord(value);
+  if (!record) {
+    pushText(value, out);
+    return;
+  }
+  pushText(record.text, out);
+  pushText(record.content, out);
+  pushText(record.name, out);
+  pushJson(record.arguments, out);
+  pushJson(record.input, out);
+  pushText(record.output, out);
+  const fn = asRecord(record.function);
+  if (fn) {
+    pushText(fn.name, out);
+    pushJson(fn.arguments, out);
+  }
+  if (Array.isArray(record.tool_calls)) {
+    for (const call of record.tool_calls) {
+      pushContent(call, out);
+    }
+  }
+}
+
+export function extractTokenizableText(payload: unknown): { texts: string[]; messages: number } | null {
+  const record = asRecord(payload);
+  if (!record) {
+    return null;
+  }
+  const texts: string[] = [];
+  let messages = 0;
+  let recognized = false;
+
+  for (const key of ["system", "instructions", "prompt"]) {
+    if (record[key] !== undefined) {
+      recognized = true;
+      pushText(record[key], texts);
+    }
+  }
+  if (Array.isArray(record.messages)) {
+    recognized = true;
+    for (const message of record.messages) {
+      messages += 1;
+      pushContent(message, texts);
+    }
+  }
+  if (record.input !== undefined) {
+    recognized = true;
+    if (Array.isArray(record.input)) {
+      for (const item of record.input) {
+        if (asRecord(item)) {
+          messages += 1;
+        }
+        pushContent(item, texts);
+      }
+    } else {
+      pushText(record.input, texts);
+    }
+  }
+  if (Array.isArray(record.tools)) {
+    for (const tool of record.tools) {
+      const entry = asRecord(tool);
+      const definition = asRecord(entry?.function) ?? entry;
+      if (!definition) {
+        continue;
+      }
+      pushText(definition.name, texts);
+      pushText(definition.description, texts);
+      pushJson(definition.parameters ?? definition.input_schema, texts);
+    }
+  }
+  return recognized ? { texts, messages } : null;
+}
+
+function emptyAccuracy(): TokenizerAccuracyStats {
+  return {
+    samples: 0,
+    estimated_tokens: 0,
+    actual_tokens: 0,
+    mean_abs_error_pct: 0,
+    last_error_pct: null,
+  };
+}
+
+export class TokenizerRegistry {
+  private readonly heuristic = new HeuristicTokenizer();
+  private encodings = new Map<string, Tokenizer | null>();
+  private loadErrors = new Map<string, string>();
+  private accuracy = new Map<string, TokenizerAccuracyStats>();
+
+  constructor(private readonly options: TokenizerRegistryOptions) {}
+
+  resolveEncoding(model: string): string | null {
+    const configured = this.options.encodingForModel?.(model);
+    if (configured) {
+      return configured;
+    }
+    const normalized = model.trim().toLowerCase();
+    const family = MODEL_FAMILY_ENCODINGS.find((entry) => normalized.startsWith(entry.prefix));
+    return family ? family.encoding : null;
+  }
+
+  resolve(model: string): Tokenizer {
+    const encoding = this.resolveEncoding(model);
+    if (!encoding || encoding === this.heuristic.name) {
+      return this.heuristic;
+    }
+    if (!this.encodings.has(encoding)) {
+      this.encodings.set(encoding, this.load(encoding));
+    }
+    return this.encodings.get(encoding) ?? this.heuristic;
+  }
+
+  countRequest(model: string, payload: unknown): TokenCount {
+    const extracted = extractTokenizableText(payload);
+    if (!extracted) {
+      let raw = "";
+      try {
+        raw = JSON.stringify(payload) ?? "";
+      } catch {
+        raw = "";
+      }
+      return { tokens: Math.max(1, Math.ceil(raw.length / 4)), tokenizer: "json-length" };
+    }
+    const tokenizer = this.resolve(model);
+    let tokens = 0;
+    for (const text of extracted.texts) {
+      tokens += tokenizer.count(text);
+    }
+    if (extracted.messages > 0) {
+      tokens += extracted.messages * MESSAGE_OVERHEAD_TOKENS + REPLY_PRIMING_TOKENS;
+    }
+    return { tokens: Math.max(1, tokens), tokenizer: tokenizer.name };
+  }
+
+  recordAccuracy(tokenizer: string, estimatedTokens: number, actualTokens: number): void {
+    if (actualTokens <= 0) {
+      return;
+    }
+    const stats = this.accuracy.get(tokenizer) ?? emptyAccuracy();
+    const errorPct = (Math.abs(estimatedTokens - actualTokens) / actualTokens) * 100;
+    stats.mean_abs_error_pct = (stats.mean_abs_error_pct * stats.samples + errorPct) / (stats.samples + 1);
+    stats.samples += 1;
+    stats.estimated_tokens += estimatedTokens;
+    stats.actual_tokens += actualTokens;
+    stats.last_error_pct = Number(errorPct.toFixed(2));
+    this.accuracy.set(tokenizer, stats);
+  }
+
+  getStats(): {
+    data_directory: string;
+    loaded_encodings: string[];
+    load_errors: Record<string, string>;
+    accuracy: Record<string, TokenizerAccuracyStats>;
+  } {
+    return {
+      data_directory: this.options.dataDirectory,
+      loaded_encodings: [...this.encodings.entries()].filter(([, value]) => value !== null).map(([key]) => key),
+      load_errors: Object.fromEntries(this.loadErrors),
+      accuracy: Object.fromEntries(
+        [...this.accuracy.entries()].map(([key, stats]) => [
+          key,
+          { ...stats, mean_abs_error_pct: Number(stats.mean_abs_error_pct.toFixed(2)) },
+        ]),
+      ),
+    };
+  }
+
+  private load(encoding: string): Tokenizer | null {
+    try {
+      return new TiktokenTokenizer(encoding, loadRanks(this.options.dataDirectory, encoding));
+    } catch (error) {
+      this.loadErrors.set(encoding, error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import type { ToolIntent } from "./inference-provider";
+
+export type ToolInvocationFormat = "openai-chat" | "openai-responses" | "anthropic-messages" | "direct";
+
+export interface ToolInvocation {
+  name: string;
+  arguments: unknown;
+  id: string | null;
+  format: ToolInvocationFormat;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function parseArguments(value: unknown): unknown {
+  if (value === undefined || value === null || value === "") {
+    return {};
+  }
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+}
+
+export function createToolInvocation(
+  format: ToolInvocationFormat,
+  name: unknown,
+  args: unknown,
+  id: unknown,
+): ToolInvocation | null {
+  if (typeof name !== "string" || !name.trim()) {
+    return null;
+  }
+  return {
+    name: name.trim(),
+    arguments: parseArguments(args),
+    id: typeof id === "string" && id.trim() ? id.trim() : null,
+    format,
+  };
+}
+
+function fromOpenAiToolCalls(toolCalls: unknown, out: ToolInvocation[]): void {
+  if (!Array.isArray(toolCalls)) {
+    return;
+  }
+  for (const call of toolCalls) {
+    const record = asRecord(call);
+    const fn = asRecord(record?.function);
+    const parsed = fn ? createToolInvocation("openai-chat", fn.name, fn.arguments, record?.id) : null;
+    if (parsed) {
+      out.push(parsed);
+    }
+  }
+}
+
+function fromResponsesItems(items: unknown, out: ToolInvocation[]): void {
+  if (!Array.isArray(items)) {
+    return;
+  }
+  for (const item of items) {
+    const record = asRecord(item);
+    if (record?.type !== "function_call") {
+      continue;
+    }
+    const parsed = createToolInvocation("openai-responses", record.name, record.arguments, record.call_id ?? record.id);
+    if (parsed) {
+      out.push(parsed);
+    }
+  }
+}
+
+function fromAnthropicBlocks(blocks: unknown, out: ToolInvocation[]): void {
+  if (!Array.isArray(blocks)) {
+    return;
+  }
+  for (const block of blocks) {
+    const record = asRecord(block);
+    if (record?.type !== "tool_use") {
+      continue;
+    }
+    const parsed = createToolInvocation("anthropic-messages", record.name, record.input, record.id);
+    if (parsed) {
+      out.push(parsed);
+    }
+  }
+}
+
+export function extractToolInvocations(payload: unknown): ToolInvocation[] {
+  const record = asRecord(payload);
+  if (!record) {
+    return [];
+  }
+  const out: ToolInvocation[] = [];
+
+  if (typeof record.tool === "string") {
+    const direct = createToolInvocation("direct", record.tool, record.arguments ?? record.args ?? record.input, null);
+    if (direct) {
+      out.push(direct);
+    }
+  }
+
+  if (Array.isArray(record.messages)) {
+    for (const message of record.messages) {
+      const msg = asRecord(message);
+      if (!msg) {
+        continue;
+      }
+      fromOpenAiToolCalls(msg.tool_calls, out);
+      fromAnthropicBlocks(msg.content, out);
+    }
+  }
+  if (Array.isArray(record.choices)) {
+    for (const choice of record.choices) {
+      fromOpenAiToolCalls(asRecord(asRecord(choice)?.message)?.tool_calls, out);
+    }
+  }
+
+  fromResponsesItems(record.input, out);
+  fromResponsesItems(record.output, out);
+  fromAnthropicBlocks(record.content, out);
+
+  return out;
+}
+
+export interface ToolResultText {
+  source: string;
+  text: string;
+}
+
+function contentText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.map(contentText).filter(Boolean).join("\n");
+  }
+  const record = asRecord(content);
+  if (!record) {
+    return "";
+  }
+  if (typeof record.text === "string") {
+    return record.text;
+  }
+  return contentText(record.content ?? record.output);
+}
+
+// Tool output the model is about to read: `role: "tool"` chat messages, Responses `function_call_output`
+// items and Anthropic `tool_result` blocks.
+export function extractToolResults(payload: unknown): ToolResultText[] {
+  const record = asRecord(payload);
+  if (!record) {
+    return [];
+  }
+  const out: ToolResultText[] = [];
+  const push = (source: string, content: unknown) => {
+    const text = contentText(content).trim();
+    if (text) {
+      out.push({ source, text });
+    }
+  };
+
+  if (Array.isArray(record.messages)) {
+    record.messages.forEach((message, index) => {
+      const msg = asRecord(message);
+      if (!msg) {
+        return;
+      }
+      if (msg.role === "tool") {
+        push(`messages[${index}]`, msg.content);
+      }
+      if (Array.isArray(msg.content)) {
+        msg.content.forEach((block, blockIndex) => {
+          const entry = asRecord(block);
+          if (entry?.type === "tool_result") {
+            push(`messages[${index}].content[${blockIndex}]`, entry.content);
+          }
+        });
+      }
+    });
+  }
+  if (Array.isArray(record.input)) {
+    record.input.forEach((item, index) => {
+      const entry = asRecord(item);
+      if (entry?.type === "function_call_output") {
+        push(`input[${index}]`, entry.output);
+      }
+    });
+  }
+
+  return out;
+}
+
+export function extractDeclaredToolNames(payload: unknown): string[] {
+  const record = asRecord(payload);
+  if (!record || !Array.isArray(record.tools)) {
+    return [];
+  }
+  const names = new Set<string>();
+  for (const tool of record.tools) {
+    const entry = asRecord(tool);
+    const name = entry?.name ?? asRecord(entry?.function)?.name;
+    if (typeof name === "string" && name.trim()) {
+      names.add(name.trim());
+    }
+  }
+  return [...names];
+}
+
+export function extractToolIntent(body: unknown): ToolIntent {
+  const record = asRecord(body);
+  if (!record) {
+    return { hasToolIntent: false, toolNames: [], invocations: [] };
+  }
+
+  const invocations = extractToolInvocations(record);
+  const names = new Set<string>(extractDeclaredToolNames(record));
+  for (const call of invocations) {
+    names.add(call.name);
+  }
+
+  let hasToolIntent = Array.isArray(record.tools) || invocations.length > 0;
+  if (typeof record.tool === "string" && record.tool.trim()) {
+    hasToolIntent = true;
+  }
+  if (Array.isArray(record.messages)) {
+    for (const message of record.messages) {
+      if (Array.isArray(asRecord(message)?.tool_calls)) {
+        hasToolIntent = true;
+      }
+    }
+  }
+
+  return {
+    hasToolIntent,
+    toolNames: [...names],
+    invocations,
+  };
+}
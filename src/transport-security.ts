@@ -36,6 +36,7 @@ export interface TargetTransportConfig {
 export interface TransportAgents {
   upstreamAgent?: http.Agent;
   inferenceAgent?: http.Agent;
+  upstreamAgents: Record<string, http.Agent | undefined>;
   summary: Array<{
     target: string;
     protocol: string;
@@ -125,12 +126,17 @@ function buildAgent(config: TargetTransportConfig): { agent?: http.Agent; meta:
 export function buildTransportAgents(
   upstream: TargetTransportConfig,
   inference: TargetTransportConfig,
+  additionalUpstreams: TargetTransportConfig[] = [],
 ): TransportAgents {
   const upstreamBuilt = buildAgent(upstream);
   const inferenceBuilt = buildAgent(inference);
+  const additionalBuilt = additionalUpstreams.map((config) => buildAgent(config));
   return {
     upstreamAgent: upstreamBuilt.agent,
     inferenceAgent: inferenceBuilt.agent,
-    summary: [upstreamBuilt.meta, inferenceBuilt.meta],
+    upstreamAgents: Object.fromEntries(
+      additionalUpstreams.map((config, index) => [config.targetName, additionalBuilt[index].agent]),
+    ),
+    summary: [upstreamBuilt.meta, inferenceBuilt.meta, ...additionalBuilt.map((built) => built.meta)],
   };
 }
@@ -9,40 +9,106 @@ import {
   type RequestHandler as ProxyRequestHandler,
 } from "http-proxy-middleware";
 import type { AuditLedger } from "./audit-ledger";
-import { ApprovalService } from "./approval-service";
+import {
+  type ApprovalPayloadInput,
+  type ApprovalRecord,
+  ApprovalService,
+  ApprovalVoteConflictError,
+  normalizeStandingApprovalScope,
+  standingApprovalMatches,
+  type StandingApprovalRecord,
+  type StandingApprovalScope,
+} from "./approval-service";
 import { ApprovalAttestationService } from "./approval-attestation";
-import { ApprovalPolicyEngine } from "./approval-policy";
+import { ApprovalEscalationJobService } from "./approval-escalation-job";
+import {
+  type ApprovalBinding,
+  ApprovalPolicyEngine,
+  parseApprovalPolicyCatalogCandidate,
+} from "./approval-policy";
 import { AuditAttestationService } from "./audit-attestation";
 import { AlertNotifier } from "./alert-notifier";
 import {
   CapabilityPolicyEngine,
+  parseCapabilityCatalogCandidate,
 } from "./capability-policy";
 import { ChannelHub, type ChannelKind } from "./channel-hub";
 import { ChannelDeliveryService } from "./channel-delivery-service";
 import { ChannelDestinationPolicy } from "./channel-destination-policy";
-import { BudgetController, type CostEstimate } from "./budget-controller";
+import {
+  BudgetController,
+  costReportToCsv,
+  parseBudgetScope,
+  parseCostReportQuery,
+  type BudgetAttribution,
+  type BudgetWarning,
+  type CostEstimate,
+} from "./budget-controller";
 import type {
   AuditStartupVerifyMode,
   EnforcementMode,
+  ResponseGuardMode,
   RiskEvaluatorFailMode,
   SecurityInvariantsEnforcement,
 } from "./config";
 import { type ControlPermission, type ControlIdentity, ControlAuthz } from "./control-authz";
+import { DlpEngine } from "./dlp";
 import type { RiskEvaluator, ToolIntent } from "./inference-provider";
 import { InteractionStore } from "./interaction-store";
 import { parseInitiativeIntake, parseInitiativeProvider } from "./initiative-intake";
 import type { InitiativeControlService } from "./initiative-engine";
+import type { InjectionScanResult, InjectionSegment, PromptInjectionDetector } from "./injection-detector";
 import { parseOpenClawHeartbeat, parseOpenClawWorkItem } from "./openclaw-intake";
 import { validateModalityPayload, type ModalityPayloadValidationOptions } from "./modality-validation";
 import { ModelRegistry, type ModelModality } from "./model-registry";
 import { ModalityHub, type ModalityType } from "./modality-hub";
-import { PolicyEngine } from "./policy-engine";
-import { FixedWindowRateLimiter } from "./rate-limiter";
+import { ModelSubstitutionPolicy } from "./model-substitution";
+import { type PolicyDecision, PolicyEngine } from "./policy-engine";
+import { parsePolicyCatalogCandidate } from "./policy-catalog";
+import {
+  parsePolicyReplayInput,
+  POLICY_REPLAY_ACTIONS,
+  policyReplayCasesFromAudit,
+  simulatePolicyChanges,
+  type PolicyReplayInput,
+  type PolicySimulationCase,
+  type PolicySimulationEngines,
+} from "./policy-simulation";
+import { extractUsageBreakdown, type UsageBreakdown } from "./pricing-catalog";
+import { MemoryRateLimiter, RateLimiter, RateLimitPolicy } from "./rate-limiter";
 import { ReplayStore } from "./replay-store";
+import { ResponseCache, type CachedResponse, type ResponseCacheRequest } from "./response-cache";
+import {
+  ResponseGuard,
+  redactResponsePayload,
+  type ResponseGuardContext,
+  type ResponseInspection,
+} from "./response-guard";
+import { RiskEvaluatorCircuitOpenError, RiskEvaluatorGuard } from "./risk-evaluator-guard";
+import { RiskEvaluatorChain, RiskEvaluatorChainError } from "./risk-evaluators";
 import { RuntimeEgressGuard, RuntimeEgressPolicyError } from "./runtime-egress-guard";
 import { SecurityConformanceService } from "./security-conformance";
 import { SecurityInvariantRegistry } from "./security-invariants";
-import { sha256Hex, stableStringify } from "./utils";
+import { sessionToolNames, type SessionRiskTracker } from "./session-risk";
+import {
+  SseDetokenizer,
+  SseTextCollector,
+  SseToolCallCollector,
+  SseUsageMeter,
+  isEventStreamContentType,
+} from "./sse-stream";
+import { extractTokenizableText, TokenizerRegistry } from "./tokenizer";
+import { extractToolIntent, extractToolResults, type ToolInvocation } from "./tool-invocations";
+import {
+  PRIMARY_UPSTREAM,
+  PRIMARY_UPSTREAM_EGRESS_TARGET,
+  UpstreamRouter,
+  parseUpstreamRouteCatalog,
+  type UpstreamPlan,
+  type UpstreamRouteCatalog,
+  type UpstreamTarget,
+} from "./upstream-router";
+import { redactSensitive, sha256Hex, stableStringify } from "./utils";
 import type { VdiService } from "./vdi-service";
 
 export interface UncertaintyGateOptions {
@@ -83,13 +149,38 @@ export interface UncertaintyGateOptions {
   controlRateLimitMaxRequests: number;
   channelIngressRateLimitWindowSeconds: number;
   channelIngressRateLimitMaxRequests: number;
+  rateLimiter?: RateLimiter;
   channelMaxOutboundChars: number;
   maxRequestInputTokens: number;
   maxRequestOutputTokens: number;
+  streamMaxRequestUsd?: number;
+  streamBudgetCheckIntervalTokens?: number;
+  policySimulationCaptureBodies?: boolean;
+  responseGuardMode?: ResponseGuardMode;
+  tokenizerDataDirectory?: string;
   approvalTtlSeconds: number;
   approvalRequiredCount: number;
   approvalMaxUses: number;
   upstreamAgent?: http.Agent | https.Agent;
+  upstreamAgents?: Record<string, http.Agent | https.Agent | undefined>;
+  upstreamRoutes?: UpstreamRouteCatalog;
+  modelSubstitution?: ModelSubstitutionPolicy;
+  responseCache?: ResponseCache;
+  riskEvaluatorCacheTtlSeconds?: number;
+  riskEvaluatorCacheMaxEntries?: number;
+  riskEvaluatorBreakerFailureThreshold?: number;
+  riskEvaluatorBreakerLatencyMs?: number;
+  riskEvaluatorBreakerCooldownSeconds?: number;
+  sessionRisk?: SessionRiskTracker;
+  sessionIdHeader?: string;
+  injectionDetector?: PromptInjectionDetector;
+  dlp?: DlpEngine;
+  approvalChatChannel?: string;
+  approvalChatDestination?: string;
+  approvalEscalationIntervalSeconds?: number;
+  approvalNearExpirySeconds?: number;
+  approvalDelegationMaxSeconds?: number;
+  standingApprovalMaxSeconds?: number;
 }
 
 export interface UncertaintyGateService {
@@ -100,6 +191,13 @@ const MAX_MODALITY_SESSION_ID_CHARS = 256;
 const MAX_MODALITY_SOURCE_CHARS = 256;
 const MAX_CHANNEL_SOURCE_CHARS = 256;
 const MAX_CHANNEL_SENDER_CHARS = 256;
+const MAX_POLICY_SNAPSHOT_BODY_CHARS = 16384;
+const MAX_POLICY_SIMULATION_REQUESTS = 500;
+// Streamed text already inspected is re-read only this far back, so a match split across chunks is still seen.
+const STREAM_TEXT_INSPECTION_OVERLAP_CHARS = 1024;
+// Data-plane callers authenticate with a control catalog token here. Unlike the x-clawee-* attribution headers it
+// is verified, so it can scope standing approvals; it is never forwarded upstream.
+const AGENT_TOKEN_HEADER = "x-clawee-agent-token";
 
 function nonEmptyStringWithMax(value: unknown, maxChars: number): string {
   if (typeof value !== "string") {
@@ -112,6 +210,16 @@ function nonEmptyStringWithMax(value: unknown, maxChars: number): string {
   return trimmed;
 }
 
+// Text an agent will later read from an observation: channel/text payloads, vision OCR and audio transcripts.
+function modalityInjectionSegments(source: string, payload: unknown): InjectionSegment[] {
+  if (!isPlainObject(payload)) {
+    return [];
+  }
+  return (["text", "ocr_text", "transcript"] as const)
+    .filter((field) => typeof payload[field] === "string")
+    .map((field) => ({ source: `${source}:${field}`, text: payload[field] as string }));
+}
+
 function isPlainObject(value: unknown): value is Record<string, unknown> {
   if (!value || typeof value !== "object" || Array.isArray(value)) {
     return false;
@@ -191,6 +299,25 @@ function parseApprovalActorRoles(raw: string): Record<string, string> {
   }
 }
 
+// Delegator -> delegate who cast the vote. Principals keep their case, unlike role names.
+function parseApprovalDelegations(raw: string): Record<string, string> {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return {};
+    }
+    const out: Record<string, string> = {};
+    for (const [delegator, delegate] of Object.entries(parsed as Record<string, unknown>)) {
+      if (typeof delegate === "string" && delegator.trim() && delegate.trim()) {
+        out[delegator.trim()] = delegate.trim();
+      }
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
 function missingRequiredRoles(record: {
   required_roles: string;
   approval_actor_roles: string;
@@ -203,55 +330,6 @@ function missingRequiredRoles(record: {
   return requiredRoles.filter((role) => !actorRoles.has(role));
 }
 
-function extractToolIntent(body: unknown): ToolIntent {
-  if (!body || typeof body !== "object") {
-    return { hasToolIntent: false, toolNames: [] };
-  }
-
-  const record = body as Record<string, unknown>;
-  const names = new Set<string>();
-  let hasToolIntent = false;
-
-  if (Array.isArray(record.tools)) {
-    hasToolIntent = true;
-    for (const tool of record.tools) {
-      if (tool && typeof tool === "object") {
-        const maybeName = (tool as Record<string, unknown>).name;
-        if (typeof maybeName === "string" && maybeName.trim()) {
-          names.add(maybeName.trim());
-        }
-      }
-    }
-  }
-
-  if (typeof record.tool === "string" && record.tool.trim()) {
-    hasToolIntent = true;
-    names.add(record.tool.trim());
-  }
-
-  if (Array.isArray(record.messages)) {
-    for (const message of record.messages) {
-      if (!message || typeof message !== "object") {
-        continue;
-      }
-      const msg = message as Record<string, unknown>;
-      if (Array.isArray(msg.tool_calls)) {
-        hasToolIntent = true;
-      }
-    }
-  }
-
-  return {
-    hasToolIntent,
-    toolNames: [...names],
-  };
-}
-
-function estimateInputTokens(payload: unknown): number {
-  const raw = JSON.stringify(payload);
-  return Math.max(1, Math.ceil(raw.length / 4));
-}
-
 function extractOutputTokens(payload: unknown): number {
   if (!payload || typeof payload !== "object") {
     return 512;
@@ -613,36 +691,95 @@ function requestFingerprint(req: Request): string {
   return sha256Hex(`${req.method}|${req.originalUrl}|${stableStringify(req.body)}`);
 }
 
+// A bound approval ignores everything outside the binding (chat history, message ids, query strings), so it
+// survives benign re-submissions of the same tool call.
+function approvalFingerprint(req: Request, binding: ApprovalBinding | null): string {
+  if (!binding) {
+    return requestFingerprint(req);
+  }
+  return sha256Hex(`bound|${req.method}|${req.path}|${stableStringify(binding)}`);
+}
+
+// What approvers see in the approval detail view. subject names the action independently of its arguments so a
+// re-submission with different arguments is diffed against the last approved request for the same action.
+function approvalPayload(
+  req: Request,
+  subject: Array<string | null | undefined>,
+  decision: Pick<PolicyDecision, "decision" | "reason" | "riskClass" | "matchedSignals">,
+  toolCalls: Array<Pick<ToolInvocation, "name" | "arguments">>,
+): ApprovalPayloadInput {
+  return {
+    body: redactSensitive(req.body ?? null),
+    toolCalls: toolCalls.map((call) => ({ name: call.name, arguments: redactSensitive(call.arguments) })),
+    subjectKey: sha256Hex([req.method, req.path, ...subject.map((part) => part ?? "")].join("|")),
+    risk: {
+      decision: decision.decision,
+      reason: decision.reason,
+      risk_class: decision.riskClass,
+      matched_signals: decision.matchedSignals,
+    },
+  };
+}
+
 function approvalHeader(req: Request): string {
   return (req.header("x-clawee-approval-id") || "").trim();
 }
 
-function parseActualUsage(payload: unknown): { inputTokens: number; outputTokens: number; model: string } | null {
+function budgetAttribution(req: Request): BudgetAttribution {
+  const body = req.body && typeof req.body === "object" ? (req.body as Record<string, unknown>) : {};
+  const metadata =
+    body.metadata && typeof body.metadata === "object" && !Array.isArray(body.metadata)
+      ? (body.metadata as Record<string, unknown>)
+      : {};
+  const pick = (header: string, key: string): string | undefined => {
+    const fromHeader = (req.header(header) || "").trim();
+    if (fromHeader) {
+      return fromHeader;
+    }
+    const fromMetadata = metadata[key];
+    return typeof fromMetadata === "string" && fromMetadata.trim() ? fromMetadata.trim() : undefined;
+  };
+  return {
+    tenant: pick("x-clawee-tenant-id", "tenant_id"),
+    agent: pick("x-clawee-agent-id", "agent_id"),
+    principal: pick("x-clawee-principal", "principal"),
+    initiative: pick("x-clawee-initiative-id", "initiative_id"),
+  };
+}
+
+type ResponseCacheRequestState = Request & { __claweeResponseCacheRequest?: ResponseCacheRequest };
+type ApprovalCoverage =
+  | { kind: "standing"; scope: StandingApprovalScope }
+  | { kind: "binding"; binding: ApprovalBinding }
+  | { kind: "request"; invocations: ToolInvocation[] };
+type ApprovalCoverageState = Request & { __claweeApprovalId?: string; __claweeApprovalCoverage?: ApprovalCoverage };
+type DlpRequestState = Request & { __claweeDlpTokens?: Map<string, string> };
+type UpstreamRequestState = Request & { __claweeUpstreamPlan?: UpstreamPlan; __claweeUpstreamAttempt?: number };
+
+function currentUpstream(req: http.IncomingMessage): UpstreamTarget | null {
+  const state = req as UpstreamRequestState;
+  return state.__claweeUpstreamPlan?.candidates[state.__claweeUpstreamAttempt ?? 0] ?? null;
+}
+
+function parseActualUsage(payload: unknown): (UsageBreakdown & { model: string }) | null {
   if (!payload || typeof payload !== "object") {
     return null;
   }
   const record = payload as Record<string, unknown>;
-  const usage = (record.usage || {}) as Record<string, unknown>;
-  const inputTokens =
-    typeof usage.input_tokens === "number"
-      ? usage.input_tokens
-      : typeof usage.prompt_tokens === "number"
-        ? usage.prompt_tokens
-        : 0;
-  const outputTokens =
-    typeof usage.output_tokens === "number"
-      ? usage.output_tokens
-      : typeof usage.completion_tokens === "number"
-        ? usage.completion_tokens
-        : 0;
-
-  if (inputTokens <= 0 && outputTokens <= 0) {
+  const usage = extractUsageBreakdown(record.usage);
+  if (usage.images <= 0 && Array.isArray(record.data)) {
+    // Image generation responses report no usage object; count returned images instead.
+    usage.images = record.data.filter(
+      (item) => item && typeof item === "object" && ("b64_json" in item || "url" in item),
+    ).length;
+  }
+
+  if (usage.inputTokens <= 0 && usage.outputTokens <= 0 && usage.images <= 0 && usage.audioSeconds <= 0) {
     return null;
   }
 
   return {
-    inputTokens: Math.max(0, Math.floor(inputTokens)),
-    outputTokens: Math.max(0, Math.floor(outputTokens)),
+    ...usage,
     model: typeof record.model === "string" && record.model ? record.model : "unknown-model",
   };
 }
@@ -674,6 +811,8 @@ export async function startUncertaintyGate(
     reloadModelRegistry?: () => { fingerprint: string };
     reloadApprovalPolicyCatalog?: () => { fingerprint: string };
     reloadCapabilityCatalog?: () => { fingerprint: string };
+    reloadModelSubstitutionCatalog?: () => { fingerprint: string };
+    reloadDlpCatalog?: () => { fingerprint: string };
   },
   initiativeService?: InitiativeControlService,
   vdiService?: VdiService,
@@ -701,6 +840,474 @@ export async function startUncertaintyGate(
       });
     }
   };
+  const assertUpstreamEgress = (target: UpstreamTarget) =>
+    target.name === PRIMARY_UPSTREAM
+      ? runtimeEgressGuard.assertAllowed("upstream_base_url")
+      : runtimeEgressGuard.assertUrlAllowed(target.egressTarget, target.url);
+  const upstreamRouter = new UpstreamRouter(
+    options.upstreamBaseUrl,
+    options.upstreamRoutes ?? parseUpstreamRouteCatalog({}),
+    {
+      agents: { ...options.upstreamAgents, [PRIMARY_UPSTREAM_EGRESS_TARGET]: options.upstreamAgent },
+      assertEgress: assertUpstreamEgress,
+      onHealthChange: (change) => {
+        ledger.logAndSignAction("UPSTREAM_HEALTH_CHANGED", change);
+        void sendAlert(
+          `${change.healthy ? "upstream_recovered" : "upstream_unhealthy"}_${change.upstream}`,
+          change.healthy ? "info" : "critical",
+          change.healthy
+            ? `Claw-EE upstream ${change.upstream} recovered.`
+            : `Claw-EE marked upstream ${change.upstream} unhealthy.`,
+          { ...change },
+        );
+      },
+    },
+  );
+  upstreamRouter.start();
+  const planUpstream = (req: Request): UpstreamPlan =>
+    upstreamRouter.plan({
+      model: extractModel(req.body),
+      modality: inferModality(req.originalUrl, req.body),
+      tenant: budgetAttribution(req).tenant,
+    });
+  const egressAllowedPlan = async (
+    plan: UpstreamPlan,
+    req: Request,
+    securityDecisionId: string,
+  ): Promise<UpstreamPlan> => {
+    const candidates: UpstreamTarget[] = [];
+    let firstError: unknown = null;
+    for (const candidate of plan.candidates) {
+      try {
+        await assertUpstreamEgress(candidate);
+        candidates.push(candidate);
+      } catch (error) {
+        firstError = firstError ?? error;
+        if (plan.candidates.length > 1) {
+          ledger.logAndSignAction("RUNTIME_EGRESS_BLOCKED", {
+            path: req.originalUrl,
+            method: req.method,
+            target: candidate.egressTarget,
+            upstream: candidate.name,
+            details: error instanceof RuntimeEgressPolicyError ? error.result : { reason: String(error) },
+            security_decision_id: securityDecisionId,
+          });
+        }
+      }
+    }
+    if (candidates.length === 0) {
+      throw firstError;
+    }
+    return { ...plan, candidates };
+  };
+  const guardedRiskEvaluator = new RiskEvaluatorGuard(
+    riskEvaluator,
+    {
+      cacheTtlSeconds: options.riskEvaluatorCacheTtlSeconds ?? 0,
+      cacheMaxEntries: options.riskEvaluatorCacheMaxEntries ?? 1000,
+      failureThreshold: options.riskEvaluatorBreakerFailureThreshold ?? 0,
+      latencyThresholdMs: options.riskEvaluatorBreakerLatencyMs ?? 0,
+      cooldownSeconds: options.riskEvaluatorBreakerCooldownSeconds ?? 30,
+    },
+    {
+      onCircuitChange: (change) => {
+        ledger.logAndSignAction("RISK_EVALUATOR_CIRCUIT_CHANGED", {
+          ...change,
+          risk_evaluator_fail_mode: options.riskEvaluatorFailMode,
+        });
+        if (change.to === "open") {
+          void sendAlert(
+            "risk_evaluator_circuit_open",
+            "critical",
+            `Claw-EE risk evaluator circuit opened; applying fail mode "${options.riskEvaluatorFailMode}".`,
+            { ...change },
+          );
+        } else if (change.to === "closed") {
+          void sendAlert("risk_evaluator_circuit_closed", "info", "Claw-EE risk evaluator circuit recovered.", {
+            ...change,
+          });
+        }
+      },
+    },
+  );
+  const modelSubstitution = options.modelSubstitution ?? new ModelSubstitutionPolicy();
+  const substituteModel = async (
+    req: Request,
+    model: string,
+    modality: ModelModality,
+    estimate: CostEstimate,
+    attribution: BudgetAttribution,
+    securityDecisionId: string,
+  ): Promise<CostEstimate | null> => {
+    const match = modelSubstitution.match(model);
+    if (!match) {
+      return null;
+    }
+    const pressure = await budgetController.getBudgetPressure(estimate, attribution);
+    if (!pressure || pressure.utilization * 100 < match.thresholdPct) {
+      return null;
+    }
+    for (const candidate of match.to) {
+      if (!modelRegistry.evaluate(candidate, modality).allowed) {
+        continue;
+      }
+      let candidateEstimate: CostEstimate;
+      try {
+        candidateEstimate = budgetController.estimateCost(candidate, estimate.inputTokens, estimate.outputTokens);
+      } catch {
+        continue;
+      }
+      if (candidateEstimate.estimatedUsd >= estimate.estimatedUsd) {
+        continue;
+      }
+      req.body.model = candidate;
+      try {
+        (req as UpstreamRequestState).__claweeUpstreamPlan = await egressAllowedPlan(
+          planUpstream(req),
+          req,
+          securityDecisionId,
+        );
+      } catch {
+        req.body.model = model;
+        continue;
+      }
+      ledger.logAndSignAction("MODEL_SUBSTITUTED", {
+        path: req.originalUrl,
+        from: model,
+        to: candidate,
+        modality,
+        scope: pressure.scope,
+        period: pressure.period,
+        utilization_pct: Math.round(pressure.utilization * 10000) / 100,
+        threshold_pct: match.thresholdPct,
+        original_estimated_usd: estimate.estimatedUsd,
+        estimated_usd: candidateEstimate.estimatedUsd,
+        security_decision_id: securityDecisionId,
+      });
+      return candidateEstimate;
+    }
+    return null;
+  };
+  const responseCache = options.responseCache ?? null;
+  const dlp = options.dlp ?? new DlpEngine();
+  // Runs immediately before forwarding so approvals and policy see the body the client sent. Returns false
+  // when the request was blocked and a response has been written.
+  const applyDlp = (req: Request, res: express.Response, model: string, securityDecisionId: string): boolean => {
+    if (!dlp.isEnabled() || !req.body || typeof req.body !== "object") {
+      return true;
+    }
+    const result = dlp.apply(req.body);
+    if (result.action === "pass") {
+      return true;
+    }
+    const details = {
+      path: req.originalUrl,
+      method: req.method,
+      model,
+      findings: result.findings,
+      security_decision_id: securityDecisionId,
+    };
+    if (result.action === "block") {
+      ledger.logAndSignAction("DLP_REQUEST_BLOCKED", details);
+      void sendAlert("dlp_request_blocked", "critical", "Claw-EE DLP blocked an outbound request.", details);
+      res.status(403).json({
+        error: "Blocked by Claw-EE DLP policy.",
+        detectors: result.findings
+          .filter((finding) => finding.action === "block")
+          .map((finding) => finding.detector),
+      });
+      return false;
+    }
+    req.body = result.body;
+    (req as DlpRequestState).__claweeDlpTokens = result.tokens;
+    ledger.logAndSignAction("DLP_REQUEST_REDACTED", { ...details, tokens: result.tokens.size });
+    return true;
+  };
+  const detokenizeResponse = (req: http.IncomingMessage, text: string, jsonEscaped: boolean): string => {
+    const tokens = (req as DlpRequestState).__claweeDlpTokens;
+    return tokens ? dlp.detokenize(text, tokens, jsonEscaped) : text;
+  };
+  const injectionDetector = options.injectionDetector ?? null;
+  const scanForInjection = async (
+    stage: "proxy" | "channel-inbound" | "modality-ingest",
+    req: Request,
+    segments: InjectionSegment[],
+    securityDecisionId?: string,
+  ): Promise<InjectionScanResult | null> => {
+    if (!injectionDetector || segments.length === 0) {
+      return null;
+    }
+    const result = await injectionDetector.scan(segments);
+    if (result.classifier_error) {
+      ledger.logAndSignAction("SYSTEM_ERROR", {
+        module: "uncertainty-gate",
+        stage: "injection-classifier",
+        path: req.originalUrl,
+        message: result.classifier_error,
+      });
+    }
+    if (result.signals.length > 0) {
+      ledger.logAndSignAction("PROMPT_INJECTION_DETECTED", {
+        stage,
+        path: req.originalUrl,
+        method: req.method,
+        signals: result.signals,
+        findings: result.findings,
+        classifier: result.classifier,
+        security_decision_id: securityDecisionId ?? null,
+      });
+      void sendAlert("prompt_injection_detected", "warning", "Claw-EE detected prompt-injection indicators.", {
+        stage,
+        path: req.originalUrl,
+        signals: result.signals,
+      });
+    }
+    return result;
+  };
+  // Ingress has no upstream call to hold back, so a non-allow decision rejects the event. Approved events are
+  // re-submitted with x-clawee-approval-id.
+  const screenIngress = async (
+    req: Request,
+    res: express.Response,
+    stage: "channel-inbound" | "modality-ingest",
+    context: { channel: string; source: string; action: string; segments: InjectionSegment[] },
+  ): Promise<boolean> => {
+    const injection = await scanForInjection(stage, req, context.segments);
+    if (!injection || injection.signals.length === 0) {
+      return true;
+    }
+    const policyDecision = policyEngine.evaluate({
+      path: req.originalUrl,
+      method: req.method,
+      body: {
+        channel: context.channel,
+        source: context.source,
+        text: context.segments.map((segment) => segment.text).join("\n"),
+      },
+      model: "control-plane",
+      modality: "text",
+      intent: { hasToolIntent: false, toolNames: [] },
+      channel: context.channel,
+      signals: injection.signals,
+    });
+    if (policyDecision.decision === "allow") {
+      return true;
+    }
+    if (policyDecision.decision === "block") {
+      ledger.logAndSignAction("POLICY_BLOCKED_ACTION", {
+        path: req.originalUrl,
+        method: req.method,
+        model: "control-plane",
+        modality: "text",
+        reason: policyDecision.reason,
+        matched_signals: policyDecision.matchedSignals,
+      });
+      void sendAlert("policy_blocked_action", "critical", "Claw-EE blocked inbound content by policy.", {
+        path: req.originalUrl,
+        reason: policyDecision.reason,
+        matched_signals: policyDecision.matchedSignals,
+      });
+      res.status(403).json({
+        error: "Blocked by Claw-EE policy engine.",
+        reason: policyDecision.reason,
+        matched_signals: policyDecision.matchedSignals,
+      });
+      return false;
+    }
+    const fingerprint = requestFingerprint(req);
+    const approvalId = approvalHeader(req);
+    if (approvalId.length > 0 && (await approvalService.consumeApproved(approvalId, fingerprint))) {
+      ledger.logAndSignAction("APPROVAL_GRANTED", {
+        approval_id: approvalId,
+        path: req.originalUrl,
+        method: req.method,
+        source: "request-header",
+        consumed: true,
+      });
+      return true;
+    }
+    const approvalRequirements = approvalPolicy.evaluate({
+      policyDecision,
+      channel: context.channel,
+      action: context.action,
+      toolNames: [],
+    });
+    const created = await approvalService.getOrCreatePending({
+      requestFingerprint: fingerprint,
+      reason: policyDecision.reason,
+      metadata: {
+        path: req.originalUrl,
+        method: req.method,
+        channel: context.channel || null,
+        source: context.source,
+        signals: policyDecision.matchedSignals,
+        required_approvals: approvalRequirements.requiredApprovals,
+        required_roles: approvalRequirements.requiredRoles,
+      },
+      ttlSeconds: options.approvalTtlSeconds,
+      requiredApprovals: approvalRequirements.requiredApprovals,
+      requiredRoles: approvalRequirements.requiredRoles,
+      maxUses: options.approvalMaxUses,
+      escalation: approvalRequirements.escalation,
+      payload: approvalPayload(req, [context.action, context.channel], policyDecision, []),
+    });
+    if (created.created) {
+      ledger.logAndSignAction("APPROVAL_CREATED", {
+        approval_id: created.record.id,
+        reason: created.record.reason,
+        expires_at: created.record.expires_at,
+      });
+      notifyApprovalChat(created.record);
+    }
+    ledger.logAndSignAction("APPROVAL_REQUIRED", {
+      approval_id: created.record.id,
+      path: req.originalUrl,
+      method: req.method,
+      reason: policyDecision.reason,
+      signals: policyDecision.matchedSignals,
+      required_approvals: created.record.required_approvals,
+      required_roles: parseRequiredRoles(created.record.required_roles),
+    });
+    res.status(428).json({
+      error: "Approval required by Claw-EE policy engine.",
+      approval_id: created.record.id,
+      expires_at: created.record.expires_at,
+      reason: policyDecision.reason,
+      matched_signals: policyDecision.matchedSignals,
+      required_approvals: created.record.required_approvals,
+      required_roles: parseRequiredRoles(created.record.required_roles),
+    });
+    return false;
+  };
+  const sessionRisk = options.sessionRisk ?? null;
+  const sessionIdHeader = (options.sessionIdHeader || "x-clawee-session-id").toLowerCase();
+  // Session ids are only unique per tenant, so two tenants reusing an id never share a window.
+  const sessionRiskKey = (req: Request): string | null => {
+    if (!sessionRisk) {
+      return null;
+    }
+    const body = req.body && typeof req.body === "object" ? (req.body as Record<string, unknown>) : {};
+    const metadata =
+      body.metadata && typeof body.metadata === "object" && !Array.isArray(body.metadata)
+        ? (body.metadata as Record<string, unknown>)
+        : {};
+    const fromMetadata = metadata.session_id ?? metadata.conversation_id;
+    const sessionId = (
+      req.header(sessionIdHeader) || (typeof fromMetadata === "string" ? fromMetadata : "")
+    ).trim();
+    if (!sessionId) {
+      return null;
+    }
+    return `${budgetAttribution(req).tenant ?? ""}|${sessionId.slice(0, 256)}`;
+  };
+  const responseCacheRequest = (req: Request, model: string, hasToolIntent: boolean): ResponseCacheRequest | null => {
+    if (!responseCache) {
+      return null;
+    }
+    const cacheControl = (req.header("cache-control") || "").toLowerCase();
+    if (
+      hasToolIntent ||
+      !isPlainObject(req.body) ||
+      req.body.stream === true ||
+      cacheControl.includes("no-cache") ||
+      cacheControl.includes("no-store") ||
+      responseCache.ttlFor(model) <= 0
+    ) {
+      responseCache.recordBypass();
+      return null;
+    }
+    // Callers never share entries: the partition is the authenticated principal, not a self-asserted tenant, and
+    // scopes both exact and similarity lookups. Unauthenticated callers have no partition and are not cached.
+    const caller = callerIdentity(req);
+    if (!caller) {
+      responseCache.recordBypass();
+      return null;
+    }
+    const partition = sha256Hex(`${req.method}|${req.path}|${model}|${caller.principal}`);
+    return {
+      key: sha256Hex(`${partition}|${requestFingerprint(req)}`),
+      partition,
+      model,
+      text: extractTokenizableText(req.body)?.texts.join("\n") ?? "",
+    };
+  };
+  const serveCachedResponse = async (
+    req: Request,
+    res: express.Response,
+    cacheRequest: ResponseCacheRequest,
+    estimate: CostEstimate,
+    attribution: BudgetAttribution,
+    securityDecisionId: string,
+  ): Promise<boolean> => {
+    let cached: CachedResponse | null = null;
+    try {
+      cached = await (responseCache as ResponseCache).lookup(cacheRequest);
+    } catch (error) {
+      ledger.logAndSignAction("SYSTEM_ERROR", {
+        module: "uncertainty-gate",
+        stage: "response-cache",
+        path: req.originalUrl,
+        message: error instanceof Error ? error.message : String(error),
+        security_decision_id: securityDecisionId,
+      });
+    }
+    if (!cached) {
+      (req as ResponseCacheRequestState).__claweeResponseCacheRequest = cacheRequest;
+      res.setHeader("x-clawee-cache", "miss");
+      return false;
+    }
+    reportBudgetWarnings(
+      await budgetController.recordActual({
+        ...estimate,
+        estimatedUsd: 0,
+        requestPath: req.originalUrl,
+        attribution,
+        reservationId: (req as Request & { __claweeBudgetReservation?: string }).__claweeBudgetReservation,
+      }),
+      securityDecisionId,
+    );
+    ledger.logAndSignAction("RESPONSE_CACHE_HIT", {
+      path: req.originalUrl,
+      model: cacheRequest.model,
+      cache_key: cached.key,
+      similarity: cached.similarity,
+      cached_at: cached.createdAt,
+      usd_cost: 0,
+      avoided_estimated_usd: estimate.estimatedUsd,
+      tenant: attribution.tenant ?? null,
+      security_decision_id: securityDecisionId,
+    });
+    res.status(cached.statusCode);
+    res.setHeader("content-type", cached.contentType);
+    res.setHeader("x-clawee-cache", cached.similarity === null ? "hit" : "similar-hit");
+    res.end(cached.body);
+    return true;
+  };
+  const reportBudgetWarnings = (warnings: BudgetWarning[], securityDecisionId: string | null): void => {
+    for (const warning of warnings) {
+      const details = {
+        scope: warning.scope,
+        period: warning.period,
+        threshold_pct: warning.thresholdPct,
+        usd: warning.usd,
+        cap_usd: warning.capUsd,
+        utilization: warning.utilization,
+        period_start: warning.periodStart,
+        period_end: warning.periodEnd,
+        projected_usd: warning.projectedUsd,
+      };
+      ledger.logAndSignAction("BUDGET_WARNING", {
+        ...details,
+        security_decision_id: securityDecisionId,
+      });
+      void sendAlert(
+        `budget_warning_${warning.thresholdPct}`,
+        "warning",
+        `Claw-EE ${warning.period} budget for ${warning.scope} reached ${warning.thresholdPct}% of its cap.`,
+        details,
+      );
+    }
+  };
   const persistInteraction = (
     stage: string,
     fn: () => void,
@@ -717,24 +1324,124 @@ export async function startUncertaintyGate(
       });
     }
   };
-  const invariantCheck = (input: {
-    id: string;
-    passed: boolean;
-    reason?: string;
-    context?: Record<string, unknown>;
-    securityDecisionId?: string;
-  }): boolean => {
-    invariantRegistry.check({
-      id: input.id,
-      passed: input.passed,
-      reason: input.reason,
-      context: input.context,
+  const approvalChatChannel = options.approvalChatChannel?.trim() ? parseChannelKind(options.approvalChatChannel) : null;
+  const approvalChatDestination = options.approvalChatDestination?.trim() || "";
+  if (options.approvalChatChannel?.trim() && (!approvalChatChannel || !approvalChatDestination)) {
+    throw new Error("Approval chat notifications require a supported channel and a destination.");
+  }
+  // Queued like any other outbound channel message, so connector, destination policy and retry rules apply.
+  const notifyApprovalChat = (
+    record: ApprovalRecord,
+    type: "approval_request" | "approval_reminder" | "approval_escalated" = "approval_request",
+  ): void => {
+    if (!approvalChatChannel) {
+      return;
+    }
+    const requiredRoles = parseRequiredRoles(record.required_roles);
+    const headline =
+      type === "approval_reminder"
+        ? "Claw-EE approval still pending"
+        : type === "approval_escalated"
+          ? `Claw-EE approval escalated to ${requiredRoles.join(", ")}`
+          : "Claw-EE approval required";
+    const queued = channelHub.queueOutbound({
+      channel: approvalChatChannel,
+      destination: approvalChatDestination,
+      text: `${headline}: ${record.reason} (approval ${record.id}, expires ${record.expires_at}).`,
+      metadata: {
+        type,
+        approval_id: record.id,
+        reason: record.reason,
+        expires_at: record.expires_at,
+        required_approvals: record.required_approvals,
+        required_roles: requiredRoles,
+        actions: ["approve", "deny"],
+        callback_path: `/_clawee/channel/${approvalChatChannel}/approvals`,
+      },
     });
-    if (!input.passed) {
-      ledger.logAndSignAction("SECURITY_INVARIANT_VIOLATION", {
-        invariant_id: input.id,
-        reason: input.reason || "invariant failed",
-        context: input.context || null,
+    ledger.logAndSignAction("APPROVAL_CHAT_NOTIFICATION_QUEUED", {
+      approval_id: record.id,
+      channel: approvalChatChannel,
+      destination: approvalChatDestination,
+      message_id: queued.id,
+      type,
+    });
+    persistInteraction("interaction-store:approval-chat", () => {
+      interactionStore.recordChannelOutbound(queued);
+    }, { message_id: queued.id, approval_id: record.id });
+  };
+  const approvalEscalationJob = new ApprovalEscalationJobService(
+    {
+      enabled: (options.approvalEscalationIntervalSeconds ?? 30) > 0,
+      intervalSeconds: options.approvalEscalationIntervalSeconds ?? 30,
+    },
+    approvalService,
+    ledger,
+    {
+      onReminder: (record) => {
+        void sendAlert("approval_reminder", "info", "Claw-EE approval is still pending.", {
+          approval_id: record.id,
+          reason: record.reason,
+          expires_at: record.expires_at,
+        });
+        notifyApprovalChat(record, "approval_reminder");
+      },
+      onEscalation: (record, addedRoles) => {
+        void sendAlert("approval_escalated", "warning", "Claw-EE escalated a pending approval.", {
+          approval_id: record.id,
+          reason: record.reason,
+          added_roles: addedRoles,
+          expires_at: record.expires_at,
+        });
+        notifyApprovalChat(record, "approval_escalated");
+      },
+      onExpiry: (record) => {
+        const autoDenied = record.status === "denied";
+        void sendAlert(
+          autoDenied ? "approval_auto_denied" : "approval_expired",
+          "warning",
+          autoDenied
+            ? "Claw-EE denied an approval that expired without a decision."
+            : "Claw-EE approval expired without a decision.",
+          { approval_id: record.id, reason: record.reason, expires_at: record.expires_at },
+        );
+      },
+    },
+  );
+  approvalEscalationJob.start();
+  const approvalNearExpirySeconds = Math.max(0, options.approvalNearExpirySeconds ?? 300);
+  const callerIdentity = (req: Request): ControlIdentity | null => {
+    const state = req as Request & { __claweeCallerIdentity?: ControlIdentity | null };
+    if (state.__claweeCallerIdentity === undefined) {
+      const token = (req.header(AGENT_TOKEN_HEADER) || "").trim();
+      state.__claweeCallerIdentity = token ? options.controlAuthz.authenticate(token) : null;
+    }
+    return state.__claweeCallerIdentity;
+  };
+  const matchStandingApproval = (
+    req: Request,
+    tools: string[],
+    invocations: ToolInvocation[],
+  ): Promise<StandingApprovalRecord | null> =>
+    approvalService.findStandingApproval({ tools, agent: callerIdentity(req)?.principal ?? null, invocations });
+  const invariantCheck = (input: {
+    id: string;
+    passed: boolean;
+    reason?: string;
+    context?: Record<string, unknown>;
+    securityDecisionId?: string;
+  }): boolean => {
+    invariantRegistry.check({
+      id: input.id,
+      passed: input.passed,
+      reason: input.reason,
+      context: input.context,
+    });
+    if (!input.passed) {
+      ledger.logAndSignAction("SECURITY_INVARIANT_VIOLATION", {
+        invariant_id: input.id,
+        reason: input.reason || "invariant failed",
+        context: input.context || null,
         security_decision_id: input.securityDecisionId || null,
       });
       return options.securityInvariantsEnforcement !== "block";
@@ -751,14 +1458,25 @@ export async function startUncertaintyGate(
     }),
   );
   app.use(express.urlencoded({ extended: true }));
-  const controlLimiter = new FixedWindowRateLimiter(
-    options.controlRateLimitWindowSeconds,
-    options.controlRateLimitMaxRequests,
-  );
-  const channelLimiter = new FixedWindowRateLimiter(
-    options.channelIngressRateLimitWindowSeconds,
-    options.channelIngressRateLimitMaxRequests,
-  );
+  const rateLimiter = options.rateLimiter ?? new MemoryRateLimiter();
+  const controlRateLimit: RateLimitPolicy = {
+    windowSeconds: Number(options.controlRateLimitWindowSeconds || 60),
+    maxRequests: Number(options.controlRateLimitMaxRequests || 300),
+  };
+  const channelRateLimit: RateLimitPolicy = {
+    windowSeconds: Number(options.channelIngressRateLimitWindowSeconds || 60),
+    maxRequests: Number(options.channelIngressRateLimitMaxRequests || 300),
+  };
+  // Ingress is limited per client address, never per body field a caller can rotate. Authorized traffic is also
+  // keyed by credential so unauthenticated requests from the same address cannot spend a real caller's quota.
+  const ingressRateKey = (req: Request, credential: string | null): string => {
+    const address = `ip:${req.ip || "unknown"}`;
+    return credential ? `credential:${sha256Hex(credential).slice(0, 32)}:${address}` : address;
+  };
+  const tokenizerRegistry = new TokenizerRegistry({
+    dataDirectory: options.tokenizerDataDirectory || "",
+    encodingForModel: (model) => budgetController.getTokenizerEncoding(model),
+  });
   const modalityPayloadValidation: ModalityPayloadValidationOptions = {
     maxPayloadBytes: {
       text: Math.max(256, Math.floor(options.modalityTextMaxPayloadBytes)),
@@ -802,43 +1520,72 @@ export async function startUncertaintyGate(
   const controlAuth =
     (permission: ControlPermission): RequestHandler =>
     (req, res, next) => {
-      const rateKey = `control:${req.ip || "unknown"}`;
-      const rateDecision = controlLimiter.check(rateKey);
-      if (!rateDecision.allowed) {
-        ledger.logAndSignAction("RATE_LIMIT_BLOCKED", {
-          path: req.originalUrl,
-          method: req.method,
-          scope: "control",
-          retry_after_seconds: rateDecision.retryAfterSeconds,
-        });
-        res.setHeader("retry-after", String(rateDecision.retryAfterSeconds));
-        res.status(429).json({ error: "Control rate limit exceeded." });
-        return;
-      }
-      const token = controlTokenFromRequest(req);
-      const identity = options.controlAuthz.authenticate(token);
-      if (!identity) {
-        ledger.logAndSignAction("CONTROL_ACCESS_DENIED", {
+      void (async () => {
+        const token = controlTokenFromRequest(req);
+        const identity = options.controlAuthz.authenticate(token);
+        // Quotas follow the authenticated principal across addresses and nodes; failed logins count per address.
+        const rateKey = identity ? `control:principal:${identity.principal}` : `control:ip:${req.ip || "unknown"}`;
+        const rateDecision = await rateLimiter.check(rateKey, controlRateLimit);
+        if (!rateDecision.allowed) {
+          ledger.logAndSignAction("RATE_LIMIT_BLOCKED", {
+            path: req.originalUrl,
+            method: req.method,
+            scope: "control",
+            principal: identity?.principal ?? null,
+            retry_after_seconds: rateDecision.retryAfterSeconds,
+          });
+          res.setHeader("retry-after", String(rateDecision.retryAfterSeconds));
+          res.status(429).json({ error: "Control rate limit exceeded." });
+          return;
+        }
+        if (!identity) {
+          ledger.logAndSignAction("CONTROL_ACCESS_DENIED", {
+            path: req.originalUrl,
+            method: req.method,
+            permission,
+          });
+          res.status(401).json({ error: "Unauthorized control request." });
+          return;
+        }
+        if (!options.controlAuthz.can(identity, permission)) {
+          ledger.logAndSignAction("CONTROL_SCOPE_DENIED", {
+            path: req.originalUrl,
+            method: req.method,
+            principal: identity.principal,
+            role: identity.role,
+            permission,
+          });
+          res.status(403).json({ error: "Forbidden by control permission policy." });
+          return;
+        }
+        (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity = identity;
+        next();
+      })().catch((error) => {
+        ledger.logAndSignAction("SYSTEM_ERROR", {
+          module: "uncertainty-gate",
+          stage: "control-auth",
           path: req.originalUrl,
-          method: req.method,
-          permission,
+          message: error instanceof Error ? error.message : String(error),
         });
-        res.status(401).json({ error: "Unauthorized control request." });
-        return;
-      }
-      if (!options.controlAuthz.can(identity, permission)) {
-        ledger.logAndSignAction("CONTROL_SCOPE_DENIED", {
+        res.status(500).json({ error: "Control authorization failed." });
+      });
+    };
+  // Control routes backed by approval, budget or audit storage; a storage failure is audited and answered with
+  // 503 instead of leaving the request hanging.
+  const storageRoute =
+    (handler: (req: Request, res: express.Response) => Promise<void>): RequestHandler =>
+    (req, res) => {
+      handler(req, res).catch((error: unknown) => {
+        ledger.logAndSignAction("SYSTEM_ERROR", {
+          module: "uncertainty-gate",
+          stage: "control-storage",
           path: req.originalUrl,
-          method: req.method,
-          principal: identity.principal,
-          role: identity.role,
-          permission,
+          message: error instanceof Error ? error.message : String(error),
         });
-        res.status(403).json({ error: "Forbidden by control permission policy." });
-        return;
-      }
-      (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity = identity;
-      next();
+        if (!res.headersSent) {
+          res.status(503).json({ error: "Claw-EE storage is unavailable." });
+        }
+      });
     };
   const getInitiativeService = (res: express.Response): InitiativeControlService | null => {
     if (!initiativeService || !initiativeService.isEnabled()) {
@@ -855,8 +1602,14 @@ export async function startUncertaintyGate(
     return vdiService;
   };
 
-  app.get("/_clawee/control/status", controlAuth("system.read"), (_req, res) => {
-    const status = budgetController.getStatus();
+  app.get("/_clawee/control/status", controlAuth("system.read"), storageRoute(async (req, res) => {
+    let status: Awaited<ReturnType<BudgetController["getStatus"]>>;
+    try {
+      status = await budgetController.getStatus(parseBudgetScope(req.query.scope));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
     const controlAuthzState = options.controlAuthz.getState();
     const connectorState = channelDeliveryService.getConnectorState();
     const destinationPolicyState = channelDestinationPolicy.getState();
@@ -875,10 +1628,16 @@ export async function startUncertaintyGate(
       cluster_id: options.clusterId,
       warn_threshold: options.warnThreshold,
       risk_evaluator_fail_mode: options.riskEvaluatorFailMode,
+      risk_evaluator_chain: riskEvaluator instanceof RiskEvaluatorChain ? riskEvaluator.getState() : null,
+      risk_evaluator_guard: guardedRiskEvaluator.getState(),
+      session_risk: sessionRisk ? sessionRisk.getState() : { enabled: false },
+      prompt_injection: injectionDetector ? injectionDetector.getState() : { enabled: false },
       audit_startup_verify_mode: options.auditStartupVerifyMode,
       security_invariants_enforcement: options.securityInvariantsEnforcement,
       max_request_input_tokens: options.maxRequestInputTokens,
       max_request_output_tokens: options.maxRequestOutputTokens,
+      stream_max_request_usd: options.streamMaxRequestUsd ?? 0,
+      response_guard_mode: options.responseGuardMode ?? "off",
       channel_ingress_event_ttl_seconds: options.channelIngressEventTtlSeconds,
       channel_ingress_max_text_chars: options.channelIngressMaxTextChars,
       channel_max_outbound_chars: options.channelMaxOutboundChars,
@@ -894,6 +1653,21 @@ export async function startUncertaintyGate(
       model_registry_fingerprint: options.modelRegistryFingerprint,
       config_fingerprints: options.configFingerprints,
       budget: status,
+      budget_suspended_scopes: await budgetController.getSuspendedScopes(),
+      pricing_catalog: budgetController.getPricingState(),
+      upstreams: upstreamRouter.getState(),
+      model_substitution: modelSubstitution.getState(),
+      dlp: dlp.getState(),
+      approval_chat: {
+        enabled: approvalChatChannel !== null,
+        channel: approvalChatChannel,
+        destination: approvalChatDestination || null,
+      },
+      approval_escalation: {
+        enabled: (options.approvalEscalationIntervalSeconds ?? 30) > 0,
+        interval_seconds: options.approvalEscalationIntervalSeconds ?? 30,
+        near_expiry_seconds: approvalNearExpirySeconds,
+      },
       control_authz: controlAuthzState,
       channel_connectors: connectorState,
       channel_destination_policy: destinationPolicyState,
@@ -907,6 +1681,7 @@ export async function startUncertaintyGate(
       approval_policy: approvalPolicyState,
       capability_policy: capabilityPolicyState,
       replay_store: replayStoreState,
+      rate_limiter: rateLimiter.getState(),
       initiatives: initiativeStats,
       vdi_runtime: vdiStats,
       initiative_intake: {
@@ -928,67 +1703,207 @@ export async function startUncertaintyGate(
         last_heartbeat_at: openclawLastHeartbeatAt,
       },
     });
-  });
+  }));
 
-  app.post("/_clawee/control/resume", controlAuth("budget.control"), (req, res) => {
+  app.post("/_clawee/control/resume", controlAuth("budget.control"), storageRoute(async (req, res) => {
     const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
     const resumedBy = identity?.principal || "manual-operator";
-    budgetController.resume(resumedBy);
-    ledger.logAndSignAction("BUDGET_RESUMED", { resumed_by: resumedBy });
-    res.json({ ok: true, status: budgetController.getStatus() });
-  });
+    let scope: string;
+    try {
+      scope = parseBudgetScope(req.body?.scope);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    await budgetController.resume(resumedBy, scope);
+    ledger.logAndSignAction("BUDGET_RESUMED", { resumed_by: resumedBy, scope });
+    res.json({ ok: true, status: await budgetController.getStatus(scope) });
+  }));
 
-  app.post("/_clawee/control/suspend", controlAuth("budget.control"), (req, res) => {
+  app.post("/_clawee/control/suspend", controlAuth("budget.control"), storageRoute(async (req, res) => {
     const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
     const reason = typeof req.body?.reason === "string" ? req.body.reason : "Manual suspension request.";
-    budgetController.suspend(reason);
+    let scope: string;
+    try {
+      scope = parseBudgetScope(req.body?.scope);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    await budgetController.suspend(reason, scope);
     ledger.logAndSignAction("BUDGET_SUSPENDED", {
       reason,
+      scope,
       source: "manual",
       principal: identity?.principal || "unknown",
     });
-    res.json({ ok: true, status: budgetController.getStatus() });
-  });
+    res.json({ ok: true, status: await budgetController.getStatus(scope) });
+  }));
 
-  app.get("/_clawee/control/approvals/pending", controlAuth("approvals.read"), (_req, res) => {
-    const pending = approvalService.getPending();
+  app.get("/_clawee/control/budget/report", controlAuth("budget.read"), storageRoute(async (req, res) => {
+    const format = String(req.query.format || "json").trim().toLowerCase();
+    if (format !== "json" && format !== "csv") {
+      res.status(400).json({ error: "Cost report format must be json or csv." });
+      return;
+    }
+    let report: Awaited<ReturnType<BudgetController["getCostReport"]>>;
+    try {
+      report = await budgetController.getCostReport(parseCostReportQuery(req.query as Record<string, unknown>));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    if (format === "csv") {
+      const fileStamp = `${report.from.slice(0, 10)}_${report.to.slice(0, 10)}`;
+      res.setHeader("content-type", "text/csv; charset=utf-8");
+      res.setHeader("content-disposition", `attachment; filename="clawee-cost-report-${fileStamp}.csv"`);
+      res.send(costReportToCsv(report));
+      return;
+    }
+    res.json(report);
+  }));
+
+  app.get("/_clawee/control/approvals/pending", controlAuth("approvals.read"), storageRoute(async (_req, res) => {
+    const nowMs = Date.now();
+    const pending = (await approvalService.getPending()).map((record) => {
+      const expiresInSeconds = Math.max(0, Math.floor((new Date(record.expires_at).getTime() - nowMs) / 1000));
+      return {
+        ...record,
+        expires_in_seconds: expiresInSeconds,
+        near_expiry: expiresInSeconds <= approvalNearExpirySeconds,
+      };
+    });
     res.json({
       count: pending.length,
+      near_expiry_count: pending.filter((record) => record.near_expiry).length,
+      near_expiry_seconds: approvalNearExpirySeconds,
       approvals: pending,
     });
-  });
+  }));
+
+  // Shared by the control API and chat approval callbacks so both paths apply the same conflict-of-interest
+  // check, quorum accounting and audit trail.
+  // With onBehalfOf the caller exercises an active delegation: the approval is recorded under the delegator's
+  // principal and current role, and neither of them may be the requester.
+  // Turns a granted standing-approval proposal into a live standing approval. Consuming the approval first makes
+  // activation happen once even when the final votes land on different nodes.
+  const activateStandingApproval = async (row: ApprovalRecord): Promise<StandingApprovalRecord | null> => {
+    const metadata = parseApprovalMetadata(row.metadata);
+    const proposal = metadata.standing_approval as
+      | { scope?: unknown; reason?: unknown; ttl_seconds?: unknown; max_uses?: unknown }
+      | undefined;
+    if (!proposal || typeof proposal !== "object") {
+      return null;
+    }
+    if (!(await approvalService.consumeApproved(row.id, row.request_fingerprint))) {
+      return null;
+    }
+    const standing = await approvalService.createStandingApproval({
+      createdBy: typeof metadata.requested_by === "string" ? metadata.requested_by : "unknown",
+      createdByRole: typeof metadata.requested_by_role === "string" ? metadata.requested_by_role : "unknown",
+      reason: String(proposal.reason || row.reason),
+      scope: normalizeStandingApprovalScope(proposal.scope),
+      ttlSeconds: Math.min(standingApprovalMaxSeconds, Number(proposal.ttl_seconds) || 60),
+      maxUses: Number(proposal.max_uses) || 1,
+    });
+    const scope = JSON.parse(standing.scope) as StandingApprovalScope;
+    ledger.logAndSignAction("STANDING_APPROVAL_CREATED", {
+      standing_approval_id: standing.id,
+      approval_id: row.id,
+      created_by: standing.created_by,
+      approval_actors: parseApprovalActors(row.approval_actors),
+      scope,
+      expires_at: standing.expires_at,
+      max_uses: standing.max_uses,
+    });
+    void sendAlert("standing_approval_created", "warning", "Claw-EE standing approval was created.", {
+      standing_approval_id: standing.id,
+      created_by: standing.created_by,
+      scope,
+      expires_at: standing.expires_at,
+      max_uses: standing.max_uses,
+    });
+    return standing;
+  };
 
-  app.post("/_clawee/control/approvals/:id/approve", controlAuth("approvals.write"), (req, res) => {
+  const approveAs = async (
+    approvalId: string,
+    identity: ControlIdentity | undefined,
+    source: string,
+    onBehalfOf = "",
+  ): Promise<{ statusCode: number; body: Record<string, unknown> }> => {
     try {
-      const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
-      const actor = identity?.principal || "manual-operator";
-      const existing = approvalService.getById(req.params.id);
+      const caller = identity?.principal || "manual-operator";
+      let actor = caller;
+      let actorRole = identity?.role || "unknown";
+      let delegate = "";
+      if (onBehalfOf && onBehalfOf !== caller) {
+        const delegator = options.controlAuthz.resolvePrincipal(onBehalfOf);
+        const delegation = await approvalService.getActiveDelegation(onBehalfOf, caller);
+        if (!delegation || !delegator || !options.controlAuthz.can(delegator, "approvals.write")) {
+          ledger.logAndSignAction("APPROVAL_DELEGATION_DENIED", {
+            approval_id: approvalId,
+            delegate: caller,
+            on_behalf_of: onBehalfOf,
+            source,
+            reason: delegation ? "delegator-not-authorized" : "no-active-delegation",
+          });
+          return {
+            statusCode: 403,
+            body: { error: `No active delegation from ${onBehalfOf} to ${caller}.` },
+          };
+        }
+        actor = delegator.principal;
+        actorRole = delegator.role;
+        delegate = caller;
+      }
+      const existing = await approvalService.getById(approvalId);
       if (existing) {
         const metadata = parseApprovalMetadata(existing.metadata);
         const requestedBy = typeof metadata.requested_by === "string" ? metadata.requested_by : "";
-        if (requestedBy && requestedBy === actor) {
+        if (requestedBy && (requestedBy === actor || requestedBy === caller)) {
           ledger.logAndSignAction("APPROVAL_CONFLICT_OF_INTEREST_DENIED", {
-            approval_id: req.params.id,
+            approval_id: approvalId,
             actor,
             requested_by: requestedBy,
+            source,
+            ...(delegate ? { delegate } : {}),
           });
-          res.status(409).json({
-            error: "Approver cannot approve their own requested action.",
-          });
-          return;
+          return {
+            statusCode: 409,
+            body: { error: "Approver cannot approve their own requested action." },
+          };
+        }
+      }
+      let row: ApprovalRecord;
+      try {
+        row = await approvalService.approve(approvalId, actor, actorRole, delegate);
+      } catch (error) {
+        if (!(error instanceof ApprovalVoteConflictError)) {
+          throw error;
         }
+        ledger.logAndSignAction("APPROVAL_DUPLICATE_VOTE_DENIED", {
+          approval_id: approvalId,
+          actor,
+          source,
+          ...(delegate ? { delegate } : {}),
+          reason: error.message,
+        });
+        return { statusCode: 409, body: { error: error.message } };
       }
-      const row = approvalService.approve(req.params.id, actor, identity?.role || "unknown");
       const remaining = remainingApprovals(row);
       const missingRoles = missingRequiredRoles(row);
       if (row.status === "approved") {
         ledger.logAndSignAction("APPROVAL_GRANTED", {
           approval_id: row.id,
           actor,
+          source,
+          ...(delegate ? { delegate } : {}),
           required_approvals: row.required_approvals,
           required_roles: parseRequiredRoles(row.required_roles),
           approval_actors: parseApprovalActors(row.approval_actors),
           approval_actor_roles: parseApprovalActorRoles(row.approval_actor_roles),
+          approval_delegations: parseApprovalDelegations(row.approval_delegations),
         });
         void sendAlert("approval_granted", "info", "High-risk approval was granted.", {
           approval_id: row.id,
@@ -998,72 +1913,278 @@ export async function startUncertaintyGate(
           approval_actors: parseApprovalActors(row.approval_actors),
           approval_actor_roles: parseApprovalActorRoles(row.approval_actor_roles),
         });
-        res.json({
-          ok: true,
-          approval: row,
-          remaining_approvals: remaining,
-          missing_required_roles: missingRoles,
-        });
-        return;
+        const standing = await activateStandingApproval(row);
+        return {
+          statusCode: 200,
+          body: {
+            ok: true,
+            approval: row,
+            remaining_approvals: remaining,
+            missing_required_roles: missingRoles,
+            ...(standing ? { standing_approval: standing } : {}),
+          },
+        };
       }
       ledger.logAndSignAction("APPROVAL_REQUIRED", {
         approval_id: row.id,
         actor,
+        source,
+        ...(delegate ? { delegate } : {}),
         required_approvals: row.required_approvals,
         required_roles: parseRequiredRoles(row.required_roles),
         approval_actors: parseApprovalActors(row.approval_actors),
         approval_actor_roles: parseApprovalActorRoles(row.approval_actor_roles),
+        approval_delegations: parseApprovalDelegations(row.approval_delegations),
         remaining_approvals: remaining,
         missing_required_roles: missingRoles,
         stage: "partial-approval",
       });
-      res.status(202).json({
-        ok: false,
-        pending: true,
-        approval: row,
-        remaining_approvals: remaining,
-        missing_required_roles: missingRoles,
-      });
+      return {
+        statusCode: 202,
+        body: {
+          ok: false,
+          pending: true,
+          approval: row,
+          remaining_approvals: remaining,
+          missing_required_roles: missingRoles,
+        },
+      };
     } catch (error) {
-      res.status(404).json({ error: error instanceof Error ? error.message : String(error) });
+      return { statusCode: 404, body: { error: error instanceof Error ? error.message : String(error) } };
     }
-  });
+  };
 
-  app.post("/_clawee/control/approvals/:id/deny", controlAuth("approvals.write"), (req, res) => {
+  const denyAs = async (
+    approvalId: string,
+    identity: ControlIdentity | undefined,
+    source: string,
+  ): Promise<{ statusCode: number; body: Record<string, unknown> }> => {
     try {
-      const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
       const actor = identity?.principal || "manual-operator";
-      const row = approvalService.deny(req.params.id, actor);
+      const row = await approvalService.deny(approvalId, actor);
       ledger.logAndSignAction("APPROVAL_DENIED", {
         approval_id: row.id,
         actor,
+        source,
       });
       void sendAlert("approval_denied", "warning", "High-risk approval was denied.", {
         approval_id: row.id,
         actor,
       });
-      res.json({ ok: true, approval: row });
+      return { statusCode: 200, body: { ok: true, approval: row } };
     } catch (error) {
-      res.status(404).json({ error: error instanceof Error ? error.message : String(error) });
+      return { statusCode: 404, body: { error: error instanceof Error ? error.message : String(error) } };
     }
-  });
+  };
+
+  app.post("/_clawee/control/approvals/:id/approve", controlAuth("approvals.write"), storageRoute(async (req, res) => {
+    const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
+    const onBehalfOf = nonEmptyStringWithMax(req.body?.on_behalf_of, 256);
+    const result = await approveAs(req.params.id, identity, "control-api", onBehalfOf);
+    res.status(result.statusCode).json(result.body);
+  }));
+
+  app.post("/_clawee/control/approvals/:id/deny", controlAuth("approvals.write"), storageRoute(async (req, res) => {
+    const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
+    const result = await denyAs(req.params.id, identity, "control-api");
+    res.status(result.statusCode).json(result.body);
+  }));
+
+  const approvalDelegationMaxSeconds = Math.max(60, options.approvalDelegationMaxSeconds ?? 30 * 86400);
+  const standingApprovalMaxSeconds = Math.max(60, options.standingApprovalMaxSeconds ?? 86400);
+
+  app.get("/_clawee/control/approvals/delegations", controlAuth("approvals.read"), storageRoute(async (req, res) => {
+    const delegations = await approvalService.listDelegations(Number(req.query.limit || 100), req.query.all === "true");
+    res.json({ count: delegations.length, delegations });
+  }));
+
+  // Approvers delegate their own authority only; the delegate must already be able to resolve approvals.
+  app.post("/_clawee/control/approvals/delegations", controlAuth("approvals.write"), storageRoute(async (req, res) => {
+    const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
+    const delegatePrincipal = nonEmptyStringWithMax(req.body?.delegate, 256);
+    const ttlSeconds = Number(req.body?.ttl_seconds);
+    const startsAt = nonEmptyStringWithMax(req.body?.starts_at, 64);
+    if (!identity || !delegatePrincipal || !Number.isFinite(ttlSeconds) || ttlSeconds < 60) {
+      res.status(400).json({ error: "delegate and ttl_seconds (>= 60) are required." });
+      return;
+    }
+    if (ttlSeconds > approvalDelegationMaxSeconds) {
+      res.status(400).json({ error: `ttl_seconds exceeds the ${approvalDelegationMaxSeconds}s delegation limit.` });
+      return;
+    }
+    const delegate = options.controlAuthz.resolvePrincipal(delegatePrincipal);
+    if (!delegate || !options.controlAuthz.can(delegate, "approvals.write")) {
+      res.status(400).json({ error: "Delegate must be an active principal with approvals.write." });
+      return;
+    }
+    try {
+      const delegation = await approvalService.createDelegation({
+        delegator: identity.principal,
+        delegatorRole: identity.role,
+        delegate: delegate.principal,
+        reason: nonEmptyStringWithMax(req.body?.reason, 1024) || "delegation",
+        startsAt: startsAt || undefined,
+        ttlSeconds,
+      });
+      ledger.logAndSignAction("APPROVAL_DELEGATION_CREATED", {
+        delegator: delegation.delegator,
+        delegator_role: delegation.delegator_role,
+        delegate: delegation.delegate,
+        starts_at: delegation.starts_at,
+        expires_at: delegation.expires_at,
+      });
+      void sendAlert("approval_delegation_created", "info", "Claw-EE approval authority was delegated.", {
+        delegation_id: delegation.id,
+        delegator: delegation.delegator,
+        delegate: delegation.delegate,
+        starts_at: delegation.starts_at,
+        expires_at: delegation.expires_at,
+      });
+      res.status(201).json({ ok: true, delegation });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+  }));
+
+  app.post(
+    "/_clawee/control/approvals/delegations/:id/revoke",
+    controlAuth("approvals.write"),
+    storageRoute(async (req, res) => {
+      const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
+      const existing = await approvalService.getDelegationById(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: `Delegation not found: ${req.params.id}` });
+        return;
+      }
+      if (!identity || (identity.principal !== existing.delegator && !options.controlAuthz.can(identity, "*"))) {
+        res.status(403).json({ error: "Only the delegator can revoke a delegation." });
+        return;
+      }
+      const delegation = await approvalService.revokeDelegation(existing.id, identity.principal);
+      ledger.logAndSignAction("APPROVAL_DELEGATION_REVOKED", {
+        delegator: delegation.delegator,
+        delegate: delegation.delegate,
+        revoked_by: delegation.revoked_by,
+      });
+      res.json({ ok: true, delegation });
+    }),
+  );
+
+  app.get("/_clawee/control/approvals/standing", controlAuth("approvals.read"), storageRoute(async (req, res) => {
+    const standing = await approvalService.listStandingApprovals(
+      Number(req.query.limit || 100),
+      req.query.all === "true",
+    );
+    res.json({ count: standing.length, standing_approvals: standing });
+  }));
+
+  app.post("/_clawee/control/approvals/standing", controlAuth("approvals.standing"), storageRoute(async (req, res) => {
+    const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
+    const ttlSeconds = Number(req.body?.ttl_seconds);
+    const maxUses = Number(req.body?.max_uses);
+    const reason = nonEmptyStringWithMax(req.body?.reason, 1024);
+    if (!identity || !reason || !Number.isFinite(ttlSeconds) || ttlSeconds < 60 || !(maxUses >= 1)) {
+      res.status(400).json({ error: "scope, reason, ttl_seconds (>= 60) and max_uses (>= 1) are required." });
+      return;
+    }
+    if (ttlSeconds > standingApprovalMaxSeconds) {
+      res.status(400).json({ error: `ttl_seconds exceeds the ${standingApprovalMaxSeconds}s standing approval limit.` });
+      return;
+    }
+    let scope: StandingApprovalScope;
+    try {
+      scope = normalizeStandingApprovalScope(req.body?.scope);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    // A standing approval pre-approves the scope's tools, so it needs the quorum and roles the approval policy
+    // requires for those tools. It becomes live when that approval is granted (see activateStandingApproval).
+    const requirements = approvalPolicy.evaluate({
+      policyDecision: {
+        decision: "require_approval",
+        reason: "Standing approval requested.",
+        riskClass: "high",
+        matchedSignals: ["standing-approval"],
+      },
+      toolNames: scope.tools,
+    });
+    const proposal = { scope, reason, ttl_seconds: Math.floor(ttlSeconds), max_uses: Math.floor(maxUses) };
+    const created = await approvalService.getOrCreatePending({
+      requestFingerprint: `standing:${sha256Hex(stableStringify({ ...proposal, requested_by: identity.principal }))}`,
+      reason: `Standing approval: ${reason}`,
+      metadata: {
+        path: req.originalUrl,
+        method: req.method,
+        requested_by: identity.principal,
+        requested_by_role: identity.role,
+        standing_approval: proposal,
+        required_approvals: requirements.requiredApprovals,
+        required_roles: requirements.requiredRoles,
+      },
+      ttlSeconds: options.approvalTtlSeconds,
+      requiredApprovals: requirements.requiredApprovals,
+      requiredRoles: requirements.requiredRoles,
+      maxUses: 1,
+      escalation: requirements.escalation,
+    });
+    if (created.created) {
+      ledger.logAndSignAction("APPROVAL_CREATED", {
+        approval_id: created.record.id,
+        reason: created.record.reason,
+        expires_at: created.record.expires_at,
+      });
+      notifyApprovalChat(created.record);
+    }
+    res.status(202).json({
+      ok: false,
+      pending: true,
+      approval_id: created.record.id,
+      expires_at: created.record.expires_at,
+      required_approvals: created.record.required_approvals,
+      required_roles: parseRequiredRoles(created.record.required_roles),
+    });
+  }));
+
+  app.post(
+    "/_clawee/control/approvals/standing/:id/revoke",
+    controlAuth("approvals.standing"),
+    storageRoute(async (req, res) => {
+      const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
+      try {
+        const standing = await approvalService.revokeStandingApproval(
+          req.params.id,
+          identity?.principal || "manual-operator",
+        );
+        ledger.logAndSignAction("STANDING_APPROVAL_REVOKED", {
+          standing_approval_id: standing.id,
+          created_by: standing.created_by,
+          revoked_by: standing.revoked_by,
+          use_count: standing.use_count,
+        });
+        res.json({ ok: true, standing_approval: standing });
+      } catch (error) {
+        res.status(404).json({ error: error instanceof Error ? error.message : String(error) });
+      }
+    }),
+  );
 
-  app.get("/_clawee/control/audit/recent", controlAuth("audit.read"), (req, res) => {
+  app.get("/_clawee/control/audit/recent", controlAuth("audit.read"), storageRoute(async (req, res) => {
     const rawLimit = Number(req.query.limit || 100);
     const limit = Number.isNaN(rawLimit) ? 100 : rawLimit;
     res.json({
       count: Math.min(Math.max(1, Math.floor(limit)), 1000),
-      events: ledger.getRecent(limit),
+      events: await ledger.getRecent(limit),
     });
-  });
+  }));
 
-  app.get("/_clawee/control/audit/verify", controlAuth("audit.read"), (_req, res) => {
-    const report = ledger.verifyIntegrity();
+  app.get("/_clawee/control/audit/verify", controlAuth("audit.read"), storageRoute(async (_req, res) => {
+    const report = await ledger.verifyIntegrity();
     res.status(report.valid ? 200 : 409).json({
       ok: report.valid,
       report,
     });
-  });
+  }));
 
   app.get("/_clawee/control/security/invariants", controlAuth("system.read"), (_req, res) => {
     res.json({
@@ -1133,26 +2254,26 @@ export async function startUncertaintyGate(
     }
   });
 
-  app.get("/_clawee/control/audit/attestation", controlAuth("audit.read"), (req, res) => {
+  app.get("/_clawee/control/audit/attestation", controlAuth("audit.read"), storageRoute(async (req, res) => {
     const rawLimit = Number(req.query.limit || 1000);
     const limit = Number.isNaN(rawLimit) ? 1000 : rawLimit;
     const since = typeof req.query.since === "string" ? req.query.since : "";
-    const payload = auditAttestationService.generate(limit, since);
+    const payload = await auditAttestationService.generate(limit, since);
     ledger.logAndSignAction("AUDIT_ATTESTATION_GENERATED", {
       count: payload.count,
       final_hash: payload.final_hash,
       since: payload.since,
     });
     res.json(payload);
-  });
+  }));
 
-  app.post("/_clawee/control/audit/attestation/export", controlAuth("audit.read"), (req, res) => {
+  app.post("/_clawee/control/audit/attestation/export", controlAuth("audit.read"), storageRoute(async (req, res) => {
     const rawLimit = Number(req.body?.limit || 1000);
     const limit = Number.isNaN(rawLimit) ? 1000 : rawLimit;
     const since = typeof req.body?.since === "string" ? req.body.since : "";
     const snapshotPath = typeof req.body?.snapshot_path === "string" ? req.body.snapshot_path : "";
     const chainPath = typeof req.body?.chain_path === "string" ? req.body.chain_path : "";
-    const result = auditAttestationService.exportSealedSnapshot({
+    const result = await auditAttestationService.exportSealedSnapshot({
       snapshotPath,
       chainPath,
       limit,
@@ -1160,7 +2281,7 @@ export async function startUncertaintyGate(
     });
     ledger.logAndSignAction("AUDIT_ATTESTATION_EXPORTED", result);
     res.json({ ok: true, ...result });
-  });
+  }));
 
   app.post("/_clawee/control/audit/attestation/verify", controlAuth("audit.read"), (req, res) => {
     const snapshotPath = typeof req.body?.snapshot_path === "string" ? req.body.snapshot_path : "";
@@ -1441,7 +2562,7 @@ export async function startUncertaintyGate(
     }
   });
 
-  app.get("/_clawee/control/metrics", controlAuth("system.read"), (_req, res) => {
+  app.get("/_clawee/control/metrics", controlAuth("system.read"), storageRoute(async (_req, res) => {
     const uptimeSeconds = Math.floor(process.uptime());
     const controlAuthzState = options.controlAuthz.getState();
     const connectorState = channelDeliveryService.getConnectorState();
@@ -1479,13 +2600,16 @@ export async function startUncertaintyGate(
       approval_required_count: options.approvalRequiredCount,
       approval_max_uses: options.approvalMaxUses,
       config_fingerprints: options.configFingerprints,
-      budget: budgetController.getStatus(),
-      approvals: approvalService.getStats(),
+      budget: await budgetController.getStatus(),
+      tokenizers: tokenizerRegistry.getStats(),
+      upstreams: upstreamRouter.getState(),
+      response_cache: responseCache ? responseCache.getStats() : { enabled: false },
+      approvals: await approvalService.getStats(),
       channels: channelHub.stats(),
       modalities: modalityHub.stats(),
       interactions: interactionStore.counts(),
       audit: {
-        total_events: ledger.getCount(),
+        total_events: await ledger.getCount(),
       },
       control_authz: controlAuthzState,
       channel_connectors: connectorState,
@@ -1500,6 +2624,7 @@ export async function startUncertaintyGate(
       approval_policy: approvalPolicyState,
       capability_policy: capabilityPolicyState,
       replay_store: replayStoreState,
+      rate_limiter: rateLimiter.getState(),
       initiatives: initiativeStats,
       vdi_runtime: vdiStats,
       initiative_intake: {
@@ -1526,7 +2651,86 @@ export async function startUncertaintyGate(
         memory_heap_used: process.memoryUsage().heapUsed,
       },
     });
-  });
+  }));
+
+  app.post("/_clawee/control/policy/simulate", controlAuth("policy.simulate"), storageRoute(async (req, res) => {
+    const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
+    const body = (req.body || {}) as Record<string, unknown>;
+    let candidateEngines: PolicySimulationEngines;
+    let cases: PolicySimulationCase[];
+    const candidateFingerprints: Record<string, string | null> = {
+      policy_catalog: null,
+      capability_catalog: null,
+      approval_policy: null,
+    };
+    try {
+      let candidatePolicy = policyEngine;
+      if (body.policy_catalog !== undefined) {
+        const loaded = parsePolicyCatalogCandidate(body.policy_catalog);
+        candidatePolicy = new PolicyEngine(loaded.policyOptions);
+        candidateFingerprints.policy_catalog = loaded.fingerprint;
+      }
+      let candidateCapability = capabilityPolicy;
+      if (body.capability_catalog !== undefined) {
+        const loaded = parseCapabilityCatalogCandidate(body.capability_catalog);
+        candidateCapability = new CapabilityPolicyEngine();
+        candidateCapability.updateRules(loaded);
+        candidateFingerprints.capability_catalog = loaded.fingerprint;
+      }
+      let candidateApproval = approvalPolicy;
+      if (body.approval_policy_catalog !== undefined) {
+        const loaded = parseApprovalPolicyCatalogCandidate(body.approval_policy_catalog);
+        candidateApproval = new ApprovalPolicyEngine();
+        candidateApproval.updateRules(loaded);
+        candidateFingerprints.approval_policy = loaded.fingerprint;
+      }
+      candidateEngines = {
+        policyEngine: candidatePolicy,
+        capabilityPolicy: candidateCapability,
+        approvalPolicy: candidateApproval,
+      };
+
+      if (body.requests !== undefined) {
+        if (!Array.isArray(body.requests) || body.requests.length === 0) {
+          throw new Error("requests must be a non-empty array.");
+        }
+        if (body.requests.length > MAX_POLICY_SIMULATION_REQUESTS) {
+          throw new Error(`requests must not exceed ${MAX_POLICY_SIMULATION_REQUESTS} entries.`);
+        }
+        cases = body.requests.map((entry, index) => ({
+          source: "supplied" as const,
+          ref: `request:${index}`,
+          input: parsePolicyReplayInput(entry),
+        }));
+      } else {
+        const auditLimit = Math.min(1000, Math.max(1, Math.floor(Number(body.audit_limit ?? 200)) || 200));
+        cases = policyReplayCasesFromAudit(await ledger.getRecent(auditLimit, POLICY_REPLAY_ACTIONS));
+      }
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    const report = simulatePolicyChanges(
+      { policyEngine, capabilityPolicy, approvalPolicy },
+      candidateEngines,
+      cases,
+    );
+    const source = body.requests !== undefined ? "supplied" : "audit";
+    ledger.logAndSignAction("POLICY_SIMULATED", {
+      principal: identity?.principal || "unknown",
+      source,
+      candidate_fingerprints: candidateFingerprints,
+      summary: report.summary,
+    });
+    res.json({
+      ok: true,
+      source,
+      candidate_fingerprints: candidateFingerprints,
+      summary: report.summary,
+      results: report.results,
+    });
+  }));
 
   app.post("/_clawee/control/reload/policies", controlAuth("policy.reload"), (_req, res) => {
     if (!reloadHandlers?.reloadPolicyCatalog) {
@@ -1592,12 +2796,54 @@ export async function startUncertaintyGate(
     }
   });
 
-  app.post("/_clawee/control/reload/control-tokens", controlAuth("authz.reload"), (_req, res) => {
+  app.post("/_clawee/control/reload/model-substitution", controlAuth("model.reload"), (_req, res) => {
+    if (!reloadHandlers?.reloadModelSubstitutionCatalog) {
+      res.status(400).json({ error: "Model substitution reload handler is not configured." });
+      return;
+    }
     try {
-      const state = options.controlAuthz.reload();
-      ledger.logAndSignAction("CONTROL_TOKEN_CATALOG_RELOADED", state);
-      res.json({ ok: true, ...state });
-    } catch (error) {
+      const result = reloadHandlers.reloadModelSubstitutionCatalog();
+      ledger.logAndSignAction("MODEL_SUBSTITUTION_CATALOG_RELOADED", {
+        fingerprint: result.fingerprint,
+      });
+      res.json({ ok: true, fingerprint: result.fingerprint });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post("/_clawee/control/reload/dlp", controlAuth("policy.reload"), (_req, res) => {
+    if (!reloadHandlers?.reloadDlpCatalog) {
+      res.status(400).json({ error: "DLP catalog reload handler is not configured." });
+      return;
+    }
+    try {
+      const result = reloadHandlers.reloadDlpCatalog();
+      ledger.logAndSignAction("DLP_CATALOG_RELOADED", {
+        fingerprint: result.fingerprint,
+      });
+      res.json({ ok: true, fingerprint: result.fingerprint });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post("/_clawee/control/reload/pricing", controlAuth("budget.control"), (_req, res) => {
+    try {
+      const state = budgetController.reloadPricingCatalog();
+      ledger.logAndSignAction("PRICING_CATALOG_RELOADED", state);
+      res.json({ ok: true, ...state });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post("/_clawee/control/reload/control-tokens", controlAuth("authz.reload"), (_req, res) => {
+    try {
+      const state = options.controlAuthz.reload();
+      ledger.logAndSignAction("CONTROL_TOKEN_CATALOG_RELOADED", state);
+      res.json({ ok: true, ...state });
+    } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
     }
   });
@@ -1616,34 +2862,38 @@ export async function startUncertaintyGate(
     },
   );
 
-  app.get("/_clawee/control/approvals/attestation", controlAuth("approvals.export"), (req, res) => {
+  app.get("/_clawee/control/approvals/attestation", controlAuth("approvals.export"), storageRoute(async (req, res) => {
     const rawLimit = Number(req.query.limit || 1000);
     const limit = Number.isNaN(rawLimit) ? 1000 : rawLimit;
     const since = typeof req.query.since === "string" ? req.query.since : "";
-    const payload = approvalAttestationService.generate(limit, since);
+    const payload = await approvalAttestationService.generate(limit, since);
     ledger.logAndSignAction("APPROVAL_ATTESTATION_GENERATED", {
       count: payload.count,
       final_hash: payload.final_hash,
       since: payload.since,
     });
     res.json(payload);
-  });
+  }));
 
-  app.post("/_clawee/control/approvals/attestation/export", controlAuth("approvals.export"), (req, res) => {
-    const rawLimit = Number(req.body?.limit || 1000);
-    const limit = Number.isNaN(rawLimit) ? 1000 : rawLimit;
-    const since = typeof req.body?.since === "string" ? req.body.since : "";
-    const snapshotPath = typeof req.body?.snapshot_path === "string" ? req.body.snapshot_path : "";
-    const chainPath = typeof req.body?.chain_path === "string" ? req.body.chain_path : "";
-    const result = approvalAttestationService.exportSealedSnapshot({
-      snapshotPath,
-      chainPath,
-      limit,
-      since,
-    });
-    ledger.logAndSignAction("APPROVAL_ATTESTATION_EXPORTED", result);
-    res.json({ ok: true, ...result });
-  });
+  app.post(
+    "/_clawee/control/approvals/attestation/export",
+    controlAuth("approvals.export"),
+    storageRoute(async (req, res) => {
+      const rawLimit = Number(req.body?.limit || 1000);
+      const limit = Number.isNaN(rawLimit) ? 1000 : rawLimit;
+      const since = typeof req.body?.since === "string" ? req.body.since : "";
+      const snapshotPath = typeof req.body?.snapshot_path === "string" ? req.body.snapshot_path : "";
+      const chainPath = typeof req.body?.chain_path === "string" ? req.body.chain_path : "";
+      const result = await approvalAttestationService.exportSealedSnapshot({
+        snapshotPath,
+        chainPath,
+        limit,
+        since,
+      });
+      ledger.logAndSignAction("APPROVAL_ATTESTATION_EXPORTED", result);
+      res.json({ ok: true, ...result });
+    }),
+  );
 
   app.post("/_clawee/control/approvals/attestation/verify", controlAuth("approvals.verify"), (req, res) => {
     const snapshotPath = typeof req.body?.snapshot_path === "string" ? req.body.snapshot_path : "";
@@ -1675,6 +2925,22 @@ export async function startUncertaintyGate(
     }
   });
 
+  // Registered after the fixed /approvals/* routes so their paths are not read as approval ids.
+  app.get("/_clawee/control/approvals/:id", controlAuth("approvals.read"), storageRoute(async (req, res) => {
+    const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
+    const detail = await approvalService.getDetail(req.params.id);
+    if (!detail) {
+      res.status(404).json({ error: `Approval not found: ${req.params.id}` });
+      return;
+    }
+    ledger.logAndSignAction("APPROVAL_DETAIL_VIEWED", {
+      approval_id: detail.approval.id,
+      viewer: identity?.principal || "unknown",
+      payload_available: detail.payload_available,
+    });
+    res.json(detail);
+  }));
+
   app.post(
     "/_clawee/control/reload/approval-attestation-signing",
     controlAuth("approvals.verify"),
@@ -1708,7 +2974,7 @@ export async function startUncertaintyGate(
     }
   });
 
-  app.post("/_clawee/control/channel/send", controlAuth("channel.send"), (req, res) => {
+  app.post("/_clawee/control/channel/send", controlAuth("channel.send"), storageRoute(async (req, res) => {
     const identity = (req as Request & { controlIdentity?: ControlIdentity }).controlIdentity;
     const securityDecisionId = sha256Hex(
       `${Date.now()}|control-channel-send|${requestFingerprint(req)}`,
@@ -1851,6 +3117,7 @@ export async function startUncertaintyGate(
       model: "control-plane",
       modality: "text",
       intent: { hasToolIntent: false, toolNames: [] },
+      channel,
     });
     invariantCheck({
       id: "INV-003-POLICY-GATE",
@@ -1900,9 +3167,9 @@ export async function startUncertaintyGate(
       const fingerprint = requestFingerprint(req);
       const approvalId = approvalHeader(req);
       const isApproved =
-        approvalId.length > 0 && approvalService.validateApproved(approvalId, fingerprint);
+        approvalId.length > 0 && await approvalService.validateApproved(approvalId, fingerprint);
       if (!isApproved) {
-        const created = approvalService.getOrCreatePending({
+        const created = await approvalService.getOrCreatePending({
           requestFingerprint: fingerprint,
           reason: policyDecision.reason,
           metadata: {
@@ -1919,6 +3186,8 @@ export async function startUncertaintyGate(
           requiredApprovals: approvalRequirements.requiredApprovals,
           requiredRoles: approvalRequirements.requiredRoles,
           maxUses: options.approvalMaxUses,
+          escalation: approvalRequirements.escalation,
+          payload: approvalPayload(req, [channel, destination], policyDecision, []),
         });
         invariantCheck({
           id: "INV-004-APPROVAL-GATE",
@@ -1938,6 +3207,7 @@ export async function startUncertaintyGate(
             expires_at: created.record.expires_at,
             security_decision_id: securityDecisionId,
           });
+          notifyApprovalChat(created.record);
         }
         ledger.logAndSignAction("APPROVAL_REQUIRED", {
           approval_id: created.record.id,
@@ -1993,7 +3263,7 @@ export async function startUncertaintyGate(
       });
     }
     if (approvedRequest) {
-      const consumed = approvalService.consumeApproved(
+      const consumed = await approvalService.consumeApproved(
         approvedRequest.id,
         approvedRequest.fingerprint,
       );
@@ -2034,7 +3304,7 @@ export async function startUncertaintyGate(
       interactionStore.recordChannelOutbound(queued);
     }, { message_id: queued.id, channel, destination });
     res.json({ ok: true, message: queued });
-  });
+  }));
 
   app.post("/_clawee/control/modality/ingest", controlAuth("modality.write"), (req, res) => {
     const sessionId = nonEmptyStringWithMax(req.body?.session_id, MAX_MODALITY_SESSION_ID_CHARS);
@@ -2072,27 +3342,50 @@ export async function startUncertaintyGate(
       });
       return;
     }
-    const observation = modalityHub.ingest({
-      session_id: sessionId,
-      modality: modality as ModalityType,
-      source,
-      payload: validation.normalizedPayload,
-      timestamp: typeof req.body?.timestamp === "string" ? req.body.timestamp : undefined,
-    });
-    ledger.logAndSignAction("MODALITY_OBSERVATION", {
-      observation_id: observation.id,
-      session_id: observation.session_id,
-      modality: observation.modality,
-      source: observation.source,
-    });
-    persistInteraction(
-      "interaction-store:modality-control",
-      () => {
-        interactionStore.recordModality(observation);
-      },
-      { observation_id: observation.id, session_id: observation.session_id },
-    );
-    res.json({ ok: true, observation });
+    void (async () => {
+      let admitted: boolean;
+      try {
+        admitted = await screenIngress(req, res, "modality-ingest", {
+          channel: "",
+          source,
+          action: "modality.ingest",
+          segments: modalityInjectionSegments(source, validation.normalizedPayload),
+        });
+      } catch (error) {
+        ledger.logAndSignAction("SYSTEM_ERROR", {
+          module: "uncertainty-gate",
+          stage: "modality-ingest-injection-screen",
+          path: req.originalUrl,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        res.status(500).json({ error: "Inbound content screening failed." });
+        return;
+      }
+      if (!admitted) {
+        return;
+      }
+      const observation = modalityHub.ingest({
+        session_id: sessionId,
+        modality: modality as ModalityType,
+        source,
+        payload: validation.normalizedPayload,
+        timestamp: typeof req.body?.timestamp === "string" ? req.body.timestamp : undefined,
+      });
+      ledger.logAndSignAction("MODALITY_OBSERVATION", {
+        observation_id: observation.id,
+        session_id: observation.session_id,
+        modality: observation.modality,
+        source: observation.source,
+      });
+      persistInteraction(
+        "interaction-store:modality-control",
+        () => {
+          interactionStore.recordModality(observation);
+        },
+        { observation_id: observation.id, session_id: observation.session_id },
+      );
+      res.json({ ok: true, observation });
+    })();
   });
 
   app.post("/_clawee/control/vdi/session/start", controlAuth("initiative.write"), (req, res) => {
@@ -2261,8 +3554,9 @@ export async function startUncertaintyGate(
         return;
       }
       const routeType = req.path.includes("/heartbeat") ? "heartbeat" : "work-item";
-      const rateKey = `openclaw-intake:${req.ip || "unknown"}:${routeType}`;
-      const rateDecision = channelLimiter.check(rateKey);
+      const authorized = openclawAuthorized(req, openclawIntakeToken);
+      const rateKey = `openclaw-intake:${routeType}:${ingressRateKey(req, authorized ? openclawIntakeToken : null)}`;
+      const rateDecision = await rateLimiter.check(rateKey, channelRateLimit);
       if (!rateDecision.allowed) {
         ledger.logAndSignAction("RATE_LIMIT_BLOCKED", {
           path: req.originalUrl,
@@ -2275,7 +3569,7 @@ export async function startUncertaintyGate(
         res.status(429).json({ error: "OpenClaw intake rate limit exceeded." });
         return;
       }
-      if (!openclawAuthorized(req, openclawIntakeToken)) {
+      if (!authorized) {
         invariantCheck({
           id: "INV-008-INGRESS-AUTH-GATE",
           passed: true,
@@ -2536,8 +3830,9 @@ export async function startUncertaintyGate(
         res.status(400).json({ error: "Unsupported intake provider." });
         return;
       }
-      const rateKey = `initiative-intake:${req.ip || "unknown"}:${provider}`;
-      const rateDecision = channelLimiter.check(rateKey);
+      const authorized = intakeAuthorized(req, initiativeIntakeToken);
+      const rateKey = `initiative-intake:${ingressRateKey(req, authorized ? initiativeIntakeToken : null)}`;
+      const rateDecision = await rateLimiter.check(rateKey, channelRateLimit);
       if (!rateDecision.allowed) {
         ledger.logAndSignAction("RATE_LIMIT_BLOCKED", {
           path: req.originalUrl,
@@ -2550,7 +3845,7 @@ export async function startUncertaintyGate(
         res.status(429).json({ error: "Initiative intake rate limit exceeded." });
         return;
       }
-      if (!intakeAuthorized(req, initiativeIntakeToken)) {
+      if (!authorized) {
         invariantCheck({
           id: "INV-008-INGRESS-AUTH-GATE",
           passed: true,
@@ -2726,8 +4021,9 @@ export async function startUncertaintyGate(
 
   const channelIngestAuth: RequestHandler = (req, res, next) => {
     void (async () => {
-      const rateKey = `channel:${req.ip || "unknown"}:${req.params.channel || "unknown"}`;
-      const rateDecision = channelLimiter.check(rateKey);
+      const authorized = channelAuthorized(req, options.channelIngestToken);
+      const rateKey = `channel:${req.params.channel || "unknown"}:${ingressRateKey(req, authorized ? options.channelIngestToken : null)}`;
+      const rateDecision = await rateLimiter.check(rateKey, channelRateLimit);
       if (!rateDecision.allowed) {
         ledger.logAndSignAction("RATE_LIMIT_BLOCKED", {
           path: req.originalUrl,
@@ -2739,7 +4035,7 @@ export async function startUncertaintyGate(
         res.status(429).json({ error: "Channel ingress rate limit exceeded." });
         return;
       }
-      if (!channelAuthorized(req, options.channelIngestToken)) {
+      if (!authorized) {
         ledger.logAndSignAction("CONTROL_ACCESS_DENIED", {
           path: req.originalUrl,
           method: req.method,
@@ -2944,42 +4240,126 @@ export async function startUncertaintyGate(
       });
       return;
     }
-    const inbound = channelHub.ingestInbound({
-      channel,
-      source,
-      sender,
-      text,
-      metadata,
-      timestamp: typeof req.body?.timestamp === "string" ? req.body.timestamp : undefined,
-    });
-    const inboundSessionId =
-      nonEmptyStringWithMax(req.body?.session_id, MAX_MODALITY_SESSION_ID_CHARS) ||
-      `channel:${channel}:${source}`;
-    const observation = modalityHub.ingest({
-      session_id: inboundSessionId,
-      modality: "text",
-      source: `${channel}:${source}`,
-      payload: textPayloadValidation.normalizedPayload,
-      timestamp: inbound.timestamp,
-    });
-    ledger.logAndSignAction("CHANNEL_EVENT_INGESTED", {
-      channel,
-      source,
-      sender,
-      event_id: inbound.id,
-      observation_id: observation.id,
-    });
-    persistInteraction(
-      "interaction-store:channel-inbound",
-      () => {
-        interactionStore.recordChannelInbound(inbound);
-        interactionStore.recordModality(observation);
-      },
-      { event_id: inbound.id, observation_id: observation.id, channel, source },
-    );
-    res.json({ ok: true, event: inbound, observation });
+    void (async () => {
+      let admitted: boolean;
+      try {
+        admitted = await screenIngress(req, res, "channel-inbound", {
+          channel,
+          source,
+          action: "channel.ingest",
+          segments: [{ source: `${channel}:${source}`, text }],
+        });
+      } catch (error) {
+        ledger.logAndSignAction("SYSTEM_ERROR", {
+          module: "uncertainty-gate",
+          stage: "channel-inbound-injection-screen",
+          path: req.originalUrl,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        res.status(500).json({ error: "Inbound content screening failed." });
+        return;
+      }
+      if (!admitted) {
+        return;
+      }
+      const inbound = channelHub.ingestInbound({
+        channel,
+        source,
+        sender,
+        text,
+        metadata,
+        timestamp: typeof req.body?.timestamp === "string" ? req.body.timestamp : undefined,
+      });
+      const inboundSessionId =
+        nonEmptyStringWithMax(req.body?.session_id, MAX_MODALITY_SESSION_ID_CHARS) ||
+        `channel:${channel}:${source}`;
+      const observation = modalityHub.ingest({
+        session_id: inboundSessionId,
+        modality: "text",
+        source: `${channel}:${source}`,
+        payload: textPayloadValidation.normalizedPayload,
+        timestamp: inbound.timestamp,
+      });
+      ledger.logAndSignAction("CHANNEL_EVENT_INGESTED", {
+        channel,
+        source,
+        sender,
+        event_id: inbound.id,
+        observation_id: observation.id,
+      });
+      persistInteraction(
+        "interaction-store:channel-inbound",
+        () => {
+          interactionStore.recordChannelInbound(inbound);
+          interactionStore.recordModality(observation);
+        },
+        { event_id: inbound.id, observation_id: observation.id, channel, source },
+      );
+      res.json({ ok: true, event: inbound, observation });
+    })();
   });
 
+  app.post("/_clawee/channel/:channel/approvals", channelIngestAuth, storageRoute(async (req, res) => {
+    const channel = parseChannelKind(req.params.channel || "");
+    const approvalId = nonEmptyStringWithMax(req.body?.approval_id, 128);
+    const user = nonEmptyStringWithMax(req.body?.user, MAX_CHANNEL_SENDER_CHARS);
+    const decision = typeof req.body?.decision === "string" ? req.body.decision.trim().toLowerCase() : "";
+    if (!channel || !approvalId || !user || (decision !== "approve" && decision !== "deny")) {
+      res.status(400).json({ error: "Invalid approval callback payload." });
+      return;
+    }
+    // The callback acts as the named chat user, so the shared ingest token is not enough: the channel HMAC must be
+    // configured and the signed raw body must carry the approval id and user being acted on.
+    if (!options.channelIngressHmacSecret.trim()) {
+      ledger.logAndSignAction("APPROVAL_CHAT_IDENTITY_DENIED", {
+        approval_id: approvalId,
+        channel,
+        user,
+        principal: null,
+        reason: "hmac-not-configured",
+      });
+      res.status(403).json({ error: "Chat approval callbacks require CHANNEL_INGRESS_HMAC_SECRET." });
+      return;
+    }
+    let signedBody: Record<string, unknown> = {};
+    try {
+      signedBody = JSON.parse((req as Request & { rawBody?: string }).rawBody || "{}") as Record<string, unknown>;
+    } catch {
+      signedBody = {};
+    }
+    if (
+      nonEmptyStringWithMax(signedBody?.approval_id, 128) !== approvalId ||
+      nonEmptyStringWithMax(signedBody?.user, MAX_CHANNEL_SENDER_CHARS) !== user
+    ) {
+      ledger.logAndSignAction("APPROVAL_CHAT_IDENTITY_DENIED", {
+        approval_id: approvalId,
+        channel,
+        user,
+        principal: null,
+        reason: "unsigned-approval-fields",
+      });
+      res.status(401).json({ error: "Approval callback signature does not cover the approval id and user." });
+      return;
+    }
+    const identity = options.controlAuthz.resolveChatIdentity(channel, user);
+    if (!identity || !options.controlAuthz.can(identity, "approvals.write")) {
+      ledger.logAndSignAction("APPROVAL_CHAT_IDENTITY_DENIED", {
+        approval_id: approvalId,
+        channel,
+        user,
+        principal: identity?.principal ?? null,
+        reason: identity ? "missing-permission" : "unmapped-user",
+      });
+      res.status(403).json({ error: "Channel user is not authorized to resolve approvals." });
+      return;
+    }
+    const result =
+      decision === "approve"
+        ? await approveAs(approvalId, identity, `chat:${channel}`, nonEmptyStringWithMax(req.body?.on_behalf_of, 256))
+        : await denyAs(approvalId, identity, `chat:${channel}`);
+    res.status(result.statusCode).json(result.body);
+  }));
+
   app.get("/_clawee/control/modality/recent", controlAuth("modality.read"), (req, res) => {
     const rawLimit = Number(req.query.limit || 100);
     const limit = Number.isNaN(rawLimit) ? 100 : rawLimit;
@@ -2996,8 +4376,14 @@ export async function startUncertaintyGate(
     (req as Request & { __claweeSecurityDecisionId?: string }).__claweeSecurityDecisionId =
       securityDecisionId;
 
+    let model = extractModel(req.body);
+    const modality = inferModality(req.originalUrl, req.body);
     try {
-      await runtimeEgressGuard.assertAllowed("upstream_base_url");
+      (req as Request & { __claweeUpstreamPlan?: UpstreamPlan }).__claweeUpstreamPlan = await egressAllowedPlan(
+        planUpstream(req),
+        req,
+        securityDecisionId,
+      );
       invariantCheck({
         id: "INV-001-RUNTIME-EGRESS-GATE",
         passed: true,
@@ -3024,7 +4410,7 @@ export async function startUncertaintyGate(
       ledger.logAndSignAction("RUNTIME_EGRESS_BLOCKED", {
         path: req.originalUrl,
         method: req.method,
-        target: "upstream_base_url",
+        target: error instanceof RuntimeEgressPolicyError ? error.result.target : PRIMARY_UPSTREAM_EGRESS_TARGET,
         details,
         security_decision_id: securityDecisionId,
       });
@@ -3045,8 +4431,6 @@ export async function startUncertaintyGate(
       return;
     }
 
-    const model = extractModel(req.body);
-    const modality = inferModality(req.originalUrl, req.body);
     const intent = extractToolIntent(req.body);
     const channelHint = extractChannelHint(req.body);
     const capabilityToolDecision = capabilityPolicy.evaluateToolExecution(intent.toolNames, channelHint);
@@ -3107,7 +4491,9 @@ export async function startUncertaintyGate(
       },
       securityDecisionId,
     });
-    const inputTokens = estimateInputTokens(req.body);
+    const inputTokenCount = tokenizerRegistry.countRequest(model, req.body);
+    const inputTokens = inputTokenCount.tokens;
+    (req as Request & { __claweeInputTokenizer?: string }).__claweeInputTokenizer = inputTokenCount.tokenizer;
     const outputTokens = extractOutputTokens(req.body);
     if (inputTokens > Math.max(1, Math.floor(options.maxRequestInputTokens))) {
       ledger.logAndSignAction("TOKEN_BUDGET_BLOCKED", {
@@ -3115,6 +4501,7 @@ export async function startUncertaintyGate(
         method: req.method,
         token_type: "input",
         estimated_tokens: inputTokens,
+        tokenizer: inputTokenCount.tokenizer,
         max_allowed_tokens: options.maxRequestInputTokens,
       });
       res.status(413).json({
@@ -3192,6 +4579,11 @@ export async function startUncertaintyGate(
       securityDecisionId,
     });
 
+    const sessionKey = sessionRiskKey(req);
+    const sessionTools = sessionKey ? sessionToolNames(req.body, intent) : [];
+    const sessionContext =
+      sessionRisk && sessionKey && sessionTools.length > 0 ? sessionRisk.context(sessionKey, sessionTools) : undefined;
+    const injection = await scanForInjection("proxy", req, extractToolResults(req.body), securityDecisionId);
     const policyDecision = policyEngine.evaluate({
       path: req.originalUrl,
       method: req.method,
@@ -3199,7 +4591,30 @@ export async function startUncertaintyGate(
       model,
       modality,
       intent,
+      channel: channelHint,
+      session: sessionContext,
+      signals: injection?.signals,
     });
+    const sessionEventId =
+      sessionRisk && sessionKey && sessionContext
+        ? sessionRisk.record(sessionKey, sessionTools, policyDecision.matchedSignals)
+        : null;
+    const policySnapshot: PolicyReplayInput = {
+      path: req.originalUrl,
+      method: req.method,
+      model,
+      modality,
+      channel: channelHint,
+      tool_names: intent.toolNames,
+      recorded_decision: policyDecision.decision,
+    };
+    if (options.policySimulationCaptureBodies) {
+      const serializedBody = JSON.stringify(req.body ?? null);
+      if (serializedBody.length <= MAX_POLICY_SNAPSHOT_BODY_CHARS) {
+        policySnapshot.body = req.body;
+      }
+    }
+    (req as Request & { __claweePolicyInput?: PolicyReplayInput }).__claweePolicyInput = policySnapshot;
     invariantCheck({
       id: "INV-003-POLICY-GATE",
       passed: true,
@@ -3210,7 +4625,7 @@ export async function startUncertaintyGate(
       },
       securityDecisionId,
     });
-    let approvedRequest: { id: string; fingerprint: string } | null = null;
+    let approvedRequest: { id: string; fingerprint: string; standing: boolean } | null = null;
     if (policyDecision.decision === "block") {
       ledger.logAndSignAction("POLICY_BLOCKED_ACTION", {
         path: req.originalUrl,
@@ -3219,6 +4634,7 @@ export async function startUncertaintyGate(
         modality,
         reason: policyDecision.reason,
         matched_signals: policyDecision.matchedSignals,
+        policy_input: policySnapshot,
         security_decision_id: securityDecisionId,
       });
       void sendAlert(
@@ -3247,12 +4663,17 @@ export async function startUncertaintyGate(
         action: "tool.execute",
         toolNames: intent.toolNames,
       });
-      const fingerprint = requestFingerprint(req);
+      const invocations = intent.invocations ?? [];
+      const binding = approvalPolicy.bindingFor(intent.toolNames, invocations);
+      const fingerprint = approvalFingerprint(req, binding);
       const approvalId = approvalHeader(req);
       const isApproved =
-        approvalId.length > 0 && approvalService.validateApproved(approvalId, fingerprint);
-      if (!isApproved) {
-        const created = approvalService.getOrCreatePending({
+        approvalId.length > 0 && await approvalService.validateApproved(approvalId, fingerprint);
+      const standing = isApproved
+        ? null
+        : await matchStandingApproval(req, [...intent.toolNames, ...invocations.map((call) => call.name)], invocations);
+      if (!isApproved && !standing) {
+        const created = await approvalService.getOrCreatePending({
           requestFingerprint: fingerprint,
           reason: policyDecision.reason,
           metadata: {
@@ -3261,6 +4682,7 @@ export async function startUncertaintyGate(
             model,
             modality,
             signals: policyDecision.matchedSignals,
+            approval_binding: binding ? "arguments" : "request",
             required_approvals: approvalRequirements.requiredApprovals,
             required_roles: approvalRequirements.requiredRoles,
           },
@@ -3268,6 +4690,13 @@ export async function startUncertaintyGate(
           requiredApprovals: approvalRequirements.requiredApprovals,
           requiredRoles: approvalRequirements.requiredRoles,
           maxUses: options.approvalMaxUses,
+          escalation: approvalRequirements.escalation,
+          payload: approvalPayload(
+            req,
+            [model, [...new Set(intent.toolNames)].sort().join(",")],
+            policyDecision,
+            invocations,
+          ),
         });
         invariantCheck({
           id: "INV-004-APPROVAL-GATE",
@@ -3287,6 +4716,7 @@ export async function startUncertaintyGate(
             expires_at: created.record.expires_at,
             security_decision_id: securityDecisionId,
           });
+          notifyApprovalChat(created.record);
         }
         ledger.logAndSignAction("APPROVAL_REQUIRED", {
           approval_id: created.record.id,
@@ -3296,6 +4726,7 @@ export async function startUncertaintyGate(
           signals: policyDecision.matchedSignals,
           required_approvals: created.record.required_approvals,
           required_roles: parseRequiredRoles(created.record.required_roles),
+          policy_input: policySnapshot,
           security_decision_id: securityDecisionId,
         });
         void sendAlert(
@@ -3325,18 +4756,23 @@ export async function startUncertaintyGate(
         });
         return;
       }
-      approvedRequest = {
-        id: approvalId,
-        fingerprint,
-      };
+      approvedRequest = standing
+        ? { id: standing.id, fingerprint, standing: true }
+        : { id: approvalId, fingerprint, standing: false };
+      (req as ApprovalCoverageState).__claweeApprovalId = approvedRequest.id;
+      (req as ApprovalCoverageState).__claweeApprovalCoverage = standing
+        ? { kind: "standing", scope: normalizeStandingApprovalScope(JSON.parse(standing.scope)) }
+        : binding
+          ? { kind: "binding", binding }
+          : { kind: "request", invocations };
       invariantCheck({
         id: "INV-004-APPROVAL-GATE",
         passed: true,
         context: {
           path: req.originalUrl,
           method: req.method,
-          approval_id: approvalId,
-          stage: "approval-token-present",
+          approval_id: approvedRequest.id,
+          stage: standing ? "standing-approval-matched" : "approval-token-present",
         },
         securityDecisionId,
       });
@@ -3355,7 +4791,23 @@ export async function startUncertaintyGate(
       return next();
     }
 
-    const budgetDecision = budgetController.evaluateProjected(estimate);
+    const attribution = budgetAttribution(req);
+    const substituted = await substituteModel(req, model, modality, estimate, attribution, securityDecisionId);
+    if (substituted) {
+      res.setHeader("x-clawee-model-substituted", `from=${model}; to=${substituted.model}`);
+      model = substituted.model;
+      estimate = substituted;
+    }
+    // The hold keeps concurrent requests (on any node sharing the store) from spending the same headroom; it is
+    // settled by recordActual or released once the response closes.
+    const budgetDecision = await budgetController.evaluateProjected(estimate, attribution, { reserve: true });
+    if (budgetDecision.reservationId) {
+      const reservationId = budgetDecision.reservationId;
+      (req as Request & { __claweeBudgetReservation?: string }).__claweeBudgetReservation = reservationId;
+      res.once("close", () => {
+        void budgetController.releaseReservation(reservationId).catch(() => undefined);
+      });
+    }
     if (budgetDecision.decision === "suspend") {
       invariantCheck({
         id: "INV-005-BUDGET-GATE",
@@ -3366,14 +4818,17 @@ export async function startUncertaintyGate(
           method: req.method,
           model,
           estimated_usd: estimate.estimatedUsd,
+          budget_scope: budgetDecision.scope,
         },
         securityDecisionId,
       });
       ledger.logAndSignAction("BUDGET_SUSPENDED", {
         reason: budgetDecision.reason || "Budget cap exceeded.",
+        scope: budgetDecision.scope,
         path: req.originalUrl,
         model,
         estimated_usd: estimate.estimatedUsd,
+        attribution,
         security_decision_id: securityDecisionId,
       });
       void sendAlert(
@@ -3383,6 +4838,7 @@ export async function startUncertaintyGate(
         {
           path: req.originalUrl,
           model,
+          scope: budgetDecision.scope,
           reason: budgetDecision.reason || "Budget cap exceeded.",
           estimated_usd: estimate.estimatedUsd,
         },
@@ -3390,6 +4846,7 @@ export async function startUncertaintyGate(
       res.status(429).json({
         error: "Claw-EE suspended: compute budget exceeded.",
         reason: budgetDecision.reason,
+        budget_scope: budgetDecision.scope,
       });
       return;
     }
@@ -3404,14 +4861,19 @@ export async function startUncertaintyGate(
       securityDecisionId,
     });
 
+    if (!applyDlp(req, res, model, securityDecisionId)) {
+      return;
+    }
+
     (req as Request & { __claweeCostEstimate?: CostEstimate }).__claweeCostEstimate = estimate;
+    (req as Request & { __claweeBudgetAttribution?: BudgetAttribution }).__claweeBudgetAttribution = attribution;
+    const cacheRequest = responseCacheRequest(req, model, intent.hasToolIntent);
 
     if (!intent.hasToolIntent) {
       if (approvedRequest) {
-        const consumed = approvalService.consumeApproved(
-          approvedRequest.id,
-          approvedRequest.fingerprint,
-        );
+        const consumed = approvedRequest.standing
+          ? await approvalService.consumeStandingApproval(approvedRequest.id)
+          : await approvalService.consumeApproved(approvedRequest.id, approvedRequest.fingerprint);
         if (!consumed) {
           invariantCheck({
             id: "INV-004-APPROVAL-GATE",
@@ -3439,16 +4901,22 @@ export async function startUncertaintyGate(
           approval_id: approvedRequest.id,
           path: req.originalUrl,
           method: req.method,
-          source: "request-header",
+          source: approvedRequest.standing ? "standing-approval" : "request-header",
           consumed: true,
           security_decision_id: securityDecisionId,
         });
       }
+      if (
+        cacheRequest &&
+        (await serveCachedResponse(req, res, cacheRequest, estimate, attribution, securityDecisionId))
+      ) {
+        return;
+      }
       return next();
     }
 
     try {
-      const risk = await riskEvaluator.evaluateRisk(
+      const risk = await guardedRiskEvaluator.evaluateRisk(
         options.evaluatorModel,
         req.originalUrl,
         req.method,
@@ -3457,11 +4925,21 @@ export async function startUncertaintyGate(
       );
 
       (req as Request & { __claweeRisk?: unknown }).__claweeRisk = risk;
+      if (sessionRisk && sessionKey && sessionEventId !== null) {
+        sessionRisk.recordRisk(sessionKey, sessionEventId, risk.confidence_score);
+      }
       ledger.logAndSignAction("RISK_SCORED", {
         path: req.originalUrl,
         method: req.method,
         risk,
         tools: intent.toolNames,
+        session: sessionContext
+          ? {
+              events: sessionContext.events,
+              cumulative_risk: sessionContext.cumulativeRisk,
+              signals: sessionContext.signals,
+            }
+          : null,
         security_decision_id: securityDecisionId,
       });
 
@@ -3505,10 +4983,9 @@ export async function startUncertaintyGate(
       }
 
       if (approvedRequest) {
-        const consumed = approvalService.consumeApproved(
-          approvedRequest.id,
-          approvedRequest.fingerprint,
-        );
+        const consumed = approvedRequest.standing
+          ? await approvalService.consumeStandingApproval(approvedRequest.id)
+          : await approvalService.consumeApproved(approvedRequest.id, approvedRequest.fingerprint);
         if (!consumed) {
           invariantCheck({
             id: "INV-004-APPROVAL-GATE",
@@ -3536,7 +5013,7 @@ export async function startUncertaintyGate(
           approval_id: approvedRequest.id,
           path: req.originalUrl,
           method: req.method,
-          source: "request-header",
+          source: approvedRequest.standing ? "standing-approval" : "request-header",
           consumed: true,
           security_decision_id: securityDecisionId,
         });
@@ -3561,6 +5038,8 @@ export async function startUncertaintyGate(
         stage: "evaluate",
         path: req.originalUrl,
         message,
+        evaluators: error instanceof RiskEvaluatorChainError ? error.evaluators : null,
+        circuit_open: error instanceof RiskEvaluatorCircuitOpenError,
         risk_evaluator_fail_mode: options.riskEvaluatorFailMode,
         security_decision_id: securityDecisionId,
       });
@@ -3625,95 +5104,884 @@ export async function startUncertaintyGate(
     next();
   });
 
-  const proxy = createProxyMiddleware({
-    target: options.upstreamBaseUrl,
-    changeOrigin: true,
-    ws: true,
-    selfHandleResponse: true,
-    agent: options.upstreamAgent,
-    on: {
-      proxyReq: (proxyReq, req) => {
-        fixRequestBody(proxyReq, req);
+  const streamMaxRequestUsd = Math.max(0, options.streamMaxRequestUsd ?? 0);
+  const streamBudgetCheckIntervalTokens = Math.max(1, Math.floor(options.streamBudgetCheckIntervalTokens ?? 256));
+
+  const responseGuard = new ResponseGuard(policyEngine, capabilityPolicy, options.responseGuardMode ?? "off");
+
+  type ResponseGuardOutcome =
+    | { action: "pass" }
+    | { action: "redact" }
+    | { action: "reject"; statusCode: number; body: Record<string, unknown> };
+
+  // A request-side approval covers a response tool call only when the approver could have seen it: an argument
+  // binding must contain the call's bound arguments, a whole-request approval must contain the identical call, and
+  // a standing approval's scope must match it.
+  const approvalCoversCall = (req: Request, coverage: ApprovalCoverage, call: ToolInvocation): boolean => {
+    if (coverage.kind === "standing") {
+      return standingApprovalMatches(coverage.scope, {
+        tools: [call.name],
+        agent: callerIdentity(req)?.principal ?? null,
+        invocations: [call],
+      });
+    }
+    if (coverage.kind === "binding") {
+      const callBinding = approvalPolicy.bindingFor([call.name], [call]);
+      const approvedCalls = new Set(coverage.binding.calls.map((approved) => stableStringify(approved)));
+      return Boolean(callBinding?.calls.every((bound) => approvedCalls.has(stableStringify(bound))));
+    }
+    const key = stableStringify({ name: call.name.trim().toLowerCase(), arguments: call.arguments });
+    return coverage.invocations.some(
+      (approved) => stableStringify({ name: approved.name.trim().toLowerCase(), arguments: approved.arguments }) === key,
+    );
+  };
+
+  const responseGuardContext = (req: Request): ResponseGuardContext => {
+    const reqWithState = req as ApprovalCoverageState & { __claweePolicyInput?: PolicyReplayInput };
+    const coverage = reqWithState.__claweeApprovalCoverage;
+    return {
+      path: req.originalUrl || req.url || "/",
+      method: req.method,
+      model: reqWithState.__claweePolicyInput?.model || "unknown-model",
+      channel: reqWithState.__claweePolicyInput?.channel || "",
+      approval: coverage ? (call) => approvalCoversCall(req, coverage, call) : null,
+    };
+  };
+
+  const enforceResponseGuard = async (
+    req: Request,
+    inspection: ResponseInspection,
+    stream: boolean,
+  ): Promise<ResponseGuardOutcome> => {
+    if (inspection.decision === "allow") {
+      return { action: "pass" };
+    }
+    const securityDecisionId = (req as Request & { __claweeSecurityDecisionId?: string }).__claweeSecurityDecisionId || null;
+    const context = responseGuardContext(req);
+    const mode = responseGuard.getMode();
+    const tools = inspection.findings.map((finding) => finding.tool).filter((tool): tool is string => Boolean(tool));
+    const signals = inspection.findings.flatMap((finding) => finding.matched_signals);
+
+    if (mode === "approval" && inspection.decision === "require_approval") {
+      const binding = approvalPolicy.bindingFor(tools, inspection.invocations);
+      const fingerprint = sha256Hex(
+        `response|${req.method}|${context.path}|${stableStringify({
+          ...(binding
+            ? { binding }
+            : { invocations: inspection.invocations.map((call) => ({ name: call.name, arguments: call.arguments })) }),
+          findings: inspection.findings.map((finding) => ({
+            kind: finding.kind,
+            tool: finding.tool,
+            signals: finding.matched_signals,
+          })),
+        })}`,
+      );
+      const approvalId = approvalHeader(req);
+      if (approvalId && (await approvalService.consumeApproved(approvalId, fingerprint))) {
+        ledger.logAndSignAction("APPROVAL_GRANTED", {
+          approval_id: approvalId,
+          path: context.path,
+          method: req.method,
+          source: "response-guard",
+          consumed: true,
+          security_decision_id: securityDecisionId,
+        });
+        return { action: "pass" };
+      }
+      const standing = await matchStandingApproval(
+        req,
+        inspection.invocations.map((call) => call.name),
+        inspection.invocations,
+      );
+      if (standing && (await approvalService.consumeStandingApproval(standing.id))) {
+        ledger.logAndSignAction("APPROVAL_GRANTED", {
+          approval_id: standing.id,
+          path: context.path,
+          method: req.method,
+          source: "standing-approval",
+          stage: "response",
+          consumed: true,
+          security_decision_id: securityDecisionId,
+        });
+        return { action: "pass" };
+      }
+      const guardDecision: PolicyDecision = {
+        decision: "require_approval",
+        reason: inspection.reason,
+        riskClass: inspection.findings[0]?.risk_class ?? "high",
+        matchedSignals: signals,
+      };
+      const requirements = approvalPolicy.evaluate({
+        policyDecision: guardDecision,
+        channel: context.channel,
+        action: "tool.execute",
+        toolNames: tools,
+      });
+      const created = await approvalService.getOrCreatePending({
+        requestFingerprint: fingerprint,
+        reason: inspection.reason,
+        metadata: {
+          path: context.path,
+          method: req.method,
+          model: context.model,
+          stage: "response",
+          tools,
+          signals,
+          approval_binding: binding ? "arguments" : "request",
+          required_approvals: requirements.requiredApprovals,
+          required_roles: requirements.requiredRoles,
+        },
+        ttlSeconds: options.approvalTtlSeconds,
+        requiredApprovals: requirements.requiredApprovals,
+        requiredRoles: requirements.requiredRoles,
+        maxUses: options.approvalMaxUses,
+        escalation: requirements.escalation,
+        payload: approvalPayload(
+          req,
+          ["response", context.model, [...tools].sort().join(",")],
+          guardDecision,
+          inspection.invocations,
+        ),
+      });
+      if (created.created) {
+        ledger.logAndSignAction("APPROVAL_CREATED", {
+          approval_id: created.record.id,
+          reason: created.record.reason,
+          expires_at: created.record.expires_at,
+          security_decision_id: securityDecisionId,
+        });
+        notifyApprovalChat(created.record);
+      }
+      ledger.logAndSignAction("RESPONSE_GUARD_APPROVAL_REQUIRED", {
+        approval_id: created.record.id,
+        path: context.path,
+        method: req.method,
+        model: context.model,
+        stream,
+        reason: inspection.reason,
+        findings: inspection.findings,
+        security_decision_id: securityDecisionId,
+      });
+      void sendAlert(
+        "response_guard_approval_required",
+        "warning",
+        "Claw-EE held an upstream response pending human approval.",
+        {
+          approval_id: created.record.id,
+          path: context.path,
+          tools,
+          reason: inspection.reason,
+        },
+      );
+      return {
+        action: "reject",
+        statusCode: 428,
+        body: {
+          error: "Approval required by Claw-EE response guard.",
+          stage: "response",
+          approval_id: created.record.id,
+          expires_at: created.record.expires_at,
+          reason: inspection.reason,
+          tools,
+          required_approvals: created.record.required_approvals,
+          required_roles: parseRequiredRoles(created.record.required_roles),
+          max_uses: created.record.max_uses,
+          use_count: created.record.use_count,
+          current_approvals: parseApprovalActors(created.record.approval_actors).length,
+          remaining_approvals: remainingApprovals(created.record),
+          missing_required_roles: missingRequiredRoles(created.record),
+        },
+      };
+    }
+
+    if (mode === "redact") {
+      ledger.logAndSignAction("RESPONSE_GUARD_REDACTED", {
+        path: context.path,
+        method: req.method,
+        model: context.model,
+        stream,
+        reason: inspection.reason,
+        findings: inspection.findings,
+        security_decision_id: securityDecisionId,
+      });
+      void sendAlert("response_guard_redacted", "warning", "Claw-EE redacted an upstream response.", {
+        path: context.path,
+        tools,
+        reason: inspection.reason,
+      });
+      return { action: "redact" };
+    }
+
+    ledger.logAndSignAction("RESPONSE_GUARD_BLOCKED", {
+      path: context.path,
+      method: req.method,
+      model: context.model,
+      stream,
+      reason: inspection.reason,
+      findings: inspection.findings,
+      security_decision_id: securityDecisionId,
+    });
+    void sendAlert("response_guard_blocked", "critical", "Claw-EE blocked an upstream response by policy.", {
+      path: context.path,
+      tools,
+      reason: inspection.reason,
+      matched_signals: signals,
+    });
+    return {
+      action: "reject",
+      statusCode: 403,
+      body: {
+        error: "Blocked by Claw-EE response guard.",
+        stage: "response",
+        reason: inspection.reason,
+        tools,
+        matched_signals: signals,
       },
-      proxyRes: responseInterceptor(async (responseBuffer, proxyRes, req, res) => {
-        try {
-          const reqWithState = req as Request & {
-            __claweeCostEstimate?: CostEstimate;
-            __claweeRisk?: unknown;
-            __claweeSecurityDecisionId?: string;
-          };
-          const securityDecisionId = reqWithState.__claweeSecurityDecisionId || null;
-          const estimate = reqWithState.__claweeCostEstimate || null;
-          const contentType = String(proxyRes.headers["content-type"] || "");
-
-          let actual = estimate;
-          if (contentType.includes("application/json")) {
-            const payload = JSON.parse(responseBuffer.toString("utf8")) as unknown;
-            const usage = parseActualUsage(payload);
-            if (usage) {
-              actual = budgetController.estimateCost(usage.model, usage.inputTokens, usage.outputTokens);
-            }
-          }
+    };
+  };
 
-          if (actual) {
-            budgetController.recordActual({
+  const relayEventStream = (proxyRes: http.IncomingMessage, req: Request, res: http.ServerResponse): void => {
+    const reqWithState = req as Request & {
+      __claweeCostEstimate?: CostEstimate;
+      __claweeBudgetAttribution?: BudgetAttribution;
+      __claweeBudgetReservation?: string;
+      __claweeRisk?: unknown;
+      __claweeSecurityDecisionId?: string;
+      __claweePolicyInput?: PolicyReplayInput;
+      __claweeInputTokenizer?: string;
+    };
+    const securityDecisionId = reqWithState.__claweeSecurityDecisionId || null;
+    const estimate = reqWithState.__claweeCostEstimate || null;
+    const attribution = reqWithState.__claweeBudgetAttribution || {};
+    const reservationId = reqWithState.__claweeBudgetReservation;
+    const requestPath = req.url || "/";
+    const contentEncoding = String(proxyRes.headers["content-encoding"] || "identity").toLowerCase();
+    const meterable = contentEncoding === "identity";
+    const meter = new SseUsageMeter();
+    const statusCode = proxyRes.statusCode ?? 0;
+    const guarded = meterable && responseGuard.isEnabled() && statusCode < 300;
+    const toolCalls = new SseToolCallCollector();
+    const text = new SseTextCollector();
+    const withheld: Array<{ raw: string; toolCall: boolean }> = [];
+    const outgoing: string[] = [];
+    const dlpTokens = (req as DlpRequestState).__claweeDlpTokens;
+    const detokenizer =
+      dlpTokens && dlpTokens.size > 0
+        ? new SseDetokenizer((value, jsonText) => dlp.detokenize(value, dlpTokens, jsonText))
+        : null;
+    let textChanged = false;
+    let inspectedTextLength = 0;
+    let responseGuardAction: ResponseGuardOutcome["action"] | null = null;
+    let lastBudgetCheckTokens = 0;
+    let finalized = false;
+
+    res.statusCode = statusCode;
+    for (const [name, value] of Object.entries(proxyRes.headers)) {
+      if (value === undefined || name === "content-length") {
+        continue;
+      }
+      res.setHeader(name, value);
+    }
+    res.flushHeaders();
+
+    const runningCost = (): CostEstimate => {
+      const usage = meter.getUsage();
+      const model = meter.getModel() || estimate?.model || "unknown-model";
+      const inputTokens = usage && usage.inputTokens > 0 ? usage.inputTokens : estimate?.inputTokens ?? 0;
+      return budgetController.estimateUsageCost(model, {
+        inputTokens,
+        outputTokens: meter.getOutputTokens(),
+        cachedInputTokens: usage?.cachedInputTokens ?? 0,
+        reasoningTokens: usage?.reasoningTokens ?? 0,
+        images: 0,
+        audioSeconds: 0,
+      });
+    };
+
+    const finalize = (
+      outcome: "completed" | "budget-cutoff" | "response-guard" | "client-closed" | "upstream-error",
+    ): void => {
+      if (finalized) {
+        return;
+      }
+      finalized = true;
+      try {
+        const usage = meter.getUsage();
+        if (usage && estimate && reqWithState.__claweeInputTokenizer) {
+          tokenizerRegistry.recordAccuracy(reqWithState.__claweeInputTokenizer, estimate.inputTokens, usage.inputTokens);
+        }
+        const actual = meterable ? runningCost() : estimate;
+        if (actual) {
+          void budgetController
+            .recordActual({
               ...actual,
-              requestPath: req.url || "/",
-            });
-            ledger.logAndSignAction("BUDGET_COST_RECORDED", {
-              path: req.url || "/",
-              model: actual.model,
-              input_tokens: actual.inputTokens,
-              output_tokens: actual.outputTokens,
-              usd_cost: actual.estimatedUsd,
+              requestPath,
+              attribution,
+              reservationId,
+            })
+            .then(
+              (warnings) => reportBudgetWarnings(warnings, securityDecisionId),
+              (error: unknown) => {
+                ledger.logAndSignAction("SYSTEM_ERROR", {
+                  module: "uncertainty-gate",
+                  stage: "proxy-stream",
+                  path: requestPath,
+                  message: error instanceof Error ? error.message : String(error),
+                  security_decision_id: securityDecisionId,
+                });
+              },
+            );
+          ledger.logAndSignAction("BUDGET_COST_RECORDED", {
+            path: requestPath,
+            model: actual.model,
+            input_tokens: actual.inputTokens,
+            output_tokens: actual.outputTokens,
+            cached_input_tokens: actual.cachedInputTokens ?? 0,
+            reasoning_tokens: actual.reasoningTokens ?? 0,
+            usd_cost: actual.estimatedUsd,
+            stream: true,
+            usage_reported: meter.getUsage() !== null,
+            security_decision_id: securityDecisionId,
+          });
+        }
+      } catch (error) {
+        ledger.logAndSignAction("SYSTEM_ERROR", {
+          module: "uncertainty-gate",
+          stage: "proxy-stream",
+          path: requestPath,
+          message: error instanceof Error ? error.message : String(error),
+          security_decision_id: securityDecisionId,
+        });
+      }
+      ledger.logAndSignAction("ACTION_FORWARDED", {
+        path: requestPath,
+        method: req.method,
+        status_code: statusCode,
+        risk: reqWithState.__claweeRisk ?? null,
+        policy_input: reqWithState.__claweePolicyInput ?? null,
+        stream: true,
+        stream_outcome: outcome,
+        stream_events: meter.getEventCount(),
+        response_guard: responseGuardAction,
+        upstream: currentUpstream(req)?.name ?? null,
+        security_decision_id: securityDecisionId,
+      });
+    };
+
+    const relay = (event: string): void => {
+      meter.observe(event);
+      const toolCall = guarded && toolCalls.observe(event);
+      if (guarded && text.observe(event)) {
+        textChanged = true;
+      }
+      // Tool calls only execute once the stream completes, so everything after the first one is held for inspection.
+      if (toolCall || withheld.length > 0) {
+        withheld.push({ raw: event, toolCall });
+        return;
+      }
+      outgoing.push(event);
+    };
+
+    const writeGuardError = (outcome: Extract<ResponseGuardOutcome, { action: "reject" }>): void => {
+      const { error: message, ...details } = outcome.body;
+      res.write(
+        `event: error\ndata: ${JSON.stringify({
+          error: {
+            type: "clawee_response_guard",
+            message,
+            status: outcome.statusCode,
+            ...details,
+          },
+        })}\n\n`,
+      );
+    };
+
+    // Text reaches the client as it streams, so the new text is inspected before each upstream chunk is written and
+    // a hard block ends the stream there.
+    const flushOutgoing = (): boolean => {
+      if (textChanged) {
+        textChanged = false;
+        const fullText = text.getText();
+        const inspectFrom = Math.max(0, inspectedTextLength - STREAM_TEXT_INSPECTION_OVERLAP_CHARS);
+        inspectedTextLength = fullText.length;
+        const inspection = responseGuard.inspect(fullText.slice(inspectFrom), [], responseGuardContext(req));
+        if (inspection.decision === "block") {
+          outgoing.length = 0;
+          abortOnText(inspection);
+          return false;
+        }
+      }
+      for (const event of outgoing) {
+        res.write(detokenizer ? detokenizer.push(event) : event);
+      }
+      outgoing.length = 0;
+      return true;
+    };
+
+    const abortOnText = (inspection: ResponseInspection): void => {
+      responseGuardAction = "reject";
+      finalize("response-guard");
+      const fallback: Extract<ResponseGuardOutcome, { action: "reject" }> = {
+        action: "reject",
+        statusCode: 403,
+        body: { error: "Blocked by Claw-EE response guard.", stage: "response", reason: inspection.reason },
+      };
+      void enforceResponseGuard(req, inspection, true)
+        .then(
+          (outcome) => (outcome.action === "reject" ? outcome : fallback),
+          (error: unknown) => {
+            ledger.logAndSignAction("SYSTEM_ERROR", {
+              module: "uncertainty-gate",
+              stage: "response-guard",
+              path: requestPath,
+              message: error instanceof Error ? error.message : String(error),
               security_decision_id: securityDecisionId,
             });
+            return fallback;
+          },
+        )
+        .then((outcome) => {
+          writeGuardError(outcome);
+          res.end();
+          proxyRes.destroy();
+        });
+    };
+
+    const releaseWithheld = async (): Promise<boolean> => {
+      if (withheld.length === 0) {
+        return true;
+      }
+      let outcome: ResponseGuardOutcome;
+      try {
+        outcome = await enforceResponseGuard(
+          req,
+          responseGuard.inspect("", toolCalls.getInvocations(), responseGuardContext(req)),
+          true,
+        );
+      } catch (error) {
+        ledger.logAndSignAction("SYSTEM_ERROR", {
+          module: "uncertainty-gate",
+          stage: "response-guard",
+          path: requestPath,
+          message: error instanceof Error ? error.message : String(error),
+          security_decision_id: securityDecisionId,
+        });
+        outcome = {
+          action: "reject",
+          statusCode: 503,
+          body: { error: "Blocked by Claw-EE response guard failure policy." },
+        };
+      }
+      responseGuardAction = outcome.action;
+      if (outcome.action === "reject") {
+        writeGuardError(outcome);
+        return false;
+      }
+      for (const event of withheld) {
+        if (outcome.action === "pass" || !event.toolCall) {
+          res.write(detokenizer ? detokenizer.push(event.raw) : event.raw);
+        }
+      }
+      return true;
+    };
+
+    const evaluateCutoff = (): string | null => {
+      const running = runningCost();
+      if (streamMaxRequestUsd > 0 && running.estimatedUsd > streamMaxRequestUsd) {
+        return `Streaming request cost cap exceeded: ${running.estimatedUsd.toFixed(4)} > ${streamMaxRequestUsd.toFixed(4)}`;
+      }
+      if (running.outputTokens - lastBudgetCheckTokens < streamBudgetCheckIntervalTokens) {
+        return null;
+      }
+      lastBudgetCheckTokens = running.outputTokens;
+      checkRunningBudget(running);
+      return null;
+    };
+
+    // Budget checks go through shared storage, so they run alongside the relay and cut the stream off when they
+    // resolve. Each check resizes this request's hold to the running cost.
+    const checkRunningBudget = (running: CostEstimate): void => {
+      void budgetController
+        .evaluateProjected(running, attribution, { reservationId })
+        .then((budgetDecision) => {
+          if (finalized) {
+            // A check that lands after settlement must not leave a hold behind.
+            if (reservationId) {
+              void budgetController.releaseReservation(reservationId).catch(() => undefined);
+            }
+            return;
           }
-        } catch (error) {
+          if (budgetDecision.decision === "suspend") {
+            cutOff(budgetDecision.reason || "Budget cap exceeded.");
+          }
+        })
+        .catch((error: unknown) => {
           ledger.logAndSignAction("SYSTEM_ERROR", {
             module: "uncertainty-gate",
-            stage: "proxy-res",
-            path: req.url,
+            stage: "stream-budget-check",
+            path: requestPath,
             message: error instanceof Error ? error.message : String(error),
-            security_decision_id: (
-              req as Request & { __claweeSecurityDecisionId?: string }
-            ).__claweeSecurityDecisionId || null,
+            security_decision_id: securityDecisionId,
           });
+        });
+    };
+
+    const cutOff = (reason: string): void => {
+      const running = runningCost();
+      ledger.logAndSignAction("STREAM_BUDGET_CUTOFF", {
+        path: requestPath,
+        model: running.model,
+        input_tokens: running.inputTokens,
+        output_tokens: running.outputTokens,
+        usd_cost: running.estimatedUsd,
+        stream_max_request_usd: streamMaxRequestUsd,
+        reason,
+        security_decision_id: securityDecisionId,
+      });
+      void sendAlert("stream_budget_cutoff", "critical", "Streaming response terminated by budget guard.", {
+        path: requestPath,
+        model: running.model,
+        usd_cost: running.estimatedUsd,
+        reason,
+        security_decision_id: securityDecisionId,
+      });
+      res.write(
+        `event: error\ndata: ${JSON.stringify({
+          error: {
+            type: "clawee_budget_cutoff",
+            message: "Stream terminated by Claw-EE budget guard.",
+            reason,
+          },
+        })}\n\n`,
+      );
+      finalize("budget-cutoff");
+      res.end();
+      proxyRes.destroy();
+    };
+
+    proxyRes.on("data", (chunk: Buffer) => {
+      if (finalized) {
+        return;
+      }
+      if (!meterable) {
+        res.write(chunk);
+        return;
+      }
+      for (const event of meter.push(chunk)) {
+        relay(event);
+        const reason = evaluateCutoff();
+        if (reason) {
+          if (flushOutgoing()) {
+            cutOff(reason);
+          }
+          return;
+        }
+      }
+      flushOutgoing();
+    });
+    proxyRes.on("end", () => {
+      if (finalized) {
+        return;
+      }
+      if (meterable) {
+        const rest = meter.flush();
+        if (rest) {
+          relay(rest);
         }
+      }
+      if (!flushOutgoing()) {
+        return;
+      }
+      void releaseWithheld().then((released) => {
+        finalize(released ? "completed" : "response-guard");
+        if (released && detokenizer) {
+          res.write(detokenizer.flush());
+        }
+        res.end();
+      });
+    });
+    proxyRes.on("error", () => {
+      finalize("upstream-error");
+      res.end();
+    });
+    proxyRes.on("aborted", () => {
+      finalize("upstream-error");
+      res.end();
+    });
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        finalize("client-closed");
+        proxyRes.destroy();
+      }
+    });
+  };
 
-        const statusCode = proxyRes.statusCode ?? 0;
-        ledger.logAndSignAction("ACTION_FORWARDED", {
+  const interceptBufferedResponse = responseInterceptor(async (responseBuffer, proxyRes, req, res) => {
+    let payload: unknown;
+    try {
+      const reqWithState = req as Request & {
+        __claweeCostEstimate?: CostEstimate;
+        __claweeBudgetAttribution?: BudgetAttribution;
+        __claweeBudgetReservation?: string;
+        __claweeRisk?: unknown;
+        __claweeSecurityDecisionId?: string;
+      };
+      const securityDecisionId = reqWithState.__claweeSecurityDecisionId || null;
+      const estimate = reqWithState.__claweeCostEstimate || null;
+      const contentType = String(proxyRes.headers["content-type"] || "");
+
+      let actual = estimate;
+      if (contentType.includes("application/json")) {
+        payload = JSON.parse(responseBuffer.toString("utf8")) as unknown;
+        const usage = parseActualUsage(payload);
+        const inputTokenizer = (req as Request & { __claweeInputTokenizer?: string }).__claweeInputTokenizer;
+        if (usage && estimate && inputTokenizer) {
+          tokenizerRegistry.recordAccuracy(inputTokenizer, estimate.inputTokens, usage.inputTokens);
+        }
+        if (usage) {
+          actual = budgetController.estimateUsageCost(usage.model, usage);
+        }
+      }
+
+      if (actual) {
+        reportBudgetWarnings(
+          await budgetController.recordActual({
+            ...actual,
+            requestPath: req.url || "/",
+            attribution: reqWithState.__claweeBudgetAttribution,
+            reservationId: reqWithState.__claweeBudgetReservation,
+          }),
+          securityDecisionId,
+        );
+        ledger.logAndSignAction("BUDGET_COST_RECORDED", {
+          path: req.url || "/",
+          model: actual.model,
+          input_tokens: actual.inputTokens,
+          output_tokens: actual.outputTokens,
+          cached_input_tokens: actual.cachedInputTokens ?? 0,
+          reasoning_tokens: actual.reasoningTokens ?? 0,
+          images: actual.images ?? 0,
+          audio_seconds: actual.audioSeconds ?? 0,
+          usd_cost: actual.estimatedUsd,
+          security_decision_id: securityDecisionId,
+        });
+      }
+    } catch (error) {
+      ledger.logAndSignAction("SYSTEM_ERROR", {
+        module: "uncertainty-gate",
+        stage: "proxy-res",
+        path: req.url,
+        message: error instanceof Error ? error.message : String(error),
+        security_decision_id: (
+          req as Request & { __claweeSecurityDecisionId?: string }
+        ).__claweeSecurityDecisionId || null,
+      });
+    }
+
+    const statusCode = proxyRes.statusCode ?? 0;
+    let outputBuffer = responseBuffer;
+    let responseGuardAction: ResponseGuardOutcome["action"] | null = null;
+    if (responseGuard.isEnabled() && payload !== undefined && statusCode < 300) {
+      let outcome: ResponseGuardOutcome;
+      let inspection: ResponseInspection | null = null;
+      try {
+        inspection = responseGuard.inspectPayload(payload, responseGuardContext(req as Request));
+        outcome = await enforceResponseGuard(req as Request, inspection, false);
+      } catch (error) {
+        ledger.logAndSignAction("SYSTEM_ERROR", {
+          module: "uncertainty-gate",
+          stage: "response-guard",
           path: req.url,
-          method: req.method,
-          status_code: statusCode,
-          risk: (req as Request & { __claweeRisk?: unknown }).__claweeRisk ?? null,
+          message: error instanceof Error ? error.message : String(error),
           security_decision_id: (
             req as Request & { __claweeSecurityDecisionId?: string }
           ).__claweeSecurityDecisionId || null,
         });
+        outcome = {
+          action: "reject",
+          statusCode: 503,
+          body: { error: "Blocked by Claw-EE response guard failure policy." },
+        };
+      }
+      responseGuardAction = outcome.action;
+      if (outcome.action === "reject") {
+        res.statusCode = outcome.statusCode;
+        res.statusMessage = http.STATUS_CODES[outcome.statusCode] || "";
+        res.setHeader("content-type", "application/json; charset=utf-8");
+        outputBuffer = Buffer.from(JSON.stringify(outcome.body), "utf8");
+      } else if (outcome.action === "redact" && inspection) {
+        res.setHeader("x-clawee-response-redacted", "true");
+        outputBuffer = Buffer.from(JSON.stringify(redactResponsePayload(payload, inspection.findings)), "utf8");
+      }
+    }
 
-        return responseBuffer;
-      }),
-      error: (error, req) => {
+    if ((req as DlpRequestState).__claweeDlpTokens) {
+      const contentType = String(res.getHeader("content-type") || proxyRes.headers["content-type"] || "");
+      outputBuffer = Buffer.from(
+        detokenizeResponse(req, outputBuffer.toString("utf8"), contentType.includes("application/json")),
+        "utf8",
+      );
+    }
+
+    const cacheRequest = (req as ResponseCacheRequestState).__claweeResponseCacheRequest;
+    if (
+      responseCache &&
+      cacheRequest &&
+      statusCode === 200 &&
+      payload !== undefined &&
+      (responseGuardAction === null || responseGuardAction === "pass")
+    ) {
+      try {
+        responseCache.store(cacheRequest, {
+          statusCode,
+          contentType: String(proxyRes.headers["content-type"] || "application/json"),
+          body: outputBuffer,
+        });
+      } catch (error) {
         ledger.logAndSignAction("SYSTEM_ERROR", {
           module: "uncertainty-gate",
-          stage: "proxy",
+          stage: "response-cache",
           path: req.url,
-          message: error.message,
+          message: error instanceof Error ? error.message : String(error),
         });
-      },
-    },
-  }) as ProxyRequestHandler;
+      }
+    }
+
+    ledger.logAndSignAction("ACTION_FORWARDED", {
+      path: req.url,
+      method: req.method,
+      status_code: statusCode,
+      risk: (req as Request & { __claweeRisk?: unknown }).__claweeRisk ?? null,
+      policy_input: (req as Request & { __claweePolicyInput?: PolicyReplayInput }).__claweePolicyInput ?? null,
+      response_guard: responseGuardAction,
+      upstream: currentUpstream(req)?.name ?? null,
+      security_decision_id: (
+        req as Request & { __claweeSecurityDecisionId?: string }
+      ).__claweeSecurityDecisionId || null,
+    });
+
+    return outputBuffer;
+  });
+
+  const failoverUpstream = (req: http.IncomingMessage, res: http.ServerResponse, reason: string): boolean => {
+    const state = req as UpstreamRequestState;
+    const plan = state.__claweeUpstreamPlan;
+    const attempt = state.__claweeUpstreamAttempt ?? 0;
+    const next = plan?.candidates[attempt + 1];
+    if (!plan || !next || res.headersSent) {
+      return false;
+    }
+    ledger.logAndSignAction("UPSTREAM_FAILOVER", {
+      path: req.url,
+      method: req.method,
+      route: plan.route,
+      from: plan.candidates[attempt].name,
+      to: next.name,
+      attempt: attempt + 1,
+      reason,
+      security_decision_id: (req as Request & { __claweeSecurityDecisionId?: string }).__claweeSecurityDecisionId || null,
+    });
+    forwardUpstream(state, res, attempt + 1);
+    return true;
+  };
+
+  const upstreamProxies = new Map<string, ProxyRequestHandler>();
+  for (const target of upstreamRouter.listTargets()) {
+    upstreamProxies.set(
+      target.name,
+      createProxyMiddleware({
+        target: target.url,
+        changeOrigin: true,
+        selfHandleResponse: true,
+        agent: upstreamRouter.agentFor(target.name),
+        proxyTimeout: upstreamRouter.getFailoverPolicy().timeout_ms || undefined,
+        on: {
+          proxyReq: (proxyReq, req) => {
+            proxyReq.removeHeader(AGENT_TOKEN_HEADER);
+            const body = (req as Request).body as Record<string, unknown> | undefined;
+            if (body && typeof body === "object" && body.stream === true) {
+              proxyReq.setHeader("accept-encoding", "identity");
+              if ((req.url || "").split("?")[0].endsWith("/chat/completions") && body.stream_options === undefined) {
+                body.stream_options = { include_usage: true };
+              }
+            }
+            fixRequestBody(proxyReq, req);
+          },
+          proxyRes: (proxyRes, req, res) => {
+            const statusCode = proxyRes.statusCode ?? 0;
+            const current = currentUpstream(req);
+            if (current && upstreamRouter.isRetryableStatus(statusCode)) {
+              upstreamRouter.recordFailure(current.name, `HTTP ${statusCode}`);
+              if (failoverUpstream(req, res, `HTTP ${statusCode}`)) {
+                proxyRes.resume();
+                return;
+              }
+            } else if (current) {
+              upstreamRouter.recordSuccess(current.name);
+            }
+            if (isEventStreamContentType(String(proxyRes.headers["content-type"] || ""))) {
+              relayEventStream(proxyRes, req as Request, res);
+              return;
+            }
+            void interceptBufferedResponse(proxyRes, req, res);
+          },
+          error: (error, req, res) => {
+            ledger.logAndSignAction("SYSTEM_ERROR", {
+              module: "uncertainty-gate",
+              stage: "proxy",
+              path: req.url,
+              upstream: target.name,
+              message: error.message,
+            });
+            if (!(res instanceof http.ServerResponse)) {
+              return;
+            }
+            if (currentUpstream(req)) {
+              upstreamRouter.recordFailure(target.name, error.message);
+              if (failoverUpstream(req, res, error.message)) {
+                return;
+              }
+            }
+            if (!res.headersSent) {
+              res.writeHead(502, { "content-type": "application/json" });
+              res.end(JSON.stringify({ error: "Upstream request failed.", upstream: target.name }));
+            }
+          },
+        },
+      }) as ProxyRequestHandler,
+    );
+  }
+
+  const forwardUpstream = (req: UpstreamRequestState, res: http.ServerResponse, attempt: number): void => {
+    const plan = req.__claweeUpstreamPlan as UpstreamPlan;
+    const target = plan.candidates[attempt];
+    req.__claweeUpstreamAttempt = attempt;
+    res.setHeader("x-clawee-upstream", target.name);
+    void upstreamProxies.get(target.name)?.(req, res);
+  };
+
+  const proxy: RequestHandler = (req, res) => {
+    const state = req as UpstreamRequestState;
+    state.__claweeUpstreamPlan = state.__claweeUpstreamPlan ?? planUpstream(req);
+    forwardUpstream(state, res, 0);
+  };
 
   app.use("/", proxy);
 
   const server = await new Promise<http.Server>((resolve) => {
     const started = app.listen(options.port, () => resolve(started));
   });
+  const primaryProxy = upstreamProxies.get(PRIMARY_UPSTREAM);
+  if (primaryProxy) {
+    // WebSocket upgrades are not routed per model; they always go to the primary upstream.
+    server.on("upgrade", primaryProxy.upgrade);
+  }
 
   return {
     close: () =>
       new Promise<void>((resolve, reject) => {
+        upstreamRouter.stop();
+        approvalEscalationJob.stop();
         server.close((error) => {
           if (error) {
             reject(error);
@@ -0,0 +1,525 @@
+import fs from "node:fs";
+import http from "node:http";
+import https from "node:https";
+
+export const PRIMARY_UPSTREAM = "primary";
+export const PRIMARY_UPSTREAM_EGRESS_TARGET = "upstream_base_url";
+
+export interface UpstreamDefinition {
+  name: string;
+  url: string;
+  weight: number;
+  health_path: string | null;
+  enforce_tls: boolean;
+  tls_pin_sha256: string;
+  ca_cert_path: string;
+  client_cert_path: string;
+  client_key_path: string;
+}
+
+export interface UpstreamRouteRule {
+  name: string;
+  models: string[];
+  modalities: string[];
+  tenants: string[];
+  upstreams: string[];
+  fallback: string[];
+}
+
+export interface UpstreamRouteCatalog {
+  version: string;
+  primary: { weight: number; health_path: string | null };
+  upstreams: UpstreamDefinition[];
+  routes: UpstreamRouteRule[];
+  default: { upstreams: string[]; fallback: string[] };
+  health_check: {
+    interval_seconds: number;
+    timeout_ms: number;
+    unhealthy_threshold: number;
+    healthy_threshold: number;
+  };
+  failover: {
+    max_attempts: number;
+    timeout_ms: number;
+    retry_on_status: number[];
+  };
+}
+
+export interface UpstreamTarget {
+  name: string;
+  url: string;
+  weight: number;
+  healthPath: string | null;
+  egressTarget: string;
+}
+
+export interface UpstreamRouteContext {
+  model?: string;
+  modality?: string;
+  tenant?: string;
+}
+
+export interface UpstreamPlan {
+  route: string;
+  candidates: UpstreamTarget[];
+}
+
+export interface UpstreamHealthChange {
+  upstream: string;
+  healthy: boolean;
+  reason: string;
+  consecutive_failures: number;
+}
+
+export interface UpstreamState {
+  name: string;
+  url: string;
+  weight: number;
+  healthy: boolean;
+  consecutive_failures: number;
+  last_error: string | null;
+  last_checked_at: string | null;
+  last_changed_at: string | null;
+  requests_total: number;
+  failures_total: number;
+}
+
+export interface UpstreamRouterOptions {
+  agents?: Record<string, http.Agent | https.Agent | undefined>;
+  assertEgress?: (target: UpstreamTarget) => Promise<unknown>;
+  onHealthChange?: (change: UpstreamHealthChange) => void;
+  random?: () => number;
+}
+
+interface HealthRecord {
+  healthy: boolean;
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+  lastError: string | null;
+  lastCheckedAt: string | null;
+  lastChangedAt: string | null;
+  requestsTotal: number;
+  failuresTotal: number;
+}
+
+const UPSTREAM_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function stringList(value: unknown, label: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || !item.trim())) {
+    throw new Error(`${label} must be an array of non-empty strings.`);
+  }
+  return value.map((item: string) => item.trim());
+}
+
+function positiveNumber(value: unknown, fallback: number, label: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${label} must be a positive number.`);
+  }
+  return value;
+}
+
+function healthPath(value: unknown, label: string): string | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (typeof value !== "string" || !value.startsWith("/")) {
+    throw new Error(`${label} health_path must start with "/".`);
+  }
+  return value;
+}
+
+export function upstreamEgressTarget(name: string): string {
+  return name === PRIMARY_UPSTREAM ? PRIMARY_UPSTREAM_EGRESS_TARGET : `upstream:${name}`;
+}
+
+export function parseUpstreamRouteCatalog(value: unknown): UpstreamRouteCatalog {
+  const record = asRecord(value);
+  if (!record) {
+    throw new Error("Upstream route catalog must be an object.");
+  }
+  const primary = asRecord(record.primary ?? {});
+  if (!primary) {
+    throw new Error("Upstream route catalog primary must be an object.");
+  }
+  if (record.upstreams !== undefined && !Array.isArray(record.upstreams)) {
+    throw new Error("Upstream route catalog upstreams must be an array.");
+  }
+  const names = new Set<string>([PRIMARY_UPSTREAM]);
+  const upstreams: UpstreamDefinition[] = [];
+  for (const [index, entry] of ((record.upstreams as unknown[] | undefined) || []).entries()) {
+    const upstream = asRecord(entry);
+    const name = typeof upstream?.name === "string" ? upstream.name.trim().toLowerCase() : "";
+    if (!upstream || !UPSTREAM_NAME_PATTERN.test(name)) {
+      throw new Error(`Upstream #${index} must have a name of lowercase letters, digits, "-" or "_".`);
+    }
+    if (names.has(name)) {
+      throw new Error(`Upstream ${name} is defined more than once (or reuses the reserved name "primary").`);
+    }
+    names.add(name);
+    let url: URL;
+    try {
+      url = new URL(String(upstream.url || ""));
+    } catch {
+      throw new Error(`Upstream ${name} url is invalid.`);
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error(`Upstream ${name} url must use http or https.`);
+    }
+    upstreams.push({
+      name,
+      url: url.toString().replace(/\/$/, ""),
+      weight: positiveNumber(upstream.weight, 1, `Upstream ${name} weight`),
+      health_path: healthPath(upstream.health_path, `Upstream ${name}`),
+      enforce_tls: upstream.enforce_tls === true,
+      tls_pin_sha256: typeof upstream.tls_pin_sha256 === "string" ? upstream.tls_pin_sha256 : "",
+      ca_cert_path: typeof upstream.ca_cert_path === "string" ? upstream.ca_cert_path : "",
+      client_cert_path: typeof upstream.client_cert_path === "string" ? upstream.client_cert_path : "",
+      client_key_path: typeof upstream.client_key_path === "string" ? upstream.client_key_path : "",
+    });
+  }
+  const pool = (value: unknown, label: string): string[] => {
+    const list = stringList(value, label).map((name) => name.toLowerCase());
+    for (const name of list) {
+      if (!names.has(name)) {
+        throw new Error(`${label} references unknown upstream ${name}.`);
+      }
+    }
+    return list;
+  };
+  if (record.routes !== undefined && !Array.isArray(record.routes)) {
+    throw new Error("Upstream route catalog routes must be an array.");
+  }
+  const routes: UpstreamRouteRule[] = ((record.routes as unknown[] | undefined) || []).map((entry, index) => {
+    const route = asRecord(entry);
+    if (!route) {
+      throw new Error(`Upstream route #${index} must be an object.`);
+    }
+    const name = typeof route.name === "string" && route.name.trim() ? route.name.trim() : `route-${index}`;
+    const upstreamPool = pool(route.upstreams, `Upstream route ${name} upstreams`);
+    if (upstreamPool.length === 0) {
+      throw new Error(`Upstream route ${name} must list at least one upstream.`);
+    }
+    return {
+      name,
+      models: stringList(route.models, `Upstream route ${name} models`).map((model) => model.toLowerCase()),
+      modalities: stringList(route.modalities, `Upstream route ${name} modalities`).map((modality) =>
+        modality.toLowerCase(),
+      ),
+      tenants: stringList(route.tenants, `Upstream route ${name} tenants`),
+      upstreams: upstreamPool,
+      fallback: pool(route.fallback, `Upstream route ${name} fallback`),
+    };
+  });
+  const defaults = asRecord(record.default ?? {});
+  const healthCheck = asRecord(record.health_check ?? {});
+  const failover = asRecord(record.failover ?? {});
+  if (!defaults || !healthCheck || !failover) {
+    throw new Error("Upstream route catalog default, health_check and failover must be objects.");
+  }
+  const defaultPool = pool(defaults.upstreams, "Upstream default upstreams");
+  const retryOnStatus =
+    failover.retry_on_status === undefined ? [502, 503, 504] : (failover.retry_on_status as unknown[]);
+  if (
+    !Array.isArray(retryOnStatus) ||
+    retryOnStatus.some((status) => !Number.isInteger(status) || Number(status) < 500 || Number(status) > 599)
+  ) {
+    throw new Error("Upstream failover retry_on_status must list 5xx status codes.");
+  }
+  return {
+    version: String(record.version || "v1"),
+    primary: {
+      weight: positiveNumber(primary.weight, 1, "Upstream primary weight"),
+      health_path: healthPath(primary.health_path, "Upstream primary"),
+    },
+    upstreams,
+    routes,
+    default: {
+      upstreams: defaultPool.length > 0 ? defaultPool : [PRIMARY_UPSTREAM],
+      fallback: pool(defaults.fallback, "Upstream default fallback"),
+    },
+    health_check: {
+      interval_seconds: positiveNumber(healthCheck.interval_seconds, 15, "Upstream health_check interval_seconds"),
+      timeout_ms: positiveNumber(healthCheck.timeout_ms, 2000, "Upstream health_check timeout_ms"),
+      unhealthy_threshold: Math.floor(
+        positiveNumber(healthCheck.unhealthy_threshold, 3, "Upstream health_check unhealthy_threshold"),
+      ),
+      healthy_threshold: Math.floor(
+        positiveNumber(healthCheck.healthy_threshold, 2, "Upstream health_check healthy_threshold"),
+      ),
+    },
+    failover: {
+      max_attempts: Math.floor(positiveNumber(failover.max_attempts, 2, "Upstream failover max_attempts")),
+      timeout_ms:
+        failover.timeout_ms === 0 ? 0 : positiveNumber(failover.timeout_ms, 120000, "Upstream failover timeout_ms"),
+      retry_on_status: retryOnStatus.map(Number),
+    },
+  };
+}
+
+export function loadUpstreamRouteCatalog(filePath: string): UpstreamRouteCatalog {
+  if (!filePath) {
+    return parseUpstreamRouteCatalog({});
+  }
+  return parseUpstreamRouteCatalog(JSON.parse(fs.readFileSync(filePath, "utf8")) as unknown);
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+  if (pattern === "*") {
+    return true;
+  }
+  if (pattern.endsWith("*")) {
+    return value.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === value;
+}
+
+export class UpstreamRouter {
+  private catalog: UpstreamRouteCatalog;
+  private targets = new Map<string, UpstreamTarget>();
+  private health = new Map<string, HealthRecord>();
+  private options: UpstreamRouterOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private probing = false;
+
+  constructor(primaryUrl: string, catalog: UpstreamRouteCatalog, options: UpstreamRouterOptions = {}) {
+    this.catalog = catalog;
+    this.options = options;
+    const definitions = [
+      { name: PRIMARY_UPSTREAM, url: primaryUrl, weight: catalog.primary.weight, health_path: catalog.primary.health_path },
+      ...catalog.upstreams,
+    ];
+    for (const definition of definitions) {
+      this.targets.set(definition.name, {
+        name: definition.name,
+        url: definition.url,
+        weight: definition.weight,
+        healthPath: definition.health_path,
+        egressTarget: upstreamEgressTarget(definition.name),
+      });
+      this.health.set(definition.name, {
+        healthy: true,
+        consecutiveFailures: 0,
+        consecutiveSuccesses: 0,
+        lastError: null,
+        lastCheckedAt: null,
+        lastChangedAt: null,
+        requestsTotal: 0,
+        failuresTotal: 0,
+      });
+    }
+  }
+
+  listTargets(): UpstreamTarget[] {
+    return Array.from(this.targets.values());
+  }
+
+  agentFor(name: string): http.Agent | https.Agent | undefined {
+    const target = this.targets.get(name);
+    return target ? this.options.agents?.[target.egressTarget] : undefined;
+  }
+
+  getFailoverPolicy(): UpstreamRouteCatalog["failover"] {
+    return this.catalog.failover;
+  }
+
+  plan(context: UpstreamRouteContext): UpstreamPlan {
+    const model = (context.model || "").toLowerCase();
+    const modality = (context.modality || "").toLowerCase();
+    const tenant = context.tenant || "";
+    const rule = this.catalog.routes.find(
+      (route) =>
+        (route.models.length === 0 || route.models.some((pattern) => matchesPattern(pattern, model))) &&
+        (route.modalities.length === 0 || route.modalities.includes(modality)) &&
+        (route.tenants.length === 0 || route.tenants.includes(tenant)),
+    );
+    const primaryPool = this.weightedOrder(rule ? rule.upstreams : this.catalog.default.upstreams);
+    const fallbackPool = this.weightedOrder(rule ? rule.fallback : this.catalog.default.fallback).filter(
+      (target) => !primaryPool.includes(target),
+    );
+    const ordered = [...primaryPool, ...fallbackPool];
+    // Unhealthy upstreams stay as a last resort so a flapping health check cannot take the proxy down.
+    const candidates = [
+      ...ordered.filter((target) => this.isHealthy(target.name)),
+      ...ordered.filter((target) => !this.isHealthy(target.name)),
+    ];
+    return {
+      route: rule ? rule.name : "default",
+      candidates: candidates.slice(0, Math.max(1, this.catalog.failover.max_attempts)),
+    };
+  }
+
+  isRetryableStatus(statusCode: number): boolean {
+    return this.catalog.failover.retry_on_status.includes(statusCode);
+  }
+
+  recordSuccess(name: string): void {
+    const record = this.health.get(name);
+    if (!record) {
+      return;
+    }
+    record.requestsTotal += 1;
+    this.markSuccess(name, record);
+  }
+
+  recordFailure(name: string, reason: string): void {
+    const record = this.health.get(name);
+    if (!record) {
+      return;
+    }
+    record.requestsTotal += 1;
+    record.failuresTotal += 1;
+    this.markFailure(name, record, reason);
+  }
+
+  start(): void {
+    if (this.timer || !this.listTargets().some((target) => target.healthPath)) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.runHealthChecks();
+    }, this.catalog.health_check.interval_seconds * 1000);
+    this.timer.unref();
+    void this.runHealthChecks();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runHealthChecks(): Promise<void> {
+    if (this.probing) {
+      return;
+    }
+    this.probing = true;
+    try {
+      await Promise.all(
+        this.listTargets()
+          .filter((target) => target.healthPath)
+          .map(async (target) => {
+            const record = this.health.get(target.name) as HealthRecord;
+            record.lastCheckedAt = new Date().toISOString();
+            try {
+              await this.options.assertEgress?.(target);
+              await this.probe(target);
+              this.markSuccess(target.name, record);
+            } catch (error) {
+              this.markFailure(target.name, record, error instanceof Error ? error.message : String(error));
+            }
+          }),
+      );
+    } finally {
+      this.probing = false;
+    }
+  }
+
+  getState(): { version: string; routes: string[]; upstreams: UpstreamState[] } {
+    return {
+      version: this.catalog.version,
+      routes: this.catalog.routes.map((route) => route.name),
+      upstreams: this.listTargets().map((target) => {
+        const record = this.health.get(target.name) as HealthRecord;
+        return {
+          name: target.name,
+          url: target.url,
+          weight: target.weight,
+          healthy: record.healthy,
+          consecutive_failures: record.consecutiveFailures,
+          last_error: record.lastError,
+          last_checked_at: record.lastCheckedAt,
+          last_changed_at: record.lastChangedAt,
+          requests_total: record.requestsTotal,
+          failures_total: record.failuresTotal,
+        };
+      }),
+    };
+  }
+
+  private isHealthy(name: string): boolean {
+    return this.health.get(name)?.healthy ?? false;
+  }
+
+  // Weighted random order without replacement (Efraimidis-Spirakis keys).
+  private weightedOrder(names: string[]): UpstreamTarget[] {
+    const random = this.options.random ?? Math.random;
+    return names
+      .map((name) => this.targets.get(name) as UpstreamTarget)
+      .map((target) => ({ target, key: Math.pow(random(), 1 / target.weight) }))
+      .sort((a, b) => b.key - a.key)
+      .map((entry) => entry.target);
+  }
+
+  private markSuccess(name: string, record: HealthRecord): void {
+    record.consecutiveFailures = 0;
+    record.consecutiveSuccesses += 1;
+    if (!record.healthy && record.consecutiveSuccesses >= this.catalog.health_check.healthy_threshold) {
+      record.healthy = true;
+      record.lastError = null;
+      this.changed(name, record, "recovered");
+    }
+  }
+
+  private markFailure(name: string, record: HealthRecord, reason: string): void {
+    record.consecutiveSuccesses = 0;
+    record.consecutiveFailures += 1;
+    record.lastError = reason;
+    if (record.healthy && record.consecutiveFailures >= this.catalog.health_check.unhealthy_threshold) {
+      record.healthy = false;
+      this.changed(name, record, reason);
+    }
+  }
+
+  private changed(name: string, record: HealthRecord, reason: string): void {
+    record.lastChangedAt = new Date().toISOString();
+    this.options.onHealthChange?.({
+      upstream: name,
+      healthy: record.healthy,
+      reason,
+      consecutive_failures: record.consecutiveFailures,
+    });
+  }
+
+  private probe(target: UpstreamTarget): Promise<void> {
+    const url = new URL(`${target.url.replace(/\/$/, "")}${target.healthPath}`);
+    const client = url.protocol === "https:" ? https : http;
+    return new Promise<void>((resolve, reject) => {
+      const request = client.request(
+        url,
+        {
+          method: "GET",
+          agent: this.agentFor(target.name),
+          timeout: this.catalog.health_check.timeout_ms,
+        },
+        (response) => {
+          response.resume();
+          const status = response.statusCode ?? 0;
+          if (status >= 200 && status < 400) {
+            resolve();
+            return;
+          }
+          reject(new Error(`Health check returned HTTP ${status}.`));
+        },
+      );
+      request.on("timeout", () => {
+        request.destroy(new Error(`Health check timed out after ${this.catalog.health_check.timeout_ms}ms.`));
+      });
+      request.on("error", reject);
+      request.end();
+    });
+  }
+}
@@ -4,6 +4,7 @@ import os from "node:os";
 import path from "node:path";
 
 import { InteractionStore } from "../dist/interaction-store.js";
+import { createRateLimiter } from "../dist/rate-limiter.js";
 import { createReplayStore } from "../dist/replay-store.js";
 
 function strictModeEnabled() {
@@ -29,19 +30,20 @@ async function main() {
   const interactionStore = new InteractionStore(dbPath);
   interactionStore.init();
 
-  const replayStore = createReplayStore(
-    {
-      mode: "postgres",
-      redisUrl: "",
-      redisPrefix: "clawee",
-      postgresUrl,
-      postgresSchema: String(process.env.REPLAY_POSTGRES_SCHEMA || "clawee"),
-      postgresTablePrefix: String(process.env.REPLAY_POSTGRES_TABLE_PREFIX || "replay_"),
-      postgresConnectTimeoutMs: Number(process.env.REPLAY_POSTGRES_CONNECT_TIMEOUT_MS || 10000),
-      postgresSslMode: String(process.env.REPLAY_POSTGRES_SSL_MODE || "disable"),
-    },
-    interactionStore,
-  );
+  const replayConfig = {
+    mode: "postgres",
+    redisUrl: "",
+    redisPrefix: "clawee",
+    postgresUrl,
+    postgresSchema: String(process.env.REPLAY_POSTGRES_SCHEMA || "clawee"),
+    postgresTablePrefix: String(process.env.REPLAY_POSTGRES_TABLE_PREFIX || "replay_"),
+    postgresConnectTimeoutMs: Number(process.env.REPLAY_POSTGRES_CONNECT_TIMEOUT_MS || 10000),
+    postgresSslMode: String(process.env.REPLAY_POSTGRES_SSL_MODE || "disable"),
+  };
+  const replayStore = createReplayStore(replayConfig, interactionStore);
+  // Two limiters stand in for two nodes sharing one quota.
+  const rateLimiterA = createRateLimiter(replayConfig, "sliding-window");
+  const rateLimiterB = createRateLimiter(replayConfig, "sliding-window");
 
   try {
     await replayStore.warmup();
@@ -58,9 +60,24 @@ async function main() {
     assert.equal(eventA, true);
     assert.equal(eventAReplay, false);
 
+    const ratePolicy = { windowSeconds: 60, maxRequests: 3 };
+    const rateKey = `smoke:${Date.now()}`;
+    const rateDecisions = [];
+    for (let index = 0; index < 4; index += 1) {
+      rateDecisions.push(await (index % 2 === 0 ? rateLimiterA : rateLimiterB).check(rateKey, ratePolicy));
+    }
+    assert.deepEqual(
+      rateDecisions.map((decision) => decision.allowed),
+      [true, true, true, false],
+    );
+    assert.equal(rateLimiterA.getState().fallback_checks, 0);
+    assert.equal(rateLimiterB.getState().fallback_checks, 0);
+
     console.log("replay-postgres-smoke: ok", replayStore.getState());
   } finally {
     await replayStore.close();
+    await rateLimiterA.close();
+    await rateLimiterB.close();
     interactionStore.close();
     fs.rmSync(tmpDir, { recursive: true, force: true });
   }
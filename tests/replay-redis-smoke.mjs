@@ -4,6 +4,7 @@ import os from "node:os";
 import path from "node:path";
 
 import { InteractionStore } from "../dist/interaction-store.js";
+import { createRateLimiter } from "../dist/rate-limiter.js";
 import { createReplayStore } from "../dist/replay-store.js";
 
 function strictModeEnabled() {
@@ -29,19 +30,20 @@ async function main() {
   const interactionStore = new InteractionStore(dbPath);
   interactionStore.init();
 
-  const replayStore = createReplayStore(
-    {
-      mode: "redis",
-      redisUrl,
-      redisPrefix: `clawee-smoke-${Date.now()}`,
-      postgresUrl: "",
-      postgresSchema: "clawee",
-      postgresTablePrefix: "replay_",
-      postgresConnectTimeoutMs: 10000,
-      postgresSslMode: "disable",
-    },
-    interactionStore,
-  );
+  const replayConfig = {
+    mode: "redis",
+    redisUrl,
+    redisPrefix: `clawee-smoke-${Date.now()}`,
+    postgresUrl: "",
+    postgresSchema: "clawee",
+    postgresTablePrefix: "replay_",
+    postgresConnectTimeoutMs: 10000,
+    postgresSslMode: "disable",
+  };
+  const replayStore = createReplayStore(replayConfig, interactionStore);
+  // Two limiters stand in for two nodes sharing one quota.
+  const rateLimiterA = createRateLimiter(replayConfig, "sliding-window");
+  const rateLimiterB = createRateLimiter(replayConfig, "sliding-window");
 
   try {
     await replayStore.warmup();
@@ -55,9 +57,24 @@ async function main() {
     assert.equal(eventA, true);
     assert.equal(eventAReplay, false);
 
+    const ratePolicy = { windowSeconds: 60, maxRequests: 3 };
+    const rateKey = `smoke:${Date.now()}`;
+    const rateDecisions = [];
+    for (let index = 0; index < 4; index += 1) {
+      rateDecisions.push(await (index % 2 === 0 ? rateLimiterA : rateLimiterB).check(rateKey, ratePolicy));
+    }
+    assert.deepEqual(
+      rateDecisions.map((decision) => decision.allowed),
+      [true, true, true, false],
+    );
+    assert.equal(rateLimiterA.getState().fallback_checks, 0);
+    assert.equal(rateLimiterB.getState().fallback_checks, 0);
+
     console.log("replay-redis-smoke: ok", replayStore.getState());
   } finally {
     await replayStore.close();
+    await rateLimiterA.close();
+    await rateLimiterB.close();
     interactionStore.close();
     fs.rmSync(tmpDir, { recursive: true, force: true });
   }
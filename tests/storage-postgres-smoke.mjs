@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { ApprovalService } from "../dist/approval-service.js";
+import { PostgresAuditLedger } from "../dist/audit-ledger.js";
+import { BudgetController } from "../dist/budget-controller.js";
+import { createSharedSqlStore } from "../dist/sql-store.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const projectRoot = path.resolve(__dirname, "..");
+
+function strictModeEnabled() {
+  const raw = String(process.env.STORAGE_SMOKE_STRICT || "").trim().toLowerCase();
+  return raw === "1" || raw === "true" || raw === "yes" || raw === "on";
+}
+
+// Each node gets its own pool; the run uses a throwaway schema so repeated runs start from empty tables.
+function createNodeStore(postgresUrl, schema) {
+  return createSharedSqlStore({
+    mode: "postgres",
+    postgresUrl,
+    postgresSchema: schema,
+    postgresConnectTimeoutMs: Number(process.env.STORAGE_POSTGRES_CONNECT_TIMEOUT_MS || 10000),
+    postgresSslMode: String(process.env.STORAGE_POSTGRES_SSL_MODE || "disable"),
+  });
+}
+
+async function main() {
+  const postgresUrl = String(process.env.STORAGE_POSTGRES_URL || "").trim();
+  const strictMode = strictModeEnabled();
+  if (!postgresUrl) {
+    if (strictMode) {
+      throw new Error("storage-postgres-smoke: STORAGE_POSTGRES_URL is required when STORAGE_SMOKE_STRICT=true");
+    }
+    console.log("storage-postgres-smoke: skipped (STORAGE_POSTGRES_URL not set)");
+    return;
+  }
+
+  const schema = `clawee_smoke_${Date.now()}`;
+  const nodeA = createNodeStore(postgresUrl, schema);
+  const nodeB = createNodeStore(postgresUrl, schema);
+  await nodeA.init();
+  await nodeB.init();
+
+  try {
+    const policy = { hourlyUsdCap: 0.01, dailyUsdCap: 1 };
+    const pricingPath = path.join(projectRoot, "config", "pricing.v1.json");
+    const budgetA = new BudgetController(policy, pricingPath, nodeA);
+    const budgetB = new BudgetController(policy, pricingPath, nodeB);
+    await Promise.all([budgetA.init(), budgetB.init()]);
+    await budgetA.init();
+    const budgetMigrations = await nodeA.all(
+      "SELECT version FROM schema_migrations WHERE component = ? ORDER BY version",
+      ["budget"],
+    );
+    assert.deepEqual(
+      budgetMigrations.map((row) => Number(row.version)),
+      [1, 2],
+    );
+
+    const estimate = budgetA.estimateCost("gpt-4.1-mini", 10000, 0);
+    const decisions = await Promise.all(
+      Array.from({ length: 6 }, (_, index) =>
+        (index % 2 === 0 ? budgetA : budgetB).evaluateProjected(estimate, {}, { reserve: true }),
+      ),
+    );
+    const allowed = decisions.filter((decision) => decision.decision === "allow");
+    assert.equal(allowed.length, 2);
+    assert.equal((await budgetB.getStatus()).suspended, true);
+    await budgetA.recordActual({ ...estimate, requestPath: "/v1/responses", reservationId: allowed[0].reservationId });
+    await budgetB.releaseReservation(allowed[1].reservationId);
+    assert.ok(Math.abs((await budgetB.getStatus()).hourlyUsd - estimate.estimatedUsd) < 1e-9);
+    await budgetA.resume("storage-smoke");
+    assert.equal((await budgetB.getStatus()).suspended, false);
+
+    const approvalsA = new ApprovalService(nodeA);
+    const approvalsB = new ApprovalService(nodeB);
+    await Promise.all([approvalsA.init(), approvalsB.init()]);
+    const createInput = {
+      requestFingerprint: `storage-smoke-${schema}`,
+      reason: "storage smoke",
+      metadata: { path: "/v1/responses" },
+      ttlSeconds: 600,
+      requiredApprovals: 2,
+      requiredRoles: [],
+      maxUses: 1,
+    };
+    const [createdA, createdB] = await Promise.all([
+      approvalsA.getOrCreatePending(createInput),
+      approvalsB.getOrCreatePending(createInput),
+    ]);
+    assert.equal(createdA.record.id, createdB.record.id);
+    assert.equal([createdA.created, createdB.created].filter(Boolean).length, 1);
+    const approvalId = createdA.record.id;
+    await Promise.all([
+      approvalsA.approve(approvalId, "approver-a", "approver"),
+      approvalsB.approve(approvalId, "approver-b", "approver"),
+    ]);
+    assert.equal((await approvalsA.getById(approvalId)).status, "approved");
+    const consumed = await Promise.all([
+      approvalsA.consumeApproved(approvalId, createInput.requestFingerprint),
+      approvalsB.consumeApproved(approvalId, createInput.requestFingerprint),
+    ]);
+    assert.deepEqual(consumed.filter(Boolean), [true]);
+
+    const ledgerA = new PostgresAuditLedger(nodeA);
+    const ledgerB = new PostgresAuditLedger(nodeB);
+    await Promise.all([ledgerA.init(), ledgerB.init()]);
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        (index % 2 === 0 ? ledgerA : ledgerB).logAndSignAction("SYSTEM_ERROR", { module: "storage-smoke", index }),
+      ),
+    );
+    assert.equal(await ledgerB.getCount(), 10);
+    const integrity = await ledgerA.verifyIntegrity();
+    assert.equal(integrity.valid, true);
+    assert.equal((await ledgerB.getRecent(1))[0].id, 10);
+    await Promise.all([ledgerA.close(), ledgerB.close()]);
+
+    console.log("storage-postgres-smoke: ok", nodeA.getState());
+  } finally {
+    await nodeA.exec(`DROP SCHEMA IF EXISTS "${schema}" CASCADE`).catch(() => undefined);
+    await nodeA.close();
+    await nodeB.close();
+  }
+}
+
+main().catch((error) => {
+  console.error("storage-postgres-smoke: failed", error);
+  process.exit(1);
+});